@@ -12,6 +12,9 @@ import NotFound from "./pages/NotFound";
 import Suppliers from "./pages/Suppliers";
 import CostCenters from "./pages/CostCenters";
 import AccountsPayable from "./pages/AccountsPayable";
+import RecurringAccounts from "./pages/RecurringAccounts";
+import BankReconciliation from "./pages/BankReconciliation";
+import PaymentRemittances from "./pages/PaymentRemittances";
 import Users from "./pages/Users";
 import Stores from "./pages/Stores";
 import Products from "./pages/Products";
@@ -24,6 +27,7 @@ import PaymentMethods from "./pages/PaymentMethods";
 import SalesHistory from "./pages/SalesHistory";
 import AccountsReceivable from "./pages/AccountsReceivable";
 import CashRegisterClosing from "./pages/CashRegisterClosing";
+import CashFlow from "./pages/CashFlow";
 
 const queryClient = new QueryClient();
 
@@ -43,6 +47,10 @@ const App = () => (
             }>
               <Route index element={<Index />} />
               <Route path="accounts" element={<AccountsPayable />} />
+              <Route path="accounts/recurring" element={<RecurringAccounts />} />
+              <Route path="accounts/reconciliation" element={<BankReconciliation />} />
+              <Route path="accounts/remittances" element={<PaymentRemittances />} />
+              <Route path="cash-flow" element={<CashFlow />} />
               <Route path="suppliers" element={<Suppliers />} />
               <Route path="cost-centers" element={<CostCenters />} />
               <Route path="stores" element={<Stores />} />
@@ -12,9 +12,11 @@ interface BarcodeScannerProps {
   isOpen: boolean;
   onClose: () => void;
   onScan: (result: string) => void;
+  // 'qrcode' reads PIX BR Codes and returns the raw text instead of the boleto digits
+  mode?: 'barcode' | 'qrcode';
 }
 
-export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps) => {
+export const BarcodeScanner = ({ isOpen, onClose, onScan, mode = 'barcode' }: BarcodeScannerProps) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
@@ -98,13 +100,15 @@ export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps)
 
       await stopStreamsOnly();
 
-      // Hints focando em formatos de boleto
+      // Hints focando em formatos de boleto (ou QR Code do PIX)
       const hints = new Map();
-      hints.set(DecodeHintType.POSSIBLE_FORMATS, [
-        BarcodeFormat.ITF,
-        BarcodeFormat.CODE_128,
-        BarcodeFormat.CODE_39,
-      ]);
+      hints.set(DecodeHintType.POSSIBLE_FORMATS, mode === 'qrcode'
+        ? [BarcodeFormat.QR_CODE]
+        : [
+            BarcodeFormat.ITF,
+            BarcodeFormat.CODE_128,
+            BarcodeFormat.CODE_39,
+          ]);
       hints.set(DecodeHintType.TRY_HARDER, true);
 
       const codeReader = new BrowserMultiFormatReader(hints);
@@ -210,6 +214,10 @@ export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps)
           if (result) {
             const decodedText = result.getText();
             console.log('✅ Código detectado (ROI):', decodedText);
+            if (mode === 'qrcode') {
+              handleDetected(String(decodedText).trim());
+              return;
+            }
             const clean = String(decodedText).replace(/\D/g, '');
             if (clean.length === 44 || clean.length === 47) {
               handleDetected(clean);
@@ -233,7 +241,7 @@ export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps)
     onScan(cleanCode);
     toast({
       title: 'Código escaneado com sucesso!',
-      description: `Código de ${cleanCode.length} dígitos detectado.`,
+      description: mode === 'qrcode' ? 'QR Code lido.' : `Código de ${cleanCode.length} dígitos detectado.`,
     });
     stopAll();
     onClose();
@@ -367,7 +375,7 @@ export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps)
                 )}
                 <div className="text-center">
                   <p className="text-sm font-medium text-primary">
-                    📷 Centralize o código de barras na área destacada
+                    📷 Centralize o {mode === 'qrcode' ? 'QR Code' : 'código de barras'} na área destacada
                   </p>
                   <p className="text-xs text-muted-foreground">
                     Mantenha bem iluminado e estável
@@ -427,7 +435,7 @@ export const BarcodeScanner = ({ isOpen, onClose, onScan }: BarcodeScannerProps)
           <DialogTitle className="flex items-center justify-between text-lg">
             <div className="flex items-center gap-2">
               <Camera className="h-5 w-5" />
-              Escanear Código de Barras
+              {mode === 'qrcode' ? 'Escanear QR Code' : 'Escanear Código de Barras'}
             </div>
             <Button
               variant="ghost"
@@ -1,7 +1,7 @@
 import { Outlet, Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
-import { LayoutDashboard, FileText, Building2, MapPin, LogOut, Users, Menu, Store, Package, Warehouse, UserCheck, ShoppingCart, CreditCard, ShoppingBag, Receipt, Calculator } from 'lucide-react';
+import { LayoutDashboard, FileText, Building2, MapPin, LogOut, Users, Menu, Store, Package, Warehouse, UserCheck, ShoppingCart, CreditCard, ShoppingBag, Receipt, Calculator, TrendingUp } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useState, useEffect } from 'react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
@@ -52,6 +52,10 @@ const Layout = () => {
     { name: 'Centros de Custo', href: '/cost-centers', icon: MapPin },
   ];
 
+  if (hasRole('admin') || hasRole('pagador')) {
+    navigation.splice(2, 0, { name: 'Fluxo de Caixa', href: '/cash-flow', icon: TrendingUp });
+  }
+
   // Menus de Lojas, Produtos e Estoque (apenas para quem tem acesso)
   if (hasRole('admin') || hasRole('operador')) {
     navigation.push({ name: 'Lojas', href: '/stores', icon: Store });
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,10 +10,21 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Separator } from '@/components/ui/separator';
-import { Upload, X, ScanBarcode } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Upload, X, ScanBarcode, QrCode, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { onlyDigits, parseBoleto } from '@/lib/boleto';
+import { parsePixBrCode } from '@/lib/pix';
+import { findDuplicateAccounts, getDuplicateReasonLabel, type DuplicateAccount } from '@/lib/duplicateAccounts';
+import { buildInstallmentSchedule } from '@/lib/receivables';
+import { flattenCostCenterTree } from '@/lib/costCenterTree';
+import { findBudgetOverruns, formatMonth, type BudgetOverrun } from '@/lib/costCenterBudgets';
+import { InstallmentsEditor, type InstallmentDraft } from './InstallmentsEditor';
 
 const baseAccountSchema = z.object({
   supplier_id: z.string().min(1, 'Fornecedor é obrigatório'),
@@ -21,6 +33,7 @@ const baseAccountSchema = z.object({
   description: z.string().min(1, 'Descrição é obrigatória'),
   amount: z.string().min(1, 'Valor é obrigatório'),
   due_date: z.string().min(1, 'Data de vencimento é obrigatória'),
+  invoice_number: z.string().optional(),
   observations: z.string().optional(),
 });
 
@@ -31,6 +44,9 @@ const accountSchema = baseAccountSchema.extend({
   // Campos condicionais para PIX
   pix_key: z.string().optional(),
   pix_receiver_name: z.string().optional(),
+  pix_payload: z.string().optional(),
+  pix_city: z.string().optional(),
+  pix_txid: z.string().optional(),
   
   // Campos condicionais para TRANSFERÊNCIA
   transfer_bank: z.string().optional(),
@@ -45,10 +61,26 @@ const accountSchema = baseAccountSchema.extend({
   card_operation: z.string().optional(),
   card_last_digits: z.string().optional(),
   card_operator: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.payment_type === 'boleto' && data.boleto_barcode?.trim()) {
+    const result = parseBoleto(data.boleto_barcode);
+    if (result.error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['boleto_barcode'], message: result.error });
+    }
+  }
+  if (data.payment_type === 'pix' && data.pix_payload?.trim()) {
+    const result = parsePixBrCode(data.pix_payload);
+    if (result.error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pix_payload'], message: result.error });
+    }
+  }
 });
 
 type AccountFormData = z.infer<typeof accountSchema>;
 
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
 interface AccountFormProps {
   onSuccess: () => void;
   initialData?: any;
@@ -60,6 +92,14 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
   const [loading, setLoading] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
   const [showScanner, setShowScanner] = useState(false);
+  const [showPixScanner, setShowPixScanner] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateAccount[]>([]);
+  const [pendingData, setPendingData] = useState<AccountFormData | null>(null);
+  const [isInstallment, setIsInstallment] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('3');
+  const [installmentInterval, setInstallmentInterval] = useState('30');
+  const [installments, setInstallments] = useState<InstallmentDraft[]>([]);
+  const [budgetOverruns, setBudgetOverruns] = useState<BudgetOverrun[]>([]);
   const { toast } = useToast();
 
   const form = useForm<AccountFormData>({
@@ -75,10 +115,14 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
           maximumFractionDigits: 2,
         }) : '',
       due_date: initialData?.due_date || '',
+      invoice_number: initialData?.invoice_number || '',
       observations: initialData?.observations || '',
       boleto_barcode: initialData?.boleto_barcode || '',
       pix_key: initialData?.pix_key || '',
       pix_receiver_name: initialData?.pix_receiver_name || '',
+      pix_payload: initialData?.pix_payload || '',
+      pix_city: initialData?.pix_city || '',
+      pix_txid: initialData?.pix_txid || '',
       transfer_bank: initialData?.transfer_bank || '',
       transfer_agency: initialData?.transfer_agency || '',
       transfer_account: initialData?.transfer_account || '',
@@ -94,6 +138,9 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
 
   const paymentType = form.watch('payment_type');
   const supplierId = form.watch('supplier_id');
+  const amount = form.watch('amount');
+  const dueDate = form.watch('due_date');
+  const costCenterId = form.watch('cost_center_id');
 
   useEffect(() => {
     fetchSuppliers();
@@ -111,6 +158,61 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
     }
   }, [paymentType, supplierId, suppliers, form, initialData]);
 
+  const parseFormAmount = (amount: string) => parseFloat(amount.replace(/\./g, '').replace(',', '.'));
+
+  // Rebuilds the schedule from the total and 1st due date; rows can be edited afterwards
+  useEffect(() => {
+    if (!isInstallment) return;
+
+    const count = Number(installmentCount);
+    if (!dueDate || !Number.isInteger(count) || count < 2 || count > 60) {
+      setInstallments([]);
+      return;
+    }
+
+    const schedule = buildInstallmentSchedule(
+      parseFormAmount(amount || '0'),
+      count,
+      new Date(dueDate + 'T12:00:00'),
+      Number(installmentInterval) || 30
+    );
+    setInstallments(schedule.map(installment => ({
+      amount: installment.amount.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+      due_date: format(installment.dueDate, 'yyyy-MM-dd'),
+      boleto_barcode: '',
+    })));
+  }, [isInstallment, installmentCount, installmentInterval, amount, dueDate]);
+
+  // Warns (without blocking) when the account takes its cost center over the month's budget
+  useEffect(() => {
+    if (!costCenterId) {
+      setBudgetOverruns([]);
+      return;
+    }
+
+    const entries = isInstallment && !initialData
+      ? installments.map(installment => ({ amount: parseFormAmount(installment.amount), dueDate: installment.due_date }))
+      : [{ amount: parseFormAmount(amount || '0'), dueDate }];
+    const replaced = initialData
+      ? { costCenterId: initialData.cost_center_id, amount: Number(initialData.amount), dueDate: initialData.due_date }
+      : null;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const overruns = await findBudgetOverruns(costCenterId, entries, replaced);
+        if (!cancelled) setBudgetOverruns(overruns);
+      } catch (error) {
+        console.error('Erro ao verificar orçamento do centro de custo:', error);
+      }
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [costCenterId, amount, dueDate, isInstallment, installments, initialData]);
+
   const fetchSuppliers = async () => {
     try {
       const { data, error } = await supabase
@@ -130,7 +232,7 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
     try {
       const { data, error } = await supabase
         .from('cost_centers')
-        .select('id, name, code')
+        .select('id, name, code, parent_id')
         .eq('active', true)
         .order('name');
 
@@ -163,11 +265,122 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Splitting only applies when creating; an existing installment is edited on its own
+  const isSplitting = isInstallment && !initialData;
+
+  const getInstallmentError = (data: AccountFormData): string | null => {
+    if (installments.length < 2) return 'Informe de 2 a 60 parcelas e o 1º vencimento';
+    if (!data.invoice_number?.trim()) return 'Informe o número da nota fiscal para agrupar as parcelas';
+
+    for (let i = 0; i < installments.length; i++) {
+      const installment = installments[i];
+      if (!installment.due_date) return `Informe o vencimento da parcela ${i + 1}`;
+      if (parseFormAmount(installment.amount) <= 0) return `Informe o valor da parcela ${i + 1}`;
+      if (data.payment_type === 'boleto' && installment.boleto_barcode.trim()) {
+        const { error } = parseBoleto(installment.boleto_barcode);
+        if (error) return `Boleto da parcela ${i + 1}: ${error}`;
+      }
+    }
+
+    const sum = installments.reduce((acc, installment) => acc + parseFormAmount(installment.amount), 0);
+    if (Math.abs(sum - parseFormAmount(data.amount)) >= 0.01) {
+      return 'A soma das parcelas deve ser igual ao valor total';
+    }
+
+    return null;
+  };
+
   const onSubmit = async (data: AccountFormData) => {
+    if (isSplitting) {
+      const installmentError = getInstallmentError(data);
+      if (installmentError) {
+        toast({
+          title: "Parcelamento inválido",
+          description: installmentError,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      const checks = isSplitting
+        ? installments.map(installment => ({
+            boletoBarcode: data.payment_type === 'boleto' ? installment.boleto_barcode : null,
+            supplierId: data.supplier_id,
+            amount: parseFormAmount(installment.amount),
+            dueDate: installment.due_date,
+          }))
+        : [{
+            boletoBarcode: data.payment_type === 'boleto' ? data.boleto_barcode : null,
+            supplierId: data.supplier_id,
+            amount: parseFormAmount(data.amount),
+            dueDate: data.due_date,
+            excludeId: initialData?.id,
+          }];
+
+      const found: DuplicateAccount[] = [];
+      for (const check of checks) {
+        for (const duplicate of await findDuplicateAccounts(check)) {
+          if (!found.some(d => d.id === duplicate.id)) found.push(duplicate);
+        }
+      }
+
+      if (found.length > 0) {
+        setDuplicates(found);
+        setPendingData(data);
+        setLoading(false);
+        return;
+      }
+    } catch (error) {
+      console.error('Erro ao verificar duplicidade:', error);
+    }
+
+    await saveAccount(data);
+  };
+
+  const handleConfirmDuplicate = () => {
+    const data = pendingData;
+    setDuplicates([]);
+    setPendingData(null);
+    if (data) saveAccount(data);
+  };
+
+  const uploadAttachments = async (accountId: string, description: string) => {
+    for (const file of attachments) {
+      const fileName = `${accountId}/${Date.now()}-${file.name}`;
+      
+      const { error: uploadError } = await supabase.storage
+        .from('attachments')
+        .upload(fileName, file);
+
+      if (uploadError) {
+        console.error('Erro ao fazer upload:', uploadError);
+        continue;
+      }
+
+      // Save attachment record
+      await supabase
+        .from('attachments')
+        .insert([{
+          account_id: accountId,
+          filename: file.name,
+          file_path: fileName,
+          mime_type: file.type,
+          file_size: file.size,
+          file_category: 'account_document',
+          description: `Anexo da conta: ${description}`,
+          uploaded_by: (await supabase.auth.getUser()).data.user?.id,
+        }]);
+    }
+  };
+
+  const saveAccount = async (data: AccountFormData) => {
     setLoading(true);
     try {
       // Converter valor formatado de volta para número
-      const numericAmount = parseFloat(data.amount.replace(/\./g, '').replace(',', '.'));
+      const numericAmount = parseFormAmount(data.amount);
       
       const accountData = {
         supplier_id: data.supplier_id,
@@ -176,10 +389,14 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
         description: data.description,
         amount: numericAmount,
         due_date: data.due_date,
+        invoice_number: data.invoice_number?.trim() || null,
         observations: data.observations || null,
         boleto_barcode: data.payment_type === 'boleto' ? data.boleto_barcode : null,
         pix_key: data.payment_type === 'pix' ? data.pix_key : null,
         pix_receiver_name: data.payment_type === 'pix' ? data.pix_receiver_name : null,
+        pix_payload: data.payment_type === 'pix' ? data.pix_payload?.trim() || null : null,
+        pix_city: data.payment_type === 'pix' ? data.pix_city || null : null,
+        pix_txid: data.payment_type === 'pix' ? data.pix_txid || null : null,
         transfer_bank: data.payment_type === 'transferencia' ? data.transfer_bank : null,
         transfer_agency: data.payment_type === 'transferencia' ? data.transfer_agency : null,
         transfer_account: data.payment_type === 'transferencia' ? data.transfer_account : null,
@@ -193,6 +410,31 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
         created_by: (await supabase.auth.getUser()).data.user?.id,
       };
 
+      if (isSplitting) {
+        const installmentGroupId = crypto.randomUUID();
+        const { data: created, error } = await supabase
+          .from('accounts_payable')
+          .insert(installments.map((installment, index) => ({
+            ...accountData,
+            amount: parseFormAmount(installment.amount),
+            due_date: installment.due_date,
+            boleto_barcode: data.payment_type === 'boleto' ? installment.boleto_barcode.trim() || null : null,
+            installment_group_id: installmentGroupId,
+            installment_number: index + 1,
+            installment_count: installments.length,
+          })))
+          .select();
+
+        if (error) throw error;
+
+        for (const account of created || []) {
+          await uploadAttachments(account.id, data.description);
+        }
+
+        onSuccess();
+        return;
+      }
+
       const { data: account, error } = initialData 
         ? await supabase
             .from('accounts_payable')
@@ -208,34 +450,8 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
 
       if (error) throw error;
 
-      // Upload attachments if any
-      if (attachments.length > 0 && account) {
-        for (const file of attachments) {
-          const fileName = `${account.id}/${Date.now()}-${file.name}`;
-          
-          const { error: uploadError } = await supabase.storage
-            .from('attachments')
-            .upload(fileName, file);
-
-          if (uploadError) {
-            console.error('Erro ao fazer upload:', uploadError);
-            continue;
-          }
-
-          // Save attachment record
-          await supabase
-            .from('attachments')
-            .insert([{
-              account_id: account.id,
-              filename: file.name,
-              file_path: fileName,
-              mime_type: file.type,
-              file_size: file.size,
-              file_category: 'account_document',
-              description: `Anexo da conta: ${data.description}`,
-              uploaded_by: (await supabase.auth.getUser()).data.user?.id,
-            }]);
-        }
+      if (account) {
+        await uploadAttachments(account.id, data.description);
       }
 
       onSuccess();
@@ -260,110 +476,31 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
     return formattedValue;
   };
 
-  const parseBoletoBarcode = (barcode: string) => {
-    try {
-      // Remove espaços e caracteres não numéricos
-      const cleanBarcode = barcode.replace(/\D/g, '');
-      
-      // Verifica se é linha digitável (47 dígitos) ou código de barras (44 dígitos)
-      if (cleanBarcode.length === 47) {
-        // Linha digitável
-        const dueDate = extractDueDateFromDigitableLine(cleanBarcode);
-        const amount = extractAmountFromDigitableLine(cleanBarcode);
-        return { dueDate, amount };
-      } else if (cleanBarcode.length === 44) {
-        // Código de barras
-        const dueDate = extractDueDateFromBarcode(cleanBarcode);
-        const amount = extractAmountFromBarcode(cleanBarcode);
-        return { dueDate, amount };
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Erro ao processar boleto:', error);
-      return null;
-    }
-  };
-
-  const extractDueDateFromDigitableLine = (line: string) => {
-    // Na linha digitável, o fator de vencimento está no campo 5 (últimos 14 dígitos)
-    // Posições 0-3 do campo 5 contêm o fator de vencimento
-    const campo5 = line.slice(-14); // Últimos 14 dígitos
-    const dueFactor = parseInt(campo5.substring(0, 4));
-    if (dueFactor === 0) return null;
-    
-    let dueDate: Date;
-    
-    // Lógica do fator de vencimento com reinício em 2025
-    if (dueFactor >= 1000) {
-      // A partir de 22/02/2025: data = 22/02/2025 + (fator - 1000) dias
-      const newBaseDate = new Date(2025, 1, 22); // Fevereiro é mês 1 (0-indexado)
-      dueDate = new Date(newBaseDate.getTime() + ((dueFactor - 1000) * 24 * 60 * 60 * 1000));
-    } else {
-      // Até 21/02/2025: data = 07/10/1997 + fator dias
-      const oldBaseDate = new Date(1997, 9, 7); // Outubro é mês 9 (0-indexado)
-      dueDate = new Date(oldBaseDate.getTime() + (dueFactor * 24 * 60 * 60 * 1000));
-    }
-    
-    // Garantir que retorna no formato correto para input date (YYYY-MM-DD)
-    const year = dueDate.getFullYear();
-    const month = String(dueDate.getMonth() + 1).padStart(2, '0');
-    const day = String(dueDate.getDate()).padStart(2, '0');
-    
-    return `${year}-${month}-${day}`;
-  };
-
-  const extractAmountFromDigitableLine = (line: string) => {
-    // Na linha digitável, o valor está no campo 5 (últimos 14 dígitos)
-    // Posições 4-13 do campo 5 contêm o valor em centavos
-    const campo5 = line.slice(-14); // Últimos 14 dígitos
-    const amountStr = campo5.substring(4, 14); // Posições 4-13 do campo 5
-    const amount = parseInt(amountStr) / 100;
-    
-    return amount > 0 ? amount.toFixed(2).replace('.', ',') : null;
-  };
-
-  const extractDueDateFromBarcode = (barcode: string) => {
-    // Extrai o fator de vencimento do código de barras (posições 5-8)
-    const dueFactor = parseInt(barcode.substring(5, 9));
-    if (dueFactor === 0) return null;
-    
-    // Data base: 07/10/1997
-    const baseDate = new Date(1997, 9, 7);
-    const dueDate = new Date(baseDate.getTime() + (dueFactor * 24 * 60 * 60 * 1000));
-    
-    return dueDate.toISOString().split('T')[0];
-  };
-
-  const extractAmountFromBarcode = (barcode: string) => {
-    // Extrai o valor do código de barras (posições 9-18)
-    const amountStr = barcode.substring(9, 19);
-    const amount = parseInt(amountStr) / 100;
-    
-    return amount > 0 ? amount.toFixed(2).replace('.', ',') : null;
-  };
-
   const handleBoletoChange = (value: string) => {
     form.setValue('boleto_barcode', value);
+    form.clearErrors('boleto_barcode');
     
-    if (value.length >= 44) {
-      const parsedData = parseBoletoBarcode(value);
-      if (parsedData) {
-        if (parsedData.dueDate) {
-          form.setValue('due_date', parsedData.dueDate);
+    if (onlyDigits(value).length >= 44) {
+      const result = parseBoleto(value);
+      if (result.boleto) {
+        if (result.boleto.dueDate) {
+          form.setValue('due_date', result.boleto.dueDate);
         }
-        if (parsedData.amount) {
-          form.setValue('amount', parsedData.amount);
+        if (result.boleto.amount) {
+          form.setValue('amount', result.boleto.amount.toFixed(2).replace('.', ','));
         }
         
         toast({
           title: "Boleto processado",
-          description: "Valor e data de vencimento extraídos automaticamente",
+          description: result.boleto.kind === 'arrecadacao'
+            ? "Valor extraído da guia de convênio. Informe a data de vencimento."
+            : "Valor e data de vencimento extraídos automaticamente",
         });
       } else {
+        form.setError('boleto_barcode', { message: result.error });
         toast({
-          title: "Aviso",
-          description: "Não foi possível extrair os dados do boleto. Preencha manualmente.",
+          title: "Boleto inválido",
+          description: result.error,
           variant: "destructive",
         });
       }
@@ -375,6 +512,45 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
     setShowScanner(false);
   };
 
+  // Parses once the payload is complete, i.e. ends with the CRC field
+  const handlePixPayloadChange = (value: string) => {
+    form.setValue('pix_payload', value);
+    form.clearErrors('pix_payload');
+
+    if (!/6304[0-9A-Fa-f]{4}$/.test(value.trim())) return;
+
+    const { brCode, error } = parsePixBrCode(value);
+    if (!brCode) {
+      form.setError('pix_payload', { message: error || undefined });
+      toast({
+        title: "PIX inválido",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    form.setValue('pix_key', brCode.key || '');
+    form.setValue('pix_receiver_name', brCode.receiverName);
+    form.setValue('pix_city', brCode.city);
+    form.setValue('pix_txid', brCode.txid || '');
+    if (brCode.amount) {
+      form.setValue('amount', brCode.amount.toFixed(2).replace('.', ','));
+    }
+
+    toast({
+      title: "PIX processado",
+      description: brCode.key
+        ? "Chave, recebedor e valor extraídos automaticamente"
+        : "QR Code dinâmico: a chave será obtida pelo banco no momento do pagamento",
+    });
+  };
+
+  const handlePixScanResult = (scannedCode: string) => {
+    handlePixPayloadChange(scannedCode);
+    setShowPixScanner(false);
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -423,9 +599,9 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {costCenters.map((center: any) => (
+                        {flattenCostCenterTree(costCenters).map(({ center, depth }) => (
                           <SelectItem key={center.id} value={center.id}>
-                            {center.code} - {center.name}
+                            <span style={{ paddingLeft: depth * 12 }}>{center.code} - {center.name}</span>
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -436,6 +612,22 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
               />
             </div>
 
+            {budgetOverruns.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Orçamento do centro de custo excedido</AlertTitle>
+                <AlertDescription>
+                  {budgetOverruns.map(overrun => (
+                    <p key={overrun.month}>
+                      <span className="capitalize">{formatMonth(overrun.month)}</span>: restam{' '}
+                      {formatMoney(Math.max(overrun.remaining, 0))} de {formatMoney(overrun.budget)} e esta conta
+                      soma {formatMoney(overrun.added)}.
+                    </p>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <FormField
               control={form.control}
               name="description"
@@ -479,7 +671,7 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
 
 
         {/* Campos Específicos por Tipo de Pagamento */}
-        {paymentType === 'boleto' && (
+        {paymentType === 'boleto' && !isSplitting && (
           <Card>
             <CardHeader>
               <CardTitle>Dados do Boleto</CardTitle>
@@ -531,6 +723,43 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
               <CardTitle>Dados do PIX</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="pix_payload"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>PIX Copia e Cola</FormLabel>
+                    <div className="space-y-2">
+                      <div className="flex gap-2">
+                        <FormControl className="flex-1">
+                          <Textarea
+                            {...field}
+                            placeholder="Cole aqui o código PIX copia e cola (opcional)"
+                            onChange={(e) => handlePixPayloadChange(e.target.value)}
+                            className="resize-none font-mono text-xs"
+                            rows={3}
+                          />
+                        </FormControl>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setShowPixScanner(true)}
+                          className="shrink-0"
+                          title="Escanear QR Code PIX"
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Chave, recebedor, cidade, valor e identificador são preenchidos a partir do código
+                      </p>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="pix_key"
@@ -558,6 +787,36 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
                   </FormItem>
                 )}
               />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="pix_city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cidade do Recebedor</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="pix_txid"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Identificador (txid)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
             </CardContent>
           </Card>
         )}
@@ -769,7 +1028,7 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
                 name="amount"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Valor *</FormLabel>
+                    <FormLabel>{isSplitting ? 'Valor Total *' : 'Valor *'}</FormLabel>
                     <FormControl>
                       <Input 
                         {...field}
@@ -790,7 +1049,7 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
                 name="due_date"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Data de Vencimento *</FormLabel>
+                    <FormLabel>{isSplitting ? '1º Vencimento *' : 'Data de Vencimento *'}</FormLabel>
                     <FormControl>
                       <Input type="date" {...field} />
                     </FormControl>
@@ -800,6 +1059,51 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="invoice_number"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nº da Nota Fiscal{isSplitting ? ' *' : ''}</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Número da NF / fatura" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!initialData && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="split-installments">Parcelar</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Divide o valor total em parcelas (ex: 30/60/90 dias), uma conta por parcela
+                    </p>
+                  </div>
+                  <Switch
+                    id="split-installments"
+                    checked={isInstallment}
+                    onCheckedChange={setIsInstallment}
+                  />
+                </div>
+
+                {isInstallment && (
+                  <InstallmentsEditor
+                    installments={installments}
+                    onChange={setInstallments}
+                    total={parseFormAmount(amount || '0')}
+                    showBoleto={paymentType === 'boleto'}
+                    count={installmentCount}
+                    onCountChange={setInstallmentCount}
+                    intervalDays={installmentInterval}
+                    onIntervalDaysChange={setInstallmentInterval}
+                  />
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="observations"
@@ -864,7 +1168,7 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
 
         <div className="flex justify-end gap-4">
           <Button type="submit" disabled={loading}>
-            {loading ? 'Salvando...' : (initialData ? 'Atualizar Conta' : 'Salvar Conta')}
+            {loading ? 'Salvando...' : (initialData ? 'Atualizar Conta' : isSplitting ? `Salvar ${installments.length} Parcelas` : 'Salvar Conta')}
           </Button>
         </div>
       </form>
@@ -874,6 +1178,49 @@ export const AccountForm = ({ onSuccess, initialData }: AccountFormProps) => {
         onClose={() => setShowScanner(false)}
         onScan={handleScanResult}
       />
+
+      <BarcodeScanner
+        isOpen={showPixScanner}
+        onClose={() => setShowPixScanner(false)}
+        onScan={handlePixScanResult}
+        mode="qrcode"
+      />
+
+      <AlertDialog
+        open={duplicates.length > 0}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDuplicates([]);
+            setPendingData(null);
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possível conta duplicada</AlertDialogTitle>
+            <AlertDialogDescription>
+              Já existe{duplicates.length > 1 ? 'm' : ''} {duplicates.length} conta{duplicates.length > 1 ? 's' : ''} parecida{duplicates.length > 1 ? 's' : ''} cadastrada{duplicates.length > 1 ? 's' : ''}. Deseja salvar mesmo assim?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {duplicates.map((duplicate) => (
+              <div key={duplicate.id} className="rounded border p-2 text-sm">
+                <p className="font-medium">{duplicate.supplier?.name || '-'} - {duplicate.description}</p>
+                <p className="text-muted-foreground">
+                  R$ {Number(duplicate.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })} • Venc. {new Date(duplicate.due_date + 'T12:00:00').toLocaleDateString('pt-BR')} • {duplicate.status === 'pago' ? 'Pago' : 'Em aberto'}
+                </p>
+                <p className="text-xs text-amber-600">{getDuplicateReasonLabel(duplicate.reason)}</p>
+              </div>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDuplicate}>
+              Salvar mesmo assim
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Form>
   );
 };
\ No newline at end of file
@@ -10,7 +10,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Clock, User, FileEdit, CreditCard, Plus } from "lucide-react";
+import { Clock, User, FileEdit, CreditCard, Plus, ShieldCheck, ShieldX } from "lucide-react";
 
 interface AuditLog {
   id: string;
@@ -90,7 +90,7 @@ export const AccountHistoryModal = ({ accountId, open, onClose }: AccountHistory
           notes,
           created_at,
           paid_by,
-          profiles:paid_by (
+          profiles:profiles!payments_paid_by_fkey (
             full_name
           )
         `)
@@ -144,6 +144,10 @@ export const AccountHistoryModal = ({ accountId, open, onClose }: AccountHistory
         return <FileEdit className="h-4 w-4 text-blue-600" />;
       case 'DELETE':
         return <CreditCard className="h-4 w-4 text-red-600" />;
+      case 'APPROVE':
+        return <ShieldCheck className="h-4 w-4 text-green-600" />;
+      case 'REJECT':
+        return <ShieldX className="h-4 w-4 text-red-600" />;
       default:
         return <Clock className="h-4 w-4 text-gray-600" />;
     }
@@ -162,6 +166,10 @@ export const AccountHistoryModal = ({ accountId, open, onClose }: AccountHistory
         return 'Editou';
       case 'DELETE':
         return 'Pagou';
+      case 'APPROVE':
+        return 'Aprovou';
+      case 'REJECT':
+        return 'Rejeitou';
       default:
         return log.action;
     }
@@ -179,7 +187,10 @@ export const AccountHistoryModal = ({ accountId, open, onClose }: AccountHistory
       case 'UPDATE':
         return 'bg-blue-100 text-blue-800';
       case 'DELETE':
+      case 'REJECT':
         return 'bg-red-100 text-red-800';
+      case 'APPROVE':
+        return 'bg-green-100 text-green-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -325,6 +336,17 @@ export const AccountHistoryModal = ({ accountId, open, onClose }: AccountHistory
                                 Conta marcada como paga
                               </div>
                             )}
+
+                            {(log.action === 'APPROVE' || log.action === 'REJECT') && (
+                              <div className={`text-sm ${log.action === 'APPROVE' ? 'text-green-700' : 'text-red-700'}`}>
+                                {log.action === 'APPROVE' ? 'Pagamento aprovado' : 'Pagamento rejeitado'}
+                                {log.new_values?.reason && (
+                                  <div className="mt-1 bg-gray-50 p-3 rounded text-gray-900">
+                                    Motivo: {log.new_values.reason}
+                                  </div>
+                                )}
+                              </div>
+                            )}
                           </>
                         );
                       })()}
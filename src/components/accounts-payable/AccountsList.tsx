@@ -7,9 +7,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Edit, Eye, CheckCircle, X, Download, History, Filter, CalendarIcon, Paperclip, ArrowUpDown, ArrowUp, ArrowDown, MoreVertical } from 'lucide-react';
-import { useState, useEffect, useMemo } from 'react';
+import { Edit, Eye, CheckCircle, X, Download, History, Filter, CalendarIcon, Paperclip, ArrowUpDown, ArrowUp, ArrowDown, MoreVertical, ChevronDown, ChevronLeft, ChevronRight, FileDown, ShieldCheck } from 'lucide-react';
+import { Fragment, useState, useEffect, useMemo } from 'react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -17,10 +18,39 @@ import { AccountForm } from './AccountForm';
 import { PaymentModal } from './PaymentModal';
 import { AccountHistoryModal } from './AccountHistoryModal';
 import { AttachmentsModal } from './AttachmentsModal';
+import { RemittanceDialog } from './RemittanceDialog';
+import { ApprovalDialog } from './ApprovalDialog';
+import { PayablesExportMenu } from './PayablesExportMenu';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
+import {
+  ACCOUNT_STATUS_LABELS,
+  APPROVAL_STATUS_LABELS,
+  PAYMENT_TYPE_LABELS,
+  getAccountBalance,
+  isAwaitingApproval,
+  isOpenAccountStatus,
+  type PaymentType
+} from '@/lib/payables';
+import { exportPayables, type ExportFormat } from '@/lib/payablesExport';
+import {
+  fetchAllPayables,
+  fetchPayablesTotals,
+  getDueDateRange,
+  matchDisplayStatuses,
+  matchPaymentTypes,
+  narrowDueDateRange,
+  normalizeAmountFilter,
+  searchPayables,
+  type PayablesFilters,
+  type PayablesSort,
+  type PayablesSortField,
+  type PayablesTotalsRow,
+  type PayablesView
+} from '@/lib/payablesQuery';
+import { flattenCostCenterTree, rollUpCostCenterTotals, type CostCenterTreeItem } from '@/lib/costCenterTree';
 
 interface Attachment {
   id: string;
@@ -36,35 +66,52 @@ interface Account {
   id: string;
   description: string;
   amount: number;
+  paid_amount?: number | null;
   due_date: string;
-  status: 'em_aberto' | 'pago' | 'cancelado';
+  status: 'em_aberto' | 'parcialmente_pago' | 'pago' | 'cancelado';
   payment_type: 'boleto' | 'cartao' | 'transferencia' | 'pix';
   observations?: string;
   suppliers: { name: string };
+  cost_center_id: string;
   cost_centers: { name: string; code: string };
+  invoice_number?: string | null;
+  installment_group_id?: string | null;
+  installment_number?: number | null;
+  installment_count?: number | null;
+  approval_status?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Desktop table rows: installments of the same invoice collapse into one group row
+type ListRow =
+  | { kind: 'account'; account: Account }
+  | { kind: 'group'; groupId: string; accounts: Account[] };
+
+// The page decides the scope (dashboard card or due date range); the list filters, sorts and pages inside it
 interface AccountsListProps {
-  accounts: Account[];
-  loading: boolean;
-  onUpdate: (customDateFromFilter?: Date, customDateUntilFilter?: Date) => void;
+  view?: PayablesView;
+  dueFrom?: string;
+  dueUntil?: string;
+  // Bumped by the page when accounts are created or imported
+  refreshKey?: number;
+  onUpdate: () => void;
   onDateFilterChange?: (customDateFromFilter?: Date, customDateUntilFilter?: Date) => void;
 }
 
-interface Filters {
-  supplier: string;
-  costCenter: string;
-  paymentType: string;
-  status: string;
-  dueDateFrom: Date | undefined;
-  dueDateUntil: Date | undefined;
-}
-
-type SortField = 'description' | 'supplier' | 'cost_center' | 'payment_type' | 'amount' | 'due_date' | 'status';
+type SortField = PayablesSortField;
 type SortDirection = 'asc' | 'desc' | null;
 
+const SORT_FIELD_LABELS: Record<SortField, string> = {
+  description: 'Descrição',
+  supplier: 'Fornecedor',
+  cost_center: 'Centro de Custo',
+  payment_type: 'Tipo',
+  amount: 'Valor',
+  due_date: 'Vencimento',
+  status: 'Status',
+};
+
 interface ColumnFilters {
   description: string;
   supplier: string;
@@ -75,6 +122,29 @@ interface ColumnFilters {
   status: string;
 }
 
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+
+// Typing in the column filters only queries the database after a short pause
+const COLUMN_FILTER_DEBOUNCE_MS = 400;
+
+const EMPTY_COLUMN_FILTERS: ColumnFilters = {
+  description: '',
+  supplier: '',
+  costCenter: '',
+  paymentType: '',
+  amount: '',
+  dueDate: '',
+  status: '',
+};
+
+// Mobile ordering options as database sorts
+const MOBILE_SORTS: Record<'recent' | 'old' | 'high_value' | 'low_value', PayablesSort> = {
+  recent: { field: 'due_date', desc: true },
+  old: { field: 'due_date', desc: false },
+  high_value: { field: 'amount', desc: true },
+  low_value: { field: 'amount', desc: false },
+};
+
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('pt-BR', {
     style: 'currency',
@@ -122,7 +192,7 @@ const formatDate = (dateString: string) => {
   }
 };
 const getStatusLabel = (status: string, dueDate: string) => {
-  if (status === 'em_aberto') {
+  if (isOpenAccountStatus(status)) {
     const today = new Date();
     const todayStr = today.getFullYear() + '-' +
       String(today.getMonth() + 1).padStart(2, '0') + '-' +
@@ -133,17 +203,9 @@ const getStatusLabel = (status: string, dueDate: string) => {
     } else if (dueDate < todayStr) {
       return 'Vencida';
     }
-    return 'Em Aberto';
   }
 
-  switch (status) {
-    case 'pago':
-      return 'Pago';
-    case 'cancelado':
-      return 'Cancelado';
-    default:
-      return status;
-  }
+  return ACCOUNT_STATUS_LABELS[status as keyof typeof ACCOUNT_STATUS_LABELS] || status;
 };
 
 const getPaymentTypeLabel = (type: string) => {
@@ -161,6 +223,18 @@ const getPaymentTypeLabel = (type: string) => {
   }
 };
 
+// Accounts that can go into a CNAB remittance; cards are paid outside the bank file
+const isRemittable = (account: Account) =>
+  isOpenAccountStatus(account.status) && account.payment_type !== 'cartao' && !isAwaitingApproval(account.approval_status);
+
+// Pseudo status used by the status filters to list what still needs an admin's approval
+const AWAITING_APPROVAL_FILTER = 'aguardando_aprovacao';
+
+const getApprovalLabel = (account: Account) =>
+  isOpenAccountStatus(account.status) && isAwaitingApproval(account.approval_status)
+    ? APPROVAL_STATUS_LABELS[account.approval_status as keyof typeof APPROVAL_STATUS_LABELS]
+    : null;
+
 // Adicione esta configuração logo após as interfaces
 const COLUMN_WIDTHS = {
   description: 'w-[250px]', // Largura automática com mínimo
@@ -173,7 +247,14 @@ const COLUMN_WIDTHS = {
   actions: 'w-[80px]', // Largura fixa
 } as const;
 
-export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }: AccountsListProps) => {
+export const AccountsList = ({ view, dueFrom, dueUntil, refreshKey = 0, onUpdate, onDateFilterChange }: AccountsListProps) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [totalsRows, setTotalsRows] = useState<PayablesTotalsRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [exporting, setExporting] = useState(false);
+  const [pageSize, setPageSize] = useState(50);
   const [selectedAccount, setSelectedAccount] = useState<Account | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
@@ -188,183 +269,226 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
   const [mobileFilterDateType, setMobileFilterDateType] = useState<'day' | 'month' | 'year' | 'all'>('all');
   const [mobileFilterDateValue, setMobileFilterDateValue] = useState('');
   const [mobileSortBy, setMobileSortBy] = useState<'recent' | 'old' | 'high_value' | 'low_value'>('recent');
-  const [filters, setFilters] = useState<Filters>({
-    supplier: 'all',
-    costCenter: 'all',
-    paymentType: 'all',
-    status: 'all',
-    dueDateFrom: undefined,
-    dueDateUntil: undefined,
-  });
   const [sortField, setSortField] = useState<SortField | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
-  const [columnFilters, setColumnFilters] = useState<ColumnFilters>({
-    description: '',
-    supplier: '',
-    costCenter: '',
-    paymentType: '',
-    amount: '',
-    dueDate: '',
-    status: '',
-  });
+  const [columnFilters, setColumnFilters] = useState<ColumnFilters>(EMPTY_COLUMN_FILTERS);
+  const [debouncedColumnFilters, setDebouncedColumnFilters] = useState<ColumnFilters>(EMPTY_COLUMN_FILTERS);
+  const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isRemittanceOpen, setIsRemittanceOpen] = useState(false);
+  const [isApprovalOpen, setIsApprovalOpen] = useState(false);
+  const [costCenterTree, setCostCenterTree] = useState<CostCenterTreeItem[]>([]);
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
   const { toast } = useToast();
   const { hasRole } = useAuth();
 
-  // Extract unique values for filter options
-  const filterOptions = useMemo(() => {
-    const suppliers = [...new Set(accounts.map(acc => acc.suppliers?.name).filter(Boolean))];
-    const costCenters = [...new Set(accounts.map(acc => `${acc.cost_centers?.code} - ${acc.cost_centers?.name}`).filter(Boolean))];
-    const paymentTypes = [...new Set(accounts.map(acc => acc.payment_type))];
-    const statuses = [...new Set(accounts.map(acc => acc.status))];
+  const canRemit = hasRole('admin') || hasRole('pagador');
 
-    return { suppliers, costCenters, paymentTypes, statuses };
-  }, [accounts]);
+  useEffect(() => {
+    const fetchCostCenterTree = async () => {
+      const { data, error } = await supabase
+        .from('cost_centers')
+        .select('id, name, code, parent_id');
 
-  // Filter accounts based on selected filters and column filters
-  const filteredAccounts = useMemo(() => {
-    let filtered = accounts.filter(account => {
-      // Existing desktop filters
-      if (filters.supplier !== 'all' && account.suppliers?.name !== filters.supplier) {
-        return false;
-      }
-      if (filters.costCenter !== 'all' && `${account.cost_centers?.code} - ${account.cost_centers?.name}` !== filters.costCenter) {
-        return false;
-      }
-      if (filters.paymentType !== 'all' && account.payment_type !== filters.paymentType) {
-        return false;
+      if (error) {
+        console.error('Erro ao carregar centros de custo:', error);
+        return;
       }
-      if (filters.status !== 'all' && account.status !== filters.status) {
-        return false;
-      }
-      if (filters.dueDateFrom || filters.dueDateUntil) {
-        const accountDate = new Date(account.due_date);
-        accountDate.setHours(0, 0, 0, 0);
-
-        if (filters.dueDateFrom) {
-          const fromDate = new Date(filters.dueDateFrom);
-          fromDate.setHours(0, 0, 0, 0);
-          if (accountDate < fromDate) {
-            return false;
-          }
-        }
+      setCostCenterTree(data || []);
+    };
 
-        if (filters.dueDateUntil) {
-          const untilDate = new Date(filters.dueDateUntil);
-          untilDate.setHours(23, 59, 59, 999);
-          if (accountDate > untilDate) {
-            return false;
-          }
-        }
-      }
+    const fetchSuppliers = async () => {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .order('name');
 
-      // Mobile filters
-      if (mobileFilterStatus !== 'all' && account.status !== mobileFilterStatus) {
-        return false;
-      }
-      if (mobileFilterSupplier !== 'all' && account.suppliers?.name !== mobileFilterSupplier) {
-        return false;
-      }
-      if (mobileFilterPaymentType !== 'all' && account.payment_type !== mobileFilterPaymentType) {
-        return false;
+      if (error) {
+        console.error('Erro ao carregar fornecedores:', error);
+        return;
       }
+      setSuppliers(data || []);
+    };
+
+    fetchCostCenterTree();
+    fetchSuppliers();
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedColumnFilters(columnFilters), COLUMN_FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [columnFilters]);
+
+  const costCenterTreeRows = useMemo(() => flattenCostCenterTree(costCenterTree), [costCenterTree]);
 
-      // Mobile date filters
-      if (mobileFilterDateType !== 'all' && mobileFilterDateValue) {
-        const [year, month, day] = account.due_date.split('-');
-        if (mobileFilterDateType === 'day') {
-          return `${day}/${month}/${year}` === mobileFilterDateValue;
-        } else if (mobileFilterDateType === 'month') {
-          return `${month}/${year}` === mobileFilterDateValue;
-        } else if (mobileFilterDateType === 'year') {
-          return year === mobileFilterDateValue;
+  // "Loja 1 > Manutenção": filtering by a parent's name also matches its subcenters
+  const costCenterPaths = useMemo(
+    () => new Map(costCenterTreeRows.map(row => [row.center.id, row.path])),
+    [costCenterTreeRows]
+  );
+
+  // Options of the mobile filters
+  const filterOptions = useMemo(() => ({
+    suppliers,
+    paymentTypes: Object.keys(PAYMENT_TYPE_LABELS) as PaymentType[],
+    statuses: Object.keys(ACCOUNT_STATUS_LABELS) as (keyof typeof ACCOUNT_STATUS_LABELS)[],
+  }), [suppliers]);
+
+  // Page scope, column filters and mobile filters, as sent to the database
+  const queryFilters = useMemo(() => {
+    let query: PayablesFilters = {};
+    if (view) query.view = view;
+    if (dueFrom) query.due_from = dueFrom;
+    if (dueUntil) query.due_until = dueUntil;
+
+    const column = (key: keyof ColumnFilters) => debouncedColumnFilters[key].trim();
+    if (column('description')) query.description = column('description');
+    if (column('supplier')) query.supplier = column('supplier');
+    if (column('costCenter')) query.cost_center = column('costCenter');
+    if (column('paymentType')) query.payment_types = matchPaymentTypes(column('paymentType'));
+    if (normalizeAmountFilter(column('amount'))) query.amount = normalizeAmountFilter(column('amount'));
+    if (column('dueDate')) query.due_date = column('dueDate');
+    if (column('status')) query.display_statuses = matchDisplayStatuses(column('status'));
+
+    if (mobileFilterStatus !== 'all') query.status = mobileFilterStatus;
+    if (mobileFilterSupplier !== 'all') query.supplier_id = mobileFilterSupplier;
+    if (mobileFilterPaymentType !== 'all') {
+      query.payment_types = (query.payment_types || [mobileFilterPaymentType as PaymentType])
+        .filter(type => type === mobileFilterPaymentType);
+    }
+
+    const mobileDateRange = mobileFilterDateType !== 'all' ? getDueDateRange(mobileFilterDateType, mobileFilterDateValue) : null;
+    if (mobileDateRange) query = narrowDueDateRange(query, mobileDateRange);
+
+    return query;
+  }, [view, dueFrom, dueUntil, debouncedColumnFilters, mobileFilterStatus, mobileFilterSupplier, mobileFilterPaymentType, mobileFilterDateType, mobileFilterDateValue]);
+
+  // A column sort wins over the mobile ordering
+  const sort = useMemo<PayablesSort>(
+    () => (sortField && sortDirection ? { field: sortField, desc: sortDirection === 'desc' } : MOBILE_SORTS[mobileSortBy]),
+    [sortField, sortDirection, mobileSortBy]
+  );
+
+  // Any change to the query goes back to the first page
+  const queryKey = JSON.stringify([queryFilters, sort, pageSize]);
+  const [pagination, setPagination] = useState({ queryKey, page: 0 });
+  const page = pagination.queryKey === queryKey ? pagination.page : 0;
+  const goToPage = (nextPage: number) => setPagination({ queryKey, page: nextPage });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPage = async () => {
+      setLoading(true);
+      try {
+        const data = await searchPayables(queryFilters, sort, pageSize, page * pageSize);
+        if (!cancelled) setAccounts(data as unknown as Account[]);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Erro ao carregar contas:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar contas a pagar",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+          setLoaded(true);
         }
       }
+    };
 
-      // Column filters
-      if (columnFilters.description && !account.description.toLowerCase().includes(columnFilters.description.toLowerCase())) {
-        return false;
-      }
-      if (columnFilters.supplier && !account.suppliers?.name.toLowerCase().includes(columnFilters.supplier.toLowerCase())) {
-        return false;
-      }
-      if (columnFilters.costCenter && !`${account.cost_centers?.code} - ${account.cost_centers?.name}`.toLowerCase().includes(columnFilters.costCenter.toLowerCase())) {
-        return false;
-      }
-      if (columnFilters.paymentType && !getPaymentTypeLabel(account.payment_type).toLowerCase().includes(columnFilters.paymentType.toLowerCase())) {
-        return false;
-      }
-      if (columnFilters.amount && !formatCurrency(account.amount).includes(columnFilters.amount)) {
-        return false;
+    fetchPage();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryFilters, sort, page, pageSize, refreshKey, reloadKey, toast]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTotals = async () => {
+      try {
+        const data = await fetchPayablesTotals(queryFilters);
+        if (!cancelled) setTotalsRows(data);
+      } catch (error) {
+        if (!cancelled) console.error('Erro ao carregar totais:', error);
       }
-      if (columnFilters.dueDate && !formatDate(account.due_date).includes(columnFilters.dueDate)) {
-        return false;
+    };
+
+    fetchTotals();
+    return () => {
+      cancelled = true;
+    };
+  }, [queryFilters, refreshKey, reloadKey]);
+
+  // After any change made from the list: reload the page and let the dashboard refresh its cards
+  const refresh = () => {
+    setReloadKey(key => key + 1);
+    onUpdate();
+  };
+
+  const totalCount = useMemo(() => totalsRows.reduce((sum, row) => sum + row.account_count, 0), [totalsRows]);
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+
+  // Groups are placed where their first installment sorts; a lone installment stays a plain row.
+  // Only installments on the current page are grouped.
+  const tableRows = useMemo(() => {
+    const groups = new Map<string, Account[]>();
+    accounts.forEach(account => {
+      if (account.installment_group_id) {
+        groups.set(account.installment_group_id, [...(groups.get(account.installment_group_id) || []), account]);
       }
-      if (columnFilters.status && !getStatusLabel(account.status, account.due_date).toLowerCase().includes(columnFilters.status.toLowerCase())) {
-        return false;
+    });
+
+    const rows: ListRow[] = [];
+    const added = new Set<string>();
+    accounts.forEach(account => {
+      const group = account.installment_group_id ? groups.get(account.installment_group_id) : undefined;
+      if (!group || group.length < 2) {
+        rows.push({ kind: 'account', account });
+        return;
       }
+      if (added.has(account.installment_group_id)) return;
 
-      return true;
+      added.add(account.installment_group_id);
+      rows.push({
+        kind: 'group',
+        groupId: account.installment_group_id,
+        accounts: [...group].sort((a, b) => (a.installment_number || 0) - (b.installment_number || 0)),
+      });
     });
 
-    // Apply sorting
-    if (sortField && sortDirection) {
-      filtered = [...filtered].sort((a, b) => {
-        let aValue: any;
-        let bValue: any;
-
-        switch (sortField) {
-          case 'description':
-            aValue = a.description.toLowerCase();
-            bValue = b.description.toLowerCase();
-            break;
-          case 'supplier':
-            aValue = a.suppliers?.name.toLowerCase() || '';
-            bValue = b.suppliers?.name.toLowerCase() || '';
-            break;
-          case 'cost_center':
-            aValue = `${a.cost_centers?.code} - ${a.cost_centers?.name}`.toLowerCase();
-            bValue = `${b.cost_centers?.code} - ${b.cost_centers?.name}`.toLowerCase();
-            break;
-          case 'payment_type':
-            aValue = getPaymentTypeLabel(a.payment_type);
-            bValue = getPaymentTypeLabel(b.payment_type);
-            break;
-          case 'amount':
-            aValue = Number(a.amount);
-            bValue = Number(b.amount);
-            break;
-          case 'due_date':
-            aValue = new Date(a.due_date).getTime();
-            bValue = new Date(b.due_date).getTime();
-            break;
-          case 'status':
-            aValue = getStatusLabel(a.status, a.due_date);
-            bValue = getStatusLabel(b.status, b.due_date);
-            break;
-        }
+    return rows;
+  }, [accounts]);
 
-        if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-        if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-        return 0;
-      });
-    } else if (mobileSortBy) {
-      // Mobile sorting
-      filtered = [...filtered].sort((a, b) => {
-        if (mobileSortBy === 'recent') {
-          return new Date(b.due_date).getTime() - new Date(a.due_date).getTime();
-        } else if (mobileSortBy === 'old') {
-          return new Date(a.due_date).getTime() - new Date(b.due_date).getTime();
-        } else if (mobileSortBy === 'high_value') {
-          return Number(b.amount) - Number(a.amount);
-        } else if (mobileSortBy === 'low_value') {
-          return Number(a.amount) - Number(b.amount);
-        }
-        return 0;
-      });
-    }
+  const toggleGroup = (groupId: string) => {
+    setExpandedGroups(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+  };
+
+  const remittableIds = useMemo(
+    () => accounts.filter(isRemittable).map(account => account.id),
+    [accounts]
+  );
 
-    return filtered;
-  }, [accounts, filters, columnFilters, sortField, sortDirection, mobileFilterStatus, mobileFilterSupplier, mobileFilterPaymentType, mobileFilterDateType, mobileFilterDateValue, mobileSortBy]);
+  const toggleSelected = (accountId: string) => {
+    setSelectedIds(prev => prev.includes(accountId) ? prev.filter(id => id !== accountId) : [...prev, accountId]);
+  };
+
+  // Selects the current page; what was selected on other pages is kept
+  const toggleSelectAll = () => {
+    const allSelected = remittableIds.length > 0 && remittableIds.every(id => selectedIds.includes(id));
+    setSelectedIds(prev => allSelected
+      ? prev.filter(id => !remittableIds.includes(id))
+      : [...new Set([...prev, ...remittableIds])]);
+  };
+
+  const handleRemittanceCreated = () => {
+    setIsRemittanceOpen(false);
+    setSelectedIds([]);
+    refresh();
+  };
 
   // Calculate filtered accounts stats by payment type
   const filteredStats = useMemo(() => {
@@ -375,26 +499,23 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
       pix: { pago: 0, em_aberto: 0, totalPago: 0, totalAberto: 0 }
     };
 
-    filteredAccounts.forEach(account => {
-      const type = account.payment_type as keyof typeof stats;
+    totalsRows.forEach(row => {
+      const type = row.payment_type as keyof typeof stats;
       if (stats[type]) {
-        if (account.status === 'pago') {
-          stats[type].pago += 1;
-          stats[type].totalPago += Number(account.amount);
-        } else if (account.status === 'em_aberto') {
-          stats[type].em_aberto += 1;
-          stats[type].totalAberto += Number(account.amount);
-        }
+        stats[type].pago += row.paid_count;
+        stats[type].em_aberto += row.open_count;
+        stats[type].totalPago += row.paid_total;
+        stats[type].totalAberto += row.open_total;
       }
     });
 
     return stats;
-  }, [filteredAccounts]);
+  }, [totalsRows]);
 
-  // Calculate overall totals from filtered accounts
+  // Overall totals of everything the filters match, not just the current page
   const filteredTotals = useMemo(() => {
     const totals = {
-      totalContas: filteredAccounts.length,
+      totalContas: 0,
       totalPago: 0,
       totalEmAberto: 0,
       totalVencidas: 0,
@@ -403,60 +524,118 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
       contasVencidas: 0,
     };
 
-    const today = new Date();
-    const todayStr = today.getFullYear() + '-' +
-      String(today.getMonth() + 1).padStart(2, '0') + '-' +
-      String(today.getDate()).padStart(2, '0');
+    // Open totals use the remaining balance; partial payments already count as paid
+    totalsRows.forEach(row => {
+      totals.totalContas += row.account_count;
+      totals.totalPago += row.paid_total;
+      totals.totalEmAberto += row.open_total;
+      totals.totalVencidas += row.overdue_total;
+      totals.contasPagas += row.paid_count;
+      totals.contasEmAberto += row.open_count;
+      totals.contasVencidas += row.overdue_count;
+    });
 
-    filteredAccounts.forEach(account => {
-      const amount = Number(account.amount);
+    return totals;
+  }, [totalsRows]);
 
-      if (account.status === 'pago') {
-        totals.totalPago += amount;
-        totals.contasPagas += 1;
-      } else if (account.status === 'em_aberto') {
-        totals.totalEmAberto += amount;
-        totals.contasEmAberto += 1;
+  // Paid and open amounts per cost center, parents adding up their subcenters
+  const costCenterTotals = useMemo(() => {
+    const ownPaid: Record<string, number> = {};
+    const ownOpen: Record<string, number> = {};
 
-        // Check if overdue
-        if (account.due_date < todayStr) {
-          totals.totalVencidas += amount;
-          totals.contasVencidas += 1;
-        }
-      }
+    totalsRows.forEach(row => {
+      const id = row.cost_center_id;
+      ownPaid[id] = (ownPaid[id] || 0) + row.paid_total;
+      ownOpen[id] = (ownOpen[id] || 0) + row.open_total;
     });
 
-    return totals;
-  }, [filteredAccounts]);
+    const paid = rollUpCostCenterTotals(costCenterTree, ownPaid);
+    const open = rollUpCostCenterTotals(costCenterTree, ownOpen);
+
+    return costCenterTreeRows
+      .map(row => ({ ...row, paid: paid[row.center.id] || 0, open: open[row.center.id] || 0 }))
+      .filter(row => row.paid > 0 || row.open > 0);
+  }, [totalsRows, costCenterTree, costCenterTreeRows]);
+
+  // Describes what's narrowing the list, for the exported report header
+  const getActiveFilterLabels = () => {
+    const labels: string[] = [];
+    const statusLabel = (status: string) =>
+      status === AWAITING_APPROVAL_FILTER
+        ? APPROVAL_STATUS_LABELS.pendente
+        : ACCOUNT_STATUS_LABELS[status as keyof typeof ACCOUNT_STATUS_LABELS] || status;
+
+    if (dueFrom) labels.push(`Vencimento a partir de ${formatDate(dueFrom)}`);
+    if (dueUntil) labels.push(`Vencimento até ${formatDate(dueUntil)}`);
+
+    const columnLabels: Record<keyof ColumnFilters, string> = {
+      description: 'Descrição',
+      supplier: 'Fornecedor',
+      costCenter: 'Centro de custo',
+      paymentType: 'Tipo',
+      amount: 'Valor',
+      dueDate: 'Vencimento',
+      status: 'Status',
+    };
+    (Object.keys(columnLabels) as (keyof ColumnFilters)[])
+      .filter(key => debouncedColumnFilters[key])
+      .forEach(key => labels.push(`${columnLabels[key]} contém "${debouncedColumnFilters[key]}"`));
 
-  // Validate date range (max 3 months)
-  const validateDateRange = (fromDate: Date | undefined, untilDate: Date | undefined) => {
-    if (!fromDate || !untilDate) return true;
+    if (mobileFilterStatus !== 'all') labels.push(`Status: ${statusLabel(mobileFilterStatus)}`);
+    if (mobileFilterSupplier !== 'all') {
+      labels.push(`Fornecedor: ${suppliers.find(supplier => supplier.id === mobileFilterSupplier)?.name || mobileFilterSupplier}`);
+    }
+    if (mobileFilterPaymentType !== 'all') labels.push(`Tipo: ${getPaymentTypeLabel(mobileFilterPaymentType)}`);
+    if (mobileFilterDateType !== 'all' && mobileFilterDateValue) labels.push(`Vencimento: ${mobileFilterDateValue}`);
 
-    const diffTime = Math.abs(untilDate.getTime() - fromDate.getTime());
-    const diffMonths = diffTime / (1000 * 60 * 60 * 24 * 30); // Approximate months
-    return diffMonths <= 3;
+    if (sortField && sortDirection) {
+      labels.push(`Ordenado por ${SORT_FIELD_LABELS[sortField]} (${sortDirection === 'asc' ? 'crescente' : 'decrescente'})`);
+    }
+
+    return labels;
+  };
+
+  // Exports every account the filters match, in the list order, not just the current page
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(true);
+    try {
+      const rows = (await fetchAllPayables(queryFilters, sort)) as unknown as Account[];
+
+      exportPayables(exportFormat, {
+        title: 'Contas a Pagar',
+        fileName: `contas-a-pagar-${format(new Date(), 'yyyy-MM-dd')}`,
+        filters: getActiveFilterLabels(),
+        rows: rows.map(account => ({
+          description: account.description,
+          supplier: account.suppliers?.name || '',
+          costCenter: costCenterPaths.get(account.cost_center_id) || account.cost_centers?.name || '',
+          paymentType: account.payment_type,
+          status: account.status,
+          statusLabel: getApprovalLabel(account) || getStatusLabel(account.status, account.due_date),
+          dueDate: account.due_date,
+          amount: Number(account.amount),
+          paidAmount: Number(account.paid_amount || 0),
+          invoiceNumber: account.invoice_number,
+          installment: account.installment_count && account.installment_count > 1
+            ? `${account.installment_number}/${account.installment_count}`
+            : null,
+        })),
+      });
+    } catch (error) {
+      console.error('Erro ao exportar contas:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao exportar contas a pagar",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
   };
 
   const clearFilters = () => {
-    const newFilters = {
-      supplier: 'all',
-      costCenter: 'all',
-      paymentType: 'all',
-      status: 'all',
-      dueDateFrom: undefined,
-      dueDateUntil: undefined,
-    };
-    setFilters(newFilters);
-    setColumnFilters({
-      description: '',
-      supplier: '',
-      costCenter: '',
-      paymentType: '',
-      amount: '',
-      dueDate: '',
-      status: '',
-    });
+    setColumnFilters(EMPTY_COLUMN_FILTERS);
+    setDebouncedColumnFilters(EMPTY_COLUMN_FILTERS);
     setSortField(null);
     setSortDirection(null);
     if (onDateFilterChange) {
@@ -475,6 +654,9 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
 
   const hasMobileFilters = mobileFilterStatus !== 'all' || mobileFilterSupplier !== 'all' || mobileFilterPaymentType !== 'all' || mobileFilterDateType !== 'all' || mobileFilterDateValue !== '' || mobileSortBy !== 'recent';
 
+  // Whether an empty result comes from the list's own filters rather than from the page scope
+  const hasListFilters = hasMobileFilters || Object.values(columnFilters).some(Boolean);
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       if (sortDirection === 'asc') {
@@ -516,6 +698,17 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
     setIsPaymentOpen(true);
   };
 
+  const handleReviewApproval = (account: Account) => {
+    setSelectedAccount(account);
+    setIsApprovalOpen(true);
+  };
+
+  const handleApprovalReviewed = () => {
+    setIsApprovalOpen(false);
+    setSelectedAccount(null);
+    refresh();
+  };
+
   const handleCancelAccount = async (account: Account) => {
     if (!hasRole('admin')) {
       toast({
@@ -545,7 +738,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
         description: "Conta cancelada com sucesso",
       });
 
-      onUpdate();
+      refresh();
     } catch (error) {
       console.error('Erro ao cancelar conta:', error);
       toast({
@@ -560,7 +753,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
     setIsDetailsOpen(false);
     setSelectedAccount(null);
     setIsEditMode(false);
-    onUpdate();
+    refresh();
     toast({
       title: "Sucesso",
       description: "Conta atualizada com sucesso",
@@ -570,7 +763,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
   const handlePaymentCompleted = () => {
     setIsPaymentOpen(false);
     setSelectedAccount(null);
-    onUpdate();
+    refresh();
     toast({
       title: "Sucesso",
       description: "Pagamento registrado com sucesso",
@@ -588,7 +781,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
   };
 
   const getStatusColor = (status: string, dueDate: string) => {
-    if (status === 'em_aberto') {
+    if (isOpenAccountStatus(status)) {
       const today = new Date();
       const todayStr = today.getFullYear() + '-' +
         String(today.getMonth() + 1).padStart(2, '0') + '-' +
@@ -599,7 +792,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
       } else if (dueDate < todayStr) {
         return 'destructive'; // Vencida - vermelho
       }
-      return 'default'; // Em aberto - azul
+      return status === 'parcialmente_pago' ? 'warning' : 'default'; // Em aberto - azul
     }
 
     switch (status) {
@@ -615,7 +808,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
 
 
   const isOverdue = (dueDate: string, status: string) => {
-    if (status !== 'em_aberto') return false;
+    if (!isOpenAccountStatus(status)) return false;
     const today = new Date();
     const todayStr = today.getFullYear() + '-' +
       String(today.getMonth() + 1).padStart(2, '0') + '-' +
@@ -625,7 +818,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
     return result;
   };
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="flex justify-center items-center h-32">
         <div className="text-muted-foreground">Carregando contas...</div>
@@ -633,7 +826,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
     );
   }
 
-  if (accounts.length === 0) {
+  if (accounts.length === 0 && page === 0 && !loading && !hasListFilters) {
     return (
       <div className="text-center py-8">
         <p className="text-muted-foreground">Nenhuma conta a pagar cadastrada ainda.</p>
@@ -645,6 +838,138 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
   }
 
 
+  const renderAccountRow = (account: Account, nested = false) => (
+    <TableRow
+      key={account.id}
+      className={isOverdue(account.due_date, account.status) ? 'bg-red-50' : ''}
+    >
+      {canRemit && (
+        <TableCell className="w-[40px]">
+          {isRemittable(account) && (
+            <Checkbox
+              checked={selectedIds.includes(account.id)}
+              onCheckedChange={() => toggleSelected(account.id)}
+            />
+          )}
+        </TableCell>
+      )}
+      <TableCell className={cn("font-medium", COLUMN_WIDTHS.description, nested && 'pl-10')}>
+        <div>
+          <div>{account.description}</div>
+          {account.installment_number && (
+            <div className="text-xs text-muted-foreground">
+              Parcela {account.installment_number}/{account.installment_count}
+              {account.invoice_number && !nested ? ` • NF ${account.invoice_number}` : ''}
+            </div>
+          )}
+          {isOverdue(account.due_date, account.status) && (
+            <div className="text-xs text-red-600">VENCIDA</div>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className={COLUMN_WIDTHS.supplier}>{account.suppliers?.name}</TableCell>
+      <TableCell className={COLUMN_WIDTHS.cost_center}>
+        <Badge variant="outline">
+          {account.cost_centers?.code}
+        </Badge>
+        <div className="text-sm text-muted-foreground">
+          {account.cost_centers?.name}
+        </div>
+      </TableCell>
+      <TableCell className={COLUMN_WIDTHS.payment_type}>
+        <Badge variant="secondary">
+          {getPaymentTypeLabel(account.payment_type)}
+        </Badge>
+      </TableCell>
+      <TableCell className={cn("font-mono", COLUMN_WIDTHS.amount)}>
+        {formatCurrency(account.amount)}
+        {account.status === 'parcialmente_pago' && (
+          <div className="text-xs text-orange-600">Saldo {formatCurrency(getAccountBalance(account))}</div>
+        )}
+      </TableCell>
+      <TableCell className={COLUMN_WIDTHS.due_date}>
+        <div className={isOverdue(account.due_date, account.status) ? 'text-red-600 font-semibold' : ''}>
+          {formatDate(account.due_date)}
+        </div>
+      </TableCell>
+      <TableCell className={COLUMN_WIDTHS.status}>
+        <Badge variant={getStatusColor(account.status, account.due_date) as any}>
+          {getStatusLabel(account.status, account.due_date)}
+        </Badge>
+        {getApprovalLabel(account) && (
+          <Badge variant={account.approval_status === 'rejeitada' ? 'destructive' : 'warning'} className="mt-1">
+            {getApprovalLabel(account)}
+          </Badge>
+        )}
+      </TableCell>
+      <TableCell className={COLUMN_WIDTHS.actions}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+              <MoreVertical className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-48">
+            <DropdownMenuItem onClick={() => handleViewDetails(account)}>
+              <Eye className="h-4 w-4 mr-2" />
+              Visualizar Detalhes
+            </DropdownMenuItem>
+
+            <DropdownMenuItem onClick={() => handleViewAttachments(account)}>
+              <Paperclip className="h-4 w-4 mr-2" />
+              Ver Anexos
+            </DropdownMenuItem>
+
+            <DropdownMenuItem onClick={() => handleViewHistory(account)}>
+              <History className="h-4 w-4 mr-2" />
+              Ver Histórico
+            </DropdownMenuItem>
+
+            {isOpenAccountStatus(account.status) && (
+              <>
+                <DropdownMenuSeparator />
+
+                {account.status === 'em_aberto' && (
+                  <DropdownMenuItem onClick={() => handleEditAccount(account)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Editar Conta
+                  </DropdownMenuItem>
+                )}
+
+                {isAwaitingApproval(account.approval_status) && hasRole('admin') && (
+                  <DropdownMenuItem onClick={() => handleReviewApproval(account)}>
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Aprovar / Rejeitar
+                  </DropdownMenuItem>
+                )}
+
+                {(hasRole('admin') || hasRole('pagador')) && !isAwaitingApproval(account.approval_status) && (
+                  <DropdownMenuItem
+                    onClick={() => handlePayAccount(account)}
+                    className="text-green-600 focus:text-green-600"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Registrar Pagamento
+                  </DropdownMenuItem>
+                )}
+
+                {account.status === 'em_aberto' && hasRole('admin') && (
+                  <DropdownMenuItem
+                    onClick={() => handleCancelAccount(account)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Cancelar Conta
+                  </DropdownMenuItem>
+                )}
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </TableCell>
+    </TableRow>
+  );
+
   return (
     <>
       {/* Cards Totalizadores - Visível em todas as resoluções */}
@@ -795,6 +1120,38 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
         </Card>
       </div>
 
+      {costCenterTotals.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Totais por Centro de Custo</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {costCenterTotals.map(row => (
+              <div key={row.center.id} className="flex justify-between items-center gap-4 text-sm">
+                <span
+                  className={cn("truncate", row.depth === 0 ? "font-semibold" : "text-muted-foreground")}
+                  style={{ paddingLeft: `${row.depth * 1.25}rem` }}
+                >
+                  {row.center.code} - {row.center.name}
+                </span>
+                <span className="whitespace-nowrap">
+                  <span className="text-green-600">{formatCurrency(row.paid)}</span>
+                  <span className="text-muted-foreground"> · </span>
+                  <span className="text-blue-600">{formatCurrency(row.open)}</span>
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground pt-2">
+              Pago · Em aberto. Os valores dos centros pais incluem os subcentros.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex justify-end mb-4">
+        <PayablesExportMenu onExport={handleExport} disabled={totalCount === 0 || exporting} />
+      </div>
+
       {/* Filtros Desktop */}
 
 
@@ -829,8 +1186,8 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
               <SelectContent>
                 <SelectItem value="all">Todos</SelectItem>
                 {filterOptions.suppliers.map(supplier => (
-                  <SelectItem key={supplier} value={supplier}>
-                    {supplier}
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -864,9 +1221,10 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                 <SelectItem value="all">Todos</SelectItem>
                 {filterOptions.statuses.map(status => (
                   <SelectItem key={status} value={status}>
-                    {status === 'em_aberto' ? 'Em Aberto' : status === 'pago' ? 'Pago' : status === 'cancelado' ? 'Cancelado' : status}
+                    {ACCOUNT_STATUS_LABELS[status] || status}
                   </SelectItem>
                 ))}
+                <SelectItem value={AWAITING_APPROVAL_FILTER}>{APPROVAL_STATUS_LABELS.pendente}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -888,10 +1246,10 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
         </div>
       )}
 
-      <div className="rounded-md border">
+      <div className={cn("rounded-md border transition-opacity", loading && "opacity-60")}>
         {/* Mobile: cards */}
         <div className="md:hidden divide-y">
-          {filteredAccounts.map((acc) => (
+          {accounts.map((acc) => (
             <div
               key={acc.id}
               className="p-4 hover:bg-muted/50 cursor-pointer"
@@ -905,11 +1263,29 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                 <div className="text-xs text-muted-foreground text-right">{formatDate(acc.due_date)}</div>
               </div>
               <div className="text-sm text-muted-foreground mt-2 line-clamp-2">{acc.description}</div>
+              {acc.installment_number && (
+                <div className="text-xs text-muted-foreground mt-1">
+                  Parcela {acc.installment_number}/{acc.installment_count}
+                  {acc.invoice_number ? ` • NF ${acc.invoice_number}` : ''}
+                </div>
+              )}
               <div className="flex items-center justify-between mt-3">
-                <div className="text-lg font-bold">{formatCurrency(acc.amount)}</div>
-                <Badge variant={getStatusColor(acc.status, acc.due_date) as any}>
-                  {getStatusLabel(acc.status, acc.due_date)}
-                </Badge>
+                <div>
+                  <div className="text-lg font-bold">{formatCurrency(acc.amount)}</div>
+                  {acc.status === 'parcialmente_pago' && (
+                    <div className="text-xs text-orange-600">Saldo {formatCurrency(getAccountBalance(acc))}</div>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1">
+                  <Badge variant={getStatusColor(acc.status, acc.due_date) as any}>
+                    {getStatusLabel(acc.status, acc.due_date)}
+                  </Badge>
+                  {getApprovalLabel(acc) && (
+                    <Badge variant={acc.approval_status === 'rejeitada' ? 'destructive' : 'warning'}>
+                      {getApprovalLabel(acc)}
+                    </Badge>
+                  )}
+                </div>
               </div>
 
               {/* Ações visíveis ao clicar no card */}
@@ -924,17 +1300,24 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                   <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleViewAttachments(acc); }} title="Ver anexos">
                     <Paperclip className="h-4 w-4" />
                   </Button>
-                  {acc.status === 'em_aberto' && (
+                  {isOpenAccountStatus(acc.status) && (
                     <>
-                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleEditAccount(acc); }} title="Editar conta">
-                        <Edit className="h-4 w-4" />
-                      </Button>
-                      {(hasRole('admin') || hasRole('pagador')) && (
-                        <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handlePayAccount(acc); }} className="text-green-600 hover:text-green-600" title="Marcar como pago">
+                      {acc.status === 'em_aberto' && (
+                        <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleEditAccount(acc); }} title="Editar conta">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isAwaitingApproval(acc.approval_status) && hasRole('admin') && (
+                        <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleReviewApproval(acc); }} title="Aprovar / Rejeitar">
+                          <ShieldCheck className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(hasRole('admin') || hasRole('pagador')) && !isAwaitingApproval(acc.approval_status) && (
+                        <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handlePayAccount(acc); }} className="text-green-600 hover:text-green-600" title="Registrar pagamento">
                           <CheckCircle className="h-4 w-4" />
                         </Button>
                       )}
-                      {hasRole('admin') && (
+                      {acc.status === 'em_aberto' && hasRole('admin') && (
                         <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleCancelAccount(acc); }} className="text-destructive hover:text-destructive" title="Cancelar conta">
                           <X className="h-4 w-4" />
                         </Button>
@@ -945,7 +1328,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
               )}
             </div>
           ))}
-          {filteredAccounts.length === 0 && accounts.length > 0 && (
+          {accounts.length === 0 && (
             <div className="p-4 text-center">
               <p className="text-muted-foreground text-sm">Nenhuma conta encontrada com os filtros aplicados.</p>
               <Button variant="outline" size="sm" onClick={clearMobileFilters} className="mt-2">
@@ -957,9 +1340,32 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
 
         {/* Desktop/tablet: manter tabela original */}
         <div className="hidden md:block overflow-x-auto">
+          {selectedIds.length > 0 && (
+            <div className="flex items-center justify-between rounded-md border bg-muted/40 px-4 py-2 mb-2">
+              <span className="text-sm">{selectedIds.length} conta(s) selecionada(s)</span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                  Limpar seleção
+                </Button>
+                <Button size="sm" className="gap-2" onClick={() => setIsRemittanceOpen(true)}>
+                  <FileDown className="h-4 w-4" />
+                  Gerar remessa CNAB
+                </Button>
+              </div>
+            </div>
+          )}
           <Table>
             <TableHeader>
               <TableRow>
+                {canRemit && (
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={remittableIds.length > 0 && remittableIds.every(id => selectedIds.includes(id))}
+                      onCheckedChange={toggleSelectAll}
+                      disabled={remittableIds.length === 0}
+                    />
+                  </TableHead>
+                )}
                 <TableHead
                   className={cn("cursor-pointer hover:bg-muted/50", COLUMN_WIDTHS.description)}
                   onClick={() => handleSort('description')}
@@ -1026,6 +1432,7 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                 <TableHead className={COLUMN_WIDTHS.actions}>Ações</TableHead>
               </TableRow>
               <TableRow>
+                {canRemit && <TableHead className="w-[40px]" />}
                 <TableHead className={cn("p-2", COLUMN_WIDTHS.description)}>
                   <Input
                     placeholder="Filtrar..."
@@ -1086,109 +1493,116 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredAccounts.map((account) => (
-                <TableRow
-                  key={account.id}
-                  className={isOverdue(account.due_date, account.status) ? 'bg-red-50' : ''}
-                >
-                  <TableCell className={cn("font-medium", COLUMN_WIDTHS.description)}>
-                    <div>
-                      <div>{account.description}</div>
-                      {isOverdue(account.due_date, account.status) && (
-                        <div className="text-xs text-red-600">VENCIDA</div>
-                      )}
-                    </div>
-                  </TableCell>
-                  <TableCell className={COLUMN_WIDTHS.supplier}>{account.suppliers?.name}</TableCell>
-                  <TableCell className={COLUMN_WIDTHS.cost_center}>
-                    <Badge variant="outline">
-                      {account.cost_centers?.code}
-                    </Badge>
-                    <div className="text-sm text-muted-foreground">
-                      {account.cost_centers?.name}
-                    </div>
-                  </TableCell>
-                  <TableCell className={COLUMN_WIDTHS.payment_type}>
-                    <Badge variant="secondary">
-                      {getPaymentTypeLabel(account.payment_type)}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className={cn("font-mono", COLUMN_WIDTHS.amount)}>
-                    {formatCurrency(account.amount)}
-                  </TableCell>
-                  <TableCell className={COLUMN_WIDTHS.due_date}>
-                    <div className={isOverdue(account.due_date, account.status) ? 'text-red-600 font-semibold' : ''}>
-                      {formatDate(account.due_date)}
-                    </div>
-                  </TableCell>
-                  <TableCell className={COLUMN_WIDTHS.status}>
-                    <Badge variant={getStatusColor(account.status, account.due_date) as any}>
-                      {getStatusLabel(account.status, account.due_date)}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className={COLUMN_WIDTHS.actions}>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                          <MoreVertical className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end" className="w-48">
-                        <DropdownMenuItem onClick={() => handleViewDetails(account)}>
-                          <Eye className="h-4 w-4 mr-2" />
-                          Visualizar Detalhes
-                        </DropdownMenuItem>
-
-                        <DropdownMenuItem onClick={() => handleViewAttachments(account)}>
-                          <Paperclip className="h-4 w-4 mr-2" />
-                          Ver Anexos
-                        </DropdownMenuItem>
-
-                        <DropdownMenuItem onClick={() => handleViewHistory(account)}>
-                          <History className="h-4 w-4 mr-2" />
-                          Ver Histórico
-                        </DropdownMenuItem>
-
-                        {account.status === 'em_aberto' && (
-                          <>
-                            <DropdownMenuSeparator />
-
-                            <DropdownMenuItem onClick={() => handleEditAccount(account)}>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Editar Conta
-                            </DropdownMenuItem>
-
-                            {(hasRole('admin') || hasRole('pagador')) && (
-                              <DropdownMenuItem
-                                onClick={() => handlePayAccount(account)}
-                                className="text-green-600 focus:text-green-600"
-                              >
-                                <CheckCircle className="h-4 w-4 mr-2" />
-                                Marcar como Pago
-                              </DropdownMenuItem>
-                            )}
-
-                            {hasRole('admin') && (
-                              <DropdownMenuItem
-                                onClick={() => handleCancelAccount(account)}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <X className="h-4 w-4 mr-2" />
-                                Cancelar Conta
-                              </DropdownMenuItem>
-                            )}
-                          </>
-                        )}
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
-                </TableRow>
-              ))}
+              {tableRows.map((row) => {
+                if (row.kind === 'account') return renderAccountRow(row.account);
+
+                const first = row.accounts[0];
+                const expanded = expandedGroups.includes(row.groupId);
+                const total = row.accounts.reduce((sum, account) => sum + Number(account.amount), 0);
+                const paidCount = row.accounts.filter(account => account.status === 'pago').length;
+                const nextOpen = row.accounts.find(account => isOpenAccountStatus(account.status));
+                const hasOverdue = row.accounts.some(account => isOverdue(account.due_date, account.status));
+
+                return (
+                  <Fragment key={row.groupId}>
+                    <TableRow
+                      className={cn("cursor-pointer", hasOverdue ? 'bg-red-50' : 'bg-muted/30')}
+                      onClick={() => toggleGroup(row.groupId)}
+                    >
+                      {canRemit && <TableCell className="w-[40px]" />}
+                      <TableCell className={cn("font-medium", COLUMN_WIDTHS.description)}>
+                        <div className="flex items-center gap-2">
+                          {expanded ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />}
+                          <div>
+                            <div>{first.description}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {first.invoice_number ? `NF ${first.invoice_number} • ` : ''}
+                              {row.accounts.length} de {first.installment_count} parcelas
+                            </div>
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className={COLUMN_WIDTHS.supplier}>{first.suppliers?.name}</TableCell>
+                      <TableCell className={COLUMN_WIDTHS.cost_center}>
+                        <Badge variant="outline">
+                          {first.cost_centers?.code}
+                        </Badge>
+                        <div className="text-sm text-muted-foreground">
+                          {first.cost_centers?.name}
+                        </div>
+                      </TableCell>
+                      <TableCell className={COLUMN_WIDTHS.payment_type}>
+                        <Badge variant="secondary">
+                          {getPaymentTypeLabel(first.payment_type)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className={cn("font-mono", COLUMN_WIDTHS.amount)}>
+                        {formatCurrency(total)}
+                      </TableCell>
+                      <TableCell className={COLUMN_WIDTHS.due_date}>
+                        <div className={hasOverdue ? 'text-red-600 font-semibold' : ''}>
+                          {nextOpen ? formatDate(nextOpen.due_date) : '-'}
+                        </div>
+                      </TableCell>
+                      <TableCell className={COLUMN_WIDTHS.status}>
+                        <Badge variant={paidCount === row.accounts.length ? 'default' : 'outline'}>
+                          {paidCount}/{row.accounts.length} pagas
+                        </Badge>
+                      </TableCell>
+                      <TableCell className={COLUMN_WIDTHS.actions} />
+                    </TableRow>
+                    {expanded && row.accounts.map(account => renderAccountRow(account, true))}
+                  </Fragment>
+                );
+              })}
             </TableBody>
           </Table>
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mt-4">
+        <div className="text-sm text-muted-foreground">
+          {totalCount > 0
+            ? `${page * pageSize + 1}–${Math.min((page + 1) * pageSize, totalCount)} de ${totalCount} conta(s)`
+            : 'Nenhuma conta encontrada'}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(pageSize)} onValueChange={(value) => setPageSize(Number(value))}>
+            <SelectTrigger className="h-8 w-[130px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZE_OPTIONS.map(size => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} por página
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToPage(page - 1)}
+            disabled={page === 0 || loading}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            Anterior
+          </Button>
+          <span className="text-sm whitespace-nowrap">
+            Página {page + 1} de {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => goToPage(page + 1)}
+            disabled={page + 1 >= pageCount || loading}
+          >
+            Próxima
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
       {/* Dialog de Detalhes/Edição */}
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -1256,10 +1670,27 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                           <span className="text-sm font-medium text-muted-foreground">Valor:</span>
                           <p className="text-lg font-bold">{formatCurrency(selectedAccount.amount)}</p>
                         </div>
+                        {Number(selectedAccount.paid_amount || 0) > 0 && selectedAccount.status !== 'pago' && (
+                          <div>
+                            <span className="text-sm font-medium text-muted-foreground">Pago / Saldo:</span>
+                            <p className="text-base">
+                              {formatCurrency(Number(selectedAccount.paid_amount))} / {formatCurrency(getAccountBalance(selectedAccount))}
+                            </p>
+                          </div>
+                        )}
                         <div>
                           <span className="text-sm font-medium text-muted-foreground">Vencimento:</span>
                           <p className="text-base">{formatDate(selectedAccount.due_date)}</p>
                         </div>
+                        {(selectedAccount.invoice_number || selectedAccount.installment_number) && (
+                          <div>
+                            <span className="text-sm font-medium text-muted-foreground">Nota Fiscal / Parcela:</span>
+                            <p className="text-base">
+                              {selectedAccount.invoice_number || '-'}
+                              {selectedAccount.installment_number ? ` • Parcela ${selectedAccount.installment_number}/${selectedAccount.installment_count}` : ''}
+                            </p>
+                          </div>
+                        )}
                         <div>
                           <span className="text-sm font-medium text-muted-foreground">Status:</span>
                           <p className="text-base">
@@ -1268,6 +1699,14 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
                             </Badge>
                           </p>
                         </div>
+                        {selectedAccount.approval_status && selectedAccount.approval_status !== 'nao_requerida' && (
+                          <div>
+                            <span className="text-sm font-medium text-muted-foreground">Aprovação:</span>
+                            <p className="text-base">
+                              {APPROVAL_STATUS_LABELS[selectedAccount.approval_status as keyof typeof APPROVAL_STATUS_LABELS]}
+                            </p>
+                          </div>
+                        )}
                         <div>
                           <span className="text-sm font-medium text-muted-foreground">Criado em:</span>
                           <p className="text-sm">{formatDate(selectedAccount.created_at)}</p>
@@ -1309,6 +1748,20 @@ export const AccountsList = ({ accounts, loading, onUpdate, onDateFilterChange }
           onClose={() => setIsAttachmentsOpen(false)}
         />
       )}
+
+      <ApprovalDialog
+        account={isApprovalOpen ? selectedAccount : null}
+        open={isApprovalOpen}
+        onClose={() => setIsApprovalOpen(false)}
+        onSuccess={handleApprovalReviewed}
+      />
+
+      <RemittanceDialog
+        accountIds={selectedIds}
+        open={isRemittanceOpen}
+        onClose={() => setIsRemittanceOpen(false)}
+        onSuccess={handleRemittanceCreated}
+      />
     </>
   );
 };
\ No newline at end of file
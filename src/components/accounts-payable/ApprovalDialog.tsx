@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ApprovalAccount {
+  id: string;
+  description: string;
+  amount: number;
+  due_date: string;
+  suppliers?: { name: string } | null;
+  cost_centers?: { name: string; code: string } | null;
+}
+
+interface ApprovalDialogProps {
+  account: ApprovalAccount | null;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const ApprovalDialog = ({ account, open, onClose, onSuccess }: ApprovalDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const handleReview = async (approve: boolean) => {
+    if (!account) return;
+
+    if (!approve && !reason.trim()) {
+      toast({
+        title: "Motivo obrigatório",
+        description: "Informe o motivo da rejeição",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc('review_account_approval', {
+      p_account_id: account.id,
+      p_approve: approve,
+      p_reason: reason.trim() || undefined
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error('Erro ao registrar aprovação:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Falha ao registrar aprovação",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: approve ? "Conta aprovada para pagamento" : "Conta rejeitada",
+    });
+    onSuccess();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Aprovação de Pagamento</DialogTitle>
+        </DialogHeader>
+
+        {account && (
+          <div className="space-y-4">
+            <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+              <p className="font-medium">{account.description}</p>
+              <p className="text-muted-foreground">
+                {account.suppliers?.name}
+                {account.cost_centers ? ` • ${account.cost_centers.code} - ${account.cost_centers.name}` : ''}
+              </p>
+              <p>
+                <strong>{formatCurrency(Number(account.amount))}</strong>
+                {' '}• vence em {account.due_date.split('-').reverse().join('/')}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="approval-reason">Motivo</Label>
+              <Textarea
+                id="approval-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Obrigatório para rejeitar, opcional para aprovar"
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" className="gap-2" onClick={() => handleReview(false)} disabled={saving}>
+            <XCircle className="h-4 w-4" />
+            Rejeitar
+          </Button>
+          <Button className="gap-2" onClick={() => handleReview(true)} disabled={saving}>
+            <CheckCircle className="h-4 w-4" />
+            Aprovar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
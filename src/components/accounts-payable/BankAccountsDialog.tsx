@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pause, Pencil, Play, Plus } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { onlyDigits } from '@/lib/boleto';
+import type { BankAccount } from '@/lib/cnab240';
+
+interface BankAccountsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type BankAccountDraft = Pick<
+  BankAccount,
+  'name' | 'bank_code' | 'bank_name' | 'agency' | 'account' | 'company_name' | 'company_document' | 'agreement_code'
+> & { next_file_sequence: string };
+
+const emptyDraft: BankAccountDraft = {
+  name: '',
+  bank_code: '',
+  bank_name: '',
+  agency: '',
+  account: '',
+  company_name: '',
+  company_document: '',
+  agreement_code: '',
+  next_file_sequence: '1'
+};
+
+export const BankAccountsDialog = ({ open, onClose }: BankAccountsDialogProps) => {
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BankAccountDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchBankAccounts = useCallback(async () => {
+    const { data, error } = await supabase.from('bank_accounts').select('*').order('name');
+    if (error) {
+      console.error('Erro ao carregar contas bancárias:', error);
+      return;
+    }
+    setBankAccounts(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchBankAccounts();
+  }, [open, fetchBankAccounts]);
+
+  const startEdit = (account: BankAccount | null) => {
+    setEditingId(account?.id || null);
+    setDraft(account
+      ? {
+          name: account.name,
+          bank_code: account.bank_code,
+          bank_name: account.bank_name,
+          agency: account.agency,
+          account: account.account,
+          company_name: account.company_name,
+          company_document: account.company_document,
+          agreement_code: account.agreement_code || '',
+          next_file_sequence: String(account.next_file_sequence)
+        }
+      : emptyDraft);
+  };
+
+  const updateDraft = (changes: Partial<BankAccountDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const getDraftError = (value: BankAccountDraft) => {
+    if (!value.name.trim()) return 'Informe um nome para a conta';
+    if (!/^\d{3}$/.test(value.bank_code)) return 'O código do banco deve ter 3 dígitos';
+    if (!value.bank_name.trim()) return 'Informe o nome do banco';
+    if (!value.agency.trim() || !value.account.trim()) return 'Informe agência e conta';
+    if (!value.company_name.trim()) return 'Informe a razão social da empresa';
+    const document = onlyDigits(value.company_document);
+    if (document.length !== 11 && document.length !== 14) return 'CNPJ/CPF da empresa inválido';
+    if (!(Number(value.next_file_sequence) > 0)) return 'O próximo número de arquivo deve ser maior que zero';
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationError = getDraftError(draft);
+    if (validationError) {
+      toast({ title: "Dados inválidos", description: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const payload = {
+      ...draft,
+      company_document: onlyDigits(draft.company_document),
+      agreement_code: draft.agreement_code || null,
+      next_file_sequence: Number(draft.next_file_sequence)
+    };
+
+    const { error } = editingId
+      ? await supabase.from('bank_accounts').update(payload).eq('id', editingId)
+      : await supabase.from('bank_accounts').insert({
+          ...payload,
+          created_by: (await supabase.auth.getUser()).data.user?.id
+        });
+    setSaving(false);
+
+    if (error) {
+      console.error('Erro ao salvar conta bancária:', error);
+      toast({ title: "Erro", description: "Falha ao salvar conta bancária", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Sucesso", description: "Conta bancária salva" });
+    setDraft(null);
+    fetchBankAccounts();
+  };
+
+  const handleToggleActive = async (account: BankAccount) => {
+    const { error } = await supabase.from('bank_accounts').update({ active: !account.active }).eq('id', account.id);
+    if (error) {
+      toast({ title: "Erro", description: "Falha ao atualizar conta bancária", variant: "destructive" });
+      return;
+    }
+    fetchBankAccounts();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) { setDraft(null); onClose(); } }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contas Bancárias para Remessa</DialogTitle>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2 sm:col-span-3">
+                <Label>Nome</Label>
+                <Input value={draft.name} placeholder="Ex.: Itaú principal" onChange={(e) => updateDraft({ name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Código do Banco</Label>
+                <Input value={draft.bank_code} maxLength={3} placeholder="341" onChange={(e) => updateDraft({ bank_code: onlyDigits(e.target.value) })} />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Nome do Banco</Label>
+                <Input value={draft.bank_name} onChange={(e) => updateDraft({ bank_name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Agência</Label>
+                <Input value={draft.agency} placeholder="1234" onChange={(e) => updateDraft({ agency: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Conta (com dígito)</Label>
+                <Input value={draft.account} placeholder="12345-6" onChange={(e) => updateDraft({ account: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Convênio</Label>
+                <Input value={draft.agreement_code || ''} onChange={(e) => updateDraft({ agreement_code: e.target.value })} />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Razão Social</Label>
+                <Input value={draft.company_name} onChange={(e) => updateDraft({ company_name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>CNPJ</Label>
+                <Input value={draft.company_document} onChange={(e) => updateDraft({ company_document: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Próximo nº de arquivo</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.next_file_sequence}
+                  onChange={(e) => updateDraft({ next_file_sequence: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button size="sm" onClick={() => startEdit(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Conta
+              </Button>
+            </div>
+            {bankAccounts.length === 0 ? (
+              <p className="text-center text-sm text-muted-foreground py-6">Nenhuma conta bancária cadastrada</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Banco</TableHead>
+                    <TableHead>Agência / Conta</TableHead>
+                    <TableHead>Próx. arquivo</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[100px]">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bankAccounts.map((account) => (
+                    <TableRow key={account.id}>
+                      <TableCell className="font-medium">{account.name}</TableCell>
+                      <TableCell>{account.bank_code} - {account.bank_name}</TableCell>
+                      <TableCell>{account.agency} / {account.account}</TableCell>
+                      <TableCell>{account.next_file_sequence}</TableCell>
+                      <TableCell>
+                        <Badge variant={account.active ? "default" : "secondary"}>
+                          {account.active ? 'Ativa' : 'Inativa'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" title="Editar" onClick={() => startEdit(account)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={account.active ? 'Desativar' : 'Ativar'}
+                            onClick={() => handleToggleActive(account)}
+                          >
+                            {account.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,26 +1,44 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Upload, FileText, Check, X, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Label } from '@/components/ui/label';
+import { Upload, FileText, Check, X, AlertCircle, Copy, Download, ArrowLeft } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-
-interface CSVRow {
-  nome_fornecedor: string;
-  cnpj_cpf?: string;
-  descricao: string;
-  valor: string;
-  vencimento: string;
-  tipo_pagamento: string;
-  centro_custo: string;
-  dados_pagamento?: string; // linha digitável do boleto ou chave pix
+import { findDuplicateAccounts, getDuplicateReasonLabel, type DuplicateAccount } from '@/lib/duplicateAccounts';
+import { matchCostCenterPath, type CostCenterTreeItem } from '@/lib/costCenterTree';
+import { DELIMITER_LABELS, readSpreadsheetFile, type SpreadsheetData } from '@/lib/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  buildImportErrorReport,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRow
+} from '@/lib/payablesImport';
+import { downloadFile } from '@/lib/download';
+import type { TablesInsert } from '@/integrations/supabase/types';
+
+// Upload -> map the file's columns -> preview with per-row validation -> import the valid rows
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+interface DuplicateRow {
+  row: number;
+  account: TablesInsert<'accounts_payable'>;
+  matches: DuplicateAccount[];
+  decision: 'pending' | 'skipped' | 'forced';
 }
 
 interface ProcessResult {
   success: number;
   errors: { row: number; error: string }[];
+  duplicates: DuplicateRow[];
   created_suppliers: string[];
   created_cost_centers: string[];
 }
@@ -29,45 +47,81 @@ interface CSVImportProps {
   onSuccess: () => void;
 }
 
+// Radix Select can't hold an empty value
+const UNMAPPED = 'none';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
 export const CSVImport = ({ onSuccess }: CSVImportProps) => {
   const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [reading, setReading] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [result, setResult] = useState<ProcessResult | null>(null);
   const [progress, setProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
+    if (!selectedFile) return;
+
+    if (!/\.(csv|txt|xlsx)$/i.test(selectedFile.name) || selectedFile.size > MAX_FILE_SIZE) {
+      toast({
+        title: "Arquivo inválido",
+        description: "Selecione um arquivo CSV ou XLSX de até 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReading(true);
+    try {
+      const data = await readSpreadsheetFile(selectedFile);
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        throw new Error('O arquivo não tem linhas de dados abaixo do cabeçalho');
+      }
+
       setFile(selectedFile);
+      setSheet(data);
+      setMapping(guessColumnMapping(data.headers));
       setResult(null);
-    } else {
+      setStep('mapping');
+    } catch (error: unknown) {
       toast({
-        title: "Arquivo inválido",
-        description: "Selecione um arquivo CSV válido",
+        title: "Erro ao ler arquivo",
+        description: error instanceof Error ? error.message : "Não foi possível ler o arquivo",
         variant: "destructive",
       });
+    } finally {
+      setReading(false);
     }
   };
 
-  const parseCSV = (text: string): CSVRow[] => {
-    const lines = text.split('\n').filter(line => line.trim());
-    const headers = lines[0].split(';').map(h => h.trim().toLowerCase());
-    
-    return lines.slice(1).map(line => {
-      const values = line.split(';').map(v => v.trim().replace(/"/g, ''));
-      const row: any = {};
-      
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
-      });
-      
-      return row as CSVRow;
-    });
+  const previewRows = useMemo<ImportRow[]>(
+    () => (sheet && mapping && step === 'preview' ? validateImportRows(sheet.rows, mapping) : []),
+    [sheet, mapping, step]
+  );
+  const validRows = previewRows.filter(row => row.account);
+  const invalidRows = previewRows.filter(row => !row.account);
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : [];
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: value === UNMAPPED ? null : Number(value) });
+  };
+
+  const getSampleValue = (field: ImportField) => {
+    const column = mapping?.[field];
+    if (column === null || column === undefined || !sheet) return '';
+    return sheet.rows.find(({ values }) => values[column])?.values[column] || '';
   };
 
-  const findOrCreateSupplier = async (nome: string, documento?: string) => {
+  const findOrCreateSupplier = async (nome: string, documento?: string | null) => {
     // Procurar fornecedor existente
     let query = supabase
       .from('suppliers')
@@ -100,135 +154,109 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
     return newSupplier.id;
   };
 
-  const findOrCreateCostCenter = async (nome: string) => {
-    // Procurar centro de custo existente
-    const { data: existing } = await supabase
-      .from('cost_centers')
-      .select('id, name, code')
-      .ilike('name', nome)
-      .single();
-
-    if (existing) {
-      return existing.id;
+  const findOrCreateCostCenter = async (caminho: string, centros: CostCenterTreeItem[]) => {
+    // Procurar centro de custo existente, nível a nível quando vier o caminho completo
+    const match = matchCostCenterPath(centros, caminho);
+    if (match.ambiguous) {
+      throw new Error(`Centro de custo "${caminho}" existe em mais de um nível; informe o caminho completo (ex.: Loja 1 > ${caminho})`);
     }
 
-    // Criar novo centro de custo
-    const code = nome.substring(0, 3).toUpperCase();
-    
-    const { data: newCostCenter, error } = await supabase
-      .from('cost_centers')
-      .insert([{
-        name: nome,
-        code: code,
-        description: nome,
-        active: true,
-        created_by: (await supabase.auth.getUser()).data.user?.id,
-      }])
-      .select()
-      .single();
-
-    if (error) throw error;
-    return newCostCenter.id;
-  };
-
-  const validatePaymentType = (tipo: string): 'boleto' | 'pix' | 'transferencia' | 'cartao' => {
-    const normalized = tipo.toLowerCase().trim();
-    const typeMap: { [key: string]: 'boleto' | 'pix' | 'transferencia' | 'cartao' } = {
-      'boleto': 'boleto',
-      'pix': 'pix',
-      'transferencia': 'transferencia',
-      'transferência': 'transferencia',
-      'cartao': 'cartao',
-      'cartão': 'cartao',
-    };
-
-    return typeMap[normalized] || 'boleto';
-  };
-
-  const parseAmount = (valor: string): number => {
-    return parseFloat(valor.replace(/[^\d,]/g, '').replace(',', '.'));
-  };
-
-  const parseDate = (data: string): string => {
-    // Formato esperado: DD/MM/YYYY ou YYYY-MM-DD
-    if (data.includes('/')) {
-      const [day, month, year] = data.split('/');
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    // Criar os níveis que faltam abaixo do último encontrado
+    let parentId = match.matchedId;
+    for (const nome of match.missing) {
+      const parent = centros.find(centro => centro.id === parentId);
+      const sigla = nome.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').substring(0, 3).toUpperCase();
+      const code = parent ? `${parent.code}-${sigla}` : sigla;
+
+      const { data: newCostCenter, error } = await supabase
+        .from('cost_centers')
+        .insert([{
+          name: nome,
+          code: code,
+          description: nome,
+          parent_id: parentId,
+          active: true,
+          created_by: (await supabase.auth.getUser()).data.user?.id,
+        }])
+        .select('id, name, code, parent_id')
+        .single();
+
+      if (error) throw error;
+      centros.push(newCostCenter);
+      parentId = newCostCenter.id;
     }
-    return data; // Assume que já está no formato correto
+
+    return parentId;
   };
 
-  const processCSV = async () => {
-    if (!file) return;
+  const processImport = async () => {
+    if (validRows.length === 0) return;
 
     setProcessing(true);
     setProgress(0);
 
     try {
-      const text = await file.text();
-      const rows = parseCSV(text);
-      
+      const { data: costCenters, error: costCentersError } = await supabase
+        .from('cost_centers')
+        .select('id, name, code, parent_id');
+      if (costCentersError) throw costCentersError;
+      const centros: CostCenterTreeItem[] = costCenters || [];
+      const userId = (await supabase.auth.getUser()).data.user?.id;
+
       const result: ProcessResult = {
         success: 0,
         errors: [],
+        duplicates: [],
         created_suppliers: [],
         created_cost_centers: [],
       };
 
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
-        setProgress(((i + 1) / rows.length) * 100);
+      for (let i = 0; i < validRows.length; i++) {
+        const { line, account: row } = validRows[i];
+        setProgress(((i + 1) / validRows.length) * 100);
 
         try {
-          // Debug: log da linha atual
-          console.log('Processando linha:', i + 2, row);
-          
-          // Validar campos obrigatórios
-          if (!row.nome_fornecedor || !row.descricao || !row.valor || !row.vencimento || !row.centro_custo) {
-            console.log('Campos faltando:', {
-              nome_fornecedor: row.nome_fornecedor,
-              descricao: row.descricao,
-              valor: row.valor,
-              vencimento: row.vencimento,
-              centro_custo: row.centro_custo
-            });
-            result.errors.push({
-              row: i + 2, // +2 porque começamos do índice 0 e pulamos o cabeçalho
-              error: 'Campos obrigatórios não preenchidos'
-            });
-            continue;
-          }
-
           // Criar/encontrar fornecedor
-          const supplierId = await findOrCreateSupplier(row.nome_fornecedor, row.cnpj_cpf);
-          if (!result.created_suppliers.includes(row.nome_fornecedor)) {
-            result.created_suppliers.push(row.nome_fornecedor);
+          const supplierId = await findOrCreateSupplier(row.supplierName, row.document);
+          if (!result.created_suppliers.includes(row.supplierName)) {
+            result.created_suppliers.push(row.supplierName);
           }
 
           // Criar/encontrar centro de custo
-          const costCenterId = await findOrCreateCostCenter(row.centro_custo);
-          if (!result.created_cost_centers.includes(row.centro_custo)) {
-            result.created_cost_centers.push(row.centro_custo);
+          const costCenterId = await findOrCreateCostCenter(row.costCenter, centros);
+          if (!result.created_cost_centers.includes(row.costCenter)) {
+            result.created_cost_centers.push(row.costCenter);
           }
 
           // Criar conta a pagar
-          const paymentType = validatePaymentType(row.tipo_pagamento);
           const accountData = {
             supplier_id: supplierId,
             cost_center_id: costCenterId,
-            payment_type: paymentType,
-            description: row.descricao,
-            amount: parseAmount(row.valor),
-            due_date: parseDate(row.vencimento),
+            payment_type: row.paymentType,
+            description: row.description,
+            amount: row.amount,
+            due_date: row.dueDate,
             status: 'em_aberto' as const,
-            created_by: (await supabase.auth.getUser()).data.user?.id,
+            created_by: userId,
             // Campos específicos do tipo de pagamento
-            boleto_barcode: paymentType === 'boleto' ? row.dados_pagamento : null,
-            pix_key: paymentType === 'pix' ? row.dados_pagamento : null,
-            pix_receiver_name: paymentType === 'pix' && supplierId ? 
+            boleto_barcode: row.paymentType === 'boleto' ? row.paymentData : null,
+            pix_key: row.paymentType === 'pix' ? row.paymentData : null,
+            pix_receiver_name: row.paymentType === 'pix' && supplierId ?
               (await supabase.from('suppliers').select('name').eq('id', supplierId).single()).data?.name : null,
           };
 
+          // Possíveis duplicadas ficam para decisão do usuário (ignorar/forçar)
+          const matches = await findDuplicateAccounts({
+            boletoBarcode: accountData.boleto_barcode,
+            supplierId: accountData.supplier_id,
+            amount: accountData.amount,
+            dueDate: accountData.due_date,
+          });
+          if (matches.length > 0) {
+            result.duplicates.push({ row: line, account: accountData, matches, decision: 'pending' });
+            continue;
+          }
+
           const { error } = await supabase
             .from('accounts_payable')
             .insert(accountData);
@@ -238,14 +266,14 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
 
         } catch (error: any) {
           result.errors.push({
-            row: i + 2,
+            row: line,
             error: error.message || 'Erro desconhecido'
           });
         }
       }
 
       setResult(result);
-      
+
       if (result.success > 0) {
         toast({
           title: "Importação concluída",
@@ -254,6 +282,13 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
         onSuccess();
       }
 
+      if (result.duplicates.length > 0) {
+        toast({
+          title: "Possíveis duplicadas",
+          description: `${result.duplicates.length} linha(s) aguardando decisão`,
+        });
+      }
+
     } catch (error: any) {
       toast({
         title: "Erro na importação",
@@ -266,10 +301,61 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
     }
   };
 
+  // Rows rejected in the preview plus the ones that failed while importing
+  const handleDownloadErrorReport = () => {
+    if (!sheet || !file) return;
+
+    const rejected = [
+      ...invalidRows.map(row => ({ line: row.line, values: row.values, error: row.errors.join('; ') })),
+      ...(result?.errors || []).map(error => ({
+        line: error.row,
+        values: previewRows.find(row => row.line === error.row)?.values || [],
+        error: error.error
+      }))
+    ].sort((a, b) => a.line - b.line);
+
+    // BOM so Excel opens the accents correctly
+    downloadFile(
+      `${file.name.replace(/\.\w+$/, '')}-erros.csv`,
+      '\uFEFF' + buildImportErrorReport(sheet.headers, rejected),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleDuplicateDecision = async (index: number, decision: 'skipped' | 'forced') => {
+    if (!result) return;
+    const duplicate = result.duplicates[index];
+
+    if (decision === 'forced') {
+      const { error } = await supabase
+        .from('accounts_payable')
+        .insert(duplicate.account);
+
+      if (error) {
+        toast({
+          title: "Erro",
+          description: `Linha ${duplicate.row}: ${error.message}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      onSuccess();
+    }
+
+    setResult(prev => prev && {
+      ...prev,
+      success: prev.success + (decision === 'forced' ? 1 : 0),
+      duplicates: prev.duplicates.map((d, i) => i === index ? { ...d, decision } : d),
+    });
+  };
+
   const resetImport = () => {
     setFile(null);
+    setSheet(null);
+    setMapping(null);
     setResult(null);
     setProgress(0);
+    setStep('upload');
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -277,74 +363,206 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
 
   return (
     <div className="space-y-6">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Upload className="h-5 w-5" />
-            Importar Contas via CSV
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="text-sm text-muted-foreground space-y-2">
-            <p><strong>Formato esperado do CSV:</strong></p>
-            <p>Colunas separadas por ponto e vírgula (;): nome_fornecedor; cnpj_cpf; descricao; valor; vencimento; tipo_pagamento; centro_custo; dados_pagamento</p>
-            <p><strong>Tipos de pagamento:</strong> boleto, pix, transferencia, cartao</p>
-            <p><strong>Dados de pagamento:</strong> linha digitável (boleto) ou chave PIX</p>
-            <p><strong>Formato de data:</strong> DD/MM/YYYY</p>
-            <p><strong>Formato de valor:</strong> 1000,50 ou 1.000,50</p>
-          </div>
-
-          <div className="border-2 border-dashed border-border rounded-lg p-6">
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".csv"
-              onChange={handleFileSelect}
-              className="hidden"
-              id="csv-upload"
-            />
-            <label
-              htmlFor="csv-upload"
-              className="flex flex-col items-center gap-2 cursor-pointer"
-            >
-              <FileText className="h-12 w-12 text-muted-foreground" />
+      {step === 'upload' && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Importar Contas via CSV ou Excel
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm text-muted-foreground space-y-2">
+              <p><strong>Arquivos aceitos:</strong> CSV (separado por ponto e vírgula, vírgula ou tabulação, em UTF-8 ou Latin-1) e XLSX (primeira planilha)</p>
+              <p>A primeira linha deve conter os nomes das colunas; na etapa seguinte você indica qual coluna corresponde a cada campo.</p>
+              <p><strong>Tipos de pagamento:</strong> boleto, pix, transferencia, cartao</p>
+              <p><strong>Centro de custo:</strong> nome, código ou caminho completo (ex.: Loja 1 &gt; Manutenção)</p>
+              <p><strong>Dados de pagamento:</strong> linha digitável (boleto) ou chave PIX</p>
+              <p><strong>Formato de data:</strong> DD/MM/YYYY</p>
+              <p><strong>Formato de valor:</strong> 1000,50 ou 1.000,50</p>
+            </div>
+
+            <div className="border-2 border-dashed border-border rounded-lg p-6">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={handleFileSelect}
+                className="hidden"
+                id="csv-upload"
+                disabled={reading}
+              />
+              <label
+                htmlFor="csv-upload"
+                className="flex flex-col items-center gap-2 cursor-pointer"
+              >
+                <FileText className="h-12 w-12 text-muted-foreground" />
+                <div className="text-center">
+                  <p className="text-sm font-medium">
+                    {reading ? 'Lendo arquivo...' : 'Clique para selecionar o arquivo CSV ou XLSX'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Máximo 10MB
+                  </p>
+                </div>
+              </label>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'mapping' && sheet && mapping && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Mapear Colunas
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{file?.name}</Badge>
+              <Badge variant="outline">{sheet.rows.length} linha(s)</Badge>
+              {sheet.delimiter && <Badge variant="outline">Separador: {DELIMITER_LABELS[sheet.delimiter]}</Badge>}
+              {sheet.encoding && <Badge variant="outline">Codificação: {sheet.encoding}</Badge>}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label>{field.label}{field.required && ' *'}</Label>
+                  <Select
+                    value={mapping[field.key] === null ? UNMAPPED : String(mapping[field.key])}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Coluna ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {getSampleValue(field.key) ? `Ex.: ${getSampleValue(field.key)}` : ' '}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {missingFields.length > 0 && (
+              <p className="text-sm text-destructive">
+                Selecione a coluna de: {missingFields.map(field => field.label).join(', ')}
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={resetImport}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Outro arquivo
+              </Button>
+              <Button className="flex-1" onClick={() => setStep('preview')} disabled={missingFields.length > 0}>
+                Validar linhas
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && sheet && !result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Check className="h-5 w-5" />
+              Conferir Importação
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
               <div className="text-center">
-                <p className="text-sm font-medium">
-                  {file ? file.name : 'Clique para selecionar o arquivo CSV'}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  Máximo 10MB
-                </p>
+                <div className="text-2xl font-bold text-green-600">{validRows.length}</div>
+                <p className="text-sm text-muted-foreground">Linhas válidas</p>
               </div>
-            </label>
-          </div>
-
-          {processing && (
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span>Processando...</span>
-                <span>{Math.round(progress)}%</span>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-red-600">{invalidRows.length}</div>
+                <p className="text-sm text-muted-foreground">Linhas com erro (não serão importadas)</p>
               </div>
-              <Progress value={progress} />
             </div>
-          )}
-
-          <div className="flex gap-2">
-            <Button
-              onClick={processCSV}
-              disabled={!file || processing}
-              className="flex-1"
-            >
-              {processing ? 'Processando...' : 'Importar CSV'}
-            </Button>
-            {(file || result) && (
-              <Button variant="outline" onClick={resetImport}>
-                Limpar
-              </Button>
+
+            <div className="rounded-md border max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Linha</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Vencimento</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Centro de Custo</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map(row => (
+                    <TableRow key={row.line} className={row.account ? undefined : 'bg-red-50'}>
+                      <TableCell>{row.line}</TableCell>
+                      {row.account ? (
+                        <>
+                          <TableCell>{row.account.supplierName}</TableCell>
+                          <TableCell>{row.account.description}</TableCell>
+                          <TableCell className="text-right font-mono">{formatCurrency(row.account.amount)}</TableCell>
+                          <TableCell>{new Date(row.account.dueDate + 'T12:00:00').toLocaleDateString('pt-BR')}</TableCell>
+                          <TableCell className="capitalize">{row.account.paymentType}</TableCell>
+                          <TableCell>{row.account.costCenter}</TableCell>
+                          <TableCell><Badge variant="success">OK</Badge></TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={7} className="text-sm text-red-600">
+                          <div className="flex items-start gap-1">
+                            <X className="h-4 w-4 shrink-0 mt-0.5" />
+                            {row.errors.join('; ')}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {processing && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Processando...</span>
+                  <span>{Math.round(progress)}%</span>
+                </div>
+                <Progress value={progress} />
+              </div>
             )}
-          </div>
-        </CardContent>
-      </Card>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={processing}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Voltar ao mapeamento
+              </Button>
+              {invalidRows.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrorReport} disabled={processing}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Relatório de erros
+                </Button>
+              )}
+              <Button className="flex-1" onClick={processImport} disabled={processing || validRows.length === 0}>
+                {processing ? 'Importando...' : `Importar ${validRows.length} conta(s) válida(s)`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {result && (
         <Card>
@@ -355,14 +573,20 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div className="text-center">
                 <div className="text-2xl font-bold text-green-600">{result.success}</div>
                 <p className="text-sm text-muted-foreground">Contas importadas</p>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold text-red-600">{result.errors.length}</div>
-                <p className="text-sm text-muted-foreground">Erros</p>
+                <div className="text-2xl font-bold text-red-600">{result.errors.length + invalidRows.length}</div>
+                <p className="text-sm text-muted-foreground">Linhas rejeitadas</p>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-amber-600">
+                  {result.duplicates.filter(d => d.decision === 'pending').length}
+                </div>
+                <p className="text-sm text-muted-foreground">Possíveis duplicadas</p>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-blue-600">
@@ -394,6 +618,45 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
               </div>
             )}
 
+            {result.duplicates.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2 flex items-center gap-1">
+                  <Copy className="h-4 w-4 text-amber-600" />
+                  Possíveis duplicadas:
+                </h4>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {result.duplicates.map((duplicate, index) => (
+                    <div key={duplicate.row} className="text-sm bg-amber-50 p-2 rounded space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          Linha {duplicate.row}: {duplicate.account.description} - R$ {Number(duplicate.account.amount).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                        </span>
+                        {duplicate.decision === 'pending' ? (
+                          <div className="flex gap-1 shrink-0">
+                            <Button size="sm" variant="outline" onClick={() => handleDuplicateDecision(index, 'skipped')}>
+                              Ignorar
+                            </Button>
+                            <Button size="sm" onClick={() => handleDuplicateDecision(index, 'forced')}>
+                              Importar mesmo assim
+                            </Button>
+                          </div>
+                        ) : (
+                          <Badge variant={duplicate.decision === 'forced' ? 'default' : 'secondary'}>
+                            {duplicate.decision === 'forced' ? 'Importada' : 'Ignorada'}
+                          </Badge>
+                        )}
+                      </div>
+                      {duplicate.matches.map((match) => (
+                        <p key={match.id} className="text-xs text-muted-foreground">
+                          {getDuplicateReasonLabel(match.reason)}: {match.supplier?.name || '-'} - {match.description} (venc. {new Date(match.due_date + 'T12:00:00').toLocaleDateString('pt-BR')})
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {result.errors.length > 0 && (
               <div>
                 <h4 className="font-medium mb-2 flex items-center gap-1">
@@ -409,6 +672,18 @@ export const CSVImport = ({ onSuccess }: CSVImportProps) => {
                 </div>
               </div>
             )}
+
+            <div className="flex gap-2">
+              {result.errors.length + invalidRows.length > 0 && (
+                <Button variant="outline" onClick={handleDownloadErrorReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Relatório de erros
+                </Button>
+              )}
+              <Button variant="outline" onClick={resetImport}>
+                Nova importação
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
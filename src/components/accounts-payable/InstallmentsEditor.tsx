@@ -0,0 +1,133 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+export interface InstallmentDraft {
+  amount: string;
+  due_date: string;
+  boleto_barcode: string;
+}
+
+interface InstallmentsEditorProps {
+  installments: InstallmentDraft[];
+  onChange: (installments: InstallmentDraft[]) => void;
+  total: number;
+  showBoleto: boolean;
+  count: string;
+  onCountChange: (value: string) => void;
+  intervalDays: string;
+  onIntervalDaysChange: (value: string) => void;
+}
+
+const parseInstallmentAmount = (amount: string) =>
+  parseFloat(amount.replace(/\./g, '').replace(',', '.')) || 0;
+
+const formatAmountInput = (value: string) => {
+  const numericValue = value.replace(/[^\d]/g, '');
+  return (parseFloat(numericValue || '0') / 100).toLocaleString('pt-BR', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const InstallmentsEditor = ({
+  installments,
+  onChange,
+  total,
+  showBoleto,
+  count,
+  onCountChange,
+  intervalDays,
+  onIntervalDaysChange,
+}: InstallmentsEditorProps) => {
+  const sum = installments.reduce((acc, installment) => acc + parseInstallmentAmount(installment.amount), 0);
+  const difference = Math.round((total - sum) * 100) / 100;
+
+  const updateInstallment = (index: number, changes: Partial<InstallmentDraft>) => {
+    onChange(installments.map((installment, i) => (i === index ? { ...installment, ...changes } : installment)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="installment-count">Nº de Parcelas</Label>
+          <Input
+            id="installment-count"
+            type="number"
+            min={2}
+            max={60}
+            value={count}
+            onChange={(e) => onCountChange(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="installment-interval">Intervalo (dias)</Label>
+          <Input
+            id="installment-interval"
+            type="number"
+            min={1}
+            value={intervalDays}
+            onChange={(e) => onIntervalDaysChange(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {installments.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[80px]">Parcela</TableHead>
+              <TableHead>Vencimento</TableHead>
+              <TableHead>Valor</TableHead>
+              {showBoleto && <TableHead>Código do Boleto</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {installments.map((installment, index) => (
+              <TableRow key={index}>
+                <TableCell>{index + 1}/{installments.length}</TableCell>
+                <TableCell>
+                  <Input
+                    type="date"
+                    value={installment.due_date}
+                    onChange={(e) => updateInstallment(index, { due_date: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    value={installment.amount}
+                    onChange={(e) => updateInstallment(index, { amount: formatAmountInput(e.target.value) })}
+                  />
+                </TableCell>
+                {showBoleto && (
+                  <TableCell>
+                    <Input
+                      value={installment.boleto_barcode}
+                      placeholder="Opcional"
+                      onChange={(e) => updateInstallment(index, { boleto_barcode: e.target.value })}
+                    />
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {installments.length > 0 && (
+        <div className="flex justify-between text-sm">
+          <span>Soma das parcelas: <strong>{formatCurrency(sum)}</strong></span>
+          {Math.abs(difference) >= 0.01 && (
+            <span className="text-destructive">
+              Diferença para o total: {formatCurrency(difference)}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Download, FileSpreadsheet, FileText, Printer } from 'lucide-react';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/payablesExport';
+
+interface PayablesExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_ICONS: Record<ExportFormat, typeof Download> = {
+  csv: FileText,
+  xlsx: FileSpreadsheet,
+  pdf: Printer
+};
+
+export const PayablesExportMenu = ({ onExport, disabled }: PayablesExportMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm" className="gap-2" disabled={disabled}>
+        <Download className="h-4 w-4" />
+        Exportar
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => {
+        const Icon = FORMAT_ICONS[format];
+        return (
+          <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+            <Icon className="h-4 w-4 mr-2" />
+            {EXPORT_FORMAT_LABELS[format]}
+          </DropdownMenuItem>
+        );
+      })}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -5,6 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
@@ -12,15 +13,34 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Upload, X, Copy, Check } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getAccountBalance, getPaymentPrincipal } from '@/lib/payables';
 
 const paymentSchema = z.object({
   payment_date: z.string().min(1, 'Data do pagamento é obrigatória'),
   amount_paid: z.string().min(1, 'Valor pago é obrigatório'),
+  discount_amount: z.string().optional(),
+  interest_amount: z.string().optional(),
   notes: z.string().optional(),
 });
 
 type PaymentFormData = z.infer<typeof paymentSchema>;
 
+interface PreviousPayment {
+  id: string;
+  payment_date: string;
+  amount_paid: number;
+  discount_amount: number;
+  interest_amount: number;
+  reconciliation_status: string;
+}
+
+const formatAmount = (value: number) => new Intl.NumberFormat('pt-BR', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+}).format(value);
+
+const parseAmount = (value?: string) => parseFloat((value || '').replace(/\./g, '').replace(',', '.')) || 0;
+
 interface PaymentModalProps {
   account: any;
   open: boolean;
@@ -32,36 +52,62 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
   const [loading, setLoading] = useState(false);
   const [attachment, setAttachment] = useState<File | null>(null);
   const [copiedText, setCopiedText] = useState<string | null>(null);
+  const [previousPayments, setPreviousPayments] = useState<PreviousPayment[]>([]);
   const { toast } = useToast();
 
+  const balance = account ? getAccountBalance(account) : 0;
+
   const form = useForm<PaymentFormData>({
     resolver: zodResolver(paymentSchema),
     defaultValues: {
       payment_date: new Date().toISOString().split('T')[0],
-      amount_paid: account?.amount ? new Intl.NumberFormat('pt-BR', {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      }).format(account.amount) : '',
+      amount_paid: account ? formatAmount(balance) : '',
+      discount_amount: '0,00',
+      interest_amount: '0,00',
       notes: '',
     },
   });
 
+  const amountPaid = form.watch('amount_paid');
+  const discountAmount = form.watch('discount_amount');
+  const interestAmount = form.watch('interest_amount');
+  const principal = getPaymentPrincipal({
+    amount_paid: parseAmount(amountPaid),
+    discount_amount: parseAmount(discountAmount),
+    interest_amount: parseAmount(interestAmount),
+  });
+  const remainingAfter = Math.max(0, Math.round((balance - principal) * 100) / 100);
+
   // Atualiza o formulário quando a conta mudar ou o modal abrir
   useEffect(() => {
     if (open && account) {
       form.reset({
         payment_date: new Date().toISOString().split('T')[0],
-        amount_paid: new Intl.NumberFormat('pt-BR', {
-          minimumFractionDigits: 2,
-          maximumFractionDigits: 2,
-        }).format(account.amount),
+        amount_paid: formatAmount(getAccountBalance(account)),
+        discount_amount: '0,00',
+        interest_amount: '0,00',
         notes: '',
       });
       setAttachment(null);
       setCopiedText(null);
+      fetchPreviousPayments(account.id);
     }
   }, [open, account, form]);
 
+  const fetchPreviousPayments = async (accountId: string) => {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, payment_date, amount_paid, discount_amount, interest_amount, reconciliation_status')
+      .eq('account_id', accountId)
+      .order('payment_date');
+
+    if (error) {
+      console.error('Erro ao carregar pagamentos anteriores:', error);
+      return;
+    }
+    setPreviousPayments(data || []);
+  };
+
   // Função para copiar texto
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -146,6 +192,15 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
   };
 
   const onSubmit = async (data: PaymentFormData) => {
+    if (principal <= 0) {
+      form.setError('amount_paid', { message: 'O pagamento deve abater um valor maior que zero' });
+      return;
+    }
+    if (principal > balance + 0.005) {
+      form.setError('amount_paid', { message: `O valor abatido excede o saldo em aberto (${formatAccountCurrency(balance)})` });
+      return;
+    }
+
     setLoading(true);
     try {
       let attachmentUrl = null;
@@ -188,7 +243,9 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
         .insert([{
           account_id: account.id,
           payment_date: data.payment_date,
-          amount_paid: parseFloat(data.amount_paid.replace(',', '.')),
+          amount_paid: parseAmount(data.amount_paid),
+          discount_amount: parseAmount(data.discount_amount),
+          interest_amount: parseAmount(data.interest_amount),
           payment_method: getPaymentMethodFromAccount(),
           notes: data.notes || null,
           attachment_url: attachmentUrl,
@@ -206,14 +263,14 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
           .eq('file_path', attachmentUrl);
       }
 
-      // Account status will be automatically updated to 'pago' by database trigger
+      // Balance and status (parcialmente_pago / pago) are updated by database trigger
 
       onSuccess();
     } catch (error: any) {
       console.error('Erro ao registrar pagamento:', error);
       toast({
         title: "Erro",
-        description: "Falha ao registrar pagamento",
+        description: error?.message?.includes('saldo') ? error.message : "Falha ao registrar pagamento",
         variant: "destructive",
       });
     } finally {
@@ -232,7 +289,7 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Marcar como Pago</DialogTitle>
+          <DialogTitle>Registrar Pagamento</DialogTitle>
         </DialogHeader>
 
         {account && (
@@ -250,6 +307,9 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
                 <div>
                   <span className="font-medium">Valor Original:</span> {formatAccountCurrency(account.amount)}
                 </div>
+                <div>
+                  <span className="font-medium">Saldo em Aberto:</span> {formatAccountCurrency(balance)}
+                </div>
                 <div>
                   <span className="font-medium">Vencimento:</span> {
                     // Formatar data evitando problemas de timezone
@@ -316,6 +376,29 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
               </div>
             </div>
 
+            {previousPayments.length > 0 && (
+              <div className="rounded-lg border p-4">
+                <h3 className="font-semibold mb-2">Pagamentos Anteriores</h3>
+                <div className="space-y-1 text-sm">
+                  {previousPayments.map((payment) => (
+                    <div key={payment.id} className="flex justify-between">
+                      <span>
+                        {payment.payment_date.split('-').reverse().join('/')}
+                        {Number(payment.discount_amount) > 0 && ` • desconto ${formatAccountCurrency(payment.discount_amount)}`}
+                        {Number(payment.interest_amount) > 0 && ` • juros/multa ${formatAccountCurrency(payment.interest_amount)}`}
+                      </span>
+                      <span className="font-medium">
+                        {formatAccountCurrency(payment.amount_paid)}
+                        {payment.reconciliation_status === 'conciliado' && (
+                          <Badge variant="success" className="ml-2">Conciliado</Badge>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <Form {...form}>
               <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
@@ -343,14 +426,64 @@ export const PaymentModal = ({ account, open, onClose, onSuccess }: PaymentModal
                           <Input
                             {...field}
                             placeholder="0,00"
-                            disabled
-                            className="bg-gray-100 cursor-not-allowed"
+                            onChange={(e) => field.onChange(formatCurrency(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="discount_amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Desconto</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="0,00"
+                            onChange={(e) => field.onChange(formatCurrency(e.target.value))}
                           />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+
+                  <FormField
+                    control={form.control}
+                    name="interest_amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Juros / Multa</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="0,00"
+                            onChange={(e) => field.onChange(formatCurrency(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 rounded-lg bg-gray-50 p-3 text-sm">
+                  <div>
+                    <span className="font-medium">Abatido do saldo:</span> {formatAccountCurrency(principal)}
+                  </div>
+                  <div>
+                    <span className="font-medium">Saldo após pagamento:</span>{' '}
+                    <span className={remainingAfter > 0 ? 'text-orange-600' : 'text-green-600'}>
+                      {formatAccountCurrency(remainingAfter)}
+                    </span>
+                    {remainingAfter > 0 && principal > 0 && (
+                      <span className="text-xs text-muted-foreground"> (pagamento parcial)</span>
+                    )}
+                  </div>
                 </div>
 
                 <FormField
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { OPEN_ACCOUNT_STATUSES } from '@/lib/payables';
+import { ApprovalDialog } from './ApprovalDialog';
+
+interface PendingAccount {
+  id: string;
+  description: string;
+  amount: number;
+  due_date: string;
+  suppliers: { name: string } | null;
+  cost_centers: { name: string; code: string } | null;
+}
+
+interface PendingApprovalsQueueProps {
+  onReviewed?: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+export const PendingApprovalsQueue = ({ onReviewed }: PendingApprovalsQueueProps) => {
+  const [accounts, setAccounts] = useState<PendingAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<PendingAccount | null>(null);
+
+  const fetchPending = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('accounts_payable')
+      .select('id, description, amount, due_date, suppliers(name), cost_centers(name, code)')
+      .eq('approval_status', 'pendente')
+      .in('status', OPEN_ACCOUNT_STATUSES)
+      .order('due_date', { ascending: true });
+
+    if (error) {
+      console.error('Erro ao carregar aprovações pendentes:', error);
+    } else {
+      setAccounts((data || []) as PendingAccount[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  const handleReviewed = () => {
+    setReviewing(null);
+    fetchPending();
+    onReviewed?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <ShieldCheck className="h-5 w-5 mr-2" />
+          Aprovações Pendentes
+          {accounts.length > 0 && (
+            <Badge variant="warning" className="ml-2">{accounts.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Contas acima do limite do centro de custo aguardando liberação para pagamento
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Carregando...</div>
+        ) : accounts.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">Nenhuma conta aguardando aprovação</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Conta</TableHead>
+                <TableHead>Centro de Custo</TableHead>
+                <TableHead>Vencimento</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts.map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell>
+                    {account.description}
+                    <p className="text-xs text-muted-foreground">{account.suppliers?.name}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{account.cost_centers?.code}</Badge>
+                  </TableCell>
+                  <TableCell>{account.due_date.split('-').reverse().join('/')}</TableCell>
+                  <TableCell className="text-right font-mono">{formatCurrency(Number(account.amount))}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" onClick={() => setReviewing(account)}>
+                      Analisar
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ApprovalDialog
+        account={reviewing}
+        open={!!reviewing}
+        onClose={() => setReviewing(null)}
+        onSuccess={handleReviewed}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,576 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getUpcomingOccurrences, type RecurringAccount } from '@/lib/recurrence';
+import { flattenCostCenterTree, type CostCenterTreeItem } from '@/lib/costCenterTree';
+
+const recurringAccountSchema = z.object({
+  supplier_id: z.string().min(1, 'Fornecedor é obrigatório'),
+  cost_center_id: z.string().min(1, 'Centro de custo é obrigatório'),
+  payment_type: z.enum(['boleto', 'cartao', 'transferencia', 'pix']),
+  description: z.string().min(1, 'Descrição é obrigatória'),
+  amount: z.string().min(1, 'Valor é obrigatório'),
+  observations: z.string().optional(),
+  frequency: z.enum(['weekly', 'monthly', 'yearly']),
+  day_of_month: z.string().optional(),
+  start_date: z.string().min(1, 'Data inicial é obrigatória'),
+  end_date: z.string().optional(),
+  max_occurrences: z.string().optional(),
+  pix_key: z.string().optional(),
+  pix_receiver_name: z.string().optional(),
+  transfer_bank: z.string().optional(),
+  transfer_agency: z.string().optional(),
+  transfer_account: z.string().optional(),
+  transfer_account_type: z.string().optional(),
+  transfer_holder_name: z.string().optional(),
+  transfer_holder_document: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const day = Number(data.day_of_month);
+  if (data.frequency !== 'weekly' && data.day_of_month && (!Number.isInteger(day) || day < 1 || day > 31)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['day_of_month'], message: 'Informe um dia entre 1 e 31' });
+  }
+  if (data.end_date && data.end_date < data.start_date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end_date'], message: 'Data final deve ser após a data inicial' });
+  }
+  if (data.max_occurrences && !(Number(data.max_occurrences) > 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['max_occurrences'], message: 'Informe uma quantidade maior que zero' });
+  }
+});
+
+type RecurringAccountFormData = z.infer<typeof recurringAccountSchema>;
+
+interface RecurringAccountFormProps {
+  onSuccess: () => void;
+  initialData?: RecurringAccount | null;
+}
+
+const parseFormAmount = (amount: string) => parseFloat(amount.replace(/\./g, '').replace(',', '.'));
+
+const formatCurrency = (value: string) => {
+  const numericValue = value.replace(/[^\d]/g, '');
+  return (parseFloat(numericValue) / 100).toLocaleString('pt-BR', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+export const RecurringAccountForm = ({ onSuccess, initialData }: RecurringAccountFormProps) => {
+  const [suppliers, setSuppliers] = useState<{ id: string; name: string }[]>([]);
+  const [costCenters, setCostCenters] = useState<CostCenterTreeItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<RecurringAccountFormData>({
+    resolver: zodResolver(recurringAccountSchema),
+    defaultValues: {
+      supplier_id: initialData?.supplier_id || '',
+      cost_center_id: initialData?.cost_center_id || '',
+      payment_type: initialData?.payment_type || 'boleto',
+      description: initialData?.description || '',
+      amount: initialData?.amount
+        ? Number(initialData.amount).toLocaleString('pt-BR', {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })
+        : '',
+      observations: initialData?.observations || '',
+      frequency: (initialData?.frequency as RecurringAccountFormData['frequency']) || 'monthly',
+      day_of_month: initialData?.day_of_month ? String(initialData.day_of_month) : '',
+      start_date: initialData?.start_date || '',
+      end_date: initialData?.end_date || '',
+      max_occurrences: initialData?.max_occurrences ? String(initialData.max_occurrences) : '',
+      pix_key: initialData?.pix_key || '',
+      pix_receiver_name: initialData?.pix_receiver_name || '',
+      transfer_bank: initialData?.transfer_bank || '',
+      transfer_agency: initialData?.transfer_agency || '',
+      transfer_account: initialData?.transfer_account || '',
+      transfer_account_type: initialData?.transfer_account_type || '',
+      transfer_holder_name: initialData?.transfer_holder_name || '',
+      transfer_holder_document: initialData?.transfer_holder_document || '',
+    },
+  });
+
+  const paymentType = form.watch('payment_type');
+  const frequency = form.watch('frequency');
+  const dayOfMonth = form.watch('day_of_month');
+  const startDate = form.watch('start_date');
+  const endDate = form.watch('end_date');
+  const maxOccurrences = form.watch('max_occurrences');
+
+  useEffect(() => {
+    fetchSuppliers();
+    fetchCostCenters();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .select('id, name')
+        .eq('active', true)
+        .order('name');
+
+      if (error) throw error;
+      setSuppliers(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar fornecedores:', error);
+    }
+  };
+
+  const fetchCostCenters = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('cost_centers')
+        .select('id, name, code, parent_id')
+        .eq('active', true)
+        .order('name');
+
+      if (error) throw error;
+      setCostCenters(data || []);
+    } catch (error) {
+      console.error('Erro ao carregar centros de custo:', error);
+    }
+  };
+
+  // Preview of the first bills the current rule would generate
+  const day = Number(dayOfMonth);
+  const preview = startDate
+    ? getUpcomingOccurrences({
+        frequency,
+        day_of_month: frequency !== 'weekly' && day >= 1 && day <= 31 ? day : null,
+        start_date: startDate,
+        end_date: endDate || null,
+        max_occurrences: Number(maxOccurrences) > 0 ? Number(maxOccurrences) : null,
+        generated_count: initialData?.generated_count || 0,
+      }, 6)
+    : [];
+
+  const onSubmit = async (data: RecurringAccountFormData) => {
+    setLoading(true);
+    try {
+      const templateData = {
+        supplier_id: data.supplier_id,
+        cost_center_id: data.cost_center_id,
+        payment_type: data.payment_type,
+        description: data.description,
+        amount: parseFormAmount(data.amount),
+        observations: data.observations || null,
+        frequency: data.frequency,
+        day_of_month: data.frequency !== 'weekly' && data.day_of_month ? Number(data.day_of_month) : null,
+        start_date: data.start_date,
+        end_date: data.end_date || null,
+        max_occurrences: data.max_occurrences ? Number(data.max_occurrences) : null,
+        pix_key: data.payment_type === 'pix' ? data.pix_key : null,
+        pix_receiver_name: data.payment_type === 'pix' ? data.pix_receiver_name : null,
+        transfer_bank: data.payment_type === 'transferencia' ? data.transfer_bank : null,
+        transfer_agency: data.payment_type === 'transferencia' ? data.transfer_agency : null,
+        transfer_account: data.payment_type === 'transferencia' ? data.transfer_account : null,
+        transfer_account_type: data.payment_type === 'transferencia' ? data.transfer_account_type : null,
+        transfer_holder_name: data.payment_type === 'transferencia' ? data.transfer_holder_name : null,
+        transfer_holder_document: data.payment_type === 'transferencia' ? data.transfer_holder_document : null,
+      };
+
+      const { error } = initialData
+        ? await supabase
+            .from('recurring_accounts')
+            .update(templateData)
+            .eq('id', initialData.id)
+        : await supabase
+            .from('recurring_accounts')
+            .insert([{ ...templateData, created_by: (await supabase.auth.getUser()).data.user?.id }]);
+
+      if (error) throw error;
+      onSuccess();
+    } catch (error) {
+      console.error('Erro ao salvar conta recorrente:', error);
+      toast({
+        title: "Erro",
+        description: `Falha ao ${initialData ? 'atualizar' : 'cadastrar'} conta recorrente`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Dados da Conta</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="supplier_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fornecedor *</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o fornecedor" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="cost_center_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Centro de Custo *</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o centro de custo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {flattenCostCenterTree(costCenters).map(({ center, depth }) => (
+                          <SelectItem key={center.id} value={center.id}>
+                            <span style={{ paddingLeft: depth * 12 }}>{center.code} - {center.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição *</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Ex: Aluguel, Internet, Contabilidade" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="payment_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo de Pagamento *</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="boleto">Boleto</SelectItem>
+                        <SelectItem value="pix">PIX</SelectItem>
+                        <SelectItem value="transferencia">Transferência</SelectItem>
+                        <SelectItem value="cartao">Cartão</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valor *</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="0,00"
+                        onChange={(e) => field.onChange(formatCurrency(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {paymentType === 'boleto' && (
+              <p className="text-xs text-muted-foreground">
+                O código de barras muda a cada mês e deve ser informado em cada conta gerada.
+              </p>
+            )}
+
+            {paymentType === 'pix' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="pix_key"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Chave PIX</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="CPF, e-mail, telefone ou chave aleatória" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="pix_receiver_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome do Recebedor</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Nome completo do recebedor" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {paymentType === 'transferencia' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="transfer_bank"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Banco</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Nome do banco" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="transfer_agency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Agência</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Número da agência" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="transfer_account"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Conta</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Número da conta" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="transfer_account_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo de Conta</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="corrente">Conta Corrente</SelectItem>
+                          <SelectItem value="poupanca">Poupança</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="transfer_holder_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome do Titular</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Nome completo do titular" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="transfer_holder_document"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CPF/CNPJ do Titular</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Documento do titular" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="observations"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Observações</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={2} className="resize-none" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recorrência</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Frequência *</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="weekly">Semanal</SelectItem>
+                        <SelectItem value="monthly">Mensal</SelectItem>
+                        <SelectItem value="yearly">Anual</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {frequency !== 'weekly' && (
+                <FormField
+                  control={form.control}
+                  name="day_of_month"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Dia do Vencimento</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="number" min={1} max={31} placeholder="Mesmo dia da data inicial" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data Inicial *</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data Final</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="max_occurrences"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nº de Ocorrências</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={1} placeholder="Sem limite" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {preview.length > 0 && (
+              <div className="rounded-md border p-3">
+                <p className="text-sm font-medium mb-2">Próximos vencimentos</p>
+                <div className="flex flex-wrap gap-2">
+                  {preview.map((occurrence) => (
+                    <span key={occurrence.index} className="text-xs rounded bg-muted px-2 py-1">
+                      {format(new Date(occurrence.dueDate + 'T12:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end gap-4">
+          <Button type="submit" disabled={loading}>
+            {loading ? 'Salvando...' : (initialData ? 'Atualizar Recorrência' : 'Salvar Recorrência')}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
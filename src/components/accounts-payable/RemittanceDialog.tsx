@@ -0,0 +1,230 @@
+import { useState, useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, FileDown } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { isAwaitingApproval } from '@/lib/payables';
+import type { BankAccount } from '@/lib/cnab240';
+import {
+  REMITTANCE_ACCOUNT_FIELDS,
+  createRemittance,
+  prepareRemittance,
+  type RemittanceCandidate,
+  type RemittanceDraft
+} from '@/lib/paymentRemittances';
+
+interface RemittanceDialogProps {
+  accountIds: string[];
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const PAYMENT_TYPE_LABELS: Record<string, string> = {
+  boleto: 'Boleto',
+  transferencia: 'TED',
+  pix: 'PIX',
+  cartao: 'Cartão'
+};
+
+export const RemittanceDialog = ({ accountIds, open, onClose, onSuccess }: RemittanceDialogProps) => {
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [accounts, setAccounts] = useState<RemittanceCandidate[]>([]);
+  const [pendingAccountIds, setPendingAccountIds] = useState<Set<string>>(new Set());
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || accountIds.length === 0) return;
+
+    const load = async () => {
+      setLoading(true);
+      const [banksResult, accountsResult, pendingResult] = await Promise.all([
+        supabase.from('bank_accounts').select('*').eq('active', true).order('name'),
+        supabase.from('accounts_payable').select(REMITTANCE_ACCOUNT_FIELDS).in('id', accountIds).order('due_date'),
+        supabase
+          .from('payment_remittance_items')
+          .select('account_id')
+          .in('account_id', accountIds)
+          .in('status', ['enviado', 'agendado'])
+      ]);
+
+      const loadError = banksResult.error || accountsResult.error || pendingResult.error;
+      if (loadError) {
+        console.error('Erro ao preparar remessa:', loadError);
+        toast({ title: "Erro", description: "Falha ao carregar dados da remessa", variant: "destructive" });
+      }
+
+      const banks = banksResult.data || [];
+      setBankAccounts(banks);
+      setBankAccountId(current => current || banks[0]?.id || '');
+      setAccounts((accountsResult.data || []) as unknown as RemittanceCandidate[]);
+      setPendingAccountIds(new Set((pendingResult.data || []).map(item => item.account_id)));
+      setLoading(false);
+    };
+
+    load();
+  }, [open, accountIds, toast]);
+
+  // An account still waiting for the bank's return must not be sent twice,
+  // and one above the approval threshold must be approved first
+  const drafts = useMemo<RemittanceDraft[]>(() =>
+    prepareRemittance(accounts, paymentDate).map(draft => {
+      if (pendingAccountIds.has(draft.account.id)) {
+        return { ...draft, payment: null, error: 'Já enviada em remessa aguardando retorno' };
+      }
+      if (isAwaitingApproval(draft.account.approval_status)) {
+        return { ...draft, payment: null, error: 'Aguardando aprovação do administrador' };
+      }
+      return draft;
+    }), [accounts, paymentDate, pendingAccountIds]);
+
+  const validDrafts = drafts.filter(draft => draft.payment);
+  const total = validDrafts.reduce((sum, draft) => sum + (draft.payment?.amount || 0), 0);
+  const bank = bankAccounts.find(account => account.id === bankAccountId);
+
+  const handleGenerate = async () => {
+    if (!bank) return;
+
+    setGenerating(true);
+    try {
+      const { fileName, content, sequence } = await createRemittance(bank, drafts, paymentDate);
+      downloadFile(fileName, content);
+      toast({
+        title: "Remessa gerada",
+        description: `Arquivo nº ${sequence} com ${validDrafts.length} pagamento(s). Envie-o pelo internet banking.`,
+      });
+      onSuccess();
+    } catch (error) {
+      console.error('Erro ao gerar remessa:', error);
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Falha ao gerar remessa",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gerar Remessa de Pagamentos (CNAB 240)</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-center py-10">Carregando...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Conta para débito</Label>
+                {bankAccounts.length === 0 ? (
+                  <p className="text-sm text-destructive">
+                    Nenhuma conta bancária cadastrada. Cadastre em Remessas &gt; Contas Bancárias.
+                  </p>
+                ) : (
+                  <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bankAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name} ({account.bank_code} - Ag. {account.agency} / CC {account.account})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="remittance-date">Data de pagamento</Label>
+                <Input
+                  id="remittance-date"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Conta</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Vencimento</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drafts.map((draft) => (
+                  <TableRow key={draft.itemId}>
+                    <TableCell>
+                      {draft.account.description}
+                      <p className="text-xs text-muted-foreground">{draft.account.suppliers?.name}</p>
+                    </TableCell>
+                    <TableCell>{PAYMENT_TYPE_LABELS[draft.account.payment_type] || draft.account.payment_type}</TableCell>
+                    <TableCell>{draft.account.due_date.split('-').reverse().join('/')}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(draft.payment?.amount ?? Number(draft.account.amount))}
+                    </TableCell>
+                    <TableCell>
+                      {draft.payment ? (
+                        <Badge variant="success">OK</Badge>
+                      ) : (
+                        <span className="flex items-center gap-1 text-sm text-destructive">
+                          <AlertTriangle className="h-4 w-4 shrink-0" />
+                          {draft.error}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex justify-between text-sm">
+              <span>
+                {validDrafts.length} de {drafts.length} conta(s) na remessa
+              </span>
+              <span>Total: <strong>{formatCurrency(total)}</strong></span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button
+            className="gap-2"
+            onClick={handleGenerate}
+            disabled={generating || loading || !bank || validDrafts.length === 0}
+          >
+            <FileDown className="h-4 w-4" />
+            {generating ? 'Gerando...' : 'Gerar arquivo'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  BUDGET_BASIS_LABELS,
+  BUDGET_STATUS_LABELS,
+  fetchBudgetUsage,
+  formatMonth,
+  getBudgetConsumption,
+  getBudgetStatus,
+  rollUpBudgetUsage,
+  toMonthKey,
+  type BudgetBasis,
+  type BudgetStatus,
+  type BudgetUsage
+} from '@/lib/costCenterBudgets';
+import { flattenCostCenterTree, type CostCenterTreeItem } from '@/lib/costCenterTree';
+
+interface BudgetReportProps {
+  costCenters: CostCenterTreeItem[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const STATUS_VARIANTS: Record<BudgetStatus, 'outline' | 'success' | 'warning' | 'destructive'> = {
+  sem_orcamento: 'outline',
+  ok: 'success',
+  alerta: 'warning',
+  excedido: 'destructive'
+};
+
+export const BudgetReport = ({ costCenters }: BudgetReportProps) => {
+  const currentMonth = toMonthKey(new Date()).slice(0, 7);
+  const [fromMonth, setFromMonth] = useState(currentMonth);
+  const [toMonth, setToMonth] = useState(currentMonth);
+  const [basis, setBasis] = useState<BudgetBasis>('vencimento');
+  const [usage, setUsage] = useState<BudgetUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!fromMonth || !toMonth || fromMonth > toMonth) return;
+
+    const loadUsage = async () => {
+      setLoading(true);
+      try {
+        setUsage(await fetchBudgetUsage(`${fromMonth}-01`, `${toMonth}-01`, basis));
+      } catch (error) {
+        console.error('Erro ao carregar orçado x realizado:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar orçado x realizado",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadUsage();
+  }, [fromMonth, toMonth, basis, toast]);
+
+  // Parents show their subcenters' figures added to their own, in tree order
+  const treeRows = flattenCostCenterTree(costCenters);
+  const treeOrder = new Map(treeRows.map((row, index) => [row.center.id, index]));
+  const rows = rollUpBudgetUsage(costCenters, usage).sort((a, b) =>
+    (treeOrder.get(a.costCenterId) ?? 0) - (treeOrder.get(b.costCenterId) ?? 0) || a.month.localeCompare(b.month)
+  );
+  const getDepth = (id: string) => treeRows.find(row => row.center.id === id)?.depth || 0;
+
+  // Only top-level rows, their totals already include everything below them
+  const rootRows = rows.filter(row => getDepth(row.costCenterId) === 0);
+  const totalBudget = rootRows.reduce((sum, row) => sum + (row.budget || 0), 0);
+  const totalActual = rootRows.reduce((sum, row) => sum + row.actual, 0);
+
+  const getCostCenterLabel = (id: string) => {
+    const costCenter = costCenters.find(center => center.id === id);
+    return costCenter ? `${costCenter.code} - ${costCenter.name}` : 'Centro de custo removido';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="budget-from">De</Label>
+          <Input id="budget-from" type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="budget-to">Até</Label>
+          <Input id="budget-to" type="month" value={toMonth} min={fromMonth} onChange={(e) => setToMonth(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Realizado</Label>
+          <Select value={basis} onValueChange={(value) => setBasis(value as BudgetBasis)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BUDGET_BASIS_LABELS) as BudgetBasis[]).map(key => (
+                <SelectItem key={key} value={key}>{BUDGET_BASIS_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {fromMonth > toMonth ? (
+        <div className="text-center py-6 text-muted-foreground">O mês inicial deve ser anterior ao final</div>
+      ) : loading ? (
+        <div className="text-center py-6 text-muted-foreground">Carregando...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-6 text-muted-foreground">Nenhum orçamento ou lançamento no período</div>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Centro de Custo</TableHead>
+                <TableHead>Mês</TableHead>
+                <TableHead className="text-right">Orçado</TableHead>
+                <TableHead className="text-right">Realizado</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+                <TableHead className="text-right">Consumo</TableHead>
+                <TableHead>Situação</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => {
+                const status = getBudgetStatus(row);
+                const consumption = getBudgetConsumption(row);
+                const balance = row.budget !== null ? row.budget - row.actual : null;
+                return (
+                  <TableRow key={`${row.costCenterId}-${row.month}`}>
+                    <TableCell className="font-medium">
+                      <span style={{ paddingLeft: `${getDepth(row.costCenterId) * 1.25}rem` }}>
+                        {getCostCenterLabel(row.costCenterId)}
+                      </span>
+                    </TableCell>
+                    <TableCell className="capitalize">{formatMonth(row.month)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {row.budget !== null ? formatCurrency(row.budget) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(row.actual)}</TableCell>
+                    <TableCell className={cn('text-right font-mono', balance !== null && balance < 0 && 'text-destructive')}>
+                      {balance !== null ? formatCurrency(balance) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{consumption !== null ? `${consumption.toFixed(1)}%` : '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]}>{BUDGET_STATUS_LABELS[status]}</Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(totalBudget)}</TableCell>
+                <TableCell className="text-right font-mono">{formatCurrency(totalActual)}</TableCell>
+                <TableCell className={cn('text-right font-mono', totalBudget - totalActual < 0 && 'text-destructive')}>
+                  {formatCurrency(totalBudget - totalActual)}
+                </TableCell>
+                <TableCell colSpan={2} />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
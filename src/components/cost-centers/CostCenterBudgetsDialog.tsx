@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, Copy } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { fetchBudgetUsage, formatMonth, listMonths } from '@/lib/costCenterBudgets';
+
+interface BudgetCostCenter {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface CostCenterBudgetsDialogProps {
+  costCenter: BudgetCostCenter | null;
+  open: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const parseAmount = (value: string) => Number(value.replace(/\./g, '').replace(',', '.'));
+
+const getYearMonths = (year: number) => listMonths(`${year}-01-01`, `${year}-12-01`);
+
+export const CostCenterBudgetsDialog = ({ costCenter, open, onClose, onSaved }: CostCenterBudgetsDialogProps) => {
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [actuals, setActuals] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setYear(new Date().getFullYear());
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !costCenter) return;
+
+    const loadBudgets = async () => {
+      setLoading(true);
+      try {
+        const usage = await fetchBudgetUsage(`${year}-01-01`, `${year}-12-01`, 'vencimento', costCenter.id);
+        setAmounts(Object.fromEntries(usage
+          .filter(row => row.budget !== null)
+          .map(row => [row.month, row.budget!.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })])));
+        setActuals(Object.fromEntries(usage.map(row => [row.month, row.actual])));
+      } catch (error) {
+        console.error('Erro ao carregar orçamentos:', error);
+        toast({
+          title: "Erro",
+          description: "Falha ao carregar orçamentos",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBudgets();
+  }, [open, costCenter, year, toast]);
+
+  const months = getYearMonths(year);
+
+  // Repeats January's budget on the months still blank
+  const handleFillYear = () => {
+    const base = amounts[months[0]];
+    if (!base) return;
+    setAmounts(Object.fromEntries(months.map(month => [month, amounts[month] || base])));
+  };
+
+  const handleSave = async () => {
+    if (!costCenter) return;
+
+    const invalid = months.find(month => amounts[month]?.trim() && !(parseAmount(amounts[month]) >= 0));
+    if (invalid) {
+      toast({
+        title: "Valor inválido",
+        description: `Verifique o orçamento de ${formatMonth(invalid)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const userId = (await supabase.auth.getUser()).data.user?.id;
+      const filled = months.filter(month => amounts[month]?.trim());
+      const cleared = months.filter(month => !amounts[month]?.trim());
+
+      if (filled.length > 0) {
+        const { error } = await supabase
+          .from('cost_center_budgets')
+          .upsert(filled.map(month => ({
+            cost_center_id: costCenter.id,
+            month,
+            amount: parseAmount(amounts[month]),
+            created_by: userId,
+          })), { onConflict: 'cost_center_id,month' });
+
+        if (error) throw error;
+      }
+
+      if (cleared.length > 0) {
+        const { error } = await supabase
+          .from('cost_center_budgets')
+          .delete()
+          .eq('cost_center_id', costCenter.id)
+          .in('month', cleared);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Orçamentos salvos com sucesso",
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Erro ao salvar orçamentos:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao salvar orçamentos",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Orçamento Mensal{costCenter ? ` - ${costCenter.code} ${costCenter.name}` : ''}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setYear(year - 1)} disabled={saving}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-semibold w-16 text-center">{year}</span>
+            <Button variant="outline" size="icon" onClick={() => setYear(year + 1)} disabled={saving}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleFillYear} disabled={!amounts[months[0]]}>
+            <Copy className="h-4 w-4 mr-2" />
+            Repetir janeiro nos meses vazios
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Carregando...</div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {months.map(month => (
+              <div key={month} className="space-y-1">
+                <Label htmlFor={`budget-${month}`} className="capitalize">{formatMonth(month)}</Label>
+                <Input
+                  id={`budget-${month}`}
+                  inputMode="decimal"
+                  placeholder="Sem orçamento"
+                  value={amounts[month] || ''}
+                  onChange={(e) => setAmounts({ ...amounts, [month]: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lançado: {formatCurrency(actuals[month] || 0)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? 'Salvando...' : 'Salvar Orçamentos'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
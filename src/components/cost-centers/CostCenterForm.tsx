@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -9,14 +9,24 @@ import { Textarea } from '@/components/ui/textarea';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { flattenCostCenterTree, getDescendantIds, type CostCenterTreeItem } from '@/lib/costCenterTree';
+
+// Radix Select doesn't accept an empty value, so "no parent" needs its own option
+const NO_PARENT = 'none';
 
 const costCenterSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório'),
   code: z.string().min(1, 'Código é obrigatório').regex(/^[a-zA-Z0-9_-]+$/, 'Código deve conter apenas letras, números, hífens e underscores'),
   description: z.string().optional(),
+  parent_id: z.string().default(NO_PARENT),
   active: z.boolean().default(true),
+  approval_threshold: z.string().optional().refine(
+    (value) => !value || Number(value.replace(',', '.')) >= 0,
+    'Informe um valor válido'
+  ),
 });
 
 type CostCenterFormData = z.infer<typeof costCenterSchema>;
@@ -27,6 +37,8 @@ interface CostCenter {
   code: string;
   description: string | null;
   active: boolean;
+  approval_threshold: number | null;
+  parent_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -38,15 +50,39 @@ interface CostCenterFormProps {
 
 export const CostCenterForm = ({ onSuccess, initialData }: CostCenterFormProps) => {
   const [loading, setLoading] = useState(false);
+  const [costCenters, setCostCenters] = useState<CostCenterTreeItem[]>([]);
   const { toast } = useToast();
 
+  useEffect(() => {
+    const fetchCostCenters = async () => {
+      const { data, error } = await supabase
+        .from('cost_centers')
+        .select('id, name, code, parent_id')
+        .order('code');
+
+      if (error) {
+        console.error('Erro ao carregar centros de custo:', error);
+        return;
+      }
+      setCostCenters(data || []);
+    };
+
+    fetchCostCenters();
+  }, []);
+
+  // A center can't be placed under itself or under one of its subcenters
+  const excludedParentIds = initialData ? getDescendantIds(costCenters, initialData.id) : [];
+  const parentOptions = flattenCostCenterTree(costCenters).filter(row => !excludedParentIds.includes(row.center.id));
+
   const form = useForm<CostCenterFormData>({
     resolver: zodResolver(costCenterSchema),
     defaultValues: {
       name: initialData?.name || '',
       code: initialData?.code || '',
       description: initialData?.description || '',
+      parent_id: initialData?.parent_id || NO_PARENT,
       active: initialData?.active ?? true,
+      approval_threshold: initialData?.approval_threshold != null ? String(initialData.approval_threshold) : '',
     },
   });
 
@@ -57,7 +93,9 @@ export const CostCenterForm = ({ onSuccess, initialData }: CostCenterFormProps)
         name: data.name,
         code: data.code,
         description: data.description || null,
+        parent_id: data.parent_id === NO_PARENT ? null : data.parent_id,
         active: data.active,
+        approval_threshold: data.approval_threshold ? Number(data.approval_threshold.replace(',', '.')) : null,
         created_by: (await supabase.auth.getUser()).data.user?.id,
       };
 
@@ -83,6 +121,12 @@ export const CostCenterForm = ({ onSuccess, initialData }: CostCenterFormProps)
           description: "Já existe um centro de custo com este código",
           variant: "destructive",
         });
+      } else if (error.code === 'P0001') {
+        toast({
+          title: "Erro",
+          description: error.message,
+          variant: "destructive",
+        });
       } else {
         toast({
           title: "Erro",
@@ -139,6 +183,35 @@ export const CostCenterForm = ({ onSuccess, initialData }: CostCenterFormProps)
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="parent_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Centro Pai</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>Nenhum (centro principal)</SelectItem>
+                      {parentOptions.map(({ center, depth }) => (
+                        <SelectItem key={center.id} value={center.id}>
+                          <span style={{ paddingLeft: depth * 12 }}>{center.code} - {center.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="text-sm text-muted-foreground">
+                    Os valores deste centro são somados aos do centro pai nos totais e relatórios
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -157,6 +230,23 @@ export const CostCenterForm = ({ onSuccess, initialData }: CostCenterFormProps)
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="approval_threshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Valor para Aprovação</FormLabel>
+                  <FormControl>
+                    <Input {...field} inputMode="decimal" placeholder="Ex: 5000,00" />
+                  </FormControl>
+                  <div className="text-sm text-muted-foreground">
+                    Contas acima deste valor precisam ser aprovadas por um administrador antes do pagamento. Deixe em branco para não exigir aprovação.
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="active"
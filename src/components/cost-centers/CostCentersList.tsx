@@ -1,12 +1,21 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Edit, Eye, UserX, UserCheck } from 'lucide-react';
-import { useState } from 'react';
+import { Progress } from '@/components/ui/progress';
+import { Edit, Eye, UserX, UserCheck, Wallet, ChevronDown, ChevronRight } from 'lucide-react';
+import { useMemo, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { CostCenterForm } from './CostCenterForm';
+import { CostCenterBudgetsDialog } from './CostCenterBudgetsDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+import { flattenCostCenterTree, getCostCenterPath } from '@/lib/costCenterTree';
+import { BUDGET_STATUS_LABELS, getBudgetConsumption, getBudgetStatus, type BudgetUsage } from '@/lib/costCenterBudgets';
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
 
 interface CostCenter {
   id: string;
@@ -14,6 +23,8 @@ interface CostCenter {
   code: string;
   description: string | null;
   active: boolean;
+  approval_threshold: number | null;
+  parent_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -21,14 +32,64 @@ interface CostCenter {
 interface CostCentersListProps {
   costCenters: CostCenter[];
   loading: boolean;
+  // Current month consumption by cost center id, children rolled up into their parents
+  budgetUsage: Record<string, BudgetUsage>;
   onUpdate: () => void;
 }
 
-export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersListProps) => {
+const BUDGET_STATUS_COLORS = {
+  sem_orcamento: '',
+  ok: '[&>div]:bg-green-600',
+  alerta: '[&>div]:bg-amber-500',
+  excedido: '[&>div]:bg-destructive'
+};
+
+const BudgetConsumption = ({ usage }: { usage: BudgetUsage | undefined }) => {
+  if (!usage || usage.budget === null) {
+    return (
+      <span className="text-sm text-muted-foreground">
+        {usage?.actual ? `${formatCurrency(usage.actual)} • sem orçamento` : 'Sem orçamento'}
+      </span>
+    );
+  }
+
+  const status = getBudgetStatus(usage);
+  const consumption = getBudgetConsumption(usage) || 0;
+
+  return (
+    <div className="min-w-[160px] space-y-1" title={BUDGET_STATUS_LABELS[status]}>
+      <Progress value={Math.min(consumption, 100)} className={cn('h-2', BUDGET_STATUS_COLORS[status])} />
+      <p className={cn('text-xs', status === 'excedido' ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+        {formatCurrency(usage.actual)} de {formatCurrency(usage.budget)} ({consumption.toFixed(0)}%)
+      </p>
+    </div>
+  );
+};
+
+export const CostCentersList = ({ costCenters, loading, budgetUsage, onUpdate }: CostCentersListProps) => {
   const [selectedCostCenter, setSelectedCostCenter] = useState<CostCenter | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
+  const [budgetCostCenter, setBudgetCostCenter] = useState<CostCenter | null>(null);
+  const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+
+  const treeRows = useMemo(() => flattenCostCenterTree(costCenters), [costCenters]);
+
+  // Rows below a collapsed center are hidden until it's expanded again
+  const visibleRows = useMemo(() => {
+    let hiddenBelowDepth: number | null = null;
+    return treeRows.filter(row => {
+      if (hiddenBelowDepth !== null && row.depth > hiddenBelowDepth) return false;
+      hiddenBelowDepth = collapsedIds.includes(row.center.id) ? row.depth : null;
+      return true;
+    });
+  }, [treeRows, collapsedIds]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => prev.includes(id) ? prev.filter(collapsedId => collapsedId !== id) : [...prev, id]);
+  };
 
   const handleViewDetails = (costCenter: CostCenter) => {
     setSelectedCostCenter(costCenter);
@@ -106,15 +167,32 @@ export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersL
               <TableHead>Nome</TableHead>
               <TableHead>Código</TableHead>
               <TableHead>Descrição</TableHead>
+              <TableHead>Aprovação acima de</TableHead>
+              <TableHead>Orçamento do mês</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Ações</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {costCenters.map((costCenter) => (
+            {visibleRows.map(({ center: costCenter, depth, hasChildren }) => (
               <TableRow key={costCenter.id}>
                 <TableCell className="font-medium">
-                  {costCenter.name}
+                  <div className="flex items-center gap-1" style={{ paddingLeft: depth * 20 }}>
+                    {hasChildren ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => toggleCollapsed(costCenter.id)}
+                        title={collapsedIds.includes(costCenter.id) ? 'Expandir subcentros' : 'Recolher subcentros'}
+                      >
+                        {collapsedIds.includes(costCenter.id) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    ) : (
+                      <span className="w-6" />
+                    )}
+                    {costCenter.name}
+                  </div>
                 </TableCell>
                 <TableCell>
                   <Badge variant="outline" className="font-mono">
@@ -130,6 +208,16 @@ export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersL
                     )}
                   </div>
                 </TableCell>
+                <TableCell>
+                  {costCenter.approval_threshold !== null ? (
+                    formatCurrency(Number(costCenter.approval_threshold))
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Não exige</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <BudgetConsumption usage={budgetUsage[costCenter.id]} />
+                </TableCell>
                 <TableCell>
                   <Badge variant={costCenter.active ? "default" : "secondary"}>
                     {costCenter.active ? 'Ativo' : 'Inativo'}
@@ -153,6 +241,16 @@ export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersL
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
+                    {hasRole('admin') && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBudgetCostCenter(costCenter)}
+                        title="Orçamento mensal"
+                      >
+                        <Wallet className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -204,6 +302,28 @@ export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersL
                             </Badge>
                           </p>
                         </div>
+                        <div>
+                          <span className="text-sm font-medium text-muted-foreground">Centro Pai:</span>
+                          <p className="text-base">
+                            {selectedCostCenter.parent_id
+                              ? getCostCenterPath(costCenters, selectedCostCenter.parent_id)
+                              : 'Nenhum (centro principal)'}
+                          </p>
+                        </div>
+                        <div>
+                          <span className="text-sm font-medium text-muted-foreground">Aprovação acima de:</span>
+                          <p className="text-base">
+                            {selectedCostCenter.approval_threshold !== null
+                              ? formatCurrency(Number(selectedCostCenter.approval_threshold))
+                              : 'Não exige aprovação'}
+                          </p>
+                        </div>
+                        <div>
+                          <span className="text-sm font-medium text-muted-foreground">Orçamento do mês:</span>
+                          <div className="pt-1">
+                            <BudgetConsumption usage={budgetUsage[selectedCostCenter.id]} />
+                          </div>
+                        </div>
                         <div>
                           <span className="text-sm font-medium text-muted-foreground">Status:</span>
                           <p className="text-base">
@@ -248,6 +368,16 @@ export const CostCentersList = ({ costCenters, loading, onUpdate }: CostCentersL
           )}
         </DialogContent>
       </Dialog>
+
+      <CostCenterBudgetsDialog
+        costCenter={budgetCostCenter}
+        open={!!budgetCostCenter}
+        onClose={() => setBudgetCostCenter(null)}
+        onSaved={() => {
+          setBudgetCostCenter(null);
+          onUpdate();
+        }}
+      />
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileText, Printer } from 'lucide-react';
+import { format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  buildStatementEntries,
+  printCustomerStatement,
+  type CustomerStatement,
+  type StatementInstallment,
+  type StatementPayment,
+  type StatementSale
+} from '@/lib/customerStatement';
+
+interface CustomerStatementModalProps {
+  open: boolean;
+  onClose: () => void;
+  customerId: string;
+  customerName: string;
+}
+
+export default function CustomerStatementModal({
+  open,
+  onClose,
+  customerId,
+  customerName
+}: CustomerStatementModalProps) {
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [storeId, setStoreId] = useState('');
+
+  // Stores available for the statement header
+  const { data: stores = [] } = useQuery({
+    queryKey: ['stores-statement'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('stores')
+        .select('id, name, cnpj, address, phone')
+        .eq('active', true)
+        .order('name');
+      if (error) throw error;
+      return data;
+    },
+    enabled: open
+  });
+
+  const { data: statement, isLoading } = useQuery({
+    queryKey: ['customer-statement', customerId, startDate, endDate],
+    queryFn: async (): Promise<Omit<CustomerStatement, 'store'>> => {
+      const periodStart = startDate + 'T00:00:00';
+      const periodEnd = endDate + 'T23:59:59';
+
+      const { data: customer, error: customerError } = await supabase
+        .from('customers')
+        .select('name, document, phone')
+        .eq('id', customerId)
+        .single();
+      if (customerError) throw customerError;
+
+      const { data: sales, error: salesError } = await supabase
+        .from('sales')
+        .select('id, sale_number, created_at, amount_credit')
+        .eq('customer_id', customerId)
+        .gt('amount_credit', 0)
+        .not('status', 'in', '(quote,cancelled)')
+        .lte('created_at', periodEnd)
+        .order('created_at');
+      if (salesError) throw salesError;
+
+      const { data: payments, error: paymentsError } = await supabase
+        .from('customer_credit_payments')
+        .select('id, created_at, amount, principal_amount, fine_amount, interest_amount, payment_method:payment_methods(name)')
+        .eq('customer_id', customerId)
+        .lte('created_at', periodEnd)
+        .order('created_at');
+      if (paymentsError) throw paymentsError;
+
+      const { data: installments, error: installmentsError } = await supabase
+        .from('accounts_receivable')
+        .select('id, due_date, amount, paid_amount, installment_number, installment_count, sale:sales(sale_number)')
+        .eq('customer_id', customerId)
+        .eq('status', 'pending')
+        .order('due_date')
+        .order('installment_number');
+      if (installmentsError) throw installmentsError;
+
+      const isBeforePeriod = (date: string) => new Date(date) < new Date(periodStart);
+      const statementSales = (sales || []) as StatementSale[];
+      const statementPayments = (payments || []) as unknown as StatementPayment[];
+
+      // Balance carried from everything before the period
+      const openingBalance =
+        statementSales.filter(s => isBeforePeriod(s.created_at)).reduce((sum, s) => sum + Number(s.amount_credit), 0) -
+        statementPayments.filter(p => isBeforePeriod(p.created_at)).reduce((sum, p) => sum + Number(p.principal_amount), 0);
+
+      const entries = buildStatementEntries(
+        openingBalance,
+        statementSales.filter(s => !isBeforePeriod(s.created_at)),
+        statementPayments.filter(p => !isBeforePeriod(p.created_at))
+      );
+
+      return {
+        customer,
+        startDate,
+        endDate,
+        openingBalance,
+        entries,
+        closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance,
+        openInstallments: (installments || []) as unknown as StatementInstallment[]
+      };
+    },
+    enabled: open && !!customerId && !!startDate && !!endDate && startDate <= endDate
+  });
+
+  const handlePrint = () => {
+    if (!statement) return;
+    printCustomerStatement({
+      ...statement,
+      store: stores.find(s => s.id === storeId) || stores[0] || null
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Extrato de Crediário - {customerName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>De</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Até</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Loja (cabeçalho)</Label>
+            <Select value={storeId || stores[0]?.id || ''} onValueChange={setStoreId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione..." />
+              </SelectTrigger>
+              <SelectContent>
+                {stores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {statement && (
+          <div className="grid grid-cols-2 gap-3">
+            <Card>
+              <CardContent className="p-3 text-center">
+                <p className="text-xs text-muted-foreground">Saldo Anterior</p>
+                <p className="text-lg font-bold">R$ {statement.openingBalance.toFixed(2)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-3 text-center">
+                <p className="text-xs text-muted-foreground">Saldo Final</p>
+                <p className="text-lg font-bold text-destructive">R$ {statement.closingBalance.toFixed(2)}</p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <ScrollArea className="h-[300px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Histórico</TableHead>
+                <TableHead className="text-right">Débito</TableHead>
+                <TableHead className="text-right">Crédito</TableHead>
+                <TableHead className="text-right">Encargos</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statement?.entries.map((entry, index) => (
+                <TableRow key={index}>
+                  <TableCell className="text-xs">
+                    {format(new Date(entry.date), 'dd/MM/yy HH:mm', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="text-xs">{entry.description}</TableCell>
+                  <TableCell className="text-right text-orange-600">
+                    {entry.debit > 0 ? `R$ ${entry.debit.toFixed(2)}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">
+                    {entry.credit > 0 ? `R$ ${entry.credit.toFixed(2)}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.charges > 0 ? `R$ ${entry.charges.toFixed(2)}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">R$ {entry.balance.toFixed(2)}</TableCell>
+                </TableRow>
+              ))}
+              {(!statement || statement.entries.length === 0) && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    {isLoading ? 'Carregando...' : 'Nenhuma movimentação no período'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Fechar
+          </Button>
+          <Button onClick={handlePrint} disabled={!statement}>
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimir / PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
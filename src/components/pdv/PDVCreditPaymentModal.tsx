@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
@@ -11,6 +11,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Search, CreditCard, User, DollarSign } from 'lucide-react';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { buildPaymentBreakdown, getLateFeeSettings, getReceivableBalance, sortOldestFirst, type PendingReceivable } from '@/lib/receivables';
+import { printCreditPaymentReceipt, type CreditPaymentReceipt } from '@/lib/creditPaymentReceipt';
+import { buildPixBrCode, getStorePixReceiver } from '@/lib/pix';
+import PDVPixQrCode from './PDVPixQrCode';
 
 interface Customer {
   id: string;
@@ -20,6 +25,25 @@ interface Customer {
   phone: string | null;
 }
 
+interface OpenInstallment extends PendingReceivable {
+  installment_count: number;
+  sale: {
+    sale_number: string;
+    store: {
+      name: string;
+      cnpj: string | null;
+      address: string | null;
+      phone: string | null;
+      pdv_print_format: string | null;
+      receivable_fine_percent: number | null;
+      receivable_daily_interest_percent: number | null;
+      pix_key: string | null;
+      pix_merchant_name: string | null;
+      pix_merchant_city: string | null;
+    } | null;
+  } | null;
+}
+
 interface PaymentMethod {
   id: string;
   name: string;
@@ -37,6 +61,7 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
   const [customerSearch, setCustomerSearch] = useState('');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [usedCredit, setUsedCredit] = useState(0);
+  const [openInstallments, setOpenInstallments] = useState<OpenInstallment[]>([]);
   const [amount, setAmount] = useState<string>('');
   const [paymentMethodId, setPaymentMethodId] = useState<string>('');
   const [notes, setNotes] = useState('');
@@ -83,18 +108,34 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
     if (!selectedCustomer) return;
     const { data } = await supabase
       .from('accounts_receivable')
-      .select('amount, paid_amount')
+      .select(`
+        id, amount, paid_amount, due_date, installment_number, installment_count,
+        sale:sales(sale_number, store:stores(name, cnpj, address, phone, pdv_print_format, receivable_fine_percent, receivable_daily_interest_percent, pix_key, pix_merchant_name, pix_merchant_city))
+      `)
       .eq('customer_id', selectedCustomer.id)
       .eq('status', 'pending');
     
     if (data) {
-      const used = data.reduce((sum, ar) => sum + (Number(ar.amount) - Number(ar.paid_amount || 0)), 0);
+      const used = data.reduce((sum, ar) => sum + getReceivableBalance(ar), 0);
       setUsedCredit(used);
+      setOpenInstallments(sortOldestFirst(data as unknown as OpenInstallment[]));
     }
   };
 
   const availableCredit = usedCredit; // The amount the customer owes
 
+  // Principal settled oldest-first plus multa/juros of each overdue installment
+  const breakdown = buildPaymentBreakdown(
+    openInstallments,
+    Number(amount) || 0,
+    (installment) => getLateFeeSettings(installment.sale?.store)
+  );
+
+  // The PIX goes to the store of the oldest installment being paid, identified by its sale number
+  const firstInstallment = openInstallments.find(i => i.id === breakdown.allocations[0]?.id) || null;
+  const pixReceiver = useMemo(() => getStorePixReceiver(firstInstallment?.sale?.store), [firstInstallment]);
+  const isPixSelected = paymentMethods.find(m => m.id === paymentMethodId)?.code === 'pix';
+
   const paymentMutation = useMutation({
     mutationFn: async () => {
       if (!selectedCustomer || !user) throw new Error('Dados incompletos');
@@ -103,41 +144,24 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
       if (paymentAmount <= 0) throw new Error('Valor inválido');
       if (paymentAmount > usedCredit) throw new Error('Valor maior que o saldo devedor');
 
-      // Get pending accounts receivable for this customer, oldest first
-      const { data: pendingAR } = await supabase
-        .from('accounts_receivable')
-        .select('*')
-        .eq('customer_id', selectedCustomer.id)
-        .eq('status', 'pending')
-        .order('due_date', { ascending: true });
-
-      if (!pendingAR || pendingAR.length === 0) {
+      if (openInstallments.length === 0) {
         throw new Error('Nenhum crediário em aberto');
       }
 
-      let remainingPayment = paymentAmount;
-
-      // Apply payment to accounts receivable (oldest first)
-      for (const ar of pendingAR) {
-        if (remainingPayment <= 0) break;
-
-        const pendingAmount = Number(ar.amount) - Number(ar.paid_amount || 0);
-        const paymentForThis = Math.min(remainingPayment, pendingAmount);
-        const newPaidAmount = Number(ar.paid_amount || 0) + paymentForThis;
-        const isFullyPaid = newPaidAmount >= Number(ar.amount);
-
-        await supabase
+      // Apply payment to installments (oldest first)
+      for (const allocation of breakdown.allocations) {
+        const { error: updateError } = await supabase
           .from('accounts_receivable')
           .update({
-            paid_amount: newPaidAmount,
-            status: isFullyPaid ? 'paid' : 'pending',
-            paid_at: isFullyPaid ? new Date().toISOString() : null,
-            paid_by: isFullyPaid ? user.id : null,
+            paid_amount: allocation.newPaidAmount,
+            status: allocation.isFullyPaid ? 'paid' : 'pending',
+            paid_at: allocation.isFullyPaid ? new Date().toISOString() : null,
+            paid_by: allocation.isFullyPaid ? user.id : null,
             updated_at: new Date().toISOString()
           })
-          .eq('id', ar.id);
+          .eq('id', allocation.id);
 
-        remainingPayment -= paymentForThis;
+        if (updateError) throw updateError;
       }
 
       // Record the credit payment
@@ -145,7 +169,10 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
         .from('customer_credit_payments')
         .insert({
           customer_id: selectedCustomer.id,
-          amount: paymentAmount,
+          amount: breakdown.total,
+          principal_amount: breakdown.principal,
+          fine_amount: breakdown.fine,
+          interest_amount: breakdown.interest,
           payment_method_id: paymentMethodId || null,
           notes,
           created_by: user.id
@@ -160,14 +187,47 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
         old_value: usedCredit,
         new_value: usedCredit - paymentAmount,
         reference_type: 'credit_payment',
-        notes: `Pagamento de crediário: R$ ${paymentAmount.toFixed(2)}`,
+        notes: `Pagamento de crediário: R$ ${paymentAmount.toFixed(2)}${breakdown.fine + breakdown.interest > 0 ? ` + encargos R$ ${(breakdown.fine + breakdown.interest).toFixed(2)}` : ''}`,
         created_by: user.id
       });
 
-      return paymentAmount;
+      const firstStore = firstInstallment?.sale?.store || null;
+      const receipt: CreditPaymentReceipt = {
+        store: firstStore,
+        printFormat: firstStore?.pdv_print_format,
+        customer: selectedCustomer,
+        paymentMethod: paymentMethods.find(m => m.id === paymentMethodId)?.name,
+        paidAt: new Date(),
+        lines: breakdown.allocations.map((allocation) => {
+          const installment = openInstallments.find(i => i.id === allocation.id)!;
+          return {
+            description: `Venda ${installment.sale?.sale_number || '-'} - Parcela ${installment.installment_number}/${installment.installment_count}`,
+            dueDate: installment.due_date,
+            principal: allocation.applied,
+            fine: allocation.fine,
+            interest: allocation.interest,
+            daysLate: allocation.daysLate
+          };
+        }),
+        principal: breakdown.principal,
+        fine: breakdown.fine,
+        interest: breakdown.interest,
+        total: breakdown.total,
+        notes,
+        pixPayload: isPixSelected && pixReceiver
+          ? buildPixBrCode({ ...pixReceiver, amount: breakdown.total, txid: firstInstallment?.sale?.sale_number })
+          : null
+      };
+
+      return receipt;
     },
-    onSuccess: (paymentAmount) => {
-      toast.success(`Pagamento de R$ ${paymentAmount.toFixed(2)} registrado com sucesso!`);
+    onSuccess: (receipt) => {
+      toast.success(`Pagamento de R$ ${receipt.total.toFixed(2)} registrado com sucesso!`, {
+        action: {
+          label: 'Imprimir comprovante',
+          onClick: () => printCreditPaymentReceipt(receipt)
+        }
+      });
       queryClient.invalidateQueries({ queryKey: ['customers'] });
       handleClose();
     },
@@ -180,6 +240,7 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
     setCustomerSearch('');
     setSelectedCustomer(null);
     setUsedCredit(0);
+    setOpenInstallments([]);
     setAmount('');
     setPaymentMethodId('');
     setNotes('');
@@ -263,9 +324,27 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
 
               {usedCredit > 0 ? (
                 <>
+                  {/* Open installments, oldest first */}
+                  <div className="space-y-2">
+                    <Label>Parcelas em Aberto</Label>
+                    <div className="rounded-lg border divide-y text-sm max-h-40 overflow-auto">
+                      {openInstallments.map((installment) => {
+                        const isOverdue = installment.due_date < format(new Date(), 'yyyy-MM-dd');
+                        return (
+                          <div key={installment.id} className="flex justify-between px-3 py-1.5">
+                            <span className={isOverdue ? 'text-destructive' : 'text-muted-foreground'}>
+                              {installment.installment_number}/{installment.installment_count} • {format(new Date(installment.due_date + 'T12:00:00'), 'dd/MM/yyyy')}
+                            </span>
+                            <span className="font-medium">R$ {getReceivableBalance(installment).toFixed(2)}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
                   {/* Payment Amount */}
                   <div className="space-y-2">
-                    <Label>Valor do Pagamento</Label>
+                    <Label>Valor a Abater (principal)</Label>
                     <div className="relative">
                       <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                       <Input
@@ -288,6 +367,28 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
                     </Button>
                   </div>
 
+                  {/* Principal and late charges */}
+                  {breakdown.principal > 0 && (
+                    <div className="rounded-lg border p-3 space-y-1 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Principal</span>
+                        <span>R$ {breakdown.principal.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Multa</span>
+                        <span>R$ {breakdown.fine.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Juros de mora</span>
+                        <span>R$ {breakdown.interest.toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between font-semibold border-t pt-1">
+                        <span>Total a Receber</span>
+                        <span>R$ {breakdown.total.toFixed(2)}</span>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Payment Method */}
                   <div className="space-y-2">
                     <Label>Forma de Pagamento</Label>
@@ -305,6 +406,14 @@ export default function PDVCreditPaymentModal({ open, onClose }: PDVCreditPaymen
                     </Select>
                   </div>
 
+                  {isPixSelected && breakdown.total > 0 && (
+                    <PDVPixQrCode
+                      receiver={pixReceiver}
+                      amount={breakdown.total}
+                      txid={firstInstallment?.sale?.sale_number || null}
+                    />
+                  )}
+
                   {/* Notes */}
                   <div className="space-y-2">
                     <Label>Observações</Label>
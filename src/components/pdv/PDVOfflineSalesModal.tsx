@@ -0,0 +1,161 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, CloudUpload, Printer, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import {
+  OFFLINE_SALE_STATUS_LABELS,
+  type OfflineSale,
+  type OfflineSaleConflict,
+  type OfflineSaleStatus
+} from '@/lib/pdvOffline';
+import { WALK_IN_CUSTOMER_NAME } from '@/lib/walkInSale';
+
+interface PDVOfflineSalesModalProps {
+  open: boolean;
+  onClose: () => void;
+  sales: OfflineSale[];
+  online: boolean;
+  syncing: boolean;
+  onSync: () => void;
+  onRetry: (sale: OfflineSale) => void;
+  onDiscard: (id: string) => void;
+  onClearSynced: () => void;
+  onReprint: (sale: OfflineSale) => void;
+}
+
+const STATUS_VARIANTS: Record<OfflineSaleStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  synced: 'default',
+  conflict: 'outline',
+  failed: 'destructive'
+};
+
+const describeConflict = (conflict: OfflineSaleConflict) =>
+  conflict.type === 'stock'
+    ? `${conflict.product_name}: estoque ficou em ${Number(conflict.quantity)}`
+    : `${conflict.product_name}: vendido a R$ ${Number(conflict.sold_price).toFixed(2)}, preço atual R$ ${Number(conflict.current_price).toFixed(2)}`;
+
+export default function PDVOfflineSalesModal({
+  open,
+  onClose,
+  sales,
+  online,
+  syncing,
+  onSync,
+  onRetry,
+  onDiscard,
+  onClearSynced,
+  onReprint
+}: PDVOfflineSalesModalProps) {
+  const pendingCount = sales.filter(sale => sale.status === 'pending').length;
+
+  const handleDiscard = (sale: OfflineSale) => {
+    const message = sale.status === 'failed'
+      ? `Descartar a venda ${sale.offlineNumber}? Ela não será lançada no sistema e o estoque não será baixado.`
+      : `Remover a venda ${sale.offlineNumber} da lista?`;
+    if (!confirm(message)) return;
+    onDiscard(sale.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudUpload className="h-5 w-5" />
+            Vendas Offline
+          </DialogTitle>
+          <DialogDescription>
+            Vendas feitas sem conexão recebem um número provisório e são enviadas ao sistema quando a conexão volta.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[400px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Pedido</TableHead>
+                <TableHead>Cliente</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sales.map((sale) => (
+                <TableRow key={sale.id}>
+                  <TableCell>
+                    <div className="font-mono font-medium">{sale.saleNumber || sale.offlineNumber}</div>
+                    {sale.saleNumber && (
+                      <div className="text-xs text-muted-foreground font-mono">{sale.offlineNumber}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{sale.receipt.customer?.name || WALK_IN_CUSTOMER_NAME}</TableCell>
+                  <TableCell>
+                    {format(new Date(sale.soldAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    R$ {sale.receipt.total.toFixed(2)}
+                  </TableCell>
+                  <TableCell className="max-w-[220px]">
+                    <Badge variant={STATUS_VARIANTS[sale.status]}>{OFFLINE_SALE_STATUS_LABELS[sale.status]}</Badge>
+                    {sale.error && <div className="text-xs text-destructive mt-1">{sale.error}</div>}
+                    {sale.conflicts?.map((conflict) => (
+                      <div key={`${conflict.type}-${conflict.product_id}`} className="text-xs text-amber-600 mt-1 flex gap-1">
+                        <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+                        {describeConflict(conflict)}
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end">
+                      <Button variant="ghost" size="icon" title="Reimprimir" onClick={() => onReprint(sale)}>
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                      {sale.status === 'failed' && (
+                        <Button variant="ghost" size="icon" title="Tentar novamente" onClick={() => onRetry(sale)}>
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {sale.status !== 'pending' && (
+                        <Button variant="ghost" size="icon" title="Remover" onClick={() => handleDiscard(sale)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {sales.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    Nenhuma venda offline
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClearSynced}
+            disabled={!sales.some(sale => sale.status === 'synced')}
+          >
+            Limpar sincronizadas
+          </Button>
+          <Button onClick={onSync} disabled={!online || syncing || pendingCount === 0}>
+            <CloudUpload className="h-4 w-4 mr-2" />
+            {syncing ? 'Sincronizando...' : `Sincronizar (${pendingCount})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
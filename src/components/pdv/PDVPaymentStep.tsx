@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -13,9 +13,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toast } from 'sonner';
 import { ArrowLeft, Plus, Trash2, CalendarIcon, MapPin, Package, Truck, CreditCard } from 'lucide-react';
-import { format } from 'date-fns';
+import { addDays, format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { buildInstallmentSchedule } from '@/lib/receivables';
+import type { PixReceiver } from '@/lib/pix';
+import { OFFLINE_KEYS, withOfflineFallback } from '@/lib/pdvOffline';
+import { formatShortcutKey } from '@/lib/pdvShortcuts';
+import PDVPixQrCode from './PDVPixQrCode';
 
 interface PaymentEntry {
   id: string;
@@ -24,6 +29,11 @@ interface PaymentEntry {
   amount: number;
   installments: number;
   isCredit: boolean;
+  firstDueDate?: string;
+  intervalDays?: number;
+  // Cash handed over by the customer and the change given back
+  amountTendered?: number;
+  changeAmount?: number;
 }
 
 interface DeliveryAddress {
@@ -45,25 +55,38 @@ interface PDVPaymentStepProps {
   open: boolean;
   onClose: () => void;
   total: number;
+  storeId: string;
+  pixReceiver: PixReceiver | null;
+  // Sent when finalizing the sale; the sale number reserved for it is the PIX txid
+  clientSaleId: string;
   customerId: string;
   customerName: string;
   availableCredit: number;
+  // Without a connection the sale is queued, so crediário and delivery are not offered
+  offline?: boolean;
+  // Key that finalizes the sale (PDV shortcut map)
+  finalizeKey?: string;
   onConfirm: (data: {
     deliveryType: 'pickup' | 'delivery';
     deliveryAddressId: string | null;
     deliveryDate: Date | null;
     payments: PaymentEntry[];
     newAddress?: any;
-  }) => void;
+  }) => Promise<void>;
 }
 
 const PDVPaymentStep = ({
   open,
   onClose,
   total,
+  storeId,
+  pixReceiver,
+  clientSaleId,
   customerId,
   customerName,
   availableCredit,
+  offline = false,
+  finalizeKey = 'F10',
   onConfirm
 }: PDVPaymentStepProps) => {
   const [deliveryType, setDeliveryType] = useState<'pickup' | 'delivery'>('pickup');
@@ -85,16 +108,24 @@ const PDVPaymentStep = ({
 
   // Payment entries
   const [payments, setPayments] = useState<PaymentEntry[]>([]);
+  const paymentMethodRef = useRef<HTMLButtonElement>(null);
+  const amountInputRef = useRef<HTMLInputElement>(null);
   const [currentPaymentMethodId, setCurrentPaymentMethodId] = useState<string>('');
   const [currentAmount, setCurrentAmount] = useState<number>(0);
   const [currentInstallments, setCurrentInstallments] = useState<number>(1);
   const [useCredit, setUseCredit] = useState(false);
   const [creditAmount, setCreditAmount] = useState<number>(0);
+  const [creditInstallments, setCreditInstallments] = useState<number>(1);
+  const [creditFirstDueDate, setCreditFirstDueDate] = useState<Date>(addDays(new Date(), 30));
+  const [creditIntervalDays, setCreditIntervalDays] = useState<number>(30);
+  // Until onConfirm settles; the ref also stops a second key press that arrives before the re-render
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const finalizingRef = useRef(false);
 
   // Fetch payment methods
   const { data: paymentMethods = [] } = useQuery({
     queryKey: ['payment-methods-step'],
-    queryFn: async () => {
+    queryFn: () => withOfflineFallback(OFFLINE_KEYS.paymentMethods, async () => {
       const { data, error } = await supabase
         .from('payment_methods')
         .select('*')
@@ -102,7 +133,23 @@ const PDVPaymentStep = ({
         .order('name');
       if (error) throw error;
       return data;
-    }
+    })
+  });
+
+  // The number this sale will get, so the PIX QR code carries it as the crediário payment does.
+  // Offline there is no number yet and the QR code goes without a txid.
+  const { data: reservedSaleNumber = null, isLoading: reservingSaleNumber } = useQuery({
+    queryKey: ['reserved-sale-number', storeId, clientSaleId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('reserve_sale_number', {
+        p_store_id: storeId,
+        p_client_sale_id: clientSaleId
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!storeId && !offline,
+    staleTime: Infinity
   });
 
   // Fetch delivery addresses
@@ -119,7 +166,7 @@ const PDVPaymentStep = ({
       if (error) throw error;
       return data as DeliveryAddress[];
     },
-    enabled: !!customerId
+    enabled: !!customerId && !offline
   });
 
   // Auto-select default address
@@ -139,30 +186,63 @@ const PDVPaymentStep = ({
       setCurrentInstallments(1);
       setUseCredit(false);
       setCreditAmount(0);
+      setCreditInstallments(1);
+      setCreditFirstDueDate(addDays(new Date(), 30));
+      setCreditIntervalDays(30);
       setDeliveryType('pickup');
       setDeliveryDate(null);
       setShowNewAddressForm(false);
     }
   }, [open]);
 
+  // Walk-in ("consumidor final") sales have no customer to deliver to or charge later
+  const walkIn = !customerId;
+  const counterOnly = offline || walkIn;
+
+  // Connection dropped while the payment was being filled in
+  useEffect(() => {
+    if (counterOnly) {
+      setDeliveryType('pickup');
+      setUseCredit(false);
+      setCreditAmount(0);
+    }
+  }, [counterOnly]);
+
   const selectedPaymentMethod = paymentMethods.find((pm: any) => pm.id === currentPaymentMethodId);
+  const isPixSelected = selectedPaymentMethod?.code === 'pix';
+  const isCashSelected = selectedPaymentMethod?.code === 'cash';
   const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0) + creditAmount;
   const remaining = total - totalPaid;
+  const totalChange = payments.reduce((sum, p) => sum + (p.changeAmount || 0), 0);
+  // Cash may go over the remaining amount; the difference is the change
+  const getChange = (amount: number) => isCashSelected && amount > remaining + 0.001
+    ? Number((amount - remaining).toFixed(2))
+    : 0;
+  const currentChange = getChange(currentAmount);
+
+  // Crediário installments follow the store_credit payment method limit
+  const storeCreditMethod = paymentMethods.find((pm) => pm.code === 'store_credit');
+  const maxCreditInstallments = storeCreditMethod?.max_installments || 12;
+  const creditSchedule = creditAmount > 0
+    ? buildInstallmentSchedule(creditAmount, creditInstallments, creditFirstDueDate, creditIntervalDays)
+    : [];
 
-  const addPayment = () => {
+  const addPayment = (amount = currentAmount) => {
     if (!currentPaymentMethodId) {
       toast.error('Selecione uma forma de pagamento');
       return;
     }
-    if (currentAmount <= 0) {
+    if (amount <= 0) {
       toast.error('Informe o valor');
       return;
     }
-    if (currentAmount > remaining + 0.01) {
+    if (amount > remaining + 0.01 && !isCashSelected) {
       toast.error('Valor maior que o restante');
       return;
     }
 
+    const change = getChange(amount);
+
     const method = paymentMethods.find((pm: any) => pm.id === currentPaymentMethodId);
     setPayments([
       ...payments,
@@ -170,14 +250,19 @@ const PDVPaymentStep = ({
         id: crypto.randomUUID(),
         paymentMethodId: currentPaymentMethodId,
         paymentMethodName: method?.name || '',
-        amount: currentAmount,
+        amount: change > 0 ? Number(remaining.toFixed(2)) : amount,
         installments: currentInstallments,
-        isCredit: false
+        isCredit: false,
+        ...(isCashSelected && {
+          amountTendered: amount,
+          changeAmount: change
+        })
       }
     ]);
     setCurrentPaymentMethodId('');
     setCurrentAmount(0);
     setCurrentInstallments(1);
+    paymentMethodRef.current?.focus();
   };
 
   const removePayment = (id: string) => {
@@ -194,7 +279,9 @@ const PDVPaymentStep = ({
     }
   };
 
-  const handleConfirm = () => {
+  const handleConfirm = async () => {
+    if (finalizingRef.current) return;
+
     if (remaining > 0.01 && !useCredit) {
       toast.error('O valor total ainda não foi coberto');
       return;
@@ -205,6 +292,11 @@ const PDVPaymentStep = ({
       return;
     }
 
+    if (creditAmount > 0 && creditIntervalDays < 1) {
+      toast.error('Informe o intervalo entre as parcelas');
+      return;
+    }
+
     if (deliveryType === 'delivery' && !selectedAddressId && !showNewAddressForm) {
       toast.error('Selecione um endereço de entrega');
       return;
@@ -218,20 +310,47 @@ const PDVPaymentStep = ({
         paymentMethodId: '',
         paymentMethodName: 'Crediário',
         amount: creditAmount,
-        installments: 1,
-        isCredit: true
+        installments: creditInstallments,
+        isCredit: true,
+        firstDueDate: format(creditFirstDueDate, 'yyyy-MM-dd'),
+        intervalDays: creditIntervalDays
       });
     }
 
-    onConfirm({
-      deliveryType,
-      deliveryAddressId: deliveryType === 'delivery' ? (showNewAddressForm ? null : selectedAddressId) : null,
-      deliveryDate,
-      payments: finalPayments,
-      newAddress: showNewAddressForm ? newAddress : undefined
-    });
+    finalizingRef.current = true;
+    setIsFinalizing(true);
+
+    try {
+      await onConfirm({
+        deliveryType,
+        deliveryAddressId: deliveryType === 'delivery' ? (showNewAddressForm ? null : selectedAddressId) : null,
+        deliveryDate,
+        payments: finalPayments,
+        newAddress: showNewAddressForm ? newAddress : undefined
+      });
+    } finally {
+      finalizingRef.current = false;
+      setIsFinalizing(false);
+    }
   };
 
+  // Registered again on every render, so it confirms with the payments entered so far
+  useEffect(() => {
+    if (!open) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== finalizeKey) return;
+      event.preventDefault();
+      // A held key would finalize the same sale again
+      if (event.repeat || finalizingRef.current) return;
+      if (remaining <= 0.01) handleConfirm();
+      else toast.error('O valor total ainda não foi coberto');
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const formatAddress = (addr: DeliveryAddress) => {
     const parts = [
       addr.address_street,
@@ -245,7 +364,14 @@ const PDVPaymentStep = ({
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col"
+        onOpenAutoFocus={(e) => {
+          // Keyboard flow: payment method, amount (Enter adds it), then the finalize key
+          e.preventDefault();
+          paymentMethodRef.current?.focus();
+        }}
+      >
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <CreditCard className="h-5 w-5" />
@@ -278,14 +404,24 @@ const PDVPaymentStep = ({
                   htmlFor="delivery"
                   className={cn(
                     "flex items-center gap-3 p-4 border rounded-lg cursor-pointer transition-colors",
-                    deliveryType === 'delivery' ? "border-primary bg-primary/5" : "hover:bg-accent"
+                    deliveryType === 'delivery' ? "border-primary bg-primary/5" : "hover:bg-accent",
+                    counterOnly && "opacity-50 cursor-not-allowed"
                   )}
                 >
-                  <RadioGroupItem value="delivery" id="delivery" />
+                  <RadioGroupItem value="delivery" id="delivery" disabled={counterOnly} />
                   <Truck className="h-5 w-5" />
                   <span>Entrega</span>
                 </Label>
               </RadioGroup>
+              {offline ? (
+                <p className="text-xs text-muted-foreground">
+                  Sem conexão: entrega e crediário ficam indisponíveis até a conexão voltar.
+                </p>
+              ) : walkIn && (
+                <p className="text-xs text-muted-foreground">
+                  Consumidor final: entrega e crediário exigem um cliente identificado.
+                </p>
+              )}
             </div>
 
             {/* Delivery Address (only if delivery) */}
@@ -475,6 +611,11 @@ const PDVPaymentStep = ({
                               ({payment.installments}x)
                             </span>
                           )}
+                          {payment.changeAmount > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              Recebido R$ {payment.amountTendered.toFixed(2)} · Troco R$ {payment.changeAmount.toFixed(2)}
+                            </div>
+                          )}
                         </div>
                         <div className="flex items-center gap-3">
                           <span className="font-bold">R$ {payment.amount.toFixed(2)}</span>
@@ -498,10 +639,15 @@ const PDVPaymentStep = ({
                     <div className="col-span-2">
                       <Label className="text-xs">Forma</Label>
                       <Select value={currentPaymentMethodId} onValueChange={setCurrentPaymentMethodId}>
-                        <SelectTrigger>
+                        <SelectTrigger ref={paymentMethodRef}>
                           <SelectValue placeholder="Selecione" />
                         </SelectTrigger>
-                        <SelectContent>
+                        <SelectContent
+                          onCloseAutoFocus={(e) => {
+                            e.preventDefault();
+                            amountInputRef.current?.focus();
+                          }}
+                        >
                           {paymentMethods.map((pm: any) => (
                             <SelectItem key={pm.id} value={pm.id}>{pm.name}</SelectItem>
                           ))}
@@ -509,21 +655,45 @@ const PDVPaymentStep = ({
                       </Select>
                     </div>
                     <div>
-                      <Label className="text-xs">Valor</Label>
+                      <Label className="text-xs">{isCashSelected ? 'Valor recebido' : 'Valor'}</Label>
                       <Input
                         type="number"
                         step="0.01"
+                        ref={amountInputRef}
                         value={currentAmount || ''}
                         onChange={(e) => setCurrentAmount(Number(e.target.value))}
+                        onKeyDown={(e) => {
+                          // Empty amount takes the remaining total, as shown in the placeholder
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            addPayment(currentAmount || Number(remaining.toFixed(2)));
+                          }
+                        }}
                         placeholder={remaining.toFixed(2)}
                       />
                     </div>
-                    <Button onClick={addPayment}>
+                    <Button onClick={() => addPayment()}>
                       <Plus className="h-4 w-4" />
                     </Button>
                   </div>
                 )}
 
+                {currentChange > 0 && (
+                  <div className="flex items-center justify-between rounded-lg border border-green-600 bg-green-50 p-3">
+                    <span className="font-medium text-green-700">Troco</span>
+                    <span className="text-2xl font-bold text-green-700">R$ {currentChange.toFixed(2)}</span>
+                  </div>
+                )}
+
+                {/* PIX QR code for the amount being added */}
+                {isPixSelected && remaining > 0.01 && !reservingSaleNumber && (
+                  <PDVPixQrCode
+                    receiver={pixReceiver}
+                    amount={Number((currentAmount || remaining).toFixed(2))}
+                    txid={offline ? null : reservedSaleNumber}
+                  />
+                )}
+
                 {/* Installments */}
                 {selectedPaymentMethod?.allow_installments && currentAmount > 0 && (
                   <div>
@@ -544,7 +714,7 @@ const PDVPaymentStep = ({
                 )}
 
                 {/* Credit option */}
-                {availableCredit > 0 && remaining > 0.01 && (
+                {!counterOnly && availableCredit > 0 && remaining > 0.01 && (
                   <div className="pt-2 border-t">
                     <div className="flex items-center gap-2">
                       <input
@@ -570,6 +740,69 @@ const PDVPaymentStep = ({
                         />
                       </div>
                     )}
+                    {useCredit && creditAmount > 0 && (
+                      <div className="mt-3 space-y-3">
+                        <div className="grid grid-cols-3 gap-3">
+                          <div>
+                            <Label className="text-xs">Parcelas</Label>
+                            <Select value={String(creditInstallments)} onValueChange={(v) => setCreditInstallments(Number(v))}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Array.from({ length: maxCreditInstallments }, (_, i) => i + 1).map((n) => (
+                                  <SelectItem key={n} value={String(n)}>
+                                    {n}x de R$ {(creditAmount / n).toFixed(2)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div>
+                            <Label className="text-xs">1º Vencimento</Label>
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                                  <CalendarIcon className="mr-2 h-4 w-4" />
+                                  {format(creditFirstDueDate, 'dd/MM/yyyy')}
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-auto p-0" align="start">
+                                <Calendar
+                                  mode="single"
+                                  selected={creditFirstDueDate}
+                                  onSelect={(date) => date && setCreditFirstDueDate(date)}
+                                  disabled={(date) => date < new Date()}
+                                  initialFocus
+                                />
+                              </PopoverContent>
+                            </Popover>
+                          </div>
+                          <div>
+                            <Label className="text-xs">Intervalo (dias)</Label>
+                            <Input
+                              type="number"
+                              min="1"
+                              value={creditIntervalDays || ''}
+                              onChange={(e) => setCreditIntervalDays(Math.max(0, Math.floor(Number(e.target.value))))}
+                              disabled={creditInstallments === 1}
+                            />
+                          </div>
+                        </div>
+                        {creditSchedule.length > 1 && (
+                          <div className="rounded-lg border divide-y text-sm">
+                            {creditSchedule.map((installment) => (
+                              <div key={installment.number} className="flex justify-between px-3 py-1.5">
+                                <span className="text-muted-foreground">
+                                  {installment.number}/{creditSchedule.length} • {format(installment.dueDate, 'dd/MM/yyyy')}
+                                </span>
+                                <span className="font-medium">R$ {installment.amount.toFixed(2)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -588,7 +821,7 @@ const PDVPaymentStep = ({
                 </div>
                 {creditAmount > 0 && (
                   <div className="flex justify-between text-sm">
-                    <span>Crediário</span>
+                    <span>Crediário{creditInstallments > 1 ? ` (${creditInstallments}x)` : ''}</span>
                     <span className="text-orange-600">R$ {creditAmount.toFixed(2)}</span>
                   </div>
                 )}
@@ -598,6 +831,12 @@ const PDVPaymentStep = ({
                     <span>R$ {remaining.toFixed(2)}</span>
                   </div>
                 )}
+                {totalChange > 0 && (
+                  <div className="flex justify-between text-2xl font-bold text-green-600 pt-2 border-t">
+                    <span>Troco</span>
+                    <span>R$ {totalChange.toFixed(2)}</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -608,8 +847,9 @@ const PDVPaymentStep = ({
             <ArrowLeft className="h-4 w-4 mr-2" />
             Voltar
           </Button>
-          <Button onClick={handleConfirm} disabled={remaining > 0.01}>
-            Finalizar Venda
+          <Button onClick={handleConfirm} disabled={remaining > 0.01 || isFinalizing}>
+            {isFinalizing ? 'Finalizando...' : 'Finalizar Venda'}
+            <span className="ml-2 text-xs opacity-70">{formatShortcutKey(finalizeKey)}</span>
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Copy, QrCode } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildPixBrCode, getPixQrDataUrl, type PixReceiver } from '@/lib/pix';
+
+interface PDVPixQrCodeProps {
+  receiver: PixReceiver | null;
+  amount: number;
+  txid: string | null;
+}
+
+const PDVPixQrCode = ({ receiver, amount, txid }: PDVPixQrCodeProps) => {
+  const payload = useMemo(
+    () => (receiver && amount > 0 ? buildPixBrCode({ ...receiver, amount, txid }) : null),
+    [receiver, amount, txid]
+  );
+
+  if (!receiver) {
+    return (
+      <div className="rounded-lg border border-dashed p-3 text-sm text-muted-foreground text-center">
+        Loja sem chave PIX cadastrada. Cadastre a chave em Lojas para gerar o QR Code.
+      </div>
+    );
+  }
+
+  if (!payload) return null;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast.success('PIX copia e cola copiado');
+    } catch (error) {
+      toast.error('Falha ao copiar para a área de transferência');
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-3 flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <QrCode className="h-4 w-4" />
+        PIX - R$ {amount.toFixed(2)}
+      </div>
+      <img src={getPixQrDataUrl(payload)} alt="QR Code PIX" className="h-48 w-48" />
+      <p className="text-xs text-muted-foreground">
+        {receiver.merchantName} • Chave {receiver.key}
+      </p>
+      <Button variant="outline" size="sm" onClick={handleCopy}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copiar PIX copia e cola
+      </Button>
+    </div>
+  );
+};
+
+export default PDVPixQrCode;
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Keyboard } from 'lucide-react';
+import {
+  PDV_SHORTCUT_LABELS,
+  formatShortcutKey,
+  type PDVShortcutAction,
+  type PDVShortcutMap
+} from '@/lib/pdvShortcuts';
+
+interface PDVShortcutsHelpProps {
+  open: boolean;
+  onClose: () => void;
+  shortcuts: PDVShortcutMap;
+  onChange: (action: PDVShortcutAction, key: string) => void;
+  onReset: () => void;
+}
+
+// Keys that can't be given to an action: they move the focus or close the dialog
+const RESERVED_KEYS = ['Tab', 'Escape', 'Enter', 'Shift', 'Control', 'Alt', 'Meta'];
+
+const PDVShortcutsHelp = ({ open, onClose, shortcuts, onChange, onReset }: PDVShortcutsHelpProps) => {
+  // Action waiting for its new key
+  const [editing, setEditing] = useState<PDVShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!open) setEditing(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!editing) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (RESERVED_KEYS.includes(event.key)) {
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          event.stopPropagation();
+          setEditing(null);
+        }
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      onChange(editing, event.key);
+      setEditing(null);
+    };
+
+    // Capture phase, ahead of the dialog's own Escape handling
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [editing, onChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="h-5 w-5" />
+            Atalhos do PDV
+          </DialogTitle>
+          <DialogDescription>
+            Na tela de pagamento, Enter no valor adiciona a forma de pagamento e {formatShortcutKey(shortcuts.finalize)} finaliza a venda.
+            Para trocar uma tecla, clique nela e pressione a nova tecla.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y">
+          {(Object.keys(PDV_SHORTCUT_LABELS) as PDVShortcutAction[]).map((action) => (
+            <div key={action} className="flex items-center justify-between py-1.5">
+              <span className="text-sm">{PDV_SHORTCUT_LABELS[action]}</span>
+              <Button
+                variant={editing === action ? 'default' : 'outline'}
+                size="sm"
+                className="min-w-[90px] font-mono"
+                onClick={() => setEditing(editing === action ? null : action)}
+              >
+                {editing === action ? 'Pressione...' : formatShortcutKey(shortcuts[action])}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onReset}>
+            Restaurar padrão
+          </Button>
+          <Button onClick={onClose}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PDVShortcutsHelp;
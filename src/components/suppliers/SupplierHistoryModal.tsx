@@ -8,6 +8,9 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ArrowUpDown, ArrowUp, ArrowDown, X, Filter } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { ACCOUNT_STATUS_LABELS, getAccountBalance, isOpenAccountStatus } from '@/lib/payables';
+import { exportPayables, type ExportFormat } from '@/lib/payablesExport';
+import { PayablesExportMenu } from '@/components/accounts-payable/PayablesExportMenu';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -15,6 +18,7 @@ interface Account {
   id: string;
   description: string;
   amount: number;
+  paid_amount: number;
   due_date: string;
   status: string;
   payment_type: string;
@@ -89,6 +93,7 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
           id,
           description,
           amount,
+          paid_amount,
           due_date,
           status,
           payment_type,
@@ -105,6 +110,7 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
         id: item.id,
         description: item.description,
         amount: item.amount,
+        paid_amount: item.paid_amount,
         due_date: item.due_date,
         status: item.status,
         payment_type: item.payment_type,
@@ -190,11 +196,7 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
       });
     }
     if (columnFilters.status) {
-      const statusMap: Record<string, string> = {
-        'em_aberto': 'Em Aberto',
-        'pago': 'Pago',
-        'cancelado': 'Cancelado',
-      };
+      const statusMap: Record<string, string> = ACCOUNT_STATUS_LABELS;
       result = result.filter(a =>
         (statusMap[a.status] || a.status).toLowerCase().includes(columnFilters.status.toLowerCase())
       );
@@ -296,7 +298,7 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
     if (dueDate === today) {
       return <Badge className="bg-yellow-500 hover:bg-yellow-600">Vence Hoje</Badge>;
     }
-    return <Badge variant="outline">Em Aberto</Badge>;
+    return <Badge variant="outline">{status === 'parcialmente_pago' ? 'Parcialmente Pago' : 'Em Aberto'}</Badge>;
   };
 
   const getPaymentTypeLabel = (type: string) => {
@@ -309,9 +311,57 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
     return types[type] || type;
   };
 
+  const getStatusText = (status: string, dueDate: string) => {
+    const today = getDataBrasil(0);
+    if (isOpenAccountStatus(status) && dueDate < today) return 'Vencida';
+    if (isOpenAccountStatus(status) && dueDate === today) return 'Vence Hoje';
+    return ACCOUNT_STATUS_LABELS[status as keyof typeof ACCOUNT_STATUS_LABELS] || status;
+  };
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    const columnLabels: Record<keyof ColumnFilters, string> = {
+      description: 'Descrição',
+      amount: 'Valor',
+      due_date: 'Vencimento',
+      status: 'Status',
+      payment_type: 'Tipo',
+      cost_center_name: 'Centro de custo',
+    };
+    const sortLabels: Record<SortField, string> = { ...columnLabels };
+
+    const filters = [
+      `Fornecedor: ${supplierName}`,
+      ...(Object.keys(columnLabels) as (keyof ColumnFilters)[])
+        .filter(key => columnFilters[key])
+        .map(key => `${columnLabels[key]} contém "${columnFilters[key]}"`),
+      ...(mobileFilterStatus !== 'all' ? [`Status: ${ACCOUNT_STATUS_LABELS[mobileFilterStatus as keyof typeof ACCOUNT_STATUS_LABELS]}`] : []),
+      ...(mobileFilterDateType !== 'all' && mobileFilterDateValue ? [`Vencimento: ${mobileFilterDateValue}`] : []),
+      ...(sortField && sortDirection
+        ? [`Ordenado por ${sortLabels[sortField]} (${sortDirection === 'asc' ? 'crescente' : 'decrescente'})`]
+        : []),
+    ];
+
+    exportPayables(exportFormat, {
+      title: `Histórico de Contas - ${supplierName}`,
+      fileName: `historico-${supplierName.toLowerCase().normalize('NFD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`,
+      filters,
+      rows: filteredAndSortedAccounts.map(account => ({
+        description: account.description,
+        supplier: supplierName,
+        costCenter: account.cost_center_name || '',
+        paymentType: account.payment_type,
+        status: account.status,
+        statusLabel: getStatusText(account.status, account.due_date),
+        dueDate: account.due_date,
+        amount: Number(account.amount),
+        paidAmount: Number(account.paid_amount || 0),
+      })),
+    });
+  };
+
   const totalAberto = filteredAndSortedAccounts
-    .filter(a => a.status === 'em_aberto')
-    .reduce((sum, a) => sum + Number(a.amount), 0);
+    .filter(a => isOpenAccountStatus(a.status))
+    .reduce((sum, a) => sum + getAccountBalance(a), 0);
 
   const totalPago = filteredAndSortedAccounts
     .filter(a => a.status === 'pago')
@@ -351,14 +401,15 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
             </div>
           </div>
 
-          {hasActiveFilters && (
-            <div className="hidden md:flex justify-end">
-              <Button variant="outline" size="sm" onClick={clearFilters}>
+          <div className="flex justify-end gap-2">
+            {hasActiveFilters && (
+              <Button variant="outline" size="sm" onClick={clearFilters} className="hidden md:flex">
                 <X className="h-4 w-4 mr-2" />
                 Limpar Filtros
               </Button>
-            </div>
-          )}
+            )}
+            <PayablesExportMenu onExport={handleExport} disabled={filteredAndSortedAccounts.length === 0} />
+          </div>
 
           {/* Mobile filters button */}
           <div className="md:hidden flex gap-2">
@@ -417,6 +468,7 @@ export const SupplierHistoryModal = ({ isOpen, onClose, supplierId, supplierName
                   <SelectContent>
                     <SelectItem value="all">Todos</SelectItem>
                     <SelectItem value="em_aberto">Em Aberto</SelectItem>
+                    <SelectItem value="parcialmente_pago">Parcialmente Pago</SelectItem>
                     <SelectItem value="pago">Pago</SelectItem>
                     <SelectItem value="cancelado">Cancelado</SelectItem>
                   </SelectContent>
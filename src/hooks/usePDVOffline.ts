@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  cacheStoreCatalog,
+  checkConnection,
+  clearSyncedOfflineSales,
+  getCatalogUpdatedAt,
+  listOfflineSales,
+  queueOfflineSale,
+  removeOfflineSale,
+  retryOfflineSale,
+  syncOfflineSales,
+  type OfflineSale
+} from '@/lib/pdvOffline';
+
+// The catalog is downloaded again when the store is selected and the copy is older than this
+const CATALOG_MAX_AGE_MS = 30 * 60 * 1000;
+// How often the queue is retried and the connection checked after a failed request
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Connection status, catalog cache and sale queue of the PDV
+export function usePDVOffline(storeId: string) {
+  // navigator.onLine stays true when only the store's internet is down, so failed requests
+  // also switch the PDV offline through reportNetworkError
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [sales, setSales] = useState<OfflineSale[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [catalogUpdatedAt, setCatalogUpdatedAt] = useState<string | null>(null);
+  const [refreshingCatalog, setRefreshingCatalog] = useState(false);
+  const syncingRef = useRef(false);
+
+  const reloadSales = useCallback(async () => {
+    setSales(await listOfflineSales().catch(() => []));
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      const result = await syncOfflineSales();
+      setOnline(result.remaining === 0);
+
+      if (result.synced > 0) toast.success(`${result.synced} venda(s) offline sincronizada(s)`);
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} venda(s) offline sincronizada(s) com divergências de estoque ou preço`);
+      }
+      if (result.failed > 0) toast.error(`${result.failed} venda(s) offline recusada(s). Verifique a fila de vendas offline.`);
+    } catch (error) {
+      toast.error('Erro ao sincronizar vendas offline: ' + (error as Error).message);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await reloadSales();
+    }
+  }, [reloadSales]);
+
+  const refreshCatalog = useCallback(async (notify = true) => {
+    if (!storeId) return;
+    setRefreshingCatalog(true);
+
+    try {
+      const cached = await cacheStoreCatalog(storeId);
+      setCatalogUpdatedAt(await getCatalogUpdatedAt(storeId));
+      if (notify) toast.success(`Catálogo salvo para uso offline: ${cached.products} produto(s) e ${cached.customers} cliente(s)`);
+    } catch (error) {
+      if (notify) toast.error('Erro ao salvar o catálogo offline: ' + (error as Error).message);
+    } finally {
+      setRefreshingCatalog(false);
+    }
+  }, [storeId]);
+
+  const reportNetworkError = useCallback(() => setOnline(false), []);
+
+  // Sales left in the queue when the PDV was last closed
+  useEffect(() => {
+    if (navigator.onLine) syncNow();
+    else reloadSales();
+  }, [syncNow, reloadSales]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const pendingCount = sales.filter(sale => sale.status === 'pending').length;
+
+  // Sales left behind by a dropped connection, or a connection that came back without an online event
+  useEffect(() => {
+    if (online && pendingCount === 0) return;
+
+    const interval = setInterval(async () => {
+      if (syncingRef.current) return;
+      if (!online && !(await checkConnection())) return;
+      setOnline(true);
+      if (pendingCount > 0) syncNow();
+    }, RETRY_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [online, pendingCount, syncNow]);
+
+  useEffect(() => {
+    if (!storeId) return;
+    let cancelled = false;
+
+    getCatalogUpdatedAt(storeId)
+      .catch(() => null)
+      .then(updatedAt => {
+        if (cancelled) return;
+        setCatalogUpdatedAt(updatedAt);
+        const stale = !updatedAt || Date.now() - new Date(updatedAt).getTime() > CATALOG_MAX_AGE_MS;
+        if (stale && navigator.onLine) refreshCatalog(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId, refreshCatalog]);
+
+  const queueSale = useCallback(async (sale: Parameters<typeof queueOfflineSale>[0]) => {
+    await queueOfflineSale(sale);
+    await reloadSales();
+  }, [reloadSales]);
+
+  const retrySale = useCallback(async (sale: OfflineSale) => {
+    await retryOfflineSale(sale);
+    await reloadSales();
+    if (online) syncNow();
+  }, [online, reloadSales, syncNow]);
+
+  const discardSale = useCallback(async (id: string) => {
+    await removeOfflineSale(id);
+    await reloadSales();
+  }, [reloadSales]);
+
+  const clearSynced = useCallback(async () => {
+    await clearSyncedOfflineSales();
+    await reloadSales();
+  }, [reloadSales]);
+
+  return {
+    online,
+    sales,
+    pendingCount,
+    syncing,
+    catalogUpdatedAt,
+    refreshingCatalog,
+    syncNow,
+    refreshCatalog,
+    reportNetworkError,
+    queueSale,
+    retrySale,
+    discardSale,
+    clearSynced
+  };
+}
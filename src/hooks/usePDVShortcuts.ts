@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_PDV_SHORTCUTS,
+  assignPDVShortcut,
+  isEditingKey,
+  loadPDVShortcuts,
+  savePDVShortcuts,
+  type PDVShortcutAction,
+  type PDVShortcutMap
+} from '@/lib/pdvShortcuts';
+
+export type PDVShortcutHandlers = Partial<Record<PDVShortcutAction, () => void>>;
+
+// An empty field marked with data-pdv-shortcuts (the product search, where the focus stays between
+// items) leaves arrows and Delete to the cart
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) &&
+  !(target instanceof HTMLInputElement && target.dataset.pdvShortcuts !== undefined && target.value === '');
+
+// Function-key shortcuts of the PDV screen. Disabled while one of its dialogs is open, so the
+// dialog keeps the keyboard; handlers are read on each key press and may change every render.
+export function usePDVShortcuts(handlers: PDVShortcutHandlers, enabled: boolean) {
+  const [shortcuts, setShortcuts] = useState<PDVShortcutMap>(loadPDVShortcuts);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Holding a key down would repeat the action (remove every item, open the same dialog again)
+      if (event.repeat || event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const action = (Object.keys(shortcuts) as PDVShortcutAction[]).find(item => shortcuts[item] === event.key);
+      if (!action) return;
+      if (isEditingKey(event.key) && isTextField(event.target)) return;
+
+      const handler = handlersRef.current[action];
+      if (!handler) return;
+
+      // Also keeps the browser's own F-key actions (help, find, menu bar) from running
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled, shortcuts]);
+
+  const setShortcut = useCallback((action: PDVShortcutAction, key: string) => {
+    setShortcuts(current => {
+      const next = assignPDVShortcut(current, action, key);
+      savePDVShortcuts(next);
+      return next;
+    });
+  }, []);
+
+  const resetShortcuts = useCallback(() => {
+    savePDVShortcuts(DEFAULT_PDV_SHORTCUTS);
+    setShortcuts(DEFAULT_PDV_SHORTCUTS);
+  }, []);
+
+  return { shortcuts, setShortcut, resetShortcuts };
+}
@@ -17,6 +17,9 @@ export type Database = {
       accounts_payable: {
         Row: {
           amount: number
+          approval_status: string
+          approved_at: string | null
+          approved_by: string | null
           boleto_barcode: string | null
           card_brand: string | null
           card_last_digits: string | null
@@ -28,10 +31,19 @@ export type Database = {
           description: string
           due_date: string
           id: string
+          installment_count: number | null
+          installment_group_id: string | null
+          installment_number: number | null
+          invoice_number: string | null
           observations: string | null
+          paid_amount: number
           payment_type: Database["public"]["Enums"]["payment_type"]
+          pix_city: string | null
           pix_key: string | null
+          pix_payload: string | null
           pix_receiver_name: string | null
+          pix_txid: string | null
+          recurring_account_id: string | null
           status: Database["public"]["Enums"]["account_status"] | null
           supplier_id: string
           transfer_account: string | null
@@ -44,6 +56,9 @@ export type Database = {
         }
         Insert: {
           amount: number
+          approval_status?: string
+          approved_at?: string | null
+          approved_by?: string | null
           boleto_barcode?: string | null
           card_brand?: string | null
           card_last_digits?: string | null
@@ -55,10 +70,19 @@ export type Database = {
           description: string
           due_date: string
           id?: string
+          installment_count?: number | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          invoice_number?: string | null
           observations?: string | null
+          paid_amount?: number
           payment_type: Database["public"]["Enums"]["payment_type"]
+          pix_city?: string | null
           pix_key?: string | null
+          pix_payload?: string | null
           pix_receiver_name?: string | null
+          pix_txid?: string | null
+          recurring_account_id?: string | null
           status?: Database["public"]["Enums"]["account_status"] | null
           supplier_id: string
           transfer_account?: string | null
@@ -71,6 +95,9 @@ export type Database = {
         }
         Update: {
           amount?: number
+          approval_status?: string
+          approved_at?: string | null
+          approved_by?: string | null
           boleto_barcode?: string | null
           card_brand?: string | null
           card_last_digits?: string | null
@@ -82,10 +109,19 @@ export type Database = {
           description?: string
           due_date?: string
           id?: string
+          installment_count?: number | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          invoice_number?: string | null
           observations?: string | null
+          paid_amount?: number
           payment_type?: Database["public"]["Enums"]["payment_type"]
+          pix_city?: string | null
           pix_key?: string | null
+          pix_payload?: string | null
           pix_receiver_name?: string | null
+          pix_txid?: string | null
+          recurring_account_id?: string | null
           status?: Database["public"]["Enums"]["account_status"] | null
           supplier_id?: string
           transfer_account?: string | null
@@ -97,6 +133,13 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "accounts_payable_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "accounts_payable_cost_center_id_fkey"
             columns: ["cost_center_id"]
@@ -111,6 +154,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "accounts_payable_recurring_account_id_fkey"
+            columns: ["recurring_account_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_accounts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "accounts_payable_supplier_id_fkey"
             columns: ["supplier_id"]
@@ -128,6 +178,8 @@ export type Database = {
           customer_id: string
           due_date: string
           id: string
+          installment_count: number
+          installment_number: number
           notes: string | null
           paid_amount: number | null
           paid_at: string | null
@@ -143,6 +195,8 @@ export type Database = {
           customer_id: string
           due_date: string
           id?: string
+          installment_count?: number
+          installment_number?: number
           notes?: string | null
           paid_amount?: number | null
           paid_at?: string | null
@@ -158,6 +212,8 @@ export type Database = {
           customer_id?: string
           due_date?: string
           id?: string
+          installment_count?: number
+          installment_number?: number
           notes?: string | null
           paid_amount?: number | null
           paid_at?: string | null
@@ -315,6 +371,65 @@ export type Database = {
           },
         ]
       }
+      bank_accounts: {
+        Row: {
+          account: string
+          active: boolean
+          agency: string
+          agreement_code: string | null
+          bank_code: string
+          bank_name: string
+          company_document: string
+          company_name: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          next_file_sequence: number
+          updated_at: string
+        }
+        Insert: {
+          account: string
+          active?: boolean
+          agency: string
+          agreement_code?: string | null
+          bank_code: string
+          bank_name: string
+          company_document: string
+          company_name: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          next_file_sequence?: number
+          updated_at?: string
+        }
+        Update: {
+          account?: string
+          active?: boolean
+          agency?: string
+          agreement_code?: string | null
+          bank_code?: string
+          bank_name?: string
+          company_document?: string
+          company_name?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          next_file_sequence?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_accounts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       brands: {
         Row: {
           active: boolean | null
@@ -518,35 +633,86 @@ export type Database = {
         }
         Relationships: []
       }
+      cost_center_budgets: {
+        Row: {
+          amount: number
+          cost_center_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          month: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          cost_center_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          cost_center_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          month?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_center_budgets_cost_center_id_fkey"
+            columns: ["cost_center_id"]
+            isOneToOne: false
+            referencedRelation: "cost_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_center_budgets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cost_centers: {
         Row: {
           active: boolean | null
+          approval_threshold: number | null
           code: string
           created_at: string | null
           created_by: string | null
           description: string | null
           id: string
           name: string
+          parent_id: string | null
           updated_at: string | null
         }
         Insert: {
           active?: boolean | null
+          approval_threshold?: number | null
           code: string
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
           name: string
+          parent_id?: string | null
           updated_at?: string | null
         }
         Update: {
           active?: boolean | null
+          approval_threshold?: number | null
           code?: string
           created_at?: string | null
           created_by?: string | null
           description?: string | null
           id?: string
           name?: string
+          parent_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -557,6 +723,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cost_centers_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "cost_centers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       customer_credit_history: {
@@ -619,27 +792,36 @@ export type Database = {
           created_at: string
           created_by: string | null
           customer_id: string
+          fine_amount: number
           id: string
+          interest_amount: number
           notes: string | null
           payment_method_id: string | null
+          principal_amount: number
         }
         Insert: {
           amount: number
           created_at?: string
           created_by?: string | null
           customer_id: string
+          fine_amount?: number
           id?: string
+          interest_amount?: number
           notes?: string | null
           payment_method_id?: string | null
+          principal_amount?: number
         }
         Update: {
           amount?: number
           created_at?: string
           created_by?: string | null
           customer_id?: string
+          fine_amount?: number
           id?: string
+          interest_amount?: number
           notes?: string | null
           payment_method_id?: string | null
+          principal_amount?: number
         }
         Relationships: [
           {
@@ -820,6 +1002,8 @@ export type Database = {
           id: string
           max_installments: number | null
           name: string
+          settlement_days: number | null
+          settlement_fee_percent: number
           updated_at: string | null
         }
         Insert: {
@@ -831,6 +1015,8 @@ export type Database = {
           id?: string
           max_installments?: number | null
           name: string
+          settlement_days?: number | null
+          settlement_fee_percent?: number
           updated_at?: string | null
         }
         Update: {
@@ -842,6 +1028,8 @@ export type Database = {
           id?: string
           max_installments?: number | null
           name?: string
+          settlement_days?: number | null
+          settlement_fee_percent?: number
           updated_at?: string | null
         }
         Relationships: [
@@ -854,39 +1042,184 @@ export type Database = {
           },
         ]
       }
+      payment_remittance_items: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string
+          id: string
+          occurrence_codes: string | null
+          occurrence_message: string | null
+          payment_id: string | null
+          processed_at: string | null
+          reference: string
+          remittance_id: string
+          status: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string
+          id?: string
+          occurrence_codes?: string | null
+          occurrence_message?: string | null
+          payment_id?: string | null
+          processed_at?: string | null
+          reference: string
+          remittance_id: string
+          status?: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string
+          id?: string
+          occurrence_codes?: string | null
+          occurrence_message?: string | null
+          payment_id?: string | null
+          processed_at?: string | null
+          reference?: string
+          remittance_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_remittance_items_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts_payable"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_remittance_items_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_remittance_items_remittance_id_fkey"
+            columns: ["remittance_id"]
+            isOneToOne: false
+            referencedRelation: "payment_remittances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_remittances: {
+        Row: {
+          bank_account_id: string
+          created_at: string
+          created_by: string | null
+          file_name: string
+          file_sequence: number
+          id: string
+          item_count: number
+          payment_date: string
+          processed_at: string | null
+          status: string
+          total_amount: number
+        }
+        Insert: {
+          bank_account_id: string
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          file_sequence: number
+          id?: string
+          item_count?: number
+          payment_date: string
+          processed_at?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Update: {
+          bank_account_id?: string
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          file_sequence?: number
+          id?: string
+          item_count?: number
+          payment_date?: string
+          processed_at?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_remittances_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_remittances_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           account_id: string | null
           amount_paid: number
           attachment_url: string | null
+          bank_transaction_amount: number | null
+          bank_transaction_date: string | null
+          bank_transaction_id: string | null
           created_at: string | null
+          discount_amount: number
           id: string
+          interest_amount: number
           notes: string | null
           paid_by: string | null
           payment_date: string
           payment_method: string | null
+          reconciled_at: string | null
+          reconciled_by: string | null
+          reconciliation_status: string
         }
         Insert: {
           account_id?: string | null
           amount_paid: number
           attachment_url?: string | null
+          bank_transaction_amount?: number | null
+          bank_transaction_date?: string | null
+          bank_transaction_id?: string | null
           created_at?: string | null
+          discount_amount?: number
           id?: string
+          interest_amount?: number
           notes?: string | null
           paid_by?: string | null
           payment_date: string
           payment_method?: string | null
+          reconciled_at?: string | null
+          reconciled_by?: string | null
+          reconciliation_status?: string
         }
         Update: {
           account_id?: string | null
           amount_paid?: number
           attachment_url?: string | null
+          bank_transaction_amount?: number | null
+          bank_transaction_date?: string | null
+          bank_transaction_id?: string | null
           created_at?: string | null
+          discount_amount?: number
           id?: string
+          interest_amount?: number
           notes?: string | null
           paid_by?: string | null
           payment_date?: string
           payment_method?: string | null
+          reconciled_at?: string | null
+          reconciled_by?: string | null
+          reconciliation_status?: string
         }
         Relationships: [
           {
@@ -910,6 +1243,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "payments_reconciled_by_fkey"
+            columns: ["reconciled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       product_pricing: {
@@ -1108,6 +1448,115 @@ export type Database = {
         }
         Relationships: []
       }
+      recurring_accounts: {
+        Row: {
+          active: boolean
+          amount: number
+          cost_center_id: string
+          created_at: string
+          created_by: string | null
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          generated_count: number
+          id: string
+          last_generated_date: string | null
+          max_occurrences: number | null
+          observations: string | null
+          payment_type: Database["public"]["Enums"]["payment_type"]
+          pix_key: string | null
+          pix_receiver_name: string | null
+          start_date: string
+          supplier_id: string
+          transfer_account: string | null
+          transfer_account_type: string | null
+          transfer_agency: string | null
+          transfer_bank: string | null
+          transfer_holder_document: string | null
+          transfer_holder_name: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          amount: number
+          cost_center_id: string
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          id?: string
+          last_generated_date?: string | null
+          max_occurrences?: number | null
+          observations?: string | null
+          payment_type: Database["public"]["Enums"]["payment_type"]
+          pix_key?: string | null
+          pix_receiver_name?: string | null
+          start_date: string
+          supplier_id: string
+          transfer_account?: string | null
+          transfer_account_type?: string | null
+          transfer_agency?: string | null
+          transfer_bank?: string | null
+          transfer_holder_document?: string | null
+          transfer_holder_name?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          amount?: number
+          cost_center_id?: string
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          generated_count?: number
+          id?: string
+          last_generated_date?: string | null
+          max_occurrences?: number | null
+          observations?: string | null
+          payment_type?: Database["public"]["Enums"]["payment_type"]
+          pix_key?: string | null
+          pix_receiver_name?: string | null
+          start_date?: string
+          supplier_id?: string
+          transfer_account?: string | null
+          transfer_account_type?: string | null
+          transfer_agency?: string | null
+          transfer_bank?: string | null
+          transfer_holder_document?: string | null
+          transfer_holder_name?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_accounts_cost_center_id_fkey"
+            columns: ["cost_center_id"]
+            isOneToOne: false
+            referencedRelation: "cost_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_accounts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_accounts_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sale_items: {
         Row: {
           created_at: string | null
@@ -1162,9 +1611,40 @@ export type Database = {
           },
         ]
       }
+      sale_number_reservations: {
+        Row: {
+          client_sale_id: string
+          created_at: string
+          sale_number: string
+          store_id: string
+        }
+        Insert: {
+          client_sale_id: string
+          created_at?: string
+          sale_number: string
+          store_id: string
+        }
+        Update: {
+          client_sale_id?: string
+          created_at?: string
+          sale_number?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_number_reservations_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sale_payments: {
         Row: {
           amount: number
+          amount_tendered: number | null
+          change_amount: number
           created_at: string | null
           id: string
           installments: number | null
@@ -1174,6 +1654,8 @@ export type Database = {
         }
         Insert: {
           amount?: number
+          amount_tendered?: number | null
+          change_amount?: number
           created_at?: string | null
           id?: string
           installments?: number | null
@@ -1183,6 +1665,8 @@ export type Database = {
         }
         Update: {
           amount?: number
+          amount_tendered?: number | null
+          change_amount?: number
           created_at?: string | null
           id?: string
           installments?: number | null
@@ -1214,9 +1698,11 @@ export type Database = {
           cancellation_reason: string | null
           cancelled_at: string | null
           cancelled_by: string | null
+          client_sale_id: string | null
           created_at: string | null
           created_by: string | null
-          customer_id: string
+          customer_document: string | null
+          customer_id: string | null
           delivery_address_id: string | null
           delivery_date: string | null
           delivery_type: string | null
@@ -1226,12 +1712,14 @@ export type Database = {
           id: string
           installments: number | null
           notes: string | null
+          offline_number: string | null
           payment_method_id: string | null
           payment_status: string
           sale_number: string
           status: string
           store_id: string
           subtotal: number
+          synced_at: string | null
           total: number
           updated_at: string | null
         }
@@ -1241,9 +1729,11 @@ export type Database = {
           cancellation_reason?: string | null
           cancelled_at?: string | null
           cancelled_by?: string | null
+          client_sale_id?: string | null
           created_at?: string | null
           created_by?: string | null
-          customer_id: string
+          customer_document?: string | null
+          customer_id?: string | null
           delivery_address_id?: string | null
           delivery_date?: string | null
           delivery_type?: string | null
@@ -1253,12 +1743,14 @@ export type Database = {
           id?: string
           installments?: number | null
           notes?: string | null
+          offline_number?: string | null
           payment_method_id?: string | null
           payment_status?: string
           sale_number: string
           status?: string
           store_id: string
           subtotal?: number
+          synced_at?: string | null
           total?: number
           updated_at?: string | null
         }
@@ -1268,9 +1760,11 @@ export type Database = {
           cancellation_reason?: string | null
           cancelled_at?: string | null
           cancelled_by?: string | null
+          client_sale_id?: string | null
           created_at?: string | null
           created_by?: string | null
-          customer_id?: string
+          customer_document?: string | null
+          customer_id?: string | null
           delivery_address_id?: string | null
           delivery_date?: string | null
           delivery_type?: string | null
@@ -1280,12 +1774,14 @@ export type Database = {
           id?: string
           installments?: number | null
           notes?: string | null
+          offline_number?: string | null
           payment_method_id?: string | null
           payment_status?: string
           sale_number?: string
           status?: string
           store_id?: string
           subtotal?: number
+          synced_at?: string | null
           total?: number
           updated_at?: string | null
         }
@@ -1557,9 +2053,17 @@ export type Database = {
           id: string
           name: string
           pdv_auto_print: boolean | null
+          pdv_cash_drawer: boolean
           pdv_max_discount_percent: number | null
+          pdv_print_agent_url: string | null
           pdv_print_format: string | null
+          pdv_printer_connection: string
           phone: string | null
+          pix_key: string | null
+          pix_merchant_city: string | null
+          pix_merchant_name: string | null
+          receivable_daily_interest_percent: number
+          receivable_fine_percent: number
           updated_at: string | null
         }
         Insert: {
@@ -1573,9 +2077,17 @@ export type Database = {
           id?: string
           name: string
           pdv_auto_print?: boolean | null
+          pdv_cash_drawer?: boolean
           pdv_max_discount_percent?: number | null
+          pdv_print_agent_url?: string | null
           pdv_print_format?: string | null
+          pdv_printer_connection?: string
           phone?: string | null
+          pix_key?: string | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          receivable_daily_interest_percent?: number
+          receivable_fine_percent?: number
           updated_at?: string | null
         }
         Update: {
@@ -1589,9 +2101,17 @@ export type Database = {
           id?: string
           name?: string
           pdv_auto_print?: boolean | null
+          pdv_cash_drawer?: boolean
           pdv_max_discount_percent?: number | null
+          pdv_print_agent_url?: string | null
           pdv_print_format?: string | null
+          pdv_printer_connection?: string
           phone?: string | null
+          pix_key?: string | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          receivable_daily_interest_percent?: number
+          receivable_fine_percent?: number
           updated_at?: string | null
         }
         Relationships: []
@@ -1780,6 +2300,78 @@ export type Database = {
         Args: { p_header_id: string; p_reason: string; p_user_id: string }
         Returns: boolean
       }
+      create_payment_remittance: {
+        Args: { p_bank_account_id: string; p_items: Json; p_payment_date: string }
+        Returns: {
+          file_name: string
+          file_sequence: number
+          remittance_id: string
+        }[]
+      }
+      filter_accounts_payable: {
+        Args: { p_filters: Json }
+        Returns: {
+            amount: number
+            approval_status: string
+            approved_at: string | null
+            approved_by: string | null
+            boleto_barcode: string | null
+            card_brand: string | null
+            card_last_digits: string | null
+            card_operation: string | null
+            card_operator: string | null
+            cost_center_id: string
+            created_at: string | null
+            created_by: string | null
+            description: string
+            due_date: string
+            id: string
+            installment_count: number | null
+            installment_group_id: string | null
+            installment_number: number | null
+            invoice_number: string | null
+            observations: string | null
+            paid_amount: number
+            payment_type: Database["public"]["Enums"]["payment_type"]
+            pix_city: string | null
+            pix_key: string | null
+            pix_payload: string | null
+            pix_receiver_name: string | null
+            pix_txid: string | null
+            recurring_account_id: string | null
+            status: Database["public"]["Enums"]["account_status"] | null
+            supplier_id: string
+            transfer_account: string | null
+            transfer_account_type: string | null
+            transfer_agency: string | null
+            transfer_bank: string | null
+            transfer_holder_document: string | null
+            transfer_holder_name: string | null
+            updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "accounts_payable"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      finalize_sale: {
+        Args: {
+          p_customer_document?: string
+          p_customer_id: string
+          p_delivery?: Json
+          p_discount?: Json
+          p_items: Json
+          p_payments: Json
+          p_quote_id?: string
+          p_store_id: string
+        }
+        Returns: {
+          sale_id: string
+          sale_number: string
+        }[]
+      }
       generate_receipt_number: { Args: { p_store_id: string }; Returns: string }
       generate_sale_number: { Args: { p_store_id: string }; Returns: string }
       get_account_attachments: {
@@ -1802,6 +2394,34 @@ export type Database = {
           uploader_name: string
         }[]
       }
+      get_accounts_payable_totals: {
+        Args: { p_filters?: Json }
+        Returns: {
+          account_count: number
+          cost_center_id: string
+          open_count: number
+          open_total: number
+          overdue_count: number
+          overdue_total: number
+          paid_count: number
+          paid_total: number
+          payment_type: string
+        }[]
+      }
+      get_cost_center_budget_usage: {
+        Args: {
+          p_basis?: string
+          p_cost_center_id?: string
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          actual: number
+          budget: number | null
+          cost_center_id: string
+          month: string
+        }[]
+      }
       get_customer_available_credit: {
         Args: { p_customer_id: string }
         Returns: number
@@ -1841,7 +2461,90 @@ export type Database = {
         }
         Returns: boolean
       }
+      reserve_sale_number: {
+        Args: { p_client_sale_id: string; p_store_id: string }
+        Returns: string
+      }
+      review_account_approval: {
+        Args: { p_account_id: string; p_approve: boolean; p_reason?: string }
+        Returns: undefined
+      }
+      search_accounts_payable: {
+        Args: {
+          p_filters?: Json
+          p_limit?: number
+          p_offset?: number
+          p_sort_desc?: boolean
+          p_sort_field?: string
+        }
+        Returns: {
+            amount: number
+            approval_status: string
+            approved_at: string | null
+            approved_by: string | null
+            boleto_barcode: string | null
+            card_brand: string | null
+            card_last_digits: string | null
+            card_operation: string | null
+            card_operator: string | null
+            cost_center_id: string
+            created_at: string | null
+            created_by: string | null
+            description: string
+            due_date: string
+            id: string
+            installment_count: number | null
+            installment_group_id: string | null
+            installment_number: number | null
+            invoice_number: string | null
+            observations: string | null
+            paid_amount: number
+            payment_type: Database["public"]["Enums"]["payment_type"]
+            pix_city: string | null
+            pix_key: string | null
+            pix_payload: string | null
+            pix_receiver_name: string | null
+            pix_txid: string | null
+            recurring_account_id: string | null
+            status: Database["public"]["Enums"]["account_status"] | null
+            supplier_id: string
+            transfer_account: string | null
+            transfer_account_type: string | null
+            transfer_agency: string | null
+            transfer_bank: string | null
+            transfer_holder_document: string | null
+            transfer_holder_name: string | null
+            updated_at: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "accounts_payable"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       set_timezone: { Args: never; Returns: undefined }
+      sync_offline_sale: {
+        Args: {
+          p_client_sale_id: string
+          p_customer_document?: string
+          p_customer_id: string
+          p_delivery?: Json
+          p_discount?: Json
+          p_items: Json
+          p_offline_number: string
+          p_payments: Json
+          p_quote_id?: string
+          p_sold_at: string
+          p_store_id: string
+        }
+        Returns: {
+          already_synced: boolean
+          conflicts: Json
+          sale_id: string
+          sale_number: string
+        }[]
+      }
       update_stock_quantity: {
         Args: { p_product_id: string; p_quantity: number; p_store_id: string }
         Returns: undefined
@@ -1853,7 +2556,7 @@ export type Database = {
       }
     }
     Enums: {
-      account_status: "em_aberto" | "pago" | "cancelado"
+      account_status: "em_aberto" | "pago" | "cancelado" | "parcialmente_pago"
       app_role: "admin" | "pagador" | "operador" | "leitor" | "caixa"
       payment_type: "boleto" | "cartao" | "transferencia" | "pix"
     }
@@ -1983,7 +2686,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      account_status: ["em_aberto", "pago", "cancelado"],
+      account_status: ["em_aberto", "pago", "cancelado", "parcialmente_pago"],
       app_role: ["admin", "pagador", "operador", "leitor", "caixa"],
       payment_type: ["boleto", "cartao", "transferencia", "pix"],
     },
@@ -0,0 +1,221 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export interface StatementTransaction {
+  id: string; // FITID prefixed with the account for OFX, derived from the line contents for CSV
+  date: string; // yyyy-MM-dd
+  amount: number; // signed: debits are negative
+  description: string;
+}
+
+export interface ReconcilablePayment {
+  id: string;
+  amount_paid: number;
+  payment_date: string;
+}
+
+export interface StatementMatch<P extends ReconcilablePayment> {
+  transaction: StatementTransaction;
+  payment: P;
+  dayDiff: number;
+}
+
+export interface DebitedOpenAccount<A> {
+  transaction: StatementTransaction;
+  accounts: A[];
+}
+
+export const RECONCILIATION_STATUS_LABELS: Record<string, string> = {
+  pendente: 'Pendente',
+  conciliado: 'Conciliado'
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const sameAmount = (a: number, b: number) => Math.abs(roundCents(a) - roundCents(b)) < 0.005;
+
+const dayDistance = (a: string, b: string) => Math.abs(differenceInCalendarDays(parseISO(a), parseISO(b)));
+
+// Bank exports come in UTF-8 or Windows-1252 (OFX CHARSET:1252)
+export const decodeStatementFile = (buffer: ArrayBuffer) => {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  return new TextDecoder('windows-1252').decode(buffer);
+};
+
+// Accepts "1.234,56", "1234.56", "-150,00" and "R$ 10,00"
+const parseStatementAmount = (value: string) => {
+  let cleaned = value.replace(/[^\d,.-]/g, '');
+  if (cleaned.includes(',')) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  }
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? null : amount;
+};
+
+const parseStatementDate = (value: string) => {
+  const trimmed = value.trim();
+  const br = trimmed.match(/^(\d{2})\/(\d{2})\/(\d{4})/);
+  if (br) return `${br[3]}-${br[2]}-${br[1]}`;
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  return null;
+};
+
+const getOFXTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+// OFX 1.x is SGML without closing tags on leaf elements, so read tag values up to
+// the next tag or line break instead of using an XML parser.
+// FITIDs are only unique within an account, so they are stored prefixed with the bank and
+// account of the statement (BANKACCTFROM, or CCACCTFROM for card statements).
+export const parseOFX = (text: string): StatementTransaction[] => {
+  const accountBlock = text.match(/<(?:BANK|CC)ACCTFROM>[\s\S]*?(?=<\/(?:BANK|CC)ACCTFROM>|<BANKTRANLIST>)/i)?.[0] || '';
+  const account = [getOFXTag(accountBlock, 'BANKID'), getOFXTag(accountBlock, 'ACCTID')].filter(Boolean).join('-');
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap((block, index) => {
+    const date = parseStatementDate(getOFXTag(block, 'DTPOSTED'));
+    const amount = parseStatementAmount(getOFXTag(block, 'TRNAMT'));
+    if (!date || amount === null) return [];
+
+    const fitId = getOFXTag(block, 'FITID') || `ofx-${date}-${amount}-${index}`;
+
+    return [{
+      id: account ? `${account}:${fitId}` : fitId,
+      date,
+      amount,
+      description: getOFXTag(block, 'MEMO') || getOFXTag(block, 'NAME')
+    }];
+  });
+};
+
+const splitCSVLine = (line: string, delimiter: string) => {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+  return values;
+};
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+
+// Expects a header row with a date column, a description column and either a signed
+// "valor" column or separate "débito"/"crédito" columns
+export const parseStatementCSV = (text: string): StatementTransaction[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return [];
+
+  const delimiter = lines[0].split(';').length >= lines[0].split(',').length ? ';' : ',';
+  const headers = splitCSVLine(lines[0], delimiter).map(normalizeHeader);
+  const findColumn = (...names: string[]) => headers.findIndex(h => names.some(name => h.includes(name)));
+
+  const dateColumn = findColumn('data');
+  const amountColumn = findColumn('valor', 'montante');
+  const debitColumn = findColumn('debito', 'saida');
+  const creditColumn = findColumn('credito', 'entrada');
+  const descriptionColumn = findColumn('hist', 'descri', 'lancamento', 'memo');
+
+  if (dateColumn < 0 || (amountColumn < 0 && debitColumn < 0)) {
+    throw new Error('O extrato CSV precisa das colunas "data" e "valor" (ou "débito"/"crédito")');
+  }
+
+  const seen = new Map<string, number>();
+
+  return lines.slice(1).flatMap(line => {
+    const values = splitCSVLine(line, delimiter);
+    const date = parseStatementDate(values[dateColumn] || '');
+
+    let amount: number | null;
+    if (amountColumn >= 0) {
+      amount = parseStatementAmount(values[amountColumn] || '');
+    } else {
+      const debit = parseStatementAmount(values[debitColumn] || '') || 0;
+      const credit = creditColumn >= 0 ? parseStatementAmount(values[creditColumn] || '') || 0 : 0;
+      amount = credit - Math.abs(debit);
+    }
+
+    if (!date || amount === null || amount === 0) return [];
+
+    const description = descriptionColumn >= 0 ? values[descriptionColumn] || '' : '';
+    // Identical lines on the same day are told apart by their position among themselves
+    const key = `csv-${date}-${amount.toFixed(2)}-${description}`;
+    const occurrence = seen.get(key) || 0;
+    seen.set(key, occurrence + 1);
+
+    return [{ id: `${key}-${occurrence}`, date, amount, description }];
+  });
+};
+
+export const parseBankStatement = (fileName: string, text: string) =>
+  /\.ofx$/i.test(fileName) || /<OFX>/i.test(text) ? parseOFX(text) : parseStatementCSV(text);
+
+// Pairs statement debits with payments of the same amount within windowDays,
+// closest dates first, each side used at most once
+export const matchStatementToPayments = <P extends ReconcilablePayment>(
+  transactions: StatementTransaction[],
+  payments: P[],
+  windowDays: number
+) => {
+  const debits = transactions.filter(transaction => transaction.amount < 0);
+  const candidates: StatementMatch<P>[] = [];
+
+  debits.forEach(transaction => {
+    payments.forEach(payment => {
+      if (!sameAmount(Math.abs(transaction.amount), Number(payment.amount_paid))) return;
+      const dayDiff = dayDistance(transaction.date, payment.payment_date);
+      if (dayDiff <= windowDays) {
+        candidates.push({ transaction, payment, dayDiff });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => a.dayDiff - b.dayDiff);
+
+  const usedTransactions = new Set<string>();
+  const usedPayments = new Set<string>();
+  const matches: StatementMatch<P>[] = [];
+
+  candidates.forEach(candidate => {
+    if (usedTransactions.has(candidate.transaction.id) || usedPayments.has(candidate.payment.id)) return;
+    usedTransactions.add(candidate.transaction.id);
+    usedPayments.add(candidate.payment.id);
+    matches.push(candidate);
+  });
+
+  return {
+    matches,
+    unmatchedTransactions: debits.filter(transaction => !usedTransactions.has(transaction.id)),
+    unmatchedPayments: payments.filter(payment => !usedPayments.has(payment.id))
+  };
+};
+
+// Debits with no recorded payment that look like an open account being paid at the bank
+export const findDebitedOpenAccounts = <A extends { due_date: string }>(
+  transactions: StatementTransaction[],
+  accounts: A[],
+  getBalance: (account: A) => number,
+  windowDays: number
+): DebitedOpenAccount<A>[] =>
+  transactions.flatMap(transaction => {
+    const candidates = accounts.filter(account =>
+      sameAmount(Math.abs(transaction.amount), getBalance(account)) &&
+      dayDistance(transaction.date, account.due_date) <= windowDays
+    );
+    return candidates.length > 0 ? [{ transaction, accounts: candidates }] : [];
+  });
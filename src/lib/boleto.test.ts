@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  barcodeToDigitableLine,
+  digitableLineToBarcode,
+  dueDateFromFactor,
+  modulo10,
+  modulo11Arrecadacao,
+  modulo11Bank,
+  parseBoleto
+} from '@/lib/boleto';
+
+// Banco do Brasil sample from its boleto layout documentation: R$ 1,00, factor 3737 (31/12/2007)
+const BANK_BARCODE = '00193373700000001000500940144816060680935031';
+const BANK_LINE = '00190500954014481606906809350314337370000000100';
+
+// Convênio slip (segment 3, value id 6: amount in reais, blocks checked with módulo 10)
+const ARRECADACAO_BARCODE = '83620000000667800481001809756573100158963608';
+const ARRECADACAO_LINE = '836200000005667800481000180975657313001589636081';
+
+describe('modulo10', () => {
+  it('computes the check digits of the digitable line fields', () => {
+    expect(modulo10('001905009')).toBe(5);
+    expect(modulo10('4014481606')).toBe(9);
+    expect(modulo10('0680935031')).toBe(4);
+  });
+
+  it('gives 0 when the sum is a multiple of 10', () => {
+    expect(modulo10('0')).toBe(0);
+  });
+});
+
+describe('modulo11Bank', () => {
+  it('computes the general check digit of the barcode', () => {
+    expect(modulo11Bank(BANK_BARCODE.slice(0, 4) + BANK_BARCODE.slice(5))).toBe(3);
+  });
+
+  it('turns results 0, 10 and 11 into 1', () => {
+    expect(modulo11Bank('0')).toBe(1);
+    expect(modulo11Bank('6')).toBe(1);
+  });
+});
+
+describe('modulo11Arrecadacao', () => {
+  it('computes 11 minus the remainder', () => {
+    expect(modulo11Arrecadacao('12345')).toBe(5);
+  });
+
+  it('gives 0 for remainders 0 and 1', () => {
+    expect(modulo11Arrecadacao('0')).toBe(0);
+    expect(modulo11Arrecadacao('6')).toBe(0);
+  });
+});
+
+describe('digitable line and barcode', () => {
+  it('converts a bank boleto both ways', () => {
+    expect(barcodeToDigitableLine(BANK_BARCODE)).toBe(BANK_LINE);
+    expect(digitableLineToBarcode(BANK_LINE)).toBe(BANK_BARCODE);
+  });
+
+  it('ignores the formatting of the digitable line', () => {
+    expect(digitableLineToBarcode('00190.50095 40144.816069 06809.350314 3 37370000000100')).toBe(BANK_BARCODE);
+  });
+
+  it('converts a convênio slip both ways', () => {
+    expect(barcodeToDigitableLine(ARRECADACAO_BARCODE)).toBe(ARRECADACAO_LINE);
+    expect(digitableLineToBarcode(ARRECADACAO_LINE)).toBe(ARRECADACAO_BARCODE);
+  });
+
+  it('rejects codes of other lengths', () => {
+    expect(() => barcodeToDigitableLine(BANK_BARCODE.slice(1))).toThrow();
+    expect(() => digitableLineToBarcode(BANK_LINE.slice(1))).toThrow();
+  });
+});
+
+describe('dueDateFromFactor', () => {
+  it('counts days from 07/10/1997 before the rollover', () => {
+    expect(dueDateFromFactor(1000, new Date(2000, 6, 1))).toBe('2000-07-03');
+    expect(dueDateFromFactor(3737, new Date(2008, 0, 1))).toBe('2007-12-31');
+  });
+
+  it('restarts at 1000 on 22/02/2025, the day after factor 9999', () => {
+    expect(dueDateFromFactor(9999, new Date(2025, 1, 22))).toBe('2025-02-21');
+    expect(dueDateFromFactor(1000, new Date(2025, 1, 22))).toBe('2025-02-22');
+    expect(dueDateFromFactor(1001, new Date(2025, 1, 22))).toBe('2025-02-23');
+  });
+
+  it('has no due date for factor 0', () => {
+    expect(dueDateFromFactor(0)).toBeNull();
+  });
+});
+
+describe('parseBoleto', () => {
+  it('reads bank, amount and due date of a bank boleto', () => {
+    const { boleto, error } = parseBoleto(BANK_LINE, new Date(2008, 0, 1));
+
+    expect(error).toBeNull();
+    expect(boleto).toMatchObject({
+      kind: 'bancario',
+      barcode: BANK_BARCODE,
+      bankCode: '001',
+      amount: 1,
+      dueDate: '2007-12-31'
+    });
+  });
+
+  it('reads the amount of a convênio slip', () => {
+    const { boleto, error } = parseBoleto(ARRECADACAO_LINE);
+
+    expect(error).toBeNull();
+    expect(boleto).toMatchObject({ kind: 'arrecadacao', barcode: ARRECADACAO_BARCODE, segment: '3', amount: 66.78 });
+  });
+
+  it('reports a wrong field check digit', () => {
+    const line = BANK_LINE.slice(0, 9) + '6' + BANK_LINE.slice(10);
+    expect(parseBoleto(line).error).toBe('Dígito verificador do campo 1 inválido (esperado 5, informado 6)');
+  });
+
+  it('reports a wrong general check digit', () => {
+    const barcode = BANK_BARCODE.slice(0, 4) + '4' + BANK_BARCODE.slice(5);
+    expect(parseBoleto(barcode).error).toBe('Dígito verificador geral inválido (esperado 3, informado 4)');
+  });
+});
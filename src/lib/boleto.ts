@@ -0,0 +1,262 @@
+// Boleto (FEBRABAN) parsing and validation.
+//
+// Bank boletos ("bancários") have a 44-digit barcode and a 47-digit digitable line;
+// convênio/arrecadação slips (utilities, taxes) have a 44-digit barcode starting with 8
+// and a 48-digit digitable line split in four blocks of 11 digits + check digit.
+
+export type BoletoKind = 'bancario' | 'arrecadacao';
+
+export interface Boleto {
+  kind: BoletoKind;
+  barcode: string;
+  digitableLine: string;
+  amount: number | null;
+  dueDate: string | null;
+  bankCode?: string;
+  segment?: string;
+}
+
+// Either boleto or error is set
+export interface BoletoParseResult {
+  boleto: Boleto | null;
+  error: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Due date factor 1000 was reached again on 22/02/2025, after 9999 on 21/02/2025
+const FACTOR_BASE_DATE = Date.UTC(1997, 9, 7);
+const FACTOR_ROLLOVER_DATE = Date.UTC(2025, 1, 22);
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+export const modulo10 = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight;
+    sum += product > 9 ? Math.floor(product / 10) + (product % 10) : product;
+    weight = weight === 2 ? 1 : 2;
+  }
+
+  return (10 - (sum % 10)) % 10;
+};
+
+const modulo11Sum = (digits: string): number => {
+  let sum = 0;
+  let weight = 2;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+
+  return sum;
+};
+
+// General check digit of bank boletos: 0, 10 and 11 become 1
+export const modulo11Bank = (digits: string): number => {
+  const result = 11 - (modulo11Sum(digits) % 11);
+  return result === 0 || result === 10 || result === 11 ? 1 : result;
+};
+
+// Arrecadação: remainders 0 and 1 give check digit 0
+export const modulo11Arrecadacao = (digits: string): number => {
+  const remainder = modulo11Sum(digits) % 11;
+  return remainder === 0 || remainder === 1 ? 0 : 11 - remainder;
+};
+
+const toIsoDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+// The factor is ambiguous after the rollover, so the date closest to the reference wins
+export const dueDateFromFactor = (factor: number, referenceDate: Date = new Date()): string | null => {
+  if (!factor) return null;
+
+  const reference = Date.UTC(referenceDate.getFullYear(), referenceDate.getMonth(), referenceDate.getDate());
+  const candidates = [FACTOR_BASE_DATE + factor * DAY_MS];
+  if (factor >= 1000) {
+    candidates.push(FACTOR_ROLLOVER_DATE + (factor - 1000) * DAY_MS);
+  }
+
+  const closest = candidates.reduce((best, candidate) =>
+    Math.abs(candidate - reference) < Math.abs(best - reference) ? candidate : best
+  );
+
+  return toIsoDate(closest);
+};
+
+const usesModulo10 = (valueId: string) => valueId === '6' || valueId === '7';
+
+const arrecadacaoCheckDigit = (valueId: string, digits: string) =>
+  usesModulo10(valueId) ? modulo10(digits) : modulo11Arrecadacao(digits);
+
+export const barcodeToDigitableLine = (barcode: string): string => {
+  const code = onlyDigits(barcode);
+  if (code.length !== 44) throw new Error('Código de barras deve ter 44 dígitos');
+
+  if (code[0] === '8') {
+    const valueId = code[2];
+    return [0, 11, 22, 33]
+      .map(start => {
+        const block = code.slice(start, start + 11);
+        return block + arrecadacaoCheckDigit(valueId, block);
+      })
+      .join('');
+  }
+
+  const field1 = code.slice(0, 4) + code.slice(19, 24);
+  const field2 = code.slice(24, 34);
+  const field3 = code.slice(34, 44);
+
+  return (
+    field1 + modulo10(field1) +
+    field2 + modulo10(field2) +
+    field3 + modulo10(field3) +
+    code[4] +
+    code.slice(5, 19)
+  );
+};
+
+export const digitableLineToBarcode = (line: string): string => {
+  const code = onlyDigits(line);
+
+  if (code.length === 48) {
+    return [0, 12, 24, 36].map(start => code.slice(start, start + 11)).join('');
+  }
+
+  if (code.length === 47) {
+    return (
+      code.slice(0, 4) +
+      code[32] +
+      code.slice(33, 47) +
+      code.slice(4, 9) +
+      code.slice(10, 20) +
+      code.slice(21, 31)
+    );
+  }
+
+  throw new Error('Linha digitável deve ter 47 (boleto bancário) ou 48 dígitos (convênio)');
+};
+
+const checkDigitError = (label: string, expected: number, informed: string) =>
+  `Dígito verificador ${label} inválido (esperado ${expected}, informado ${informed})`;
+
+const validateBankDigitableLine = (line: string): string | null => {
+  const fields = [
+    { label: 'do campo 1', digits: line.slice(0, 9), dv: line[9] },
+    { label: 'do campo 2', digits: line.slice(10, 20), dv: line[20] },
+    { label: 'do campo 3', digits: line.slice(21, 31), dv: line[31] }
+  ];
+
+  for (const field of fields) {
+    const expected = modulo10(field.digits);
+    if (String(expected) !== field.dv) return checkDigitError(field.label, expected, field.dv);
+  }
+
+  return null;
+};
+
+const validateArrecadacaoDigitableLine = (line: string): string | null => {
+  const valueId = line[2];
+
+  for (let block = 0; block < 4; block++) {
+    const digits = line.slice(block * 12, block * 12 + 11);
+    const dv = line[block * 12 + 11];
+    const expected = arrecadacaoCheckDigit(valueId, digits);
+    if (String(expected) !== dv) return checkDigitError(`do bloco ${block + 1}`, expected, dv);
+  }
+
+  return null;
+};
+
+const parseBankBarcode = (barcode: string, digitableLine: string, referenceDate: Date): BoletoParseResult => {
+  if (barcode[3] !== '9') {
+    return { boleto: null, error: `Código de moeda inválido (esperado 9, informado ${barcode[3]})` };
+  }
+
+  const expected = modulo11Bank(barcode.slice(0, 4) + barcode.slice(5));
+  if (String(expected) !== barcode[4]) {
+    return { boleto: null, error: checkDigitError('geral', expected, barcode[4]) };
+  }
+
+  const amount = parseInt(barcode.slice(9, 19), 10) / 100;
+
+  return {
+    error: null,
+    boleto: {
+      kind: 'bancario',
+      barcode,
+      digitableLine,
+      bankCode: barcode.slice(0, 3),
+      amount: amount > 0 ? amount : null,
+      dueDate: dueDateFromFactor(parseInt(barcode.slice(5, 9), 10), referenceDate)
+    }
+  };
+};
+
+const parseArrecadacaoBarcode = (barcode: string, digitableLine: string): BoletoParseResult => {
+  const valueId = barcode[2];
+  if (!['6', '7', '8', '9'].includes(valueId)) {
+    return { boleto: null, error: `Identificador de valor inválido (esperado 6, 7, 8 ou 9, informado ${valueId})` };
+  }
+
+  const expected = arrecadacaoCheckDigit(valueId, barcode.slice(0, 3) + barcode.slice(4));
+  if (String(expected) !== barcode[3]) {
+    return { boleto: null, error: checkDigitError('geral', expected, barcode[3]) };
+  }
+
+  // 6 and 8 carry the amount in reais; 7 and 9 carry a reference quantity
+  const amount = valueId === '6' || valueId === '8' ? parseInt(barcode.slice(4, 15), 10) / 100 : 0;
+
+  return {
+    error: null,
+    boleto: {
+      kind: 'arrecadacao',
+      barcode,
+      digitableLine,
+      segment: barcode[1],
+      amount: amount > 0 ? amount : null,
+      dueDate: null
+    }
+  };
+};
+
+// Accepts a 44-digit barcode, a 47-digit bank digitable line or a 48-digit convênio line
+export const parseBoleto = (input: string, referenceDate: Date = new Date()): BoletoParseResult => {
+  const code = onlyDigits(input);
+
+  if (!code) {
+    return { boleto: null, error: 'Informe o código de barras ou a linha digitável' };
+  }
+
+  if (code.length === 44) {
+    const digitableLine = barcodeToDigitableLine(code);
+    return code[0] === '8'
+      ? parseArrecadacaoBarcode(code, digitableLine)
+      : parseBankBarcode(code, digitableLine, referenceDate);
+  }
+
+  if (code.length === 47) {
+    if (code[0] === '8') {
+      return { boleto: null, error: 'Linha digitável de convênio deve ter 48 dígitos (informados 47)' };
+    }
+    const error = validateBankDigitableLine(code);
+    if (error) return { boleto: null, error };
+    return parseBankBarcode(digitableLineToBarcode(code), code, referenceDate);
+  }
+
+  if (code.length === 48) {
+    if (code[0] !== '8') {
+      return { boleto: null, error: 'Linha digitável de 48 dígitos deve começar com 8 (convênio/arrecadação)' };
+    }
+    const error = validateArrecadacaoDigitableLine(code);
+    if (error) return { boleto: null, error };
+    return parseArrecadacaoBarcode(digitableLineToBarcode(code), code);
+  }
+
+  return {
+    boleto: null,
+    error: `Quantidade de dígitos inválida: esperado 44 (código de barras), 47 (boleto bancário) ou 48 (convênio), informados ${code.length}`
+  };
+};
@@ -0,0 +1,148 @@
+import { addDays, format, startOfWeek } from 'date-fns';
+import { buildInstallmentSchedule } from '@/lib/receivables';
+
+export type CashFlowEntryKind = 'payable' | 'receivable' | 'card';
+
+export type CashFlowGranularity = 'day' | 'week';
+
+export interface CashFlowEntry {
+  id: string;
+  kind: CashFlowEntryKind;
+  // yyyy-MM-dd; entries already past due are projected on the first day of the forecast
+  date: string;
+  // Signed: money leaving the company is negative
+  amount: number;
+  description: string;
+  detail: string;
+  overdue: boolean;
+}
+
+export interface CashFlowPeriod {
+  key: string;
+  label: string;
+  start: string;
+  end: string;
+  inflow: number;
+  outflow: number;
+  balance: number;
+  entries: CashFlowEntry[];
+}
+
+export interface CardSalePayment {
+  id: string;
+  amount: number;
+  installments: number | null;
+  saleNumber: string;
+  saleDate: string;
+  methodName: string;
+  settlementDays: number;
+  feePercent: number;
+}
+
+export const CASH_FLOW_ENTRY_LABELS: Record<CashFlowEntryKind, string> = {
+  payable: 'Conta a pagar',
+  receivable: 'Conta a receber',
+  card: 'Recebível de cartão'
+};
+
+export const FORECAST_DAYS = 90;
+
+// Acquirers credit installments 30 days apart
+const CARD_INSTALLMENT_INTERVAL_DAYS = 30;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const parseDay = (date: string) => new Date(date.slice(0, 10) + 'T12:00:00');
+
+// Expected credits from card sales, net of the acquirer fee, one per installment
+export const buildCardSettlements = (payments: CardSalePayment[], from: string, until: string): CashFlowEntry[] =>
+  payments.flatMap((payment): CashFlowEntry[] => {
+    const count = Math.max(1, payment.installments || 1);
+    const net = roundCents(Number(payment.amount) * (1 - payment.feePercent / 100));
+    const firstDate = addDays(parseDay(payment.saleDate), payment.settlementDays);
+
+    return buildInstallmentSchedule(net, count, firstDate, CARD_INSTALLMENT_INTERVAL_DAYS)
+      .map(installment => ({ installment, date: toDateKey(installment.dueDate) }))
+      .filter(({ date }) => date >= from && date <= until)
+      .map(({ installment, date }) => ({
+        id: `${payment.id}-${installment.number}`,
+        kind: 'card',
+        date,
+        amount: installment.amount,
+        description: `Venda ${payment.saleNumber} - ${payment.methodName}`,
+        detail: count > 1 ? `Parcela ${installment.number}/${count}` : 'Crédito da adquirente',
+        overdue: false
+      }));
+  });
+
+const getPeriodStart = (date: Date, granularity: CashFlowGranularity) =>
+  granularity === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : date;
+
+// Splits the horizon into days or weeks and accumulates the balance from the opening amount.
+// Overdue documents are still expected to move cash, so they land on the first period.
+export const buildCashFlow = (
+  entries: CashFlowEntry[],
+  openingBalance: number,
+  from: string,
+  days: number,
+  granularity: CashFlowGranularity
+): CashFlowPeriod[] => {
+  const start = parseDay(from);
+  const until = toDateKey(addDays(start, days - 1));
+  const periods: CashFlowPeriod[] = [];
+  const byKey = new Map<string, CashFlowPeriod>();
+
+  for (let offset = 0; offset < days; offset++) {
+    const day = addDays(start, offset);
+    const periodStart = toDateKey(getPeriodStart(day, granularity));
+    const key = periodStart < from ? from : periodStart;
+    const current = byKey.get(key);
+
+    if (current) {
+      current.end = toDateKey(day);
+      continue;
+    }
+
+    const period: CashFlowPeriod = {
+      key,
+      label: '',
+      start: key,
+      end: toDateKey(day),
+      inflow: 0,
+      outflow: 0,
+      balance: 0,
+      entries: []
+    };
+    byKey.set(key, period);
+    periods.push(period);
+  }
+
+  const findPeriod = (date: string) =>
+    periods.find(period => date >= period.start && date <= period.end) || periods[0];
+
+  [...entries]
+    .filter(entry => entry.date <= until)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(entry => {
+      const period = findPeriod(entry.date < from ? from : entry.date);
+      period.entries.push(entry);
+      if (entry.amount >= 0) {
+        period.inflow = roundCents(period.inflow + entry.amount);
+      } else {
+        period.outflow = roundCents(period.outflow - entry.amount);
+      }
+    });
+
+  let balance = openingBalance;
+  for (const period of periods) {
+    balance = roundCents(balance + period.inflow - period.outflow);
+    period.balance = balance;
+    period.label = granularity === 'week'
+      ? `${format(parseDay(period.start), 'dd/MM')} - ${format(parseDay(period.end), 'dd/MM')}`
+      : format(parseDay(period.start), 'dd/MM');
+  }
+
+  return periods;
+};
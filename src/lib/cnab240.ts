@@ -0,0 +1,502 @@
+import { format, parseISO } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { onlyDigits, parseBoleto } from '@/lib/boleto';
+
+// FEBRABAN CNAB 240 (layout 10.x) for supplier payments: segments J/J-52 for boletos
+// and A/B for TED and PIX. Every record is exactly 240 characters.
+
+export type BankAccount = Tables<'bank_accounts'>;
+
+export type RemittanceKind = 'boleto' | 'transferencia' | 'pix';
+
+export interface RemittancePayment {
+  reference: string; // "seu número": how the return file points back to the item
+  kind: RemittanceKind;
+  amount: number;
+  paymentDate: string;
+  dueDate: string;
+  payeeName: string;
+  payeeDocument: string;
+  barcode: string | null;
+  bankCode: string | null;
+  agency: string | null;
+  account: string | null;
+  pixKey: string | null;
+}
+
+export interface RemittanceAccount {
+  id: string;
+  amount: number;
+  paid_amount?: number | null;
+  due_date: string;
+  payment_type: string;
+  boleto_barcode: string | null;
+  pix_key: string | null;
+  pix_receiver_name: string | null;
+  transfer_bank: string | null;
+  transfer_agency: string | null;
+  transfer_account: string | null;
+  transfer_holder_name: string | null;
+  transfer_holder_document: string | null;
+  suppliers: { name: string; document: string | null } | null;
+}
+
+export interface ReturnItem {
+  reference: string;
+  segment: 'J' | 'A';
+  occurrences: string[];
+  paymentDate: string | null;
+  amount: number | null;
+}
+
+export type ReturnItemStatus = 'pago' | 'agendado' | 'rejeitado';
+
+export const REMITTANCE_ITEM_STATUS_LABELS: Record<string, string> = {
+  enviado: 'Enviado',
+  agendado: 'Agendado',
+  pago: 'Pago',
+  rejeitado: 'Rejeitado'
+};
+
+// Most common FEBRABAN return occurrence codes; banks add their own on top
+export const CNAB_OCCURRENCES: Record<string, string> = {
+  '00': 'Crédito ou débito efetivado',
+  '01': 'Insuficiência de fundos - débito não efetuado',
+  '02': 'Crédito ou débito cancelado pelo pagador/credor',
+  '03': 'Débito autorizado pela agência - efetuado',
+  AA: 'Controle inválido',
+  AB: 'Tipo de operação inválido',
+  AC: 'Tipo de serviço inválido',
+  AD: 'Forma de lançamento inválida',
+  AE: 'Tipo/número de inscrição inválido',
+  AF: 'Código de convênio inválido',
+  AG: 'Agência/conta corrente/DV inválido',
+  AH: 'Nº sequencial do registro no lote inválido',
+  AI: 'Código de segmento de detalhe inválido',
+  AJ: 'Tipo de movimento inválido',
+  AK: 'Código da câmara de compensação do favorecido inválido',
+  AL: 'Código do banco favorecido inválido',
+  AM: 'Agência mantenedora da conta do favorecido inválida',
+  AN: 'Conta corrente/DV do favorecido inválido',
+  AO: 'Nome do favorecido não informado',
+  AP: 'Data do lançamento inválida',
+  AR: 'Valor do lançamento inválido',
+  AT: 'Tipo/número de inscrição do favorecido inválido',
+  BD: 'Inclusão efetuada com sucesso',
+  BE: 'Alteração efetuada com sucesso',
+  BF: 'Exclusão efetuada com sucesso',
+  HA: 'Lote não aceito',
+  HB: 'Inscrição da empresa inválida para o contrato',
+  HE: 'Tipo de serviço inválido para o contrato',
+  HF: 'Conta corrente da empresa com saldo insuficiente',
+  HG: 'Lote de serviço fora de sequência',
+  TA: 'Lote não aceito - totais do lote com diferença',
+  PA: 'PIX não efetivado',
+  PB: 'Transação interrompida devido a erro no PSP do recebedor',
+  PC: 'Conta transacional encerrada no PSP do recebedor',
+  PD: 'Tipo incorreto para a conta transacional especificada',
+  PG: 'CPF/CNPJ do usuário recebedor incorreto',
+  PH: 'Ordem rejeitada pelo PSP do recebedor',
+  PJ: 'Chave não cadastrada no DICT',
+  PL: 'Forma de iniciação inválida',
+  PM: 'Chave de pagamento inválida',
+  PN: 'Chave de pagamento não informada'
+};
+
+// Accepted by the bank but still waiting for the payment date
+const SCHEDULED_OCCURRENCES = ['BD', 'BE'];
+const PAID_OCCURRENCES = ['00', '03'];
+
+export const getOccurrenceLabel = (code: string) => CNAB_OCCURRENCES[code] || `Ocorrência ${code}`;
+
+export const getReturnItemStatus = (occurrences: string[]): ReturnItemStatus => {
+  if (occurrences.some(code => PAID_OCCURRENCES.includes(code))) return 'pago';
+  if (occurrences.length > 0 && occurrences.every(code => SCHEDULED_OCCURRENCES.includes(code))) return 'agendado';
+  return 'rejeitado';
+};
+
+const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const alpha = (value: string | null | undefined, length: number) =>
+  stripAccents(value || '').toUpperCase().replace(/[^A-Z0-9 .,/@\-_]/g, ' ').slice(0, length).padEnd(length, ' ');
+
+const num = (value: string | number | null | undefined, length: number) =>
+  onlyDigits(String(value ?? '')).slice(-length).padStart(length, '0');
+
+const money = (value: number, length: number) => num(Math.round(value * 100), length);
+
+const blank = (length: number) => ' '.repeat(length);
+
+const cnabDate = (date: string) => format(parseISO(date), 'ddMMyyyy');
+
+const documentType = (document: string) => (onlyDigits(document).length > 11 ? '2' : '1');
+
+// "341 - Itaú" / "Itaú (341)" -> "341"
+export const getBankCode = (value: string | null | undefined) => {
+  const match = (value || '').match(/\b(\d{3})\b/);
+  return match ? match[1] : null;
+};
+
+// Splits "12345-6" into number and check digit. Without a dash, accounts still carry the
+// DV in the last digit while agencies usually have none.
+const splitDigit = (value: string | null | undefined, implicitDigit = true) => {
+  const trimmed = (value || '').trim();
+  const [number, digit] = trimmed.includes('-')
+    ? trimmed.split('-')
+    : implicitDigit ? [trimmed.slice(0, -1), trimmed.slice(-1)] : [trimmed, ''];
+  return { number: onlyDigits(number), digit: (digit || '').trim().slice(0, 1).toUpperCase() };
+};
+
+// Forma de iniciação of the PIX segment B
+const getPixKeyType = (key: string) => {
+  const digits = onlyDigits(key);
+  if (key.includes('@')) return '02';
+  if (key.startsWith('+') || (digits.length === 13 && digits.startsWith('55'))) return '01';
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(key.trim())) return '04';
+  if (digits.length === 11 || digits.length === 14) return '03';
+  return '04';
+};
+
+export const buildRemittancePayment = (
+  account: RemittanceAccount,
+  reference: string,
+  paymentDate: string
+): { payment: RemittancePayment | null; error: string | null } => {
+  const amount = Math.round((Number(account.amount) - Number(account.paid_amount || 0)) * 100) / 100;
+  const base = {
+    reference,
+    amount,
+    paymentDate,
+    dueDate: account.due_date,
+    payeeName: account.suppliers?.name || '',
+    payeeDocument: onlyDigits(account.suppliers?.document || ''),
+    barcode: null,
+    bankCode: null,
+    agency: null,
+    account: null,
+    pixKey: null
+  };
+
+  if (account.payment_type === 'boleto') {
+    if (!account.boleto_barcode) return { payment: null, error: 'Boleto sem código de barras' };
+    const { boleto, error } = parseBoleto(account.boleto_barcode);
+    if (!boleto) return { payment: null, error: error || 'Código de barras inválido' };
+    if (boleto.kind !== 'bancario') {
+      return { payment: null, error: 'Boletos de arrecadação (concessionárias) não entram na remessa de títulos' };
+    }
+    return { payment: { ...base, kind: 'boleto', barcode: boleto.barcode }, error: null };
+  }
+
+  if (account.payment_type === 'transferencia') {
+    const bankCode = getBankCode(account.transfer_bank);
+    if (!bankCode) return { payment: null, error: 'Informe o código do banco (ex.: "341 - Itaú")' };
+    if (!account.transfer_agency || !account.transfer_account) {
+      return { payment: null, error: 'Agência e conta do favorecido são obrigatórias' };
+    }
+    return {
+      payment: {
+        ...base,
+        kind: 'transferencia',
+        payeeName: account.transfer_holder_name || base.payeeName,
+        payeeDocument: onlyDigits(account.transfer_holder_document || '') || base.payeeDocument,
+        bankCode,
+        agency: account.transfer_agency,
+        account: account.transfer_account
+      },
+      error: null
+    };
+  }
+
+  if (account.payment_type === 'pix') {
+    if (!account.pix_key) return { payment: null, error: 'Conta sem chave PIX' };
+    return {
+      payment: {
+        ...base,
+        kind: 'pix',
+        payeeName: account.pix_receiver_name || base.payeeName,
+        pixKey: account.pix_key.trim()
+      },
+      error: null
+    };
+  }
+
+  return { payment: null, error: 'Forma de pagamento não suportada na remessa' };
+};
+
+const companyFields = (bank: BankAccount) => {
+  const agency = splitDigit(bank.agency, false);
+  const account = splitDigit(bank.account);
+  return (
+    documentType(bank.company_document) +
+    num(bank.company_document, 14) +
+    alpha(bank.agreement_code, 20) +
+    num(agency.number, 5) +
+    alpha(agency.digit, 1) +
+    num(account.number, 12) +
+    alpha(account.digit, 1) +
+    blank(1) +
+    alpha(bank.company_name, 30)
+  );
+};
+
+// Forma de lançamento groups payments into batches
+const getEntryMethod = (payment: RemittancePayment, bank: BankAccount) => {
+  if (payment.kind === 'boleto') return payment.barcode?.slice(0, 3) === bank.bank_code ? '30' : '31';
+  if (payment.kind === 'pix') return '45';
+  return payment.bankCode === bank.bank_code ? '01' : '41';
+};
+
+const segmentJ = (payment: RemittancePayment) =>
+  'J' +
+  '0' +
+  '00' +
+  num(payment.barcode, 44) +
+  alpha(payment.payeeName, 30) +
+  cnabDate(payment.dueDate) +
+  money(payment.amount, 15) +
+  money(0, 15) +
+  money(0, 15) +
+  cnabDate(payment.paymentDate) +
+  money(payment.amount, 15) +
+  num(0, 15) +
+  alpha(payment.reference, 20) +
+  blank(20) +
+  '09' +
+  blank(6) +
+  blank(10);
+
+const segmentJ52 = (payment: RemittancePayment, bank: BankAccount) =>
+  'J' +
+  blank(1) +
+  '01' +
+  '52' +
+  documentType(bank.company_document) +
+  num(bank.company_document, 15) +
+  alpha(bank.company_name, 40) +
+  documentType(payment.payeeDocument) +
+  num(payment.payeeDocument, 15) +
+  alpha(payment.payeeName, 40) +
+  '0' +
+  num(0, 15) +
+  blank(40) +
+  blank(53);
+
+const segmentA = (payment: RemittancePayment, bank: BankAccount) => {
+  const isPix = payment.kind === 'pix';
+  const agency = splitDigit(payment.agency, false);
+  const account = splitDigit(payment.account);
+  const clearing = isPix ? '009' : payment.bankCode === bank.bank_code ? '000' : '018';
+
+  return (
+    'A' +
+    '0' +
+    '00' +
+    clearing +
+    num(isPix ? '' : payment.bankCode, 3) +
+    num(isPix ? '' : agency.number, 5) +
+    alpha(isPix ? '' : agency.digit, 1) +
+    num(isPix ? '' : account.number, 12) +
+    alpha(isPix ? '' : account.digit, 1) +
+    blank(1) +
+    alpha(payment.payeeName, 30) +
+    alpha(payment.reference, 20) +
+    cnabDate(payment.paymentDate) +
+    'BRL' +
+    num(0, 15) +
+    money(payment.amount, 15) +
+    blank(20) +
+    num(0, 8) +
+    num(0, 15) +
+    blank(40) +
+    blank(2) +
+    (isPix || clearing === '000' ? blank(5) : '00010') + // finalidade TED: crédito em conta
+    blank(2) +
+    blank(3) +
+    '0' +
+    blank(10)
+  );
+};
+
+const segmentB = (payment: RemittancePayment) => {
+  if (payment.kind === 'pix') {
+    return (
+      'B' +
+      alpha(getPixKeyType(payment.pixKey || ''), 3) +
+      documentType(payment.payeeDocument) +
+      num(payment.payeeDocument, 14) +
+      blank(35) +
+      blank(60) +
+      (payment.pixKey || '').slice(0, 99).padEnd(99, ' ') +
+      blank(6) +
+      num(0, 8)
+    );
+  }
+
+  return (
+    'B' +
+    blank(3) +
+    documentType(payment.payeeDocument) +
+    num(payment.payeeDocument, 14) +
+    blank(30) +
+    num(0, 5) +
+    blank(15) +
+    blank(15) +
+    blank(20) +
+    num(0, 5) +
+    blank(3) +
+    blank(2) +
+    cnabDate(payment.dueDate) +
+    money(payment.amount, 15) +
+    money(0, 15) +
+    money(0, 15) +
+    money(0, 15) +
+    money(0, 15) +
+    blank(15) +
+    '0' +
+    blank(6) +
+    num(0, 8)
+  );
+};
+
+export const buildRemittanceFile = (
+  bank: BankAccount,
+  sequence: number,
+  payments: RemittancePayment[],
+  generatedAt: Date = new Date()
+) => {
+  const lines: string[] = [];
+
+  lines.push(
+    num(bank.bank_code, 3) +
+    '0000' +
+    '0' +
+    blank(9) +
+    companyFields(bank) +
+    alpha(bank.bank_name, 30) +
+    blank(10) +
+    '1' +
+    format(generatedAt, 'ddMMyyyy') +
+    format(generatedAt, 'HHmmss') +
+    num(sequence, 6) +
+    '103' +
+    num(0, 5) +
+    blank(20) +
+    blank(20) +
+    blank(29)
+  );
+
+  const batches = new Map<string, RemittancePayment[]>();
+  payments.forEach(payment => {
+    const method = getEntryMethod(payment, bank);
+    batches.set(method, [...(batches.get(method) || []), payment]);
+  });
+
+  let batchNumber = 0;
+  batches.forEach((batchPayments, method) => {
+    batchNumber += 1;
+    const isBoleto = method === '30' || method === '31';
+    const prefix = num(bank.bank_code, 3) + num(batchNumber, 4);
+    const details: string[] = [];
+
+    batchPayments.forEach(payment => {
+      const segments = isBoleto ? [segmentJ(payment), segmentJ52(payment, bank)] : [segmentA(payment, bank), segmentB(payment)];
+      segments.forEach(segment => {
+        details.push(prefix + '3' + num(details.length + 1, 5) + segment);
+      });
+    });
+
+    lines.push(
+      prefix +
+      '1' +
+      'C' +
+      '20' +
+      method +
+      (isBoleto ? '040' : '045') +
+      blank(1) +
+      companyFields(bank) +
+      blank(40) +
+      blank(30) +
+      num(0, 5) +
+      blank(15) +
+      blank(20) +
+      num(0, 5) +
+      blank(3) +
+      blank(2) +
+      (isBoleto ? blank(2) : '01') +
+      blank(6) +
+      blank(10)
+    );
+    lines.push(...details);
+    lines.push(
+      prefix +
+      '5' +
+      blank(9) +
+      num(details.length + 2, 6) +
+      money(batchPayments.reduce((sum, payment) => sum + payment.amount, 0), 18) +
+      num(0, 18) +
+      num(0, 6) +
+      blank(165) +
+      blank(10)
+    );
+  });
+
+  lines.push(
+    num(bank.bank_code, 3) +
+    '9999' +
+    '9' +
+    blank(9) +
+    num(batchNumber, 6) +
+    num(lines.length + 1, 6) +
+    num(0, 6) +
+    blank(205)
+  );
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+const parseReturnDate = (value: string) => {
+  if (!/^\d{8}$/.test(value) || value === '00000000') return null;
+  return `${value.slice(4, 8)}-${value.slice(2, 4)}-${value.slice(0, 2)}`;
+};
+
+const parseReturnAmount = (value: string) => {
+  const cents = parseInt(value, 10);
+  return isNaN(cents) || cents === 0 ? null : cents / 100;
+};
+
+// Positions below are 1-based in the FEBRABAN manual
+const field = (line: string, start: number, end: number) => line.slice(start - 1, end);
+
+export const parseReturnFile = (text: string): ReturnItem[] =>
+  text
+    .split(/\r?\n/)
+    .filter(line => line.length >= 240 && field(line, 8, 8) === '3')
+    .flatMap((line): ReturnItem[] => {
+      const segment = field(line, 14, 14);
+      const occurrences = (field(line, 231, 240).match(/.{2}/g) || [])
+        .map(code => code.trim())
+        .filter(Boolean);
+
+      // J-52 only repeats payer/payee data
+      if (segment === 'J' && field(line, 18, 19) !== '52') {
+        return [{
+          reference: field(line, 183, 202).trim(),
+          segment: 'J',
+          occurrences,
+          paymentDate: parseReturnDate(field(line, 145, 152)),
+          amount: parseReturnAmount(field(line, 153, 167))
+        }];
+      }
+
+      if (segment === 'A') {
+        return [{
+          reference: field(line, 74, 93).trim(),
+          segment: 'A',
+          occurrences,
+          paymentDate: parseReturnDate(field(line, 155, 162)) || parseReturnDate(field(line, 94, 101)),
+          amount: parseReturnAmount(field(line, 163, 177)) || parseReturnAmount(field(line, 120, 134))
+        }];
+      }
+
+      return [];
+    });
@@ -0,0 +1,145 @@
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { rollUpCostCenterTotals, type CostCenterTreeItem } from '@/lib/costCenterTree';
+
+// Whether the actual counts what is due in the month or what was paid in it
+export type BudgetBasis = 'vencimento' | 'pagamento';
+
+export type BudgetStatus = 'sem_orcamento' | 'ok' | 'alerta' | 'excedido';
+
+export interface BudgetUsage {
+  costCenterId: string;
+  // yyyy-MM-01
+  month: string;
+  budget: number | null;
+  actual: number;
+}
+
+export interface BudgetOverrun {
+  month: string;
+  budget: number;
+  committed: number;
+  added: number;
+  remaining: number;
+}
+
+export const BUDGET_BASIS_LABELS: Record<BudgetBasis, string> = {
+  vencimento: 'Por vencimento',
+  pagamento: 'Por pagamento'
+};
+
+export const BUDGET_STATUS_LABELS: Record<BudgetStatus, string> = {
+  sem_orcamento: 'Sem orçamento',
+  ok: 'Dentro do orçamento',
+  alerta: 'Próximo do limite',
+  excedido: 'Orçamento excedido'
+};
+
+// Share of the budget from which the consumption is flagged
+const BUDGET_ALERT_RATIO = 0.8;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const toMonthKey = (date: Date | string) =>
+  format(startOfMonth(typeof date === 'string' ? new Date(date.slice(0, 10) + 'T12:00:00') : date), 'yyyy-MM-01');
+
+export const formatMonth = (month: string) =>
+  format(new Date(month + 'T12:00:00'), 'MMM/yyyy', { locale: ptBR });
+
+// Month keys from the first to the last month, inclusive
+export const listMonths = (from: string, to: string) => {
+  const months: string[] = [];
+  for (let month = new Date(toMonthKey(from) + 'T12:00:00'); toMonthKey(month) <= toMonthKey(to); month = addMonths(month, 1)) {
+    months.push(toMonthKey(month));
+  }
+  return months;
+};
+
+export const getBudgetConsumption = (usage: Pick<BudgetUsage, 'budget' | 'actual'>) =>
+  usage.budget ? roundCents((usage.actual / usage.budget) * 100) : null;
+
+export const getBudgetStatus = (usage: Pick<BudgetUsage, 'budget' | 'actual'>): BudgetStatus => {
+  if (usage.budget === null) return 'sem_orcamento';
+  if (usage.actual > usage.budget) return 'excedido';
+  if (usage.actual >= usage.budget * BUDGET_ALERT_RATIO) return 'alerta';
+  return 'ok';
+};
+
+export const fetchBudgetUsage = async (
+  from: string,
+  to: string,
+  basis: BudgetBasis,
+  costCenterId?: string
+): Promise<BudgetUsage[]> => {
+  const { data, error } = await supabase.rpc('get_cost_center_budget_usage', {
+    p_from: from,
+    p_to: to,
+    p_basis: basis,
+    p_cost_center_id: costCenterId
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    costCenterId: row.cost_center_id,
+    month: row.month,
+    budget: row.budget === null ? null : Number(row.budget),
+    actual: Number(row.actual)
+  }));
+};
+
+// Parents carry their own figures plus their children's; a parent has a budget when anything below it has one
+export const rollUpBudgetUsage = (centers: CostCenterTreeItem[], usage: BudgetUsage[]): BudgetUsage[] => {
+  const months = [...new Set(usage.map(row => row.month))].sort();
+
+  return months.flatMap((month): BudgetUsage[] => {
+    const rows = usage.filter(row => row.month === month);
+    const budgeted = rows.filter(row => row.budget !== null);
+    const budgets = rollUpCostCenterTotals(centers, Object.fromEntries(budgeted.map(row => [row.costCenterId, row.budget!])));
+    const budgetCounts = rollUpCostCenterTotals(centers, Object.fromEntries(budgeted.map(row => [row.costCenterId, 1])));
+    const actuals = rollUpCostCenterTotals(centers, Object.fromEntries(rows.map(row => [row.costCenterId, row.actual])));
+
+    return centers
+      .filter(center => budgetCounts[center.id] > 0 || actuals[center.id] > 0)
+      .map(center => ({
+        costCenterId: center.id,
+        month,
+        budget: budgetCounts[center.id] > 0 ? budgets[center.id] : null,
+        actual: actuals[center.id] || 0
+      }));
+  });
+};
+
+// Months in which adding the given accounts would take the cost center over its budget.
+// `replaced` is the account being edited, already counted in the actual of its month.
+export const findBudgetOverruns = async (
+  costCenterId: string,
+  entries: { amount: number; dueDate: string }[],
+  replaced?: { costCenterId: string; amount: number; dueDate: string } | null
+): Promise<BudgetOverrun[]> => {
+  const added = new Map<string, number>();
+  for (const entry of entries) {
+    if (!entry.dueDate || !(entry.amount > 0)) continue;
+    const month = toMonthKey(entry.dueDate);
+    added.set(month, roundCents((added.get(month) || 0) + entry.amount));
+  }
+  if (added.size === 0) return [];
+
+  const months = [...added.keys()].sort();
+  const usage = await fetchBudgetUsage(months[0], months[months.length - 1], 'vencimento', costCenterId);
+
+  return usage.flatMap((row): BudgetOverrun[] => {
+    const amount = added.get(row.month);
+    if (row.budget === null || amount === undefined) return [];
+
+    const committed = replaced && replaced.costCenterId === costCenterId && toMonthKey(replaced.dueDate) === row.month
+      ? roundCents(row.actual - replaced.amount)
+      : row.actual;
+    const remaining = roundCents(row.budget - committed);
+
+    return committed + amount > row.budget + 0.001
+      ? [{ month: row.month, budget: row.budget, committed, added: amount, remaining }]
+      : [];
+  });
+};
@@ -0,0 +1,120 @@
+export interface CostCenterTreeItem {
+  id: string;
+  name: string;
+  code: string;
+  parent_id: string | null;
+}
+
+export interface CostCenterTreeRow<T extends CostCenterTreeItem> {
+  center: T;
+  depth: number;
+  // Names from the root down, e.g. "Loja 1 > Manutenção"
+  path: string;
+  hasChildren: boolean;
+}
+
+export const COST_CENTER_PATH_SEPARATOR = ' > ';
+
+const byCode = (a: CostCenterTreeItem, b: CostCenterTreeItem) =>
+  a.code.localeCompare(b.code) || a.name.localeCompare(b.name);
+
+const groupByParent = <T extends CostCenterTreeItem>(centers: T[]) => {
+  const ids = new Set(centers.map(center => center.id));
+  const children = new Map<string | null, T[]>();
+
+  for (const center of centers) {
+    // A parent outside the list (e.g. filtered out) makes the center a root
+    const parentId = center.parent_id && ids.has(center.parent_id) ? center.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) || []), center]);
+  }
+
+  return children;
+};
+
+// Depth-first order with each parent right before its children, siblings sorted by code
+export const flattenCostCenterTree = <T extends CostCenterTreeItem>(centers: T[]): CostCenterTreeRow<T>[] => {
+  const children = groupByParent(centers);
+  const rows: CostCenterTreeRow<T>[] = [];
+
+  const visit = (parentId: string | null, depth: number, parentPath: string) => {
+    for (const center of [...(children.get(parentId) || [])].sort(byCode)) {
+      const path = parentPath ? parentPath + COST_CENTER_PATH_SEPARATOR + center.name : center.name;
+      rows.push({ center, depth, path, hasChildren: children.has(center.id) });
+      visit(center.id, depth + 1, path);
+    }
+  };
+
+  visit(null, 0, '');
+  return rows;
+};
+
+export const getCostCenterPath = (centers: CostCenterTreeItem[], id: string | null | undefined) =>
+  flattenCostCenterTree(centers).find(row => row.center.id === id)?.path || '';
+
+// The center itself plus everything below it
+export const getDescendantIds = (centers: CostCenterTreeItem[], id: string): string[] => {
+  const children = groupByParent(centers);
+  const ids: string[] = [];
+  const visit = (currentId: string) => {
+    ids.push(currentId);
+    (children.get(currentId) || []).forEach(child => visit(child.id));
+  };
+  visit(id);
+  return ids;
+};
+
+// Each center's own value plus the values of all its descendants
+export const rollUpCostCenterTotals = (
+  centers: CostCenterTreeItem[],
+  own: Record<string, number>
+): Record<string, number> => {
+  const children = groupByParent(centers);
+  const totals: Record<string, number> = {};
+
+  const visit = (id: string): number => {
+    const total = (children.get(id) || []).reduce((sum, child) => sum + visit(child.id), own[id] || 0);
+    totals[id] = Math.round(total * 100) / 100;
+    return total;
+  };
+
+  (children.get(null) || []).forEach(root => visit(root.id));
+  return totals;
+};
+
+export interface CostCenterPathMatch {
+  // Deepest center found along the path
+  matchedId: string | null;
+  // Trailing levels that don't exist yet, to be created under matchedId
+  missing: string[];
+  // A single name found under more than one parent
+  ambiguous: boolean;
+}
+
+export const splitCostCenterPath = (path: string) =>
+  path.split('>').map(segment => segment.trim()).filter(Boolean);
+
+const matchesSegment = (center: CostCenterTreeItem, segment: string) =>
+  center.name.toLowerCase() === segment.toLowerCase() || center.code.toLowerCase() === segment.toLowerCase();
+
+// Resolves "Loja 1 > Manutenção" level by level, by name or code. A single level is looked up anywhere in the
+// tree so flat files keep working, but it's ambiguous when several branches have a center with that name.
+export const matchCostCenterPath = (centers: CostCenterTreeItem[], path: string): CostCenterPathMatch => {
+  const segments = splitCostCenterPath(path);
+
+  if (segments.length === 1) {
+    const matches = centers.filter(center => matchesSegment(center, segments[0]));
+    if (matches.length > 1) return { matchedId: null, missing: [], ambiguous: true };
+    return matches.length === 1
+      ? { matchedId: matches[0].id, missing: [], ambiguous: false }
+      : { matchedId: null, missing: segments, ambiguous: false };
+  }
+
+  let parentId: string | null = null;
+  for (let index = 0; index < segments.length; index++) {
+    const child = centers.find(center => center.parent_id === parentId && matchesSegment(center, segments[index]));
+    if (!child) return { matchedId: parentId, missing: segments.slice(index), ambiguous: false };
+    parentId = child.id;
+  }
+
+  return { matchedId: parentId, missing: [], ambiguous: false };
+};
@@ -0,0 +1,82 @@
+import { format } from 'date-fns';
+import { a4Styles, formatCurrency, openPrintWindow, receiptStyles, renderPixQrCode, renderStoreHeader, type PrintableStore, type PrintFormat } from '@/lib/printing';
+import { isThermalFormat } from '@/lib/thermalPrinter';
+
+export interface CreditPaymentReceiptLine {
+  description: string;
+  dueDate: string;
+  principal: number;
+  fine: number;
+  interest: number;
+  daysLate: number;
+}
+
+export interface CreditPaymentReceipt {
+  store: PrintableStore | null;
+  printFormat?: PrintFormat | string | null;
+  customer: { name: string; document?: string | null };
+  paymentMethod?: string | null;
+  paidAt: Date;
+  lines: CreditPaymentReceiptLine[];
+  principal: number;
+  fine: number;
+  interest: number;
+  total: number;
+  notes?: string | null;
+  // BR Code of the PIX charge, printed as a QR code
+  pixPayload?: string | null;
+}
+
+const formatDueDate = (dueDate: string) => format(new Date(dueDate + 'T12:00:00'), 'dd/MM/yyyy');
+
+const renderReceiptBody = (receipt: CreditPaymentReceipt) => `
+  <div class="info">
+    <h3>Cliente</h3>
+    <p>${receipt.customer.name}</p>
+    ${receipt.customer.document ? `<p>${receipt.customer.document}</p>` : ''}
+  </div>
+
+  <div class="info">
+    <h3>Parcelas</h3>
+    ${receipt.lines.map(line => `
+      <div class="item">
+        <div>${line.description} - Venc. ${formatDueDate(line.dueDate)}</div>
+        <div class="item-details"><span>Principal</span><span>${formatCurrency(line.principal)}</span></div>
+        ${line.fine > 0 ? `<div class="item-details"><span>Multa</span><span>${formatCurrency(line.fine)}</span></div>` : ''}
+        ${line.interest > 0 ? `<div class="item-details"><span>Juros (${line.daysLate} dias)</span><span>${formatCurrency(line.interest)}</span></div>` : ''}
+      </div>
+    `).join('')}
+  </div>
+
+  <div class="totals">
+    <p><span>Principal:</span><span>${formatCurrency(receipt.principal)}</span></p>
+    <p><span>Multa:</span><span>${formatCurrency(receipt.fine)}</span></p>
+    <p><span>Juros de mora:</span><span>${formatCurrency(receipt.interest)}</span></p>
+    <p class="total"><span>TOTAL PAGO:</span><span>${formatCurrency(receipt.total)}</span></p>
+    ${receipt.paymentMethod ? `<p><span>Forma:</span><span>${receipt.paymentMethod}</span></p>` : ''}
+  </div>
+
+  ${receipt.notes ? `<div class="info"><p>Obs.: ${receipt.notes}</p></div>` : ''}
+
+  ${renderPixQrCode(receipt.pixPayload, receipt.total)}
+`;
+
+export const printCreditPaymentReceipt = (receipt: CreditPaymentReceipt) => {
+  const styles = receipt.printFormat === 'bobina' || isThermalFormat(receipt.printFormat) ? receiptStyles : a4Styles;
+
+  openPrintWindow(`
+    <html>
+    <head><style>${styles}</style></head>
+    <body>
+      ${renderStoreHeader(receipt.store, [
+        'Comprovante de Recebimento - Crediário',
+        format(receipt.paidAt, 'dd/MM/yyyy HH:mm')
+      ])}
+      ${renderReceiptBody(receipt)}
+      <div class="footer">
+        <p>Obrigado pela preferência!</p>
+      </div>
+    </body>
+    </html>
+  `);
+};
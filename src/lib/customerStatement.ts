@@ -0,0 +1,182 @@
+import { format } from 'date-fns';
+import { a4Styles, formatCurrency, openPrintWindow, renderStoreHeader, type PrintableStore } from '@/lib/printing';
+
+export interface StatementSale {
+  id: string;
+  sale_number: string;
+  created_at: string;
+  amount_credit: number;
+}
+
+export interface StatementPayment {
+  id: string;
+  created_at: string;
+  amount: number;
+  principal_amount: number;
+  fine_amount: number;
+  interest_amount: number;
+  payment_method?: { name: string } | null;
+}
+
+export interface StatementInstallment {
+  id: string;
+  due_date: string;
+  amount: number;
+  paid_amount: number | null;
+  installment_number: number;
+  installment_count: number;
+  sale?: { sale_number: string } | null;
+}
+
+export interface StatementEntry {
+  date: string;
+  description: string;
+  debit: number;
+  credit: number;
+  charges: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  store: PrintableStore | null;
+  customer: { name: string; document?: string | null; phone?: string | null };
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  closingBalance: number;
+  openInstallments: StatementInstallment[];
+}
+
+// Credit purchases raise the balance and payments lower it by their principal;
+// multa/juros are shown apart since they never were part of the debt.
+export const buildStatementEntries = (
+  openingBalance: number,
+  sales: StatementSale[],
+  payments: StatementPayment[]
+): StatementEntry[] => {
+  const movements = [
+    ...sales.map(sale => ({
+      date: sale.created_at,
+      description: `Compra no crediário - Venda ${sale.sale_number}`,
+      debit: Number(sale.amount_credit),
+      credit: 0,
+      charges: 0
+    })),
+    ...payments.map(payment => ({
+      date: payment.created_at,
+      description: `Pagamento${payment.payment_method?.name ? ` - ${payment.payment_method.name}` : ''}`,
+      debit: 0,
+      credit: Number(payment.principal_amount),
+      charges: Number(payment.fine_amount || 0) + Number(payment.interest_amount || 0)
+    }))
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = openingBalance;
+  return movements.map(movement => {
+    balance += movement.debit - movement.credit;
+    return { ...movement, balance };
+  });
+};
+
+const formatDay = (date: string) => format(new Date(date.length === 10 ? date + 'T12:00:00' : date), 'dd/MM/yyyy');
+
+export const printCustomerStatement = (statement: CustomerStatement) => {
+  const openTotal = statement.openInstallments.reduce(
+    (sum, installment) => sum + Number(installment.amount) - Number(installment.paid_amount || 0),
+    0
+  );
+
+  openPrintWindow(`
+    <html>
+    <head><title>Extrato - ${statement.customer.name}</title><style>${a4Styles}</style></head>
+    <body>
+      ${renderStoreHeader(statement.store, [
+        'Extrato de Crediário',
+        `Período: ${formatDay(statement.startDate)} a ${formatDay(statement.endDate)}`
+      ])}
+
+      <div class="info">
+        <p><strong>Cliente:</strong> ${statement.customer.name}</p>
+        <p><strong>Documento:</strong> ${statement.customer.document || '-'}</p>
+        <p><strong>Telefone:</strong> ${statement.customer.phone || '-'}</p>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Data</th>
+            <th>Histórico</th>
+            <th class="right">Débito</th>
+            <th class="right">Crédito</th>
+            <th class="right">Encargos</th>
+            <th class="right">Saldo</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>${formatDay(statement.startDate)}</td>
+            <td>Saldo anterior</td>
+            <td></td>
+            <td></td>
+            <td></td>
+            <td class="right">${formatCurrency(statement.openingBalance)}</td>
+          </tr>
+          ${statement.entries.map(entry => `
+            <tr>
+              <td>${formatDay(entry.date)}</td>
+              <td>${entry.description}</td>
+              <td class="right">${entry.debit > 0 ? formatCurrency(entry.debit) : ''}</td>
+              <td class="right">${entry.credit > 0 ? formatCurrency(entry.credit) : ''}</td>
+              <td class="right">${entry.charges > 0 ? formatCurrency(entry.charges) : ''}</td>
+              <td class="right">${formatCurrency(entry.balance)}</td>
+            </tr>
+          `).join('')}
+          <tr class="total-row">
+            <td colspan="5" class="right">Saldo em ${formatDay(statement.endDate)}:</td>
+            <td class="right">${formatCurrency(statement.closingBalance)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div class="info">
+        <h3>Parcelas em Aberto</h3>
+        ${statement.openInstallments.length === 0 ? '<p>Nenhuma parcela em aberto.</p>' : `
+        <table>
+          <thead>
+            <tr>
+              <th>Vencimento</th>
+              <th>Venda</th>
+              <th>Parcela</th>
+              <th class="right">Valor</th>
+              <th class="right">Pago</th>
+              <th class="right">Saldo</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${statement.openInstallments.map(installment => `
+              <tr>
+                <td>${formatDay(installment.due_date)}</td>
+                <td>${installment.sale?.sale_number || '-'}</td>
+                <td>${installment.installment_number}/${installment.installment_count}</td>
+                <td class="right">${formatCurrency(installment.amount)}</td>
+                <td class="right">${formatCurrency(installment.paid_amount || 0)}</td>
+                <td class="right">${formatCurrency(Number(installment.amount) - Number(installment.paid_amount || 0))}</td>
+              </tr>
+            `).join('')}
+            <tr class="total-row">
+              <td colspan="5" class="right">Total em aberto:</td>
+              <td class="right">${formatCurrency(openTotal)}</td>
+            </tr>
+          </tbody>
+        </table>
+        `}
+      </div>
+
+      <div class="footer">
+        <p>Emitido em ${format(new Date(), 'dd/MM/yyyy HH:mm')}</p>
+      </div>
+    </body>
+    </html>
+  `);
+};
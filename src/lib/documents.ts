@@ -0,0 +1,23 @@
+import { onlyDigits } from '@/lib/boleto';
+
+// Brazilian document numbers (CPF)
+
+// Both check digits, mod 11; repeated digits (000.000.000-00) pass the math but are not issued
+export const isValidCpf = (value: string) => {
+  const cpf = onlyDigits(value);
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+
+  const checkDigit = (length: number) => {
+    const sum = cpf
+      .slice(0, length)
+      .split('')
+      .reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+
+  return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10]);
+};
+
+export const formatCpf = (value: string) =>
+  onlyDigits(value).replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
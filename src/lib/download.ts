@@ -0,0 +1,11 @@
+// Saves generated content (remittance files, exports) through a temporary link
+export const downloadFile = (fileName: string, content: BlobPart, type = 'text/plain;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
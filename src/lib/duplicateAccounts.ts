@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import { onlyDigits, parseBoleto } from '@/lib/boleto';
+
+export type DuplicateReason = 'boleto' | 'supplier_amount_date';
+
+export interface DuplicateAccount {
+  id: string;
+  description: string;
+  amount: number;
+  due_date: string;
+  status: string | null;
+  supplier: { name: string } | null;
+  reason: DuplicateReason;
+}
+
+export interface DuplicateCheck {
+  boletoBarcode?: string | null;
+  supplierId?: string | null;
+  amount: number;
+  dueDate: string;
+  excludeId?: string;
+}
+
+const DUPLICATE_SELECT = 'id, description, amount, due_date, status, supplier:suppliers(name)';
+
+// The same boleto may have been typed as barcode or digitable line, with or without punctuation
+export const getBoletoKeys = (value: string): string[] => {
+  const { boleto } = parseBoleto(value);
+  const keys = [value.trim(), onlyDigits(value), boleto?.barcode, boleto?.digitableLine].filter(Boolean) as string[];
+  return Array.from(new Set(keys));
+};
+
+export const getDuplicateReasonLabel = (reason: DuplicateReason) =>
+  reason === 'boleto' ? 'Mesmo código de boleto' : 'Mesmo fornecedor, valor e vencimento';
+
+// Looks for non-cancelled accounts with the same boleto or the same supplier + amount + due date
+export const findDuplicateAccounts = async (check: DuplicateCheck): Promise<DuplicateAccount[]> => {
+  const duplicates: DuplicateAccount[] = [];
+
+  if (check.boletoBarcode?.trim()) {
+    let query = supabase
+      .from('accounts_payable')
+      .select(DUPLICATE_SELECT)
+      .in('boleto_barcode', getBoletoKeys(check.boletoBarcode))
+      .neq('status', 'cancelado');
+    if (check.excludeId) query = query.neq('id', check.excludeId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    duplicates.push(...(data || []).map(account => ({ ...account, reason: 'boleto' as const })));
+  }
+
+  if (check.supplierId && check.amount && check.dueDate) {
+    let query = supabase
+      .from('accounts_payable')
+      .select(DUPLICATE_SELECT)
+      .eq('supplier_id', check.supplierId)
+      .eq('amount', check.amount)
+      .eq('due_date', check.dueDate)
+      .neq('status', 'cancelado');
+    if (check.excludeId) query = query.neq('id', check.excludeId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    for (const account of data || []) {
+      if (!duplicates.some(d => d.id === account.id)) {
+        duplicates.push({ ...account, reason: 'supplier_amount_date' });
+      }
+    }
+  }
+
+  return duplicates;
+};
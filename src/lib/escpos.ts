@@ -0,0 +1,245 @@
+import { receiptStyles } from '@/lib/printing';
+import { renderPixQrSvg } from '@/lib/pix';
+
+// ESC/POS documents for thermal printers.
+//
+// A document is a list of operations laid out in a fixed number of columns (32 on 58mm paper,
+// 48 on 80mm with the default font). The same document is encoded as printer commands or,
+// when the printer can't be reached, rendered as HTML for the browser print dialog.
+
+export type EscPosAlign = 'left' | 'center' | 'right';
+
+export interface EscPosTextOptions {
+  align?: EscPosAlign;
+  bold?: boolean;
+  // Double width and height, so half the columns fit in a line
+  large?: boolean;
+}
+
+type EscPosOperation =
+  | { type: 'text'; text: string; align: EscPosAlign; bold: boolean; large: boolean }
+  | { type: 'feed'; lines: number }
+  | { type: 'barcode'; data: string }
+  | { type: 'qrcode'; data: string }
+  | { type: 'cut' }
+  | { type: 'drawer' };
+
+export interface EscPosDocument {
+  columns: number;
+  operations: EscPosOperation[];
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Code page 850 (ESC t 2) covers Portuguese; other characters lose their accents
+const CP850: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'à': 0x85, 'ç': 0x87, 'ê': 0x88, 'è': 0x8a,
+  'É': 0x90, 'ô': 0x93, 'ò': 0x95, 'û': 0x96, 'ù': 0x97, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2,
+  'ú': 0xa3, 'ñ': 0xa4, 'Ñ': 0xa5, 'ª': 0xa6, 'º': 0xa7, 'Á': 0xb5, 'Â': 0xb6, 'À': 0xb7,
+  'ã': 0xc6, 'Ã': 0xc7, 'Ê': 0xd2, 'Í': 0xd6, 'Ó': 0xe0, 'Ô': 0xe2, 'Ò': 0xe3, 'õ': 0xe4,
+  'Õ': 0xe5, 'Ú': 0xe9, 'Ü': 0x9a
+};
+
+const encodeText = (text: string) => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) bytes.push(code);
+    else if (CP850[char]) bytes.push(CP850[char]);
+    else {
+      const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      bytes.push(plain.length === 1 && plain.charCodeAt(0) < 0x7f ? plain.charCodeAt(0) : 0x3f);
+    }
+  }
+  return bytes;
+};
+
+// Breaks the text at spaces so no line goes over the width; longer words are split
+const wrap = (text: string, width: number) => {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > width) {
+      if (current) lines.push(current);
+      lines.push(word.slice(0, width));
+      word = word.slice(width);
+      current = '';
+    }
+    if (!current) current = word;
+    else if (current.length + 1 + word.length <= width) current += ' ' + word;
+    else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+};
+
+export const createEscPosDocument = (columns: number) => {
+  const document: EscPosDocument = { columns, operations: [] };
+
+  const builder = {
+    document,
+
+    text(text: string, { align = 'left', bold = false, large = false }: EscPosTextOptions = {}) {
+      wrap(text, large ? Math.floor(columns / 2) : columns).forEach(line => {
+        document.operations.push({ type: 'text', text: line, align, bold, large });
+      });
+      return builder;
+    },
+
+    // Left text and right-aligned value on the same line, e.g. an item total; the left side
+    // wraps above when both don't fit
+    row(left: string, right: string, options: Omit<EscPosTextOptions, 'align' | 'large'> = {}) {
+      const lines = wrap(left, columns);
+      const last = lines[lines.length - 1];
+      if (last.length + 1 + right.length > columns) lines.push('');
+      lines.forEach((line, index) => {
+        const text = index === lines.length - 1 ? line.padEnd(columns - right.length) + right : line;
+        document.operations.push({ type: 'text', text, align: 'left', bold: !!options.bold, large: false });
+      });
+      return builder;
+    },
+
+    separator(char = '-') {
+      document.operations.push({ type: 'text', text: char.repeat(columns), align: 'left', bold: false, large: false });
+      return builder;
+    },
+
+    feed(lines = 1) {
+      document.operations.push({ type: 'feed', lines });
+      return builder;
+    },
+
+    // CODE128 with the readable text below
+    barcode(data: string) {
+      document.operations.push({ type: 'barcode', data });
+      return builder;
+    },
+
+    qrcode(data: string) {
+      document.operations.push({ type: 'qrcode', data });
+      return builder;
+    },
+
+    cut() {
+      document.operations.push({ type: 'cut' });
+      return builder;
+    },
+
+    // Pulse on the drawer connector of the printer
+    openDrawer() {
+      document.operations.push({ type: 'drawer' });
+      return builder;
+    }
+  };
+
+  return builder;
+};
+
+export type EscPosBuilder = ReturnType<typeof createEscPosDocument>;
+
+const ALIGN_CODES: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+export const encodeEscPos = ({ operations }: EscPosDocument) => {
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 2];
+
+  operations.forEach(operation => {
+    switch (operation.type) {
+      case 'text':
+        bytes.push(
+          ESC, 0x61, ALIGN_CODES[operation.align],
+          ESC, 0x45, operation.bold ? 1 : 0,
+          GS, 0x21, operation.large ? 0x11 : 0,
+          ...encodeText(operation.text),
+          LF
+        );
+        break;
+      case 'feed':
+        bytes.push(ESC, 0x64, Math.min(Math.max(operation.lines, 0), 255));
+        break;
+      case 'barcode': {
+        // Code set B ("{B") takes printable ASCII
+        const data = [0x7b, 0x42, ...encodeText(operation.data).slice(0, 253)];
+        bytes.push(
+          ESC, 0x61, ALIGN_CODES.center,
+          GS, 0x68, 80,
+          GS, 0x77, 2,
+          GS, 0x48, 2,
+          GS, 0x6b, 73, data.length, ...data,
+          LF
+        );
+        break;
+      }
+      case 'qrcode': {
+        // Model 2, module size 6, error correction M, then store and print the data
+        const data = new TextEncoder().encode(operation.data);
+        const length = data.length + 3;
+        bytes.push(
+          ESC, 0x61, ALIGN_CODES.center,
+          GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0,
+          GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6,
+          GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31,
+          GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...data,
+          GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30,
+          LF
+        );
+        break;
+      }
+      case 'cut':
+        // Feeds past the cutter before a partial cut
+        bytes.push(GS, 0x56, 66, 3);
+        break;
+      case 'drawer':
+        bytes.push(ESC, 0x70, 0, 25, 250);
+        break;
+    }
+  });
+
+  return new Uint8Array(bytes);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The same document for the browser print dialog, in a monospaced column as wide as the paper
+export const renderEscPosHtml = ({ columns, operations }: EscPosDocument, title = '') => {
+  const body = operations.map(operation => {
+    switch (operation.type) {
+      case 'text': {
+        const style = [
+          `text-align: ${operation.align}`,
+          operation.bold ? 'font-weight: bold' : '',
+          operation.large ? 'font-size: 2em' : ''
+        ].filter(Boolean).join('; ');
+        return `<div style="${style}">${escapeHtml(operation.text) || '&nbsp;'}</div>`;
+      }
+      case 'feed':
+        return '<div>&nbsp;</div>'.repeat(operation.lines);
+      case 'barcode':
+        return `<div style="text-align: center">${escapeHtml(operation.data)}</div>`;
+      case 'qrcode':
+        return `<div style="text-align: center">${renderPixQrSvg(operation.data, 160)}</div>`;
+      default:
+        return '';
+    }
+  }).join('');
+
+  return `
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>
+        ${receiptStyles}
+        body { width: ${columns}ch; white-space: pre; }
+      </style>
+    </head>
+    <body>${body}</body>
+    </html>
+  `;
+};
@@ -0,0 +1,55 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AccountStatus = Database['public']['Enums']['account_status'];
+
+// Statuses that still have something left to pay
+export const OPEN_ACCOUNT_STATUSES: AccountStatus[] = ['em_aberto', 'parcialmente_pago'];
+
+export const isOpenAccountStatus = (status: string | null | undefined) =>
+  status === 'em_aberto' || status === 'parcialmente_pago';
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  em_aberto: 'Em Aberto',
+  parcialmente_pago: 'Parcialmente Pago',
+  pago: 'Pago',
+  cancelado: 'Cancelado'
+};
+
+export type PaymentType = Database['public']['Enums']['payment_type'];
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  boleto: 'Boleto',
+  cartao: 'Cartão',
+  transferencia: 'Transferência',
+  pix: 'PIX'
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Outstanding balance; paid_amount is kept by the update_account_status_on_payment trigger
+export const getAccountBalance = (account: { amount: number; paid_amount?: number | null; status?: string | null }) => {
+  if (account.status === 'pago' || account.status === 'cancelado') return 0;
+  return Math.max(0, roundCents(Number(account.amount) - Number(account.paid_amount || 0)));
+};
+
+// How much of the account a payment settles: what was paid plus the discount, minus interest/fine
+export const getPaymentPrincipal = (payment: {
+  amount_paid: number;
+  discount_amount?: number | null;
+  interest_amount?: number | null;
+}) =>
+  roundCents(Number(payment.amount_paid) + Number(payment.discount_amount || 0) - Number(payment.interest_amount || 0));
+
+export type ApprovalStatus = 'nao_requerida' | 'pendente' | 'aprovada' | 'rejeitada';
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  nao_requerida: 'Não requerida',
+  pendente: 'Aguardando aprovação',
+  aprovada: 'Aprovada',
+  rejeitada: 'Rejeitada'
+};
+
+// Accounts above the cost center's threshold stay blocked for payment until an admin approves them;
+// validate_payment_balance enforces the same rule on the database
+export const isAwaitingApproval = (approvalStatus: string | null | undefined) =>
+  approvalStatus === 'pendente' || approvalStatus === 'rejeitada';
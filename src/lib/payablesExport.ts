@@ -0,0 +1,224 @@
+import { format } from 'date-fns';
+import { downloadFile } from '@/lib/download';
+import { a4Styles, formatCurrency, openPrintWindow } from '@/lib/printing';
+import { XLSX_MIME_TYPE, buildXlsx, toDelimited, type SpreadsheetCell } from '@/lib/spreadsheet';
+import { ACCOUNT_STATUS_LABELS, PAYMENT_TYPE_LABELS, getAccountBalance } from '@/lib/payables';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF'
+};
+
+export interface PayableExportRow {
+  description: string;
+  supplier: string;
+  costCenter: string;
+  paymentType: string;
+  status: string;
+  // As shown on screen, e.g. "Vencida" for an overdue open account
+  statusLabel: string;
+  dueDate: string; // yyyy-MM-dd
+  amount: number;
+  paidAmount: number;
+  invoiceNumber?: string | null;
+  installment?: string | null;
+}
+
+export interface PayablesExport {
+  title: string;
+  // Without extension
+  fileName: string;
+  // Active filters, e.g. "Fornecedor: Acme"; printed on the PDF header
+  filters: string[];
+  // Already filtered and sorted as on screen
+  rows: PayableExportRow[];
+}
+
+export interface PayablesSummaryLine {
+  label: string;
+  count: number;
+  amount: number;
+  paid: number;
+  balance: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Fully paid accounts count their whole amount, as in the list totals
+const getRowPaid = (row: PayableExportRow) => (row.status === 'pago' ? Number(row.amount) : Number(row.paidAmount || 0));
+
+const getRowBalance = (row: PayableExportRow) =>
+  getAccountBalance({ amount: row.amount, paid_amount: row.paidAmount, status: row.status });
+
+const summarize = (rows: PayableExportRow[], getKey: (row: PayableExportRow) => string, labels: Record<string, string>) => {
+  const lines = new Map<string, PayablesSummaryLine>();
+
+  rows.forEach(row => {
+    const key = getKey(row);
+    const line = lines.get(key) || { label: labels[key] || key, count: 0, amount: 0, paid: 0, balance: 0 };
+    line.count += 1;
+    line.amount = roundCents(line.amount + Number(row.amount));
+    line.paid = roundCents(line.paid + getRowPaid(row));
+    line.balance = roundCents(line.balance + getRowBalance(row));
+    lines.set(key, line);
+  });
+
+  return [...lines.values()];
+};
+
+// Cancelled accounts only show up in the status breakdown
+export const summarizePayables = (rows: PayableExportRow[]) => {
+  const active = rows.filter(row => row.status !== 'cancelado');
+  const [total] = summarize(active, () => 'total', { total: 'Total' });
+
+  return {
+    byPaymentType: summarize(active, row => row.paymentType, PAYMENT_TYPE_LABELS),
+    byStatus: summarize(rows, row => row.status, ACCOUNT_STATUS_LABELS),
+    total: total || { label: 'Total', count: 0, amount: 0, paid: 0, balance: 0 }
+  };
+};
+
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'dd/MM/yyyy');
+
+const EXPORT_HEADERS = [
+  'Descrição', 'Fornecedor', 'Centro de Custo', 'Tipo', 'Nota Fiscal', 'Parcela',
+  'Vencimento', 'Status', 'Valor', 'Pago', 'Saldo'
+];
+
+const toCells = (row: PayableExportRow, formatNumber: (value: number) => SpreadsheetCell): SpreadsheetCell[] => [
+  row.description,
+  row.supplier,
+  row.costCenter,
+  PAYMENT_TYPE_LABELS[row.paymentType as keyof typeof PAYMENT_TYPE_LABELS] || row.paymentType,
+  row.invoiceNumber || '',
+  row.installment || '',
+  formatDay(row.dueDate),
+  row.statusLabel,
+  formatNumber(Number(row.amount)),
+  formatNumber(getRowPaid(row)),
+  formatNumber(getRowBalance(row))
+];
+
+// Semicolons and decimal commas, as Excel expects with a Brazilian locale; BOM so accents open correctly
+const exportCSV = ({ fileName, rows }: PayablesExport) => {
+  const formatNumber = (value: number) => value.toFixed(2).replace('.', ',');
+  downloadFile(
+    `${fileName}.csv`,
+    '\uFEFF' + toDelimited([EXPORT_HEADERS, ...rows.map(row => toCells(row, formatNumber) as string[])]),
+    'text/csv;charset=utf-8'
+  );
+};
+
+const exportXLSX = ({ title, fileName, rows }: PayablesExport) => {
+  downloadFile(
+    `${fileName}.xlsx`,
+    buildXlsx([EXPORT_HEADERS, ...rows.map(row => toCells(row, value => value))], title),
+    XLSX_MIME_TYPE
+  );
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const renderSummaryTable = (title: string, lines: PayablesSummaryLine[]) => `
+  <h3>${title}</h3>
+  <table>
+    <thead>
+      <tr>
+        <th></th>
+        <th class="right">Contas</th>
+        <th class="right">Valor</th>
+        <th class="right">Pago</th>
+        <th class="right">Em aberto</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${lines.map(line => `
+        <tr>
+          <td>${line.label}</td>
+          <td class="right">${line.count}</td>
+          <td class="right">${formatCurrency(line.amount)}</td>
+          <td class="right">${formatCurrency(line.paid)}</td>
+          <td class="right">${formatCurrency(line.balance)}</td>
+        </tr>
+      `).join('')}
+    </tbody>
+  </table>
+`;
+
+// Printed through the browser dialog, where it can be saved as PDF
+const printReport = ({ title, filters, rows }: PayablesExport) => {
+  const summary = summarizePayables(rows);
+
+  openPrintWindow(`
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>
+        ${a4Styles}
+        body { font-size: 11px; }
+        th, td { padding: 4px 6px; }
+        h3 { margin: 20px 0 0 0; }
+        @media print { @page { size: A4 landscape; margin: 10mm; } }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h2>${escapeHtml(title)}</h2>
+        <p>Gerado em ${format(new Date(), 'dd/MM/yyyy HH:mm')}</p>
+      </div>
+
+      <div class="info">
+        <p><strong>Filtros:</strong> ${filters.length > 0 ? filters.map(escapeHtml).join(' · ') : 'Nenhum'}</p>
+        <p><strong>Contas:</strong> ${rows.length}</p>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Descrição</th>
+            <th>Fornecedor</th>
+            <th>Centro de Custo</th>
+            <th>Tipo</th>
+            <th>Vencimento</th>
+            <th>Status</th>
+            <th class="right">Valor</th>
+            <th class="right">Saldo</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map(row => `
+            <tr>
+              <td>${escapeHtml(row.description)}${row.installment ? ` (${row.installment})` : ''}</td>
+              <td>${escapeHtml(row.supplier)}</td>
+              <td>${escapeHtml(row.costCenter)}</td>
+              <td>${PAYMENT_TYPE_LABELS[row.paymentType as keyof typeof PAYMENT_TYPE_LABELS] || row.paymentType}</td>
+              <td>${formatDay(row.dueDate)}</td>
+              <td>${row.statusLabel}</td>
+              <td class="right">${formatCurrency(row.amount)}</td>
+              <td class="right">${formatCurrency(getRowBalance(row))}</td>
+            </tr>
+          `).join('')}
+          <tr class="total-row">
+            <td colspan="6" class="right">Total (sem canceladas):</td>
+            <td class="right">${formatCurrency(summary.total.amount)}</td>
+            <td class="right">${formatCurrency(summary.total.balance)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      ${renderSummaryTable('Totais por Tipo de Pagamento', summary.byPaymentType)}
+      ${renderSummaryTable('Totais por Status', summary.byStatus)}
+    </body>
+    </html>
+  `);
+};
+
+export const exportPayables = (exportFormat: ExportFormat, data: PayablesExport) => {
+  if (exportFormat === 'csv') exportCSV(data);
+  else if (exportFormat === 'xlsx') exportXLSX(data);
+  else printReport(data);
+};
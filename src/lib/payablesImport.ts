@@ -0,0 +1,177 @@
+import { parseBoleto } from '@/lib/boleto';
+import { SpreadsheetRow, toDelimited } from '@/lib/spreadsheet';
+
+export type ImportField =
+  | 'nome_fornecedor'
+  | 'cnpj_cpf'
+  | 'descricao'
+  | 'valor'
+  | 'vencimento'
+  | 'tipo_pagamento'
+  | 'centro_custo'
+  | 'dados_pagamento';
+
+export type ImportPaymentType = 'boleto' | 'pix' | 'transferencia' | 'cartao';
+
+// Column index in the file for each field, null when not imported
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required: boolean;
+  // Normalized header fragments recognized when guessing the mapping
+  aliases: string[];
+}
+
+export interface ImportedAccount {
+  supplierName: string;
+  document: string | null;
+  description: string;
+  amount: number;
+  dueDate: string; // yyyy-MM-dd
+  paymentType: ImportPaymentType;
+  costCenter: string; // nome, código ou caminho "Loja 1 > Manutenção"
+  paymentData: string | null; // linha digitável do boleto ou chave pix
+}
+
+export interface ImportRow {
+  line: number; // line in the file, counting the header
+  values: string[];
+  account: ImportedAccount | null;
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'nome_fornecedor', label: 'Fornecedor', required: true, aliases: ['fornecedor', 'favorecido', 'razao social', 'nome'] },
+  { key: 'cnpj_cpf', label: 'CNPJ/CPF', required: false, aliases: ['cnpj', 'cpf', 'documento'] },
+  { key: 'descricao', label: 'Descrição', required: true, aliases: ['descricao', 'historico', 'observacao'] },
+  { key: 'valor', label: 'Valor', required: true, aliases: ['valor', 'montante', 'total'] },
+  { key: 'vencimento', label: 'Vencimento', required: true, aliases: ['vencimento', 'venc', 'data'] },
+  { key: 'tipo_pagamento', label: 'Tipo de Pagamento', required: false, aliases: ['tipo', 'forma'] },
+  { key: 'centro_custo', label: 'Centro de Custo', required: true, aliases: ['centro', 'custo'] },
+  { key: 'dados_pagamento', label: 'Dados de Pagamento', required: false, aliases: ['dados', 'linha digitavel', 'codigo de barras', 'chave'] }
+];
+
+const PAYMENT_TYPES: Record<string, ImportPaymentType> = {
+  boleto: 'boleto',
+  pix: 'pix',
+  transferencia: 'transferencia',
+  ted: 'transferencia',
+  doc: 'transferencia',
+  cartao: 'cartao'
+};
+
+const normalize = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[_-]+/g, ' ').trim();
+
+// Exact header names first (the old fixed layout), then the aliases; each column is used once
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalizedHeaders = headers.map(normalize);
+  const used = new Set<number>();
+  const mapping = Object.fromEntries(IMPORT_FIELDS.map(field => [field.key, null])) as ColumnMapping;
+
+  const assign = (field: ImportFieldDefinition, matches: (header: string) => boolean) => {
+    if (mapping[field.key] !== null) return;
+    const index = normalizedHeaders.findIndex((header, i) => !used.has(i) && matches(header));
+    if (index < 0) return;
+    mapping[field.key] = index;
+    used.add(index);
+  };
+
+  IMPORT_FIELDS.forEach(field => assign(field, header => header === normalize(field.key)));
+  IMPORT_FIELDS.forEach(field => assign(field, header => field.aliases.some(alias => header.includes(alias))));
+
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === null);
+
+// Accepts "1.000,50", "1000,50", "1000.50" and "R$ 1.000"
+export const parseImportAmount = (value: string) => {
+  let cleaned = value.replace(/[^\d,.-]/g, '');
+  if (cleaned.includes(',')) {
+    cleaned = cleaned.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(cleaned)) {
+    cleaned = cleaned.replace(/\./g, '');
+  }
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? null : Math.round(amount * 100) / 100;
+};
+
+// DD/MM/YYYY (also DD/MM/YY and DD-MM-YYYY) or YYYY-MM-DD, rejecting impossible dates
+export const parseImportDate = (value: string) => {
+  const trimmed = value.trim();
+  const br = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+
+  let year: number, month: number, day: number;
+  if (br) {
+    [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+    if (year < 100) year += 2000;
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const parseImportPaymentType = (value: string): ImportPaymentType | null => {
+  const normalized = normalize(value);
+  if (!normalized) return 'boleto';
+  return PAYMENT_TYPES[normalized] || PAYMENT_TYPES[normalized.split(' ')[0]] || null;
+};
+
+// Validates every row without touching the database; rows with errors are left out of the import
+export const validateImportRows = (rows: SpreadsheetRow[], mapping: ColumnMapping): ImportRow[] =>
+  rows.map(({ line, values }) => {
+    const get = (field: ImportField) => (mapping[field] !== null ? values[mapping[field]!] || '' : '').trim();
+    const errors: string[] = [];
+
+    IMPORT_FIELDS
+      .filter(field => field.required && !get(field.key))
+      .forEach(field => errors.push(`${field.label} não preenchido`));
+
+    const amount = get('valor') ? parseImportAmount(get('valor')) : null;
+    if (get('valor') && (amount === null || amount <= 0)) errors.push(`Valor inválido: "${get('valor')}"`);
+
+    const dueDate = get('vencimento') ? parseImportDate(get('vencimento')) : null;
+    if (get('vencimento') && !dueDate) errors.push(`Vencimento inválido: "${get('vencimento')}" (use DD/MM/AAAA)`);
+
+    const paymentType = parseImportPaymentType(get('tipo_pagamento'));
+    if (!paymentType) errors.push(`Tipo de pagamento inválido: "${get('tipo_pagamento')}"`);
+
+    const paymentData = get('dados_pagamento') || null;
+    if (paymentType === 'boleto' && paymentData) {
+      const boleto = parseBoleto(paymentData);
+      if (boleto.error) errors.push(`Boleto inválido: ${boleto.error}`);
+    }
+
+    return {
+      line,
+      values,
+      errors,
+      account: errors.length > 0 ? null : {
+        supplierName: get('nome_fornecedor'),
+        document: get('cnpj_cpf') || null,
+        description: get('descricao'),
+        amount: amount!,
+        dueDate: dueDate!,
+        paymentType: paymentType!,
+        costCenter: get('centro_custo'),
+        paymentData
+      }
+    };
+  });
+
+// The rejected lines as they were in the file, plus the line number and the reason, ready to fix and re-import
+export const buildImportErrorReport = (headers: string[], rejected: { line: number; values: string[]; error: string }[]) =>
+  toDelimited([
+    ['linha', ...headers, 'erro'],
+    ...rejected.map(row => [String(row.line), ...headers.map((_, index) => row.values[index] || ''), row.error])
+  ]);
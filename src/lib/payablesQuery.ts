@@ -0,0 +1,158 @@
+import { endOfMonth, format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ACCOUNT_STATUS_LABELS,
+  APPROVAL_STATUS_LABELS,
+  PAYMENT_TYPE_LABELS,
+  type AccountStatus,
+  type PaymentType
+} from '@/lib/payables';
+
+// Dashboard cards of the accounts payable page
+export type PayablesView =
+  | 'open'
+  | 'overdue'
+  | 'due_today'
+  | 'due_tomorrow'
+  | 'due_next_week'
+  | 'paid_today'
+  | 'paid_last_30_days'
+  | 'pending_approval';
+
+export type PayablesSortField = 'description' | 'supplier' | 'cost_center' | 'payment_type' | 'amount' | 'due_date' | 'status';
+
+export interface PayablesSort {
+  // null keeps the database default: latest due dates first
+  field: PayablesSortField | null;
+  desc: boolean;
+}
+
+// Statuses as shown on screen: open accounts become "Vence Hoje" or "Vencida", plus the approval badges
+export type DisplayStatus = 'vencida' | 'vence_hoje' | AccountStatus | 'pendente' | 'rejeitada';
+
+export const DISPLAY_STATUS_LABELS: Record<DisplayStatus, string> = {
+  vencida: 'Vencida',
+  vence_hoje: 'Vence Hoje',
+  ...ACCOUNT_STATUS_LABELS,
+  pendente: APPROVAL_STATUS_LABELS.pendente,
+  rejeitada: APPROVAL_STATUS_LABELS.rejeitada
+};
+
+// Same keys as the JSONB read by filter_accounts_payable; every key is optional
+export interface PayablesFilters {
+  view?: PayablesView;
+  due_from?: string; // yyyy-MM-dd
+  due_until?: string;
+  description?: string;
+  supplier?: string;
+  supplier_id?: string;
+  cost_center?: string;
+  payment_types?: PaymentType[];
+  amount?: string;
+  due_date?: string;
+  // Account status, or aguardando_aprovacao for open accounts pending approval
+  status?: string;
+  display_statuses?: DisplayStatus[];
+}
+
+export interface PayablesTotalsRow {
+  payment_type: string;
+  cost_center_id: string;
+  account_count: number;
+  paid_count: number;
+  open_count: number;
+  overdue_count: number;
+  paid_total: number;
+  open_total: number;
+  overdue_total: number;
+}
+
+// Every page is a separate request; exports read the whole result in chunks of this size
+const EXPORT_CHUNK_SIZE = 1000;
+
+const ACCOUNT_SELECT = '*, suppliers(name), cost_centers(name, code)';
+
+const matchLabels = <K extends string>(labels: Record<K, string>, text: string) =>
+  (Object.keys(labels) as K[]).filter(key => labels[key].toLowerCase().includes(text.trim().toLowerCase()));
+
+// The column filters search the labels on screen, so "transf" finds transfers and "venc" overdue accounts
+export const matchPaymentTypes = (text: string) => matchLabels(PAYMENT_TYPE_LABELS, text);
+
+export const matchDisplayStatuses = (text: string) => matchLabels(DISPLAY_STATUS_LABELS, text);
+
+// The amount column shows "R$ 1.234,56" while the database compares against "1.234,56"
+export const normalizeAmountFilter = (text: string) => text.replace(/R\$/gi, '').replace(/\s/g, '');
+
+// "05/03/2025", "03/2025" or "2025" as a due date range; null while the value is incomplete
+export const getDueDateRange = (type: 'day' | 'month' | 'year', value: string) => {
+  const toRange = (from: Date, until: Date) => ({ from: format(from, 'yyyy-MM-dd'), until: format(until, 'yyyy-MM-dd') });
+
+  if (type === 'day') {
+    const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    if (!match) return null;
+    const date = new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+    if (date.getDate() !== Number(match[1]) || date.getMonth() !== Number(match[2]) - 1) return null;
+    return toRange(date, date);
+  }
+
+  if (type === 'month') {
+    const match = value.match(/^(\d{2})\/(\d{4})$/);
+    if (!match || Number(match[1]) < 1 || Number(match[1]) > 12) return null;
+    const first = new Date(Number(match[2]), Number(match[1]) - 1, 1);
+    return toRange(first, endOfMonth(first));
+  }
+
+  if (!/^\d{4}$/.test(value)) return null;
+  return toRange(new Date(Number(value), 0, 1), new Date(Number(value), 11, 31));
+};
+
+// Adds a due date range on top of the one already in the filters, keeping only the overlap
+export const narrowDueDateRange = (filters: PayablesFilters, range: { from: string; until: string }): PayablesFilters => ({
+  ...filters,
+  due_from: filters.due_from && filters.due_from > range.from ? filters.due_from : range.from,
+  due_until: filters.due_until && filters.due_until < range.until ? filters.due_until : range.until
+});
+
+export const searchPayables = async (filters: PayablesFilters, sort: PayablesSort, limit: number, offset: number) => {
+  const { data, error } = await supabase
+    .rpc('search_accounts_payable', {
+      p_filters: filters as Json,
+      p_sort_field: sort.field ?? undefined,
+      p_sort_desc: sort.desc,
+      p_limit: limit,
+      p_offset: offset
+    })
+    .select(ACCOUNT_SELECT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Everything the filters match, in the list order, for the exports
+export const fetchAllPayables = async (filters: PayablesFilters, sort: PayablesSort) => {
+  const rows: Awaited<ReturnType<typeof searchPayables>> = [];
+
+  for (let offset = 0; ; offset += EXPORT_CHUNK_SIZE) {
+    const chunk = await searchPayables(filters, sort, EXPORT_CHUNK_SIZE, offset);
+    rows.push(...chunk);
+    if (chunk.length < EXPORT_CHUNK_SIZE) return rows;
+  }
+};
+
+// Totals of the whole result, not just the page, per payment type and cost center
+export const fetchPayablesTotals = async (filters: PayablesFilters): Promise<PayablesTotalsRow[]> => {
+  const { data, error } = await supabase.rpc('get_accounts_payable_totals', { p_filters: filters as Json });
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    account_count: Number(row.account_count),
+    paid_count: Number(row.paid_count),
+    open_count: Number(row.open_count),
+    overdue_count: Number(row.overdue_count),
+    paid_total: Number(row.paid_total),
+    open_total: Number(row.open_total),
+    overdue_total: Number(row.overdue_total)
+  }));
+};
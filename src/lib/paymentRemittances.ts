@@ -0,0 +1,179 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildRemittanceFile,
+  buildRemittancePayment,
+  getOccurrenceLabel,
+  getReturnItemStatus,
+  type BankAccount,
+  type RemittanceAccount,
+  type RemittancePayment,
+  type ReturnItem,
+  type ReturnItemStatus
+} from '@/lib/cnab240';
+
+export const REMITTANCE_ACCOUNT_FIELDS =
+  'id, description, amount, paid_amount, due_date, payment_type, approval_status, boleto_barcode, pix_key, pix_receiver_name, ' +
+  'transfer_bank, transfer_agency, transfer_account, transfer_holder_name, transfer_holder_document, suppliers(name, document)';
+
+export type RemittanceCandidate = RemittanceAccount & { description: string; approval_status: string };
+
+export interface RemittanceDraft {
+  account: RemittanceCandidate;
+  itemId: string;
+  payment: RemittancePayment | null;
+  error: string | null;
+}
+
+export type ReturnResultStatus = ReturnItemStatus | 'ignorado' | 'erro';
+
+export interface ReturnResult {
+  reference: string;
+  description: string;
+  status: ReturnResultStatus;
+  message: string;
+  amount: number | null;
+}
+
+interface StoredRemittanceItem {
+  id: string;
+  reference: string;
+  amount: number;
+  status: string;
+  account_id: string;
+  remittance_id: string;
+  account: { description: string; payment_type: string } | null;
+}
+
+// Item ids are generated up front so the "seu número" in the file can be derived from them
+export const prepareRemittance = (accounts: RemittanceCandidate[], paymentDate: string): RemittanceDraft[] =>
+  accounts.map(account => {
+    const itemId = crypto.randomUUID();
+    const reference = itemId.replace(/-/g, '').slice(0, 20).toUpperCase();
+    const { payment, error } = buildRemittancePayment(account, reference, paymentDate);
+    return { account, itemId, payment, error };
+  });
+
+// Reserves the file sequence and records the remittance with its items in one transaction, then
+// builds the file to download with the sequence the bank account handed out
+export const createRemittance = async (bank: BankAccount, drafts: RemittanceDraft[], paymentDate: string) => {
+  const items = drafts.flatMap(draft => (draft.payment ? [{ draft, payment: draft.payment }] : []));
+  if (items.length === 0) throw new Error('Nenhuma conta válida para a remessa');
+
+  const { data, error } = await supabase.rpc('create_payment_remittance', {
+    p_bank_account_id: bank.id,
+    p_payment_date: paymentDate,
+    p_items: items.map(({ draft, payment }) => ({
+      id: draft.itemId,
+      account_id: draft.account.id,
+      reference: payment.reference,
+      amount: payment.amount
+    }))
+  });
+  if (error) throw error;
+
+  const { file_sequence: sequence, file_name: fileName } = data[0];
+  const content = buildRemittanceFile(bank, sequence, items.map(item => item.payment));
+
+  return { fileName, content, sequence };
+};
+
+// Settles paid items through `payments` (the status trigger then closes the account) and
+// records the bank's occurrences on every item found in the return file
+export const applyReturnItems = async (returnItems: ReturnItem[]): Promise<ReturnResult[]> => {
+  if (returnItems.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('payment_remittance_items')
+    .select('id, reference, amount, status, account_id, remittance_id, account:accounts_payable(description, payment_type)')
+    .in('reference', returnItems.map(item => item.reference));
+  if (error) throw error;
+
+  const stored = new Map(((data || []) as StoredRemittanceItem[]).map(item => [item.reference, item]));
+  const userId = (await supabase.auth.getUser()).data.user?.id;
+  const touchedRemittances = new Set<string>();
+  const results: ReturnResult[] = [];
+
+  for (const returnItem of returnItems) {
+    const item = stored.get(returnItem.reference);
+    const message = returnItem.occurrences.map(code => `${code} - ${getOccurrenceLabel(code)}`).join('; ');
+
+    if (!item) {
+      results.push({ reference: returnItem.reference, description: '-', status: 'ignorado', message: 'Item não encontrado nas remessas', amount: returnItem.amount });
+      continue;
+    }
+
+    const description = item.account?.description || '-';
+
+    if (item.status === 'pago') {
+      results.push({ reference: item.reference, description, status: 'ignorado', message: 'Já baixado em retorno anterior', amount: returnItem.amount });
+      continue;
+    }
+
+    const status = getReturnItemStatus(returnItem.occurrences);
+    let paymentId: string | null = null;
+
+    if (status === 'pago') {
+      const itemAmount = Number(item.amount);
+      const paid = returnItem.amount ?? itemAmount;
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          account_id: item.account_id,
+          payment_date: returnItem.paymentDate || format(new Date(), 'yyyy-MM-dd'),
+          amount_paid: paid,
+          discount_amount: Math.max(0, Math.round((itemAmount - paid) * 100) / 100),
+          interest_amount: Math.max(0, Math.round((paid - itemAmount) * 100) / 100),
+          payment_method: item.account?.payment_type || null,
+          notes: `Baixa pelo retorno CNAB (ref. ${item.reference})`,
+          paid_by: userId
+        })
+        .select('id')
+        .single();
+
+      if (paymentError) {
+        results.push({ reference: item.reference, description, status: 'erro', message: paymentError.message, amount: paid });
+        continue;
+      }
+      paymentId = payment.id;
+    }
+
+    const { error: updateError } = await supabase
+      .from('payment_remittance_items')
+      .update({
+        status,
+        occurrence_codes: returnItem.occurrences.join(','),
+        occurrence_message: message,
+        payment_id: paymentId,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', item.id);
+
+    if (updateError) {
+      results.push({ reference: item.reference, description, status: 'erro', message: updateError.message, amount: returnItem.amount });
+      continue;
+    }
+
+    touchedRemittances.add(item.remittance_id);
+    results.push({ reference: item.reference, description, status, message, amount: returnItem.amount ?? Number(item.amount) });
+  }
+
+  // A remittance is done once the bank answered every item with a final status
+  for (const remittanceId of touchedRemittances) {
+    const { count } = await supabase
+      .from('payment_remittance_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('remittance_id', remittanceId)
+      .in('status', ['enviado', 'agendado']);
+
+    if (count === 0) {
+      await supabase
+        .from('payment_remittances')
+        .update({ status: 'processada', processed_at: new Date().toISOString() })
+        .eq('id', remittanceId);
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,395 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+// Catalog and sale queue of the PDV, kept in the browser's IndexedDB so the register keeps
+// selling when the store loses its connection
+
+export interface OfflineProduct {
+  id: string;
+  name: string;
+  internal_code: string;
+  ean: string | null;
+  current_price: number;
+  stock_quantity: number;
+}
+
+export interface OfflineCustomer {
+  id: string;
+  name: string;
+  document: string | null;
+  credit_limit: number;
+  phone: string | null;
+}
+
+export type OfflineSaleStatus = 'pending' | 'synced' | 'conflict' | 'failed';
+
+export const OFFLINE_SALE_STATUS_LABELS: Record<OfflineSaleStatus, string> = {
+  pending: 'Aguardando envio',
+  synced: 'Sincronizada',
+  conflict: 'Sincronizada com divergências',
+  failed: 'Recusada'
+};
+
+// What changed while the register was offline, as reported by sync_offline_sale
+export interface OfflineSaleConflict {
+  type: 'stock' | 'price';
+  product_id: string;
+  product_name: string;
+  quantity?: number;
+  sold_price?: number;
+  current_price?: number;
+}
+
+type SyncOfflineSaleArgs = Database['public']['Functions']['sync_offline_sale']['Args'];
+
+// Same arguments finalize_sale takes; the identification of the queued sale is added on sync
+export type OfflineSalePayload = Omit<SyncOfflineSaleArgs, 'p_client_sale_id' | 'p_offline_number' | 'p_sold_at'>;
+
+// Everything the receipt needs, since the sale can't be read back from the database
+export interface OfflineSaleReceipt {
+  // null for walk-in sales, which may carry just a CPF
+  customer: OfflineCustomer | null;
+  customer_document?: string | null;
+  items: { name: string; quantity: number; unit_price: number; discount_amount: number; total: number }[];
+  payments: { name: string; code: string; amount: number; amount_tendered?: number | null; change_amount?: number }[];
+  subtotal: number;
+  discount_amount: number;
+  total: number;
+}
+
+export interface OfflineSale {
+  // Sent as client_sale_id, so a resent sale is not created twice
+  id: string;
+  offlineNumber: string;
+  storeId: string;
+  soldAt: string;
+  status: OfflineSaleStatus;
+  attempts: number;
+  payload: OfflineSalePayload;
+  receipt: OfflineSaleReceipt;
+  error?: string;
+  saleId?: string;
+  saleNumber?: string;
+  conflicts?: OfflineSaleConflict[];
+  syncedAt?: string;
+}
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  // Still waiting because the connection dropped again
+  remaining: number;
+}
+
+interface Snapshot<T> {
+  key: string;
+  data: T;
+  updatedAt: string;
+}
+
+const DB_NAME = 'pdv-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const SALES = 'sales';
+
+export const OFFLINE_KEYS = {
+  stores: 'stores',
+  paymentMethods: 'payment_methods',
+  products: (storeId: string) => `products:${storeId}`,
+  customers: (storeId: string) => `customers:${storeId}`,
+  sequence: (storeId: string) => `sequence:${storeId}`
+};
+
+const CATALOG_PAGE_SIZE = 1000;
+// Customers of the latest sales of the store are the ones kept for offline search
+const RECENT_SALES_SCANNED = 1000;
+const RECENT_CUSTOMERS_LIMIT = 300;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(SALES)) db.createObjectStore(SALES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Runs the action in a transaction and resolves once it is committed
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const readSnapshot = async <T>(key: string) =>
+  (await withStore<Snapshot<T> | undefined>(SNAPSHOTS, 'readonly', store => store.get(key))) || null;
+
+export const saveSnapshot = async <T>(key: string, data: T) => {
+  await withStore(SNAPSHOTS, 'readwrite', store => {
+    store.put({ key, data, updatedAt: new Date().toISOString() } satisfies Snapshot<T>);
+  });
+};
+
+// supabase-js reports a dropped connection as a fetch TypeError, in each browser's wording
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as { message?: string } | null)?.message || '';
+  return /failed to fetch|networkerror|load failed|fetch failed|network request failed/i.test(message);
+};
+
+// Lightweight request used to find out whether the connection is back
+export const checkConnection = async () => {
+  if (!navigator.onLine) return false;
+  const { error } = await supabase.from('payment_methods').select('id').limit(1);
+  return !error || !isNetworkError(error);
+};
+
+// Runs the query and keeps its result; without a connection the last kept result is returned
+export const withOfflineFallback = async <T>(key: string, query: () => Promise<T>) => {
+  if (navigator.onLine) {
+    try {
+      const data = await query();
+      // A browser without IndexedDB still sells online
+      await saveSnapshot(key, data).catch(() => undefined);
+      return data;
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const snapshot = await readSnapshot<T>(key);
+  if (!snapshot) throw new Error('Sem conexão e sem dados salvos neste computador');
+  return snapshot.data;
+};
+
+type CatalogRow = {
+  id: string;
+  name: string;
+  internal_code: string;
+  ean: string | null;
+  product_pricing: { sale_price: number }[];
+  product_stock: { quantity: number; store_id: string }[];
+};
+
+const toOfflineProduct = (row: CatalogRow, storeId: string): OfflineProduct => ({
+  id: row.id,
+  name: row.name,
+  internal_code: row.internal_code,
+  ean: row.ean,
+  current_price: Number(row.product_pricing?.[0]?.sale_price || 0),
+  stock_quantity: Number(row.product_stock?.find(stock => stock.store_id === storeId)?.quantity || 0)
+});
+
+// Active products with the store's current price and stock, plus the customers of its latest sales
+export const cacheStoreCatalog = async (storeId: string) => {
+  const products: OfflineProduct[] = [];
+
+  for (let offset = 0; ; offset += CATALOG_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        id, name, internal_code, ean,
+        product_pricing!inner(sale_price, is_current, store_id),
+        product_stock(quantity, store_id)
+      `)
+      .eq('active', true)
+      .eq('product_pricing.store_id', storeId)
+      .eq('product_pricing.is_current', true)
+      .eq('product_stock.store_id', storeId)
+      .order('name')
+      .range(offset, offset + CATALOG_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    products.push(...(data || []).map(row => toOfflineProduct(row as CatalogRow, storeId)));
+    if (!data || data.length < CATALOG_PAGE_SIZE) break;
+  }
+
+  const { data: sales, error } = await supabase
+    .from('sales')
+    .select('customer:customers(id, name, document, credit_limit, phone, active)')
+    .eq('store_id', storeId)
+    .neq('status', 'quote')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_SALES_SCANNED);
+
+  if (error) throw error;
+
+  const customers = new Map<string, OfflineCustomer>();
+  (sales || []).forEach(({ customer }) => {
+    if (!customer || !customer.active || customers.has(customer.id) || customers.size >= RECENT_CUSTOMERS_LIMIT) return;
+    customers.set(customer.id, {
+      id: customer.id,
+      name: customer.name,
+      document: customer.document,
+      credit_limit: Number(customer.credit_limit || 0),
+      phone: customer.phone
+    });
+  });
+
+  await saveSnapshot(OFFLINE_KEYS.products(storeId), products);
+  await saveSnapshot(OFFLINE_KEYS.customers(storeId), [...customers.values()]);
+
+  return { products: products.length, customers: customers.size };
+};
+
+export const getCatalogUpdatedAt = async (storeId: string) =>
+  (await readSnapshot<OfflineProduct[]>(OFFLINE_KEYS.products(storeId)))?.updatedAt || null;
+
+const contains = (value: string | null | undefined, term: string) =>
+  !!value && value.toLowerCase().includes(term.trim().toLowerCase());
+
+// Same fields the online search looks at
+export const searchCachedProducts = async (storeId: string, term: string, limit = 20) => {
+  const snapshot = await readSnapshot<OfflineProduct[]>(OFFLINE_KEYS.products(storeId));
+  return (snapshot?.data || [])
+    .filter(product => contains(product.name, term) || contains(product.internal_code, term) || contains(product.ean, term))
+    .slice(0, limit);
+};
+
+export const searchCachedCustomers = async (storeId: string, term: string, limit = 10) => {
+  const snapshot = await readSnapshot<OfflineCustomer[]>(OFFLINE_KEYS.customers(storeId));
+  return (snapshot?.data || [])
+    .filter(customer => contains(customer.name, term) || contains(customer.document, term))
+    .slice(0, limit);
+};
+
+// "OFF-LJ01-251230-007": per store, day and register, so it can't be mistaken for a definitive number
+export const nextOfflineNumber = async (store: Pick<Tables<'stores'>, 'id' | 'code'>) => {
+  const day = format(new Date(), 'yyMMdd');
+  const key = OFFLINE_KEYS.sequence(store.id);
+  const db = await openDatabase();
+
+  // Read and increment in the same transaction, so two tabs never get the same number
+  const sequence = await new Promise<number>((resolve, reject) => {
+    const transaction = db.transaction(SNAPSHOTS, 'readwrite');
+    const snapshots = transaction.objectStore(SNAPSHOTS);
+    const request = snapshots.get(key);
+    let value = 1;
+
+    request.onsuccess = () => {
+      const current = request.result as Snapshot<{ day: string; value: number }> | undefined;
+      value = current?.data.day === day ? current.data.value + 1 : 1;
+      snapshots.put({ key, data: { day, value }, updatedAt: new Date().toISOString() });
+    };
+    transaction.oncomplete = () => resolve(value);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  return `OFF-${store.code}-${day}-${String(sequence).padStart(3, '0')}`;
+};
+
+export const listOfflineSales = async () => {
+  const sales = (await withStore<OfflineSale[]>(SALES, 'readonly', store => store.getAll())) || [];
+  return sales.sort((a, b) => a.soldAt.localeCompare(b.soldAt));
+};
+
+const saveOfflineSale = async (sale: OfflineSale) => {
+  await withStore(SALES, 'readwrite', store => {
+    store.put(sale);
+  });
+};
+
+// Queues the sale and takes its items out of the cached stock, so the next searches show it
+export const queueOfflineSale = async (sale: Omit<OfflineSale, 'status' | 'attempts'>) => {
+  await saveOfflineSale({ ...sale, status: 'pending', attempts: 0 });
+
+  const snapshot = await readSnapshot<OfflineProduct[]>(OFFLINE_KEYS.products(sale.storeId));
+  if (!snapshot) return;
+
+  const sold = new Map<string, number>();
+  (sale.payload.p_items as { product_id: string; quantity: number }[]).forEach(item => {
+    sold.set(item.product_id, (sold.get(item.product_id) || 0) + Number(item.quantity));
+  });
+
+  // updatedAt is kept: the cache is still as old as the last download
+  await withStore(SNAPSHOTS, 'readwrite', store => {
+    store.put({
+      ...snapshot,
+      data: snapshot.data.map(product =>
+        sold.has(product.id) ? { ...product, stock_quantity: product.stock_quantity - sold.get(product.id)! } : product
+      )
+    });
+  });
+};
+
+export const retryOfflineSale = async (sale: OfflineSale) => {
+  await saveOfflineSale({ ...sale, status: 'pending', error: undefined });
+};
+
+export const removeOfflineSale = async (id: string) => {
+  await withStore(SALES, 'readwrite', store => {
+    store.delete(id);
+  });
+};
+
+// Sends the pending sales oldest first, so stock and sale numbers follow the order of the counter.
+// A dropped connection stops the run; a refused sale (e.g. credit limit) is marked and skipped.
+export const syncOfflineSales = async (): Promise<OfflineSyncResult> => {
+  const pending = (await listOfflineSales()).filter(sale => sale.status === 'pending');
+  const result: OfflineSyncResult = { synced: 0, conflicts: 0, failed: 0, remaining: 0 };
+
+  for (const [index, sale] of pending.entries()) {
+    const { data, error } = await supabase.rpc('sync_offline_sale', {
+      ...sale.payload,
+      p_client_sale_id: sale.id,
+      p_offline_number: sale.offlineNumber,
+      p_sold_at: sale.soldAt
+    });
+
+    if (error) {
+      if (isNetworkError(error)) {
+        result.remaining = pending.length - index;
+        break;
+      }
+      await saveOfflineSale({ ...sale, status: 'failed', attempts: sale.attempts + 1, error: error.message });
+      result.failed += 1;
+      continue;
+    }
+
+    const conflicts = (data?.[0]?.conflicts || []) as unknown as OfflineSaleConflict[];
+    await saveOfflineSale({
+      ...sale,
+      status: conflicts.length > 0 ? 'conflict' : 'synced',
+      attempts: sale.attempts + 1,
+      error: undefined,
+      saleId: data?.[0]?.sale_id,
+      saleNumber: data?.[0]?.sale_number,
+      conflicts,
+      syncedAt: new Date().toISOString()
+    });
+    if (conflicts.length > 0) result.conflicts += 1;
+    else result.synced += 1;
+  }
+
+  return result;
+};
+
+// Synced sales are only kept for reprinting and reviewing conflicts
+export const clearSyncedOfflineSales = async () => {
+  const sales = await listOfflineSales();
+  await Promise.all(sales.filter(sale => sale.status === 'synced').map(sale => removeOfflineSale(sale.id)));
+};
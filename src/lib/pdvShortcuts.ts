@@ -0,0 +1,92 @@
+// Keyboard shortcuts of the PDV. Each register may remap them; the map is kept in the browser,
+// since it depends on the keyboard and scanner at that counter.
+
+export type PDVShortcutAction =
+  | 'help'
+  | 'searchProduct'
+  | 'customer'
+  | 'quantity'
+  | 'discount'
+  | 'payment'
+  | 'quotes'
+  | 'finalize'
+  | 'removeItem'
+  | 'previousItem'
+  | 'nextItem';
+
+export type PDVShortcutMap = Record<PDVShortcutAction, string>;
+
+// Values are KeyboardEvent.key
+export const DEFAULT_PDV_SHORTCUTS: PDVShortcutMap = {
+  help: 'F1',
+  searchProduct: 'F2',
+  customer: 'F3',
+  quantity: 'F4',
+  discount: 'F6',
+  payment: 'F8',
+  quotes: 'F9',
+  finalize: 'F10',
+  removeItem: 'Delete',
+  previousItem: 'ArrowUp',
+  nextItem: 'ArrowDown'
+};
+
+export const PDV_SHORTCUT_LABELS: Record<PDVShortcutAction, string> = {
+  help: 'Mostrar atalhos',
+  searchProduct: 'Buscar produto',
+  customer: 'Buscar cliente (de novo: consumidor final)',
+  quantity: 'Quantidade do próximo item',
+  discount: 'Desconto geral',
+  payment: 'Ir para o pagamento',
+  quotes: 'Buscar orçamento',
+  finalize: 'Finalizar venda',
+  removeItem: 'Remover item selecionado',
+  previousItem: 'Item anterior do carrinho',
+  nextItem: 'Próximo item do carrinho'
+};
+
+// Keys that still mean text editing while an input has the focus; function keys work anywhere
+export const isEditingKey = (key: string) => !/^F\d{1,2}$/.test(key);
+
+const STORAGE_KEY = 'pdv-shortcuts';
+
+export const loadPDVShortcuts = (): PDVShortcutMap => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_PDV_SHORTCUTS, ...saved };
+  } catch {
+    return { ...DEFAULT_PDV_SHORTCUTS };
+  }
+};
+
+export const savePDVShortcuts = (shortcuts: PDVShortcutMap) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(shortcuts));
+};
+
+// Gives the key to the action; an action that had it takes over the key being replaced
+export const assignPDVShortcut = (
+  shortcuts: PDVShortcutMap,
+  action: PDVShortcutAction,
+  key: string
+): PDVShortcutMap => {
+  const current = Object.keys(shortcuts).find(other => shortcuts[other as PDVShortcutAction] === key) as
+    | PDVShortcutAction
+    | undefined;
+  return {
+    ...shortcuts,
+    ...(current && current !== action && { [current]: shortcuts[action] }),
+    [action]: key
+  };
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Delete: 'Del',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  ' ': 'Espaço'
+};
+
+export const formatShortcutKey = (key: string) => KEY_LABELS[key] || (key.length === 1 ? key.toUpperCase() : key);
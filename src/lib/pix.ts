@@ -0,0 +1,235 @@
+import { QRCodeDecoderErrorCorrectionLevel, QRCodeEncoder } from '@zxing/library';
+import { onlyDigits } from '@/lib/boleto';
+import { isValidCpf } from '@/lib/documents';
+
+// PIX BR Code ("copia e cola") parsing and generation.
+//
+// The payload is an EMV QRCPS string: a sequence of ID (2 digits) + length (2 digits) + value
+// fields, some of them templates holding nested fields. It always ends with field 63, a
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) over everything up to and including "6304".
+
+export interface PixBrCode {
+  payload: string;
+  key: string | null;
+  // Dynamic QR codes point to a PSP URL instead of carrying the key
+  url: string | null;
+  receiverName: string;
+  city: string;
+  amount: number | null;
+  txid: string | null;
+  description: string | null;
+}
+
+// Either brCode or error is set
+export interface PixParseResult {
+  brCode: PixBrCode | null;
+  error: string | null;
+}
+
+// Receiving account registered on the store
+export interface PixReceiver {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+}
+
+export interface PixChargeParams extends PixReceiver {
+  amount: number;
+  txid?: string | null;
+  description?: string | null;
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+
+// Field size limits from the BR Code manual
+const MERCHANT_NAME_MAX_LENGTH = 25;
+const MERCHANT_CITY_MAX_LENGTH = 15;
+const TXID_MAX_LENGTH = 25;
+
+export const crc16 = (value: string): string => {
+  let crc = 0xffff;
+
+  for (let i = 0; i < value.length; i++) {
+    crc ^= value.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Reads the ID/length/value fields of one level; null when the lengths don't add up
+const readFields = (value: string): Map<string, string> | null => {
+  const fields = new Map<string, string>();
+  let position = 0;
+
+  while (position < value.length) {
+    const id = value.slice(position, position + 2);
+    const length = Number(value.slice(position + 2, position + 4));
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || position + 4 + length > value.length) {
+      return null;
+    }
+    fields.set(id, value.slice(position + 4, position + 4 + length));
+    position += 4 + length;
+  }
+
+  return fields;
+};
+
+// Merchant account templates 26 to 51 may carry other arrangements; PIX is the one with our GUI
+const findPixAccount = (fields: Map<string, string>): Map<string, string> | null => {
+  for (let id = 26; id <= 51; id++) {
+    const template = fields.get(String(id));
+    if (!template) continue;
+    const subfields = readFields(template);
+    if (subfields?.get('00')?.toLowerCase() === PIX_GUI) return subfields;
+  }
+  return null;
+};
+
+export const isPixPayload = (input: string) => input.trim().startsWith('000201');
+
+export const parsePixBrCode = (input: string): PixParseResult => {
+  const payload = input.trim();
+
+  if (!isPixPayload(payload)) {
+    return { brCode: null, error: 'Código PIX inválido: o payload deve começar com 000201' };
+  }
+
+  const crcIndex = payload.lastIndexOf('6304');
+  if (crcIndex === -1 || crcIndex !== payload.length - 8) {
+    return { brCode: null, error: 'Código PIX incompleto: CRC não encontrado' };
+  }
+
+  if (crc16(payload.slice(0, crcIndex + 4)) !== payload.slice(crcIndex + 4).toUpperCase()) {
+    return { brCode: null, error: 'Código PIX inválido: CRC não confere. Verifique se foi copiado por completo.' };
+  }
+
+  const fields = readFields(payload);
+  if (!fields) {
+    return { brCode: null, error: 'Código PIX inválido: estrutura do payload corrompida' };
+  }
+
+  const account = findPixAccount(fields);
+  if (!account) {
+    return { brCode: null, error: 'O código informado não é um PIX' };
+  }
+
+  const key = account.get('01') || null;
+  const url = account.get('25') || null;
+  if (!key && !url) {
+    return { brCode: null, error: 'Código PIX sem chave ou URL de cobrança' };
+  }
+
+  const rawAmount = fields.get('54');
+  const amount = rawAmount ? Number(rawAmount) : null;
+  if (amount !== null && !(amount > 0)) {
+    return { brCode: null, error: 'Código PIX com valor inválido' };
+  }
+
+  // "***" is the placeholder used when the QR code has no txid
+  const txid = readFields(fields.get('62') || '')?.get('05') || null;
+
+  return {
+    brCode: {
+      payload,
+      key,
+      url,
+      receiverName: fields.get('59') || '',
+      city: fields.get('60') || '',
+      amount,
+      txid: txid && txid !== '***' ? txid : null,
+      description: account.get('02') || null
+    },
+    error: null
+  };
+};
+
+const field = (id: string, value: string) => id + String(value.length).padStart(2, '0') + value;
+
+// Name and city only accept plain ASCII, so accents are dropped
+const toBrCodeText = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 ]/g, '')
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+
+const EVP_KEY_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Keys are matched by the DICT exactly as registered: CPF and CNPJ as digits only, phones in
+// E.164 ("+5511987654321") and e-mails in lowercase. Random (EVP) keys are kept as typed.
+// Eleven digits are a CPF when the check digits match and the value wasn't typed as a phone.
+export const normalizePixKey = (key: string) => {
+  const trimmed = key.trim();
+  const digits = onlyDigits(trimmed);
+
+  if (trimmed.includes('@')) return trimmed.toLowerCase();
+  if (EVP_KEY_PATTERN.test(trimmed)) return trimmed;
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (!/^[\d.\-/\s()]+$/.test(trimmed)) return trimmed;
+
+  if (digits.length === 14) return digits;
+  if (digits.length === 11 && !trimmed.includes('(') && isValidCpf(digits)) return digits;
+  if (digits.length === 10 || digits.length === 11) return `+55${digits}`;
+  if ((digits.length === 12 || digits.length === 13) && digits.startsWith('55')) return `+${digits}`;
+  return trimmed;
+};
+
+// Static QR codes accept only letters and digits in the txid, e.g. "LJ01-000123" becomes "LJ01000123"
+export const toPixTxid = (reference: string | null | undefined) =>
+  (reference || '').replace(/[^A-Za-z0-9]/g, '').slice(0, TXID_MAX_LENGTH) || '***';
+
+export const getStorePixReceiver = (
+  store: { pix_key?: string | null; pix_merchant_name?: string | null; pix_merchant_city?: string | null; name?: string | null } | null | undefined
+): PixReceiver | null => {
+  if (!store?.pix_key) return null;
+  return {
+    key: store.pix_key,
+    merchantName: store.pix_merchant_name || store.name || '',
+    merchantCity: store.pix_merchant_city || ''
+  };
+};
+
+// Static BR Code carrying the key, the amount and the txid, ready to be rendered as a QR code
+export const buildPixBrCode = ({ key, merchantName, merchantCity, amount, txid, description }: PixChargeParams): string => {
+  const account = field('00', PIX_GUI) + field('01', key.trim()) + (description ? field('02', description.slice(0, 40)) : '');
+
+  const payload =
+    field('00', '01') +
+    field('26', account) +
+    field('52', '0000') +
+    field('53', '986') +
+    (amount > 0 ? field('54', amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', toBrCodeText(merchantName, MERCHANT_NAME_MAX_LENGTH)) +
+    field('60', toBrCodeText(merchantCity, MERCHANT_CITY_MAX_LENGTH)) +
+    field('62', field('05', toPixTxid(txid))) +
+    '6304';
+
+  return payload + crc16(payload);
+};
+
+// SVG markup of the QR code, usable both inline in printouts and as an <img> data URL
+export const renderPixQrSvg = (payload: string, size = 200): string => {
+  const matrix = QRCodeEncoder.encode(payload, QRCodeDecoderErrorCorrectionLevel.M).getMatrix();
+  const quietZone = 4;
+  const modules = matrix.getWidth() + quietZone * 2;
+  const path: string[] = [];
+
+  for (let y = 0; y < matrix.getHeight(); y++) {
+    for (let x = 0; x < matrix.getWidth(); x++) {
+      if (matrix.get(x, y) === 1) path.push(`M${x + quietZone} ${y + quietZone}h1v1h-1z`);
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${modules} ${modules}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="#fff"/><path fill="#000" d="${path.join('')}"/></svg>`;
+};
+
+export const getPixQrDataUrl = (payload: string, size?: number) =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderPixQrSvg(payload, size))}`;
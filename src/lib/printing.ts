@@ -0,0 +1,87 @@
+import { renderPixQrSvg } from '@/lib/pix';
+
+export type PrintFormat = 'a4' | 'bobina';
+
+export interface PrintableStore {
+  name: string;
+  cnpj?: string | null;
+  address?: string | null;
+  phone?: string | null;
+}
+
+export const receiptStyles = `
+  body { font-family: 'Courier New', monospace; width: 80mm; padding: 5mm; margin: 0; font-size: 10px; }
+  .header { text-align: center; margin-bottom: 10px; border-bottom: 1px dashed #000; padding-bottom: 5px; }
+  .header h2 { font-size: 14px; margin: 0; }
+  .header p { margin: 2px 0; }
+  .info { margin-bottom: 8px; font-size: 9px; }
+  .info h3 { font-size: 10px; margin: 5px 0 3px 0; border-bottom: 1px dashed #000; }
+  .info p { margin: 2px 0; }
+  .items { width: 100%; margin: 10px 0; }
+  .item { border-bottom: 1px dotted #ccc; padding: 3px 0; }
+  .item-name { font-weight: bold; }
+  .item-details { display: flex; justify-content: space-between; font-size: 9px; }
+  .totals { border-top: 1px dashed #000; padding-top: 5px; margin-top: 10px; }
+  .totals p { display: flex; justify-content: space-between; margin: 2px 0; }
+  .totals .total { font-weight: bold; font-size: 12px; }
+  .footer { text-align: center; margin-top: 15px; font-size: 9px; border-top: 1px dashed #000; padding-top: 5px; }
+  .pix { text-align: center; margin-top: 10px; border-top: 1px dashed #000; padding-top: 5px; }
+  .pix p { margin: 2px 0; }
+  .pix .payload { font-size: 7px; word-break: break-all; }
+  @media print { @page { size: 80mm auto; margin: 0; } }
+`;
+
+export const a4Styles = `
+  body { font-family: Arial, sans-serif; padding: 20px; }
+  .header { text-align: center; margin-bottom: 20px; }
+  .header h2 { margin: 0 0 5px 0; }
+  .header p { margin: 2px 0; }
+  .info { margin-bottom: 15px; }
+  .info-row { display: flex; justify-content: space-between; margin: 5px 0; }
+  table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+  th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+  th { background-color: #f4f4f4; }
+  .right { text-align: right; }
+  .item { border-bottom: 1px solid #eee; padding: 6px 0; }
+  .item-details { display: flex; justify-content: space-between; }
+  .totals { margin-top: 15px; }
+  .totals p { display: flex; justify-content: space-between; margin: 4px 0; }
+  .totals .total { font-weight: bold; }
+  .total-row { font-weight: bold; }
+  .footer { margin-top: 30px; text-align: center; font-size: 12px; }
+  .pix { text-align: center; margin-top: 20px; }
+  .pix p { margin: 4px 0; }
+  .pix .payload { font-size: 10px; word-break: break-all; }
+`;
+
+export const formatCurrency = (value: number) =>
+  `R$ ${Number(value || 0).toFixed(2)}`;
+
+// Store identification shared by sale, receipt and statement printouts
+export const renderStoreHeader = (store: PrintableStore | null | undefined, lines: string[] = []) => `
+  <div class="header">
+    <h2>${store?.name || 'Loja'}</h2>
+    ${store?.cnpj ? `<p>CNPJ: ${store.cnpj}</p>` : ''}
+    ${store?.address ? `<p>${store.address}</p>` : ''}
+    ${store?.phone ? `<p>Tel: ${store.phone}</p>` : ''}
+    ${lines.map(line => `<p>${line}</p>`).join('')}
+  </div>
+`;
+
+// PIX QR code and its "copia e cola" text for the PIX part of a payment
+export const renderPixQrCode = (payload: string | null | undefined, amount?: number) => payload ? `
+  <div class="pix">
+    <p><strong>PIX${amount ? ` - ${formatCurrency(amount)}` : ''}</strong></p>
+    ${renderPixQrSvg(payload, 160)}
+    <p class="payload">${payload}</p>
+  </div>
+` : '';
+
+export const openPrintWindow = (content: string) => {
+  const printWindow = window.open('', '_blank');
+  if (printWindow) {
+    printWindow.document.write(content);
+    printWindow.document.close();
+    printWindow.print();
+  }
+};
@@ -0,0 +1,162 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+
+export interface InstallmentPreview {
+  number: number;
+  amount: number;
+  dueDate: Date;
+}
+
+export interface PendingReceivable {
+  id: string;
+  amount: number;
+  paid_amount: number | null;
+  due_date: string;
+  installment_number?: number | null;
+}
+
+export interface ReceivableAllocation {
+  id: string;
+  applied: number;
+  newPaidAmount: number;
+  isFullyPaid: boolean;
+}
+
+export interface LateFeeSettings {
+  finePercent: number;
+  dailyInterestPercent: number;
+}
+
+export interface LateCharges {
+  daysLate: number;
+  fine: number;
+  interest: number;
+}
+
+export interface PaymentBreakdown {
+  allocations: (ReceivableAllocation & LateCharges)[];
+  principal: number;
+  fine: number;
+  interest: number;
+  total: number;
+}
+
+// Mirrors the split done by finalize_sale: equal installments rounded to cents,
+// with the last one absorbing the rounding difference.
+export const buildInstallmentSchedule = (
+  amount: number,
+  count: number,
+  firstDueDate: Date,
+  intervalDays: number
+): InstallmentPreview[] => {
+  const installments = Math.max(1, Math.floor(count));
+  const baseAmount = Math.round((amount / installments) * 100) / 100;
+  const schedule: InstallmentPreview[] = [];
+  let allocated = 0;
+
+  for (let i = 1; i <= installments; i++) {
+    const value = i < installments ? baseAmount : Math.round((amount - allocated) * 100) / 100;
+    allocated += value;
+    schedule.push({
+      number: i,
+      amount: value,
+      dueDate: addDays(firstDueDate, (i - 1) * intervalDays)
+    });
+  }
+
+  return schedule;
+};
+
+export const getReceivableBalance = (receivable: PendingReceivable) =>
+  Number(receivable.amount) - Number(receivable.paid_amount || 0);
+
+// Oldest due date first; installments of the same sale keep their sequence
+export const sortOldestFirst = <T extends PendingReceivable>(receivables: T[]): T[] =>
+  [...receivables].sort((a, b) =>
+    a.due_date.localeCompare(b.due_date) ||
+    (a.installment_number || 1) - (b.installment_number || 1)
+  );
+
+// Spreads a payment across pending receivables, settling the oldest ones first
+export const allocatePaymentOldestFirst = (
+  receivables: PendingReceivable[],
+  amount: number
+): ReceivableAllocation[] => {
+  const allocations: ReceivableAllocation[] = [];
+  let remaining = amount;
+
+  for (const receivable of sortOldestFirst(receivables)) {
+    if (remaining <= 0.005) break;
+
+    const balance = getReceivableBalance(receivable);
+    if (balance <= 0) continue;
+
+    const applied = Math.min(remaining, balance);
+    const newPaidAmount = Number(receivable.paid_amount || 0) + applied;
+
+    allocations.push({
+      id: receivable.id,
+      applied,
+      newPaidAmount,
+      isFullyPaid: newPaidAmount >= Number(receivable.amount) - 0.005
+    });
+
+    remaining -= applied;
+  }
+
+  return allocations;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Store columns receivable_fine_percent / receivable_daily_interest_percent
+export const getLateFeeSettings = (
+  store?: { receivable_fine_percent?: number | null; receivable_daily_interest_percent?: number | null } | null
+): LateFeeSettings => ({
+  finePercent: Number(store?.receivable_fine_percent || 0),
+  dailyInterestPercent: Number(store?.receivable_daily_interest_percent || 0)
+});
+
+// Multa is charged once after the due date; juros de mora accrue per calendar day late
+export const calculateLateCharges = (
+  principal: number,
+  dueDate: string,
+  settings: LateFeeSettings,
+  paymentDate: Date = new Date()
+): LateCharges => {
+  const daysLate = differenceInCalendarDays(paymentDate, new Date(dueDate + 'T12:00:00'));
+  if (daysLate <= 0 || principal <= 0) return { daysLate: 0, fine: 0, interest: 0 };
+
+  return {
+    daysLate,
+    fine: roundCents(principal * settings.finePercent / 100),
+    interest: roundCents(principal * settings.dailyInterestPercent / 100 * daysLate)
+  };
+};
+
+// Allocates the principal oldest-first and adds the charges due on each settled portion
+export const buildPaymentBreakdown = <T extends PendingReceivable>(
+  receivables: T[],
+  principal: number,
+  getSettings: (receivable: T) => LateFeeSettings,
+  paymentDate: Date = new Date()
+): PaymentBreakdown => {
+  const allocations = allocatePaymentOldestFirst(receivables, principal).map((allocation) => {
+    const receivable = receivables.find(r => r.id === allocation.id)!;
+    return {
+      ...allocation,
+      ...calculateLateCharges(allocation.applied, receivable.due_date, getSettings(receivable), paymentDate)
+    };
+  });
+
+  const applied = roundCents(allocations.reduce((sum, a) => sum + a.applied, 0));
+  const fine = roundCents(allocations.reduce((sum, a) => sum + a.fine, 0));
+  const interest = roundCents(allocations.reduce((sum, a) => sum + a.interest, 0));
+
+  return {
+    allocations,
+    principal: applied,
+    fine,
+    interest,
+    total: roundCents(applied + fine + interest)
+  };
+};
@@ -0,0 +1,126 @@
+import { addMonths, addWeeks, addYears, format, getDaysInMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type RecurringAccount = Tables<'recurring_accounts'>;
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export type RecurrenceRule = Pick<
+  RecurringAccount,
+  'frequency' | 'day_of_month' | 'start_date' | 'end_date' | 'max_occurrences' | 'generated_count'
+>;
+
+export interface Occurrence {
+  index: number;
+  dueDate: string;
+}
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+  yearly: 'Anual'
+};
+
+const toDate = (date: string) => new Date(date + 'T12:00:00');
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Day 31 falls on the last day of shorter months (and 29/02 on 28/02 outside leap years)
+const withClampedDay = (monthDate: Date, day: number) =>
+  new Date(monthDate.getFullYear(), monthDate.getMonth(), Math.min(day, getDaysInMonth(monthDate)), 12);
+
+// Always computed from start_date so clamped months don't drift the following ones
+export const getOccurrenceDate = (rule: RecurrenceRule, index: number): string => {
+  const start = toDate(rule.start_date);
+
+  if (rule.frequency === 'weekly') {
+    return toIsoDate(addWeeks(start, index));
+  }
+
+  const day = rule.day_of_month || start.getDate();
+  const firstMonth = new Date(start.getFullYear(), start.getMonth(), 1, 12);
+
+  if (rule.frequency === 'yearly') {
+    const firstDate = withClampedDay(firstMonth, day);
+    const offset = firstDate < start ? 1 : 0;
+    return toIsoDate(withClampedDay(addYears(firstMonth, index + offset), day));
+  }
+
+  // A day_of_month earlier than the start date moves the first bill to the next month
+  const offset = withClampedDay(firstMonth, day) < start ? 1 : 0;
+  return toIsoDate(withClampedDay(addMonths(firstMonth, index + offset), day));
+};
+
+// Next occurrences not generated yet, stopping at end_date / max_occurrences
+export const getUpcomingOccurrences = (rule: RecurrenceRule, count: number): Occurrence[] => {
+  const occurrences: Occurrence[] = [];
+
+  for (let index = rule.generated_count; occurrences.length < count; index++) {
+    if (rule.max_occurrences && index >= rule.max_occurrences) break;
+
+    const dueDate = getOccurrenceDate(rule, index);
+    if (rule.end_date && dueDate > rule.end_date) break;
+
+    occurrences.push({ index, dueDate });
+  }
+
+  return occurrences;
+};
+
+export const isRecurrenceFinished = (rule: RecurrenceRule) => getUpcomingOccurrences(rule, 1).length === 0;
+
+// Materializes the next occurrences as open accounts payable; returns how many were created
+export const generateRecurringAccounts = async (template: RecurringAccount, count: number): Promise<number> => {
+  const occurrences = getUpcomingOccurrences(template, count);
+  if (occurrences.length === 0) return 0;
+
+  // Bills already created for these dates (e.g. generated twice) are skipped
+  const { data: existing, error: existingError } = await supabase
+    .from('accounts_payable')
+    .select('due_date')
+    .eq('recurring_account_id', template.id)
+    .in('due_date', occurrences.map(o => o.dueDate));
+  if (existingError) throw existingError;
+
+  const existingDates = new Set((existing || []).map(a => a.due_date));
+  const userId = (await supabase.auth.getUser()).data.user?.id;
+
+  const accounts: TablesInsert<'accounts_payable'>[] = occurrences
+    .filter(o => !existingDates.has(o.dueDate))
+    .map(o => ({
+      recurring_account_id: template.id,
+      supplier_id: template.supplier_id,
+      cost_center_id: template.cost_center_id,
+      payment_type: template.payment_type,
+      description: template.description,
+      amount: template.amount,
+      due_date: o.dueDate,
+      observations: template.observations,
+      status: 'em_aberto',
+      pix_key: template.pix_key,
+      pix_receiver_name: template.pix_receiver_name,
+      transfer_bank: template.transfer_bank,
+      transfer_agency: template.transfer_agency,
+      transfer_account: template.transfer_account,
+      transfer_account_type: template.transfer_account_type,
+      transfer_holder_name: template.transfer_holder_name,
+      transfer_holder_document: template.transfer_holder_document,
+      created_by: userId
+    }));
+
+  if (accounts.length > 0) {
+    const { error } = await supabase.from('accounts_payable').insert(accounts);
+    if (error) throw error;
+  }
+
+  const last = occurrences[occurrences.length - 1];
+  const { error: updateError } = await supabase
+    .from('recurring_accounts')
+    .update({
+      generated_count: last.index + 1,
+      last_generated_date: last.dueDate
+    })
+    .eq('id', template.id);
+  if (updateError) throw updateError;
+
+  return accounts.length;
+};
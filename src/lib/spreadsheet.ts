@@ -0,0 +1,425 @@
+export interface SpreadsheetRow {
+  line: number; // line in the file, still right after blank rows are dropped
+  values: string[];
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetRow[];
+  // Only for text files
+  delimiter?: string;
+  encoding?: string;
+}
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ';': 'Ponto e vírgula (;)',
+  ',': 'Vírgula (,)',
+  '\t': 'Tabulação',
+  '|': 'Barra vertical (|)'
+};
+
+// ERP exports are often Windows-1252 (Latin-1); UTF-8 is tried first since it fails loudly
+export const decodeTextFile = (buffer: ArrayBuffer) => {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return { text: utf8.replace(/^\uFEFF/, ''), encoding: 'UTF-8' };
+  return { text: new TextDecoder('windows-1252').decode(buffer), encoding: 'Windows-1252 (Latin-1)' };
+};
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and "" for a literal quote.
+// A record spanning several lines is numbered by the line it starts on.
+export const parseDelimited = (text: string, delimiter: string): SpreadsheetRow[] => {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push({ line: rowLine, values: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  rows.push({ line: rowLine, values: row });
+
+  return rows.filter(({ values }) => values.some(value => value !== ''));
+};
+
+// The candidate that splits the first lines into the same number of columns, with the most columns
+export const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n');
+
+  const scores = Object.keys(DELIMITER_LABELS).map(delimiter => {
+    const counts = parseDelimited(sample, delimiter).map(({ values }) => values.length);
+    const consistent = counts.length > 0 && counts.every(count => count === counts[0]);
+    return { delimiter, columns: counts[0] || 0, consistent };
+  });
+
+  const best = scores
+    .filter(score => score.columns > 1)
+    .sort((a, b) => Number(b.consistent) - Number(a.consistent) || b.columns - a.columns)[0];
+
+  return best ? best.delimiter : ';';
+};
+
+const quoteField = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toDelimited = (rows: string[][], delimiter = ';') =>
+  rows.map(values => values.map(value => quoteField(value, delimiter)).join(delimiter)).join('\r\n');
+
+// --- XLSX (a zip of XML parts); only what's needed to read the first worksheet ---
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZipEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // End of central directory record, searched backwards past an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Arquivo XLSX inválido ou corrompido');
+
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error('Compressão do arquivo XLSX não suportada');
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const parseXml = (data: Uint8Array) =>
+  new DOMParser().parseFromString(new TextDecoder('utf-8').decode(data), 'application/xml');
+
+// "AB12" -> 27
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+/g, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Excel serial dates count days from 1899-12-30
+const formatSerialDate = (serial: number) => {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+};
+
+const readDateStyles = (styles: Document | null) => {
+  if (!styles) return new Set<number>();
+
+  const customDateFormats = new Set(
+    [...styles.getElementsByTagName('numFmt')]
+      // Strip quoted text and [colors] before looking for day/month/year tokens
+      .filter(format => /[dmy]/i.test((format.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(format => Number(format.getAttribute('numFmtId')))
+  );
+
+  const cellXfs = styles.getElementsByTagName('cellXfs')[0];
+  const dateStyles = new Set<number>();
+  [...(cellXfs?.getElementsByTagName('xf') || [])].forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId'));
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+const getFirstSheetPath = (workbook: Document | null, relationships: Document | null) => {
+  const sheet = workbook?.getElementsByTagName('sheet')[0];
+  const relationshipId = sheet?.getAttribute('r:id');
+  const relationship = [...(relationships?.getElementsByTagName('Relationship') || [])]
+    .find(item => item.getAttribute('Id') === relationshipId);
+  const target = relationship?.getAttribute('Target');
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetRow[]> => {
+  const entries = await readZipEntries(buffer);
+  const readPart = async (path: string) => {
+    const entry = entries.get(path);
+    return entry ? parseXml(await entry()) : null;
+  };
+
+  const [workbook, relationships, sharedStringsXml, styles] = await Promise.all([
+    readPart('xl/workbook.xml'),
+    readPart('xl/_rels/workbook.xml.rels'),
+    readPart('xl/sharedStrings.xml'),
+    readPart('xl/styles.xml')
+  ]);
+
+  const sheet = await readPart(getFirstSheetPath(workbook, relationships));
+  if (!sheet) throw new Error('Nenhuma planilha encontrada no arquivo XLSX');
+
+  // Rich text strings are split in several <t> runs
+  const sharedStrings = [...(sharedStringsXml?.getElementsByTagName('si') || [])]
+    .map(item => [...item.getElementsByTagName('t')].map(text => text.textContent || '').join(''));
+  const dateStyles = readDateStyles(styles);
+
+  // Excel leaves empty rows out of the sheet, so the line comes from the row's own reference
+  let previousLine = 0;
+  const rows = [...sheet.getElementsByTagName('row')].map(row => {
+    const line = Number(row.getAttribute('r')) || previousLine + 1;
+    previousLine = line;
+    const values: string[] = [];
+
+    [...row.getElementsByTagName('c')].forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] || '';
+      } else if (type === 'inlineStr') {
+        value = [...cell.getElementsByTagName('t')].map(text => text.textContent || '').join('');
+      } else if (type === 'b') {
+        value = raw === '1' ? 'VERDADEIRO' : 'FALSO';
+      } else if (!type || type === 'n') {
+        value = raw && dateStyles.has(Number(cell.getAttribute('s'))) ? formatSerialDate(Number(raw)) : raw;
+      } else {
+        value = raw;
+      }
+
+      values[index] = value.trim();
+    });
+
+    return { line, values: Array.from(values, value => value || '') };
+  });
+
+  return rows.filter(({ values }) => values.some(value => value !== ''));
+};
+
+// First row holds the headers; text files get their delimiter and encoding detected
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetData> => {
+  const buffer = await file.arrayBuffer();
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const [header, ...rows] = await readXlsx(buffer);
+    return { headers: header?.values || [], rows };
+  }
+
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Formato XLS antigo não suportado; salve a planilha como XLSX ou CSV');
+  }
+
+  const { text, encoding } = decodeTextFile(buffer);
+  const delimiter = detectDelimiter(text);
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  return { headers: header?.values || [], rows, delimiter, encoding };
+};
+
+// --- XLSX writing: an uncompressed zip with a single worksheet ---
+
+export type SpreadsheetCell = string | number | null;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const buildZip = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = (size: number) => {
+      const bytes = new Uint8Array(size);
+      const view = new DataView(bytes.buffer);
+      return { bytes, view };
+    };
+
+    const local = header(30 + name.length);
+    local.view.setUint32(0, 0x04034b50, true);
+    local.view.setUint16(4, 20, true);
+    local.view.setUint16(6, 0x0800, true); // UTF-8 names
+    local.view.setUint16(12, 0x21, true); // 1980-01-01
+    local.view.setUint32(14, crc, true);
+    local.view.setUint32(18, data.length, true);
+    local.view.setUint32(22, data.length, true);
+    local.view.setUint16(26, name.length, true);
+    local.bytes.set(name, 30);
+
+    const entry = header(46 + name.length);
+    entry.view.setUint32(0, 0x02014b50, true);
+    entry.view.setUint16(4, 20, true);
+    entry.view.setUint16(6, 20, true);
+    entry.view.setUint16(8, 0x0800, true);
+    entry.view.setUint16(14, 0x21, true);
+    entry.view.setUint32(16, crc, true);
+    entry.view.setUint32(20, data.length, true);
+    entry.view.setUint32(24, data.length, true);
+    entry.view.setUint16(28, name.length, true);
+    entry.view.setUint32(42, offset, true);
+    entry.bytes.set(name, 46);
+
+    chunks.push(local.bytes, data);
+    central.push(entry.bytes);
+    offset += local.bytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, entry) => sum + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const chunk of [...chunks, ...central, end]) {
+    zip.set(chunk, position);
+    position += chunk.length;
+  }
+  return zip;
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Cell styles: 0 plain, 1 bold (header row), 2 numbers as #,##0.00
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+// The first row is written in bold as the header; numbers stay numeric so they can be summed in Excel
+export const buildXlsx = (rows: SpreadsheetCell[][], sheetName = 'Planilha') => {
+  const sheetRows = rows.map((values, rowIndex) => {
+    const cells = values.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (value === null || value === '') return '';
+      if (typeof value === 'number') return `<c r="${reference}" s="2"><v>${value}</v></c>`;
+      return `<c r="${reference}" t="inlineStr"${rowIndex === 0 ? ' s="1"' : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  // Excel rejects sheet names over 31 characters or with []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+    },
+    { name: 'xl/styles.xml', content: XLSX_STYLES },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+    }
+  ]);
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
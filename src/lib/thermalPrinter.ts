@@ -0,0 +1,186 @@
+import { encodeEscPos, renderEscPosHtml, type EscPosDocument } from '@/lib/escpos';
+import { openPrintWindow } from '@/lib/printing';
+
+// Delivery of ESC/POS documents to the store's thermal printer.
+//
+// Web Serial and WebUSB only reach printers the register's browser was paired with, which needs a
+// click (pairThermalPrinter); afterwards prints go out without any dialog. The print agent is a
+// program on the register's computer that accepts the raw bytes over HTTP and forwards them.
+
+export type ThermalFormat = 'escpos_58' | 'escpos_80';
+
+export type PrinterConnection = 'serial' | 'usb' | 'agent';
+
+export const PRINTER_CONNECTION_LABELS: Record<PrinterConnection, string> = {
+  serial: 'Serial / USB-Serial (Web Serial)',
+  usb: 'USB (WebUSB)',
+  agent: 'Agente de impressão local'
+};
+
+// Characters per line with the printer's default font
+export const THERMAL_COLUMNS: Record<ThermalFormat, number> = {
+  escpos_58: 32,
+  escpos_80: 48
+};
+
+export interface ThermalPrinterConfig {
+  format: ThermalFormat;
+  connection: PrinterConnection;
+  agentUrl: string | null;
+  cashDrawer: boolean;
+}
+
+interface ThermalPrinterStore {
+  pdv_print_format?: string | null;
+  pdv_printer_connection?: string | null;
+  pdv_print_agent_url?: string | null;
+  pdv_cash_drawer?: boolean | null;
+}
+
+export const isThermalFormat = (format: string | null | undefined): format is ThermalFormat =>
+  format === 'escpos_58' || format === 'escpos_80';
+
+// null when the store prints through the browser (a4 or bobina)
+export const getThermalPrinterConfig = (store: ThermalPrinterStore | null | undefined): ThermalPrinterConfig | null =>
+  store && isThermalFormat(store.pdv_print_format)
+    ? {
+        format: store.pdv_print_format,
+        connection: (store.pdv_printer_connection as PrinterConnection) || 'serial',
+        agentUrl: store.pdv_print_agent_url || null,
+        cashDrawer: !!store.pdv_cash_drawer
+      }
+    : null;
+
+// Web Serial and WebUSB are not in the TypeScript DOM types; only what is used here is declared
+interface SerialPortLike {
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+  writable: WritableStream<Uint8Array> | null;
+}
+
+interface UsbDeviceLike {
+  opened: boolean;
+  configuration: { interfaces: UsbInterfaceLike[] } | null;
+  open: () => Promise<void>;
+  close: () => Promise<void>;
+  selectConfiguration: (value: number) => Promise<void>;
+  claimInterface: (interfaceNumber: number) => Promise<void>;
+  releaseInterface: (interfaceNumber: number) => Promise<void>;
+  transferOut: (endpointNumber: number, data: Uint8Array) => Promise<unknown>;
+}
+
+interface UsbInterfaceLike {
+  interfaceNumber: number;
+  alternate: { endpoints: { endpointNumber: number; direction: 'in' | 'out'; type: string }[] };
+}
+
+interface PrinterNavigator {
+  serial?: {
+    getPorts: () => Promise<SerialPortLike[]>;
+    requestPort: () => Promise<SerialPortLike>;
+  };
+  usb?: {
+    getDevices: () => Promise<UsbDeviceLike[]>;
+    requestDevice: (options: { filters: object[] }) => Promise<UsbDeviceLike>;
+  };
+}
+
+// Most thermal printers with a serial or USB-serial port ship at 9600 baud
+const SERIAL_BAUD_RATE = 9600;
+
+const printerNavigator = () => navigator as unknown as PrinterNavigator;
+
+const getSerial = () => {
+  const serial = printerNavigator().serial;
+  if (!serial) throw new Error('Este navegador não tem suporte a Web Serial. Use o Chrome ou o Edge.');
+  return serial;
+};
+
+const getUsb = () => {
+  const usb = printerNavigator().usb;
+  if (!usb) throw new Error('Este navegador não tem suporte a WebUSB. Use o Chrome ou o Edge.');
+  return usb;
+};
+
+const NOT_PAIRED = 'Impressora não pareada neste computador. Use "Parear impressora" no PDV.';
+
+const sendSerial = async (data: Uint8Array) => {
+  const [port] = await getSerial().getPorts();
+  if (!port) throw new Error(NOT_PAIRED);
+
+  await port.open({ baudRate: SERIAL_BAUD_RATE });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+};
+
+const sendUsb = async (data: Uint8Array) => {
+  const [device] = await getUsb().getDevices();
+  if (!device) throw new Error(NOT_PAIRED);
+
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  // The printer class interface is the one with a bulk OUT endpoint
+  const printerInterface = device.configuration!.interfaces.find(item =>
+    item.alternate.endpoints.some(endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk')
+  );
+  if (!printerInterface) throw new Error('O dispositivo USB pareado não é uma impressora');
+  const endpoint = printerInterface.alternate.endpoints.find(item => item.direction === 'out' && item.type === 'bulk')!;
+
+  await device.claimInterface(printerInterface.interfaceNumber);
+  try {
+    await device.transferOut(endpoint.endpointNumber, data);
+  } finally {
+    await device.releaseInterface(printerInterface.interfaceNumber);
+    await device.close();
+  }
+};
+
+const sendToAgent = async (url: string | null, data: Uint8Array) => {
+  if (!url) throw new Error('Endereço do agente de impressão não configurado na loja');
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data.buffer as ArrayBuffer
+  });
+  if (!response.ok) throw new Error(`Agente de impressão respondeu ${response.status}`);
+};
+
+export const sendToThermalPrinter = async (config: ThermalPrinterConfig, document: EscPosDocument) => {
+  const data = encodeEscPos(document);
+  if (config.connection === 'usb') await sendUsb(data);
+  else if (config.connection === 'agent') await sendToAgent(config.agentUrl, data);
+  else await sendSerial(data);
+};
+
+// Asks the browser for the printer; must run from a click
+export const pairThermalPrinter = async (connection: PrinterConnection) => {
+  if (connection === 'usb') await getUsb().requestDevice({ filters: [] });
+  else if (connection === 'serial') await getSerial().requestPort();
+};
+
+// Prints on the thermal printer or, without a config or when it can't be reached, through the
+// browser with the same layout. Returns the printer error so the caller can report the fallback.
+export const printEscPosDocument = async (config: ThermalPrinterConfig | null, document: EscPosDocument, title?: string) => {
+  if (config) {
+    try {
+      await sendToThermalPrinter(config, document);
+      return null;
+    } catch (error) {
+      openPrintWindow(renderEscPosHtml(document, title));
+      return error as Error;
+    }
+  }
+
+  openPrintWindow(renderEscPosHtml(document, title));
+  return null;
+};
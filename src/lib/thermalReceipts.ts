@@ -0,0 +1,175 @@
+import { format } from 'date-fns';
+import { createEscPosDocument, type EscPosBuilder } from '@/lib/escpos';
+import { formatCurrency, type PrintableStore } from '@/lib/printing';
+
+// Receipts, quotes and cash closing reports laid out for thermal printers
+
+export interface ThermalReceiptItem {
+  name: string;
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  total: number;
+}
+
+export interface ThermalSale {
+  store: PrintableStore | null | undefined;
+  number: string;
+  date: string;
+  customer: { name: string; document?: string | null; phone?: string | null } | null | undefined;
+  items: ThermalReceiptItem[];
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  payments: { name: string; amount: number }[];
+  // Cash handed over by the customer and the change given back
+  cashTendered?: number;
+  change?: number;
+  deliveryAddress?: string | null;
+  deliveryDate?: string | null;
+  // PIX BR Code printed as a QR code
+  pixPayload?: string | null;
+}
+
+export type ThermalQuote = Omit<ThermalSale, 'payments' | 'cashTendered' | 'change' | 'pixPayload'>;
+
+export interface ThermalCashClosing {
+  store: PrintableStore | null | undefined;
+  date: string; // yyyy-MM-dd
+  closed: boolean;
+  openedBy?: string | null;
+  openedAt?: string | null;
+  closedBy?: string | null;
+  closedAt?: string | null;
+  salesCount: number;
+  totalSales: number;
+  // Expected per payment type, with what was counted when the register was closed
+  methods: { label: string; expected: number; counted?: number | null }[];
+  movements: { type: 'sangria' | 'suprimento'; amount: number; reason: string; createdAt: string }[];
+  difference?: number | null;
+  notes?: string | null;
+}
+
+const formatDateTime = (date: string) => format(new Date(date), 'dd/MM/yyyy HH:mm');
+
+const addStoreHeader = (doc: EscPosBuilder, store: PrintableStore | null | undefined, lines: string[]) => {
+  doc.text(store?.name || 'Loja', { align: 'center', bold: true, large: true });
+  if (store?.cnpj) doc.text(`CNPJ: ${store.cnpj}`, { align: 'center' });
+  if (store?.address) doc.text(store.address, { align: 'center' });
+  if (store?.phone) doc.text(`Tel: ${store.phone}`, { align: 'center' });
+  lines.forEach(line => doc.text(line, { align: 'center' }));
+  doc.separator();
+};
+
+const addCustomerAndItems = (doc: EscPosBuilder, sale: ThermalQuote) => {
+  if (sale.customer) {
+    doc.text(`Cliente: ${sale.customer.name}`);
+    if (sale.customer.document) doc.text(`Doc: ${sale.customer.document}`);
+    if (sale.customer.phone) doc.text(`Tel: ${sale.customer.phone}`);
+  }
+  if (sale.deliveryAddress) doc.text(`Entrega: ${sale.deliveryAddress}`);
+  if (sale.deliveryDate) doc.text(`Data de entrega: ${format(new Date(sale.deliveryDate + 'T12:00:00'), 'dd/MM/yyyy')}`);
+  doc.separator();
+
+  sale.items.forEach(item => {
+    doc.text(item.name, { bold: true });
+    doc.row(`${item.quantity} x ${formatCurrency(item.unit_price)}`, formatCurrency(item.total));
+    if (Number(item.discount_amount) > 0) doc.row('  Desconto', `-${formatCurrency(item.discount_amount)}`);
+  });
+  doc.separator();
+
+  doc.row('Subtotal', formatCurrency(sale.subtotal));
+  if (Number(sale.discountAmount) > 0) doc.row('Desconto', `-${formatCurrency(sale.discountAmount)}`);
+  doc.row('TOTAL', formatCurrency(sale.total), { bold: true });
+};
+
+// The drawer opens before the receipt comes out, so change can be given while it prints
+export const buildSaleReceipt = (sale: ThermalSale, columns: number, { openDrawer = false } = {}) => {
+  const doc = createEscPosDocument(columns);
+  if (openDrawer) doc.openDrawer();
+
+  addStoreHeader(doc, sale.store, [`Pedido: ${sale.number}`, formatDateTime(sale.date)]);
+  addCustomerAndItems(doc, sale);
+
+  if (sale.payments.length > 0) {
+    doc.separator();
+    sale.payments.forEach(payment => doc.row(payment.name, formatCurrency(payment.amount)));
+  }
+  if (sale.change > 0) {
+    doc.row('Recebido em dinheiro', formatCurrency(sale.cashTendered));
+    doc.row('TROCO', formatCurrency(sale.change), { bold: true });
+  }
+
+  if (sale.pixPayload) {
+    doc.feed().text('Pague com PIX', { align: 'center', bold: true }).qrcode(sale.pixPayload);
+  }
+
+  doc.feed().barcode(sale.number).feed();
+  doc.text('Obrigado pela preferência!', { align: 'center' });
+  doc.cut();
+  return doc.document;
+};
+
+export const buildQuoteReceipt = (quote: ThermalQuote, columns: number) => {
+  const doc = createEscPosDocument(columns);
+
+  addStoreHeader(doc, quote.store, ['ORÇAMENTO', `Nº ${quote.number}`, formatDateTime(quote.date)]);
+  addCustomerAndItems(doc, quote);
+
+  doc.feed().barcode(quote.number).feed();
+  doc.text('Não é comprovante de pagamento. Preços sujeitos a alteração.', { align: 'center' });
+  doc.cut();
+  return doc.document;
+};
+
+export const buildCashClosingReport = (report: ThermalCashClosing, columns: number) => {
+  const doc = createEscPosDocument(columns);
+
+  addStoreHeader(doc, report.store, [
+    report.closed ? 'FECHAMENTO DE CAIXA' : 'RESUMO DO CAIXA (ABERTO)',
+    format(new Date(report.date + 'T12:00:00'), 'dd/MM/yyyy')
+  ]);
+
+  if (report.openedAt) doc.text(`Aberto: ${formatDateTime(report.openedAt)}${report.openedBy ? ` - ${report.openedBy}` : ''}`);
+  if (report.closedAt) doc.text(`Fechado: ${formatDateTime(report.closedAt)}${report.closedBy ? ` - ${report.closedBy}` : ''}`);
+  doc.row('Vendas', String(report.salesCount));
+  doc.row('Total vendido', formatCurrency(report.totalSales), { bold: true });
+  doc.separator();
+
+  doc.text('ESPERADO', { bold: true });
+  report.methods.forEach(method => doc.row(method.label, formatCurrency(method.expected)));
+
+  const counted = report.methods.filter(method => method.counted !== null && method.counted !== undefined);
+  if (counted.length > 0) {
+    doc.separator();
+    doc.text('CONTADO', { bold: true });
+    counted.forEach(method => doc.row(method.label, formatCurrency(method.counted!)));
+  }
+
+  if (report.movements.length > 0) {
+    doc.separator();
+    doc.text('SANGRIAS E SUPRIMENTOS', { bold: true });
+    report.movements.forEach(movement => {
+      const sign = movement.type === 'sangria' ? '-' : '+';
+      doc.row(
+        `${format(new Date(movement.createdAt), 'HH:mm')} ${movement.reason}`,
+        `${sign}${formatCurrency(movement.amount)}`
+      );
+    });
+  }
+
+  if (report.difference !== null && report.difference !== undefined) {
+    doc.separator();
+    doc.row('Diferença em dinheiro', formatCurrency(report.difference), { bold: true });
+  }
+  if (report.notes) {
+    doc.separator();
+    doc.text(`Obs: ${report.notes}`);
+  }
+
+  doc.feed(2);
+  doc.text('_'.repeat(Math.min(columns, 32)), { align: 'center' });
+  doc.text('Responsável', { align: 'center' });
+  doc.cut();
+  return doc.document;
+};
@@ -0,0 +1,23 @@
+import { formatCpf } from '@/lib/documents';
+
+// Counter sales without a customer record ("consumidor final"). The sale may carry just the CPF
+// the customer asked to have on the receipt (sales.customer_document).
+
+export const WALK_IN_CUSTOMER_NAME = 'Consumidor final';
+
+interface SaleCustomer {
+  name: string;
+  document?: string | null;
+  phone?: string | null;
+}
+
+// The customer printed and listed for a sale; walk-in sales show the CPF given at the counter
+export const getSaleCustomer = (
+  customer: SaleCustomer | null | undefined,
+  customerDocument?: string | null
+): SaleCustomer =>
+  customer || {
+    name: WALK_IN_CUSTOMER_NAME,
+    document: customerDocument ? `CPF ${formatCpf(customerDocument)}` : null,
+    phone: null
+  };
@@ -1,7 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, DollarSign, AlertTriangle, CheckCircle, Calendar, Upload, Filter, X } from 'lucide-react';
+import { Plus, DollarSign, AlertTriangle, CheckCircle, Calendar, Upload, Filter, X, Repeat, Landmark, FileText, ShieldCheck } from 'lucide-react';
 import { AccountForm } from '@/components/accounts-payable/AccountForm';
 import { AccountsList } from '@/components/accounts-payable/AccountsList';
 import { CSVImport } from '@/components/accounts-payable/CSVImport';
@@ -11,6 +12,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { OPEN_ACCOUNT_STATUSES, getAccountBalance } from '@/lib/payables';
+import type { PayablesView } from '@/lib/payablesQuery';
 
 const timeZone = 'America/Sao_Paulo';
 const locale = 'fr-CA'; // Esse locale força o formato YYYY-MM-DD
@@ -24,9 +27,11 @@ interface DashboardStats {
   dueNextWeek: number;
   paidToday: number;
   paidLast30Days: number;
+  pendingApproval: number;
+  pendingApprovalCount: number;
 }
 
-type DashboardFilter = 'all' | 'open' | 'overdue' | 'due_today' | 'due_tomorrow' | 'due_next_week' | 'paid_today' | 'paid_last_30_days';
+type DashboardFilter = 'all' | PayablesView;
 
 function getDataBrasil(diasParaAdicionar = 0) {
   const data = new Date();
@@ -38,7 +43,6 @@ function getDataBrasil(diasParaAdicionar = 0) {
 }
 
 const AccountsPayable = () => {
-  const [accounts, setAccounts] = useState([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalOpen: 0,
     totalOverdue: 0,
@@ -47,102 +51,20 @@ const AccountsPayable = () => {
     dueNextWeek: 0,
     paidToday: 0,
     paidLast30Days: 0,
+    pendingApproval: 0,
+    pendingApprovalCount: 0,
   });
-  const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [activeFilter, setActiveFilter] = useState<DashboardFilter>('all');
   const [dateFilterOpen, setDateFilterOpen] = useState(false);
   const [customDateFrom, setCustomDateFrom] = useState<string>('');
   const [customDateUntil, setCustomDateUntil] = useState<string>('');
+  // The range applied to the list; the inputs above only take effect on "Aplicar"
+  const [dateRange, setDateRange] = useState<{ from: string; until: string }>({ from: '', until: '' });
+  const [listVersion, setListVersion] = useState(0);
   const { toast } = useToast();
-
-  const fetchAccounts = useCallback(async (customDateFrom?: Date, customDateUntil?: Date, filter?: DashboardFilter) => {
-    try {
-      console.log('fetchAccounts called with:', { customDateFrom, customDateUntil, filter });
-
-      const today = getDataBrasil(0);
-      const tomorrow = getDataBrasil(1);
-      const nextWeek = getDataBrasil(7);
-
-      let query = supabase
-        .from('accounts_payable')
-        .select(`
-          *,
-          suppliers(name),  
-          cost_centers(name, code)
-        `);
-
-      // Aplicar filtro do dashboard se fornecido
-      if (filter) {
-        switch (filter) {
-          case 'open':
-            query = query.eq('status', 'em_aberto');
-            break;
-          case 'overdue':
-            query = query.eq('status', 'em_aberto').lt('due_date', today);
-            break;
-          case 'due_today':
-            query = query.eq('status', 'em_aberto').eq('due_date', today);
-            break;
-          case 'due_tomorrow':
-            query = query.eq('status', 'em_aberto').eq('due_date', tomorrow);
-            break;
-          case 'due_next_week':
-            query = query.eq('status', 'em_aberto').gte('due_date', today).lte('due_date', nextWeek);
-            break;
-          case 'paid_today': {
-            // Para mostrar contas pagas hoje, vamos buscar da tabela de payments
-            query = supabase
-              .from('accounts_payable')
-              .select(`
-                  *, 
-                  suppliers(name), 
-                  cost_centers(name,code), 
-                  payments!inner(account_id) 
-                  `)
-              .eq('payments.payment_date', today);
-            break;
-          }
-          case 'paid_last_30_days': {
-            const thirtyDaysAgo = getDataBrasil(-30);
-            query = supabase
-              .from('accounts_payable')
-              .select('*, suppliers(name), cost_centers(name,code), payments!inner(payment_date)')
-              .gte('payments.payment_date', thirtyDaysAgo);
-            break;
-          }
-        }
-      } else if (customDateFrom || customDateUntil) {
-        // Aplicar filtros customizados de data
-        if (customDateFrom) {
-          const fromDateStr = customDateFrom.toISOString().split('T')[0];
-          query = query.gte('due_date', fromDateStr);
-        }
-        if (customDateUntil) {
-          const untilDateStr = customDateUntil.toISOString().split('T')[0];
-          query = query.lte('due_date', untilDateStr);
-        }
-      } else {
-        // Filtro padrão (hoje até próxima semana)
-        query = query.eq('due_date', today);
-      }
-
-      const { data, error } = await query.order('due_date', { ascending: true });
-
-      if (error) throw error;
-      setAccounts(data || []);
-    } catch (error) {
-      console.error('Erro ao carregar contas:', error);
-      toast({
-        title: "Erro",
-        description: "Falha ao carregar contas a pagar",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast]);
+  const navigate = useNavigate();
 
   const fetchStats = useCallback(async () => {
     try {
@@ -154,35 +76,35 @@ const AccountsPayable = () => {
       // Total em aberto
       const { data: openAccounts } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto');
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES);
 
       // Total vencido
       const { data: overdueAccounts } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .lt('due_date', today);
 
       // Vencendo hoje
       const { data: dueTodayData } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .eq('due_date', today);
 
       // Vencendo amanhã
       const { data: dueTomorrowData } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .eq('due_date', tomorrow);
 
       // Vencendo na próxima semana
       const { data: dueNextWeekData } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .gte('due_date', today)
         .lte('due_date', nextWeek);
 
@@ -199,14 +121,24 @@ const AccountsPayable = () => {
         .select('amount_paid')
         .gte('payment_date', thirtyDaysAgo);
 
+      // Aguardando aprovação
+      const { data: pendingApprovalData } = await supabase
+        .from('accounts_payable')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
+        .eq('approval_status', 'pendente');
+
+      // Open amounts are the remaining balance of partially paid accounts
       setStats({
-        totalOpen: openAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        totalOverdue: overdueAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        dueToday: dueTodayData?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        dueTomorrow: dueTomorrowData?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        dueNextWeek: dueNextWeekData?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
+        totalOpen: openAccounts?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        totalOverdue: overdueAccounts?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        dueToday: dueTodayData?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        dueTomorrow: dueTomorrowData?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        dueNextWeek: dueNextWeekData?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
         paidToday: paidTodayData?.reduce((sum, payment) => sum + Number(payment.amount_paid), 0) || 0,
         paidLast30Days: paidLast30DaysData?.reduce((sum, payment) => sum + Number(payment.amount_paid), 0) || 0,
+        pendingApproval: pendingApprovalData?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        pendingApprovalCount: pendingApprovalData?.length || 0,
       });
     } catch (error) {
       console.error('Erro ao carregar estatísticas:', error);
@@ -214,13 +146,12 @@ const AccountsPayable = () => {
   }, []);
 
   useEffect(() => {
-    fetchAccounts();
     fetchStats();
-  }, [fetchAccounts, fetchStats]);
+  }, [fetchStats]);
 
   const handleAccountCreated = () => {
     setIsDialogOpen(false);
-    fetchAccounts();
+    setListVersion(version => version + 1);
     fetchStats();
     toast({
       title: "Sucesso",
@@ -230,7 +161,7 @@ const AccountsPayable = () => {
 
   const handleImportSuccess = () => {
     setIsImportDialogOpen(false);
-    fetchAccounts();
+    setListVersion(version => version + 1);
     fetchStats();
   };
 
@@ -243,32 +174,31 @@ const AccountsPayable = () => {
 
   const handleDashboardCardClick = (filter: DashboardFilter) => {
     setActiveFilter(filter);
-    setLoading(true);
     // Limpar filtros de data customizados ao clicar em card
     setCustomDateFrom('');
     setCustomDateUntil('');
-    fetchAccounts(undefined, undefined, filter);
+    setDateRange({ from: '', until: '' });
   };
 
   const handleApplyDateFilter = () => {
-    const fromDate = customDateFrom ? new Date(customDateFrom + 'T12:00:00') : undefined;
-    const untilDate = customDateUntil ? new Date(customDateUntil + 'T12:00:00') : undefined;
-
     setActiveFilter('all');
     setDateFilterOpen(false);
-    setLoading(true);
-    fetchAccounts(fromDate, untilDate);
+    setDateRange({ from: customDateFrom, until: customDateUntil });
   };
 
   const handleClearDateFilter = () => {
     setCustomDateFrom('');
     setCustomDateUntil('');
+    setDateRange({ from: '', until: '' });
     setDateFilterOpen(false);
     setActiveFilter('all');
-    setLoading(true);
-    fetchAccounts();
   };
 
+  // Any period can be listed since the list pages through the database; without a card or a range, today's accounts
+  const hasDateRange = Boolean(dateRange.from || dateRange.until);
+  const listDueFrom = activeFilter !== 'all' ? undefined : hasDateRange ? dateRange.from || undefined : getDataBrasil(0);
+  const listDueUntil = activeFilter !== 'all' ? undefined : hasDateRange ? dateRange.until || undefined : getDataBrasil(0);
+
   return (
     <div className="w-full overflow-x-hidden">
       <div className="container mx-auto px-0 space-y-6 max-w-full">
@@ -287,7 +217,7 @@ const AccountsPayable = () => {
                 <Button variant="outline" size="sm" className="gap-2">
                   <Filter className="h-4 w-4" />
                   Filtrar por Data
-                  {(customDateFrom || customDateUntil) && (
+                  {hasDateRange && (
                     <span className="ml-1 flex h-5 w-5 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
                       1
                     </span>
@@ -352,6 +282,21 @@ const AccountsPayable = () => {
               </PopoverContent>
             </Popover>
 
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/accounts/recurring')}>
+              <Repeat className="h-4 w-4" />
+              Recorrentes
+            </Button>
+
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/accounts/reconciliation')}>
+              <Landmark className="h-4 w-4" />
+              Conciliação
+            </Button>
+
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/accounts/remittances')}>
+              <FileText className="h-4 w-4" />
+              Remessas
+            </Button>
+
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
                 <Button>
@@ -483,24 +428,34 @@ const AccountsPayable = () => {
               </p>
             </CardContent>
           </Card>
+
+          <Card
+            className={`cursor-pointer transition-all hover:shadow-md ${activeFilter === 'pending_approval' ? 'ring-2 ring-amber-500' : ''}`}
+            onClick={() => handleDashboardCardClick('pending_approval')}
+          >
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Aguardando Aprovação</CardTitle>
+              <ShieldCheck className="h-4 w-4 text-amber-500" />
+            </CardHeader>
+            <CardContent className='pl-6'>
+              <div className="text-2xl font-bold text-amber-500">{formatCurrency(stats.pendingApproval)}</div>
+              <p className="text-xs text-muted-foreground">
+                {stats.pendingApprovalCount} conta(s) bloqueada(s) para pagamento
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
         <Card>
           <CardHeader>
             <CardTitle>
               Lista de Contas a Pagar
-              {(activeFilter !== 'all' || customDateFrom || customDateUntil) && (
+              {(activeFilter !== 'all' || hasDateRange) && (
                 <Button
                   variant="ghost"
                   size="sm"
                   className="ml-2"
-                  onClick={() => {
-                    setActiveFilter('all');
-                    setCustomDateFrom('');
-                    setCustomDateUntil('');
-                    setLoading(true);
-                    fetchAccounts();
-                  }}
+                  onClick={handleClearDateFilter}
                 >
                   Limpar Filtro
                 </Button>
@@ -509,10 +464,10 @@ const AccountsPayable = () => {
             <CardDescription>
               {activeFilter !== 'all' ? (
                 'Mostrando contas filtradas pelo dashboard'
-              ) : customDateFrom || customDateUntil ? (
-                `Período: ${customDateFrom ? new Date(customDateFrom + 'T12:00:00').toLocaleDateString('pt-BR', {
+              ) : hasDateRange ? (
+                `Período: ${dateRange.from ? new Date(dateRange.from + 'T12:00:00').toLocaleDateString('pt-BR', {
                   timeZone: 'America/Sao_Paulo'
-                }) : '...'} até ${customDateUntil ? new Date(customDateUntil + 'T12:00:00').toLocaleDateString('pt-BR', {
+                }) : '...'} até ${dateRange.until ? new Date(dateRange.until + 'T12:00:00').toLocaleDateString('pt-BR', {
                   timeZone: 'America/Sao_Paulo'
                 }) : '...'}`
               ) : (
@@ -522,18 +477,18 @@ const AccountsPayable = () => {
           </CardHeader>
           <CardContent>
             <AccountsList
-              accounts={accounts}
-              loading={loading}
-              onUpdate={() => {
-                fetchAccounts(undefined, undefined, activeFilter !== 'all' ? activeFilter : undefined);
-                fetchStats();
-              }}
+              view={activeFilter !== 'all' ? activeFilter : undefined}
+              dueFrom={listDueFrom}
+              dueUntil={listDueUntil}
+              refreshKey={listVersion}
+              onUpdate={fetchStats}
               onDateFilterChange={(fromDate, untilDate) => {
+                const from = fromDate ? fromDate.toISOString().split('T')[0] : '';
+                const until = untilDate ? untilDate.toISOString().split('T')[0] : '';
                 setActiveFilter('all');
-                setCustomDateFrom(fromDate ? fromDate.toISOString().split('T')[0] : '');
-                setCustomDateUntil(untilDate ? untilDate.toISOString().split('T')[0] : '');
-                console.log('Date filter changed:', { fromDate, untilDate });
-                fetchAccounts(fromDate, untilDate);
+                setCustomDateFrom(from);
+                setCustomDateUntil(until);
+                setDateRange({ from, until });
               }}
             />
           </CardContent>
@@ -15,12 +15,16 @@ import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { buildPaymentBreakdown, calculateLateCharges, getLateFeeSettings, getReceivableBalance, type PaymentBreakdown } from '@/lib/receivables';
+import { printCreditPaymentReceipt, type CreditPaymentReceipt } from '@/lib/creditPaymentReceipt';
 
 interface AccountReceivable {
   id: string;
   amount: number;
   paid_amount: number | null;
   due_date: string;
+  installment_number: number;
+  installment_count: number;
   status: string;
   notes: string | null;
   created_at: string;
@@ -35,6 +39,12 @@ interface AccountReceivable {
     total: number;
     store: {
       name: string;
+      cnpj: string | null;
+      address: string | null;
+      phone: string | null;
+      pdv_print_format: string | null;
+      receivable_fine_percent: number | null;
+      receivable_daily_interest_percent: number | null;
     };
   };
 }
@@ -60,7 +70,7 @@ const AccountsReceivable = () => {
         .select(`
           *,
           customer:customers(id, name, document),
-          sale:sales(id, sale_number, total, store:stores(name))
+          sale:sales(id, sale_number, total, store:stores(name, cnpj, address, phone, pdv_print_format, receivable_fine_percent, receivable_daily_interest_percent))
         `)
         .order('due_date', { ascending: true });
 
@@ -86,9 +96,9 @@ const AccountsReceivable = () => {
 
   // Mutation to record payment
   const paymentMutation = useMutation({
-    mutationFn: async ({ accountId, amount, methodId, notes }: { 
+    mutationFn: async ({ accountId, breakdown, methodId, notes }: { 
       accountId: string; 
-      amount: number; 
+      breakdown: PaymentBreakdown; 
       methodId: string; 
       notes: string 
     }) => {
@@ -98,51 +108,87 @@ const AccountsReceivable = () => {
       const account = accounts?.find(a => a.id === accountId);
       if (!account) throw new Error('Conta não encontrada');
 
-      const currentPaid = account.paid_amount || 0;
-      const newPaidAmount = currentPaid + amount;
-      const remaining = account.amount - newPaidAmount;
-
-      // Update the account
-      const { error: updateError } = await supabase
-        .from('accounts_receivable')
-        .update({
-          paid_amount: newPaidAmount,
-          status: remaining <= 0 ? 'paid' : 'pending',
-          paid_at: remaining <= 0 ? new Date().toISOString() : null,
-          paid_by: remaining <= 0 ? user.id : null,
-          notes: notes || account.notes,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', accountId);
-
-      if (updateError) throw updateError;
+      // Settle the sale's open installments oldest-first
+      const saleInstallments = getOpenInstallments(account);
+      const currentPaid = saleInstallments.reduce((sum, a) => sum + (a.paid_amount || 0), 0);
+      const amount = breakdown.principal;
+
+      for (const allocation of breakdown.allocations) {
+        const installment = saleInstallments.find(a => a.id === allocation.id);
+
+        const { error: updateError } = await supabase
+          .from('accounts_receivable')
+          .update({
+            paid_amount: allocation.newPaidAmount,
+            status: allocation.isFullyPaid ? 'paid' : 'pending',
+            paid_at: allocation.isFullyPaid ? new Date().toISOString() : null,
+            paid_by: allocation.isFullyPaid ? user.id : null,
+            notes: notes || installment?.notes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', allocation.id);
+
+        if (updateError) throw updateError;
+      }
 
       // Log to customer credit history
       await supabase.from('customer_credit_history').insert({
         customer_id: account.customer.id,
         action_type: 'payment',
         old_value: currentPaid,
-        new_value: newPaidAmount,
+        new_value: currentPaid + amount,
         reference_type: 'accounts_receivable',
         reference_id: accountId,
-        notes: `Pagamento de R$ ${amount.toFixed(2)} - ${notes || 'Sem observações'}`,
+        notes: `Pagamento de R$ ${amount.toFixed(2)}${breakdown.fine + breakdown.interest > 0 ? ` + encargos R$ ${(breakdown.fine + breakdown.interest).toFixed(2)}` : ''} - ${notes || 'Sem observações'}`,
         created_by: user.id
       });
 
-      // Record in customer credit payments
+      // Record in customer credit payments, charges apart from principal
       await supabase.from('customer_credit_payments').insert({
         customer_id: account.customer.id,
-        amount: amount,
+        amount: breakdown.total,
+        principal_amount: breakdown.principal,
+        fine_amount: breakdown.fine,
+        interest_amount: breakdown.interest,
         payment_method_id: methodId || null,
         notes: notes,
         created_by: user.id
       });
 
-      return { success: true };
+      const receipt: CreditPaymentReceipt = {
+        store: account.sale.store,
+        printFormat: account.sale.store.pdv_print_format,
+        customer: account.customer,
+        paymentMethod: paymentMethods?.find(m => m.id === methodId)?.name,
+        paidAt: new Date(),
+        lines: breakdown.allocations.map((allocation) => {
+          const installment = saleInstallments.find(a => a.id === allocation.id)!;
+          return {
+            description: `Venda ${account.sale.sale_number} - Parcela ${installment.installment_number}/${installment.installment_count}`,
+            dueDate: installment.due_date,
+            principal: allocation.applied,
+            fine: allocation.fine,
+            interest: allocation.interest,
+            daysLate: allocation.daysLate
+          };
+        }),
+        principal: breakdown.principal,
+        fine: breakdown.fine,
+        interest: breakdown.interest,
+        total: breakdown.total,
+        notes
+      };
+
+      return receipt;
     },
-    onSuccess: () => {
+    onSuccess: (receipt) => {
       queryClient.invalidateQueries({ queryKey: ['accounts-receivable'] });
-      toast.success('Pagamento registrado com sucesso!');
+      toast.success('Pagamento registrado com sucesso!', {
+        action: {
+          label: 'Imprimir comprovante',
+          onClick: () => printCreditPaymentReceipt(receipt)
+        }
+      });
       setPaymentModalOpen(false);
       resetPaymentForm();
     },
@@ -151,6 +197,22 @@ const AccountsReceivable = () => {
     }
   });
 
+  // Pending installments of the same sale as the given account
+  const getOpenInstallments = (account: AccountReceivable) =>
+    (accounts || []).filter(a => a.sale.id === account.sale.id && a.status === 'pending');
+
+  // Multa and juros de mora due today on the whole remaining balance
+  const getAccountCharges = (account: AccountReceivable) =>
+    calculateLateCharges(getReceivableBalance(account), account.due_date, getLateFeeSettings(account.sale.store));
+
+  const paymentBreakdown = selectedAccount
+    ? buildPaymentBreakdown(
+        getOpenInstallments(selectedAccount),
+        parseFloat(paymentAmount) || 0,
+        (a) => getLateFeeSettings(a.sale.store)
+      )
+    : null;
+
   const resetPaymentForm = () => {
     setPaymentAmount('');
     setPaymentMethodId('');
@@ -174,15 +236,15 @@ const AccountsReceivable = () => {
       return;
     }
 
-    const remaining = selectedAccount.amount - (selectedAccount.paid_amount || 0);
-    if (amount > remaining) {
+    const remaining = getOpenInstallments(selectedAccount).reduce((sum, a) => sum + getReceivableBalance(a), 0);
+    if (amount > remaining + 0.005 || !paymentBreakdown) {
       toast.error('Valor não pode ser maior que o saldo devedor');
       return;
     }
 
     paymentMutation.mutate({
       accountId: selectedAccount.id,
-      amount,
+      breakdown: paymentBreakdown,
       methodId: paymentMethodId,
       notes: paymentNotes
     });
@@ -359,6 +421,7 @@ const AccountsReceivable = () => {
             <div className="space-y-3">
               {filteredAccounts.map((account) => {
                 const remaining = account.amount - (account.paid_amount || 0);
+                const charges = account.status === 'pending' ? getAccountCharges(account) : null;
                 return (
                   <Card 
                     key={account.id}
@@ -371,6 +434,7 @@ const AccountsReceivable = () => {
                           <p className="font-medium">{account.customer.name}</p>
                           <p className="text-xs text-muted-foreground">
                             Venda: {account.sale.sale_number}
+                            {account.installment_count > 1 && ` • Parcela ${account.installment_number}/${account.installment_count}`}
                           </p>
                         </div>
                         {getStatusBadge(account)}
@@ -387,6 +451,11 @@ const AccountsReceivable = () => {
                         <div>
                           <span className="text-muted-foreground">Saldo:</span>{' '}
                           <span className="font-semibold">R$ {remaining.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                          {charges && charges.fine + charges.interest > 0 && (
+                            <span className="block text-xs text-destructive">
+                              + encargos R$ {(charges.fine + charges.interest).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            </span>
+                          )}
                         </div>
                         <div>
                           <span className="text-muted-foreground">Venc:</span>{' '}
@@ -417,6 +486,7 @@ const AccountsReceivable = () => {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Venda</TableHead>
+                    <TableHead>Parcela</TableHead>
                     <TableHead>Cliente</TableHead>
                     <TableHead>Loja</TableHead>
                     <TableHead className="text-right">Valor</TableHead>
@@ -430,11 +500,15 @@ const AccountsReceivable = () => {
                 <TableBody>
                   {filteredAccounts.map((account) => {
                     const remaining = account.amount - (account.paid_amount || 0);
+                    const charges = account.status === 'pending' ? getAccountCharges(account) : null;
                     return (
                       <TableRow key={account.id}>
                         <TableCell className="font-medium">
                           {account.sale.sale_number}
                         </TableCell>
+                        <TableCell>
+                          {account.installment_number}/{account.installment_count}
+                        </TableCell>
                         <TableCell>
                           <div>
                             <p className="font-medium">{account.customer.name}</p>
@@ -452,6 +526,11 @@ const AccountsReceivable = () => {
                         </TableCell>
                         <TableCell className="text-right font-medium">
                           R$ {remaining.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                          {charges && charges.fine + charges.interest > 0 && (
+                            <p className="text-xs font-normal text-destructive">
+                              + encargos R$ {(charges.fine + charges.interest).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell>
                           {format(new Date(account.due_date + 'T12:00:00'), 'dd/MM/yyyy', { locale: ptBR })}
@@ -493,15 +572,22 @@ const AccountsReceivable = () => {
                 </p>
                 <p className="text-sm">
                   <span className="font-medium">Venda:</span> {selectedAccount.sale.sale_number}
+                  {selectedAccount.installment_count > 1 && ` (parcela ${selectedAccount.installment_number}/${selectedAccount.installment_count})`}
                 </p>
                 <p className="text-sm">
                   <span className="font-medium">Saldo Devedor:</span>{' '}
                   R$ {(selectedAccount.amount - (selectedAccount.paid_amount || 0)).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
                 </p>
+                {getOpenInstallments(selectedAccount).length > 1 && (
+                  <p className="text-xs text-muted-foreground">
+                    Valores acima da parcela são abatidos das demais parcelas em aberto da venda, das mais antigas para as mais novas
+                    (saldo total: R$ {getOpenInstallments(selectedAccount).reduce((sum, a) => sum + getReceivableBalance(a), 0).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}).
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label>Valor do Pagamento</Label>
+                <Label>Valor a Abater (principal)</Label>
                 <Input
                   type="number"
                   step="0.01"
@@ -511,6 +597,31 @@ const AccountsReceivable = () => {
                 />
               </div>
 
+              {paymentBreakdown && paymentBreakdown.principal > 0 && (
+                <div className="rounded-lg border p-3 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Principal</span>
+                    <span>R$ {paymentBreakdown.principal.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Multa ({getLateFeeSettings(selectedAccount.sale.store).finePercent}%)
+                    </span>
+                    <span>R$ {paymentBreakdown.fine.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Juros de mora ({getLateFeeSettings(selectedAccount.sale.store).dailyInterestPercent}% ao dia)
+                    </span>
+                    <span>R$ {paymentBreakdown.interest.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold border-t pt-1">
+                    <span>Total a Receber</span>
+                    <span>R$ {paymentBreakdown.total.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}</span>
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label>Método de Pagamento</Label>
                 <Select value={paymentMethodId} onValueChange={setPaymentMethodId}>
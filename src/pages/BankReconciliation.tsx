@@ -0,0 +1,453 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, CheckCircle, FileText, Landmark, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { OPEN_ACCOUNT_STATUSES, getAccountBalance } from '@/lib/payables';
+import {
+  decodeStatementFile,
+  findDebitedOpenAccounts,
+  matchStatementToPayments,
+  parseBankStatement,
+  type DebitedOpenAccount,
+  type StatementMatch,
+  type StatementTransaction
+} from '@/lib/bankStatement';
+
+type PendingPayment = Pick<Tables<'payments'>, 'id' | 'amount_paid' | 'payment_date' | 'payment_method'> & {
+  account: { description: string; supplier: { name: string } | null } | null;
+};
+
+type OpenAccount = Pick<Tables<'accounts_payable'>, 'id' | 'description' | 'amount' | 'paid_amount' | 'status' | 'due_date'> & {
+  supplier: { name: string } | null;
+};
+
+interface ReconciliationResult {
+  matches: StatementMatch<PendingPayment>[];
+  unmatchedTransactions: StatementTransaction[];
+  unmatchedPayments: PendingPayment[];
+  debitedAccounts: DebitedOpenAccount<OpenAccount>[];
+  alreadyReconciled: number;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDay = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+const BankReconciliation = () => {
+  const [fileName, setFileName] = useState('');
+  const [transactions, setTransactions] = useState<StatementTransaction[]>([]);
+  const [windowDays, setWindowDays] = useState('3');
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+
+  // Same roles as the payments UPDATE policy
+  const canReconcile = hasRole('admin') || hasRole('pagador');
+  const toleranceDays = Math.max(0, Number(windowDays) || 0);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = decodeStatementFile(await file.arrayBuffer());
+      const parsed = parseBankStatement(file.name, text);
+
+      if (parsed.length === 0) {
+        toast({
+          title: "Extrato vazio",
+          description: "Nenhum lançamento encontrado no arquivo",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setTransactions(parsed);
+    } catch (error) {
+      toast({
+        title: "Arquivo inválido",
+        description: error instanceof Error ? error.message : "Não foi possível ler o extrato",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const loadReconciliation = useCallback(async () => {
+    if (transactions.length === 0) return;
+
+    setLoading(true);
+    try {
+      const dates = transactions.map(transaction => transaction.date).sort();
+      const from = format(addDays(parseISO(dates[0]), -toleranceDays), 'yyyy-MM-dd');
+      const until = format(addDays(parseISO(dates[dates.length - 1]), toleranceDays), 'yyyy-MM-dd');
+
+      const [pendingResult, reconciledResult, accountsResult] = await Promise.all([
+        supabase
+          .from('payments')
+          .select('id, amount_paid, payment_date, payment_method, account:accounts_payable(description, supplier:suppliers(name))')
+          .eq('reconciliation_status', 'pendente')
+          .gte('payment_date', from)
+          .lte('payment_date', until),
+        supabase
+          .from('payments')
+          .select('bank_transaction_id')
+          .not('bank_transaction_id', 'is', null)
+          .gte('bank_transaction_date', from)
+          .lte('bank_transaction_date', until),
+        supabase
+          .from('accounts_payable')
+          .select('id, description, amount, paid_amount, status, due_date, supplier:suppliers(name)')
+          .in('status', OPEN_ACCOUNT_STATUSES)
+          .gte('due_date', from)
+          .lte('due_date', until)
+      ]);
+
+      if (pendingResult.error) throw pendingResult.error;
+      if (reconciledResult.error) throw reconciledResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+
+      // Lines from a statement imported before stay out of the matching
+      const reconciledIds = new Set((reconciledResult.data || []).map(payment => payment.bank_transaction_id));
+      const pendingTransactions = transactions.filter(transaction => !reconciledIds.has(transaction.id));
+
+      const { matches, unmatchedTransactions, unmatchedPayments } = matchStatementToPayments(
+        pendingTransactions,
+        (pendingResult.data || []) as PendingPayment[],
+        toleranceDays
+      );
+
+      setResult({
+        matches,
+        unmatchedTransactions,
+        unmatchedPayments,
+        debitedAccounts: findDebitedOpenAccounts<OpenAccount>(
+          unmatchedTransactions,
+          (accountsResult.data || []) as OpenAccount[],
+          getAccountBalance,
+          toleranceDays
+        ),
+        alreadyReconciled: transactions.length - pendingTransactions.length
+      });
+      setSelected(new Set(matches.map(match => match.payment.id)));
+    } catch (error) {
+      console.error('Erro ao conciliar extrato:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao buscar pagamentos para conciliação",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [transactions, toleranceDays, toast]);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [loadReconciliation]);
+
+  const toggleMatch = (paymentId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(paymentId)) {
+        next.delete(paymentId);
+      } else {
+        next.add(paymentId);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!result) return;
+
+    const confirmed = result.matches.filter(match => selected.has(match.payment.id));
+    if (confirmed.length === 0) return;
+
+    setConfirming(true);
+    try {
+      const userId = (await supabase.auth.getUser()).data.user?.id;
+      const reconciledAt = new Date().toISOString();
+
+      const results = await Promise.all(confirmed.map(match =>
+        supabase
+          .from('payments')
+          .update({
+            reconciliation_status: 'conciliado',
+            reconciled_at: reconciledAt,
+            reconciled_by: userId,
+            bank_transaction_id: match.transaction.id,
+            bank_transaction_date: match.transaction.date,
+            bank_transaction_amount: match.transaction.amount
+          })
+          .eq('id', match.payment.id)
+      ));
+
+      const failed = results.filter(({ error }) => error);
+      if (failed.length > 0) {
+        console.error('Erro ao conciliar pagamentos:', failed.map(({ error }) => error));
+      }
+
+      toast({
+        title: failed.length > 0 ? "Conciliação parcial" : "Conciliação concluída",
+        description: `${confirmed.length - failed.length} pagamento(s) conciliado(s)` +
+          (failed.length > 0 ? `, ${failed.length} com erro` : ''),
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+
+      loadReconciliation();
+    } finally {
+      setConfirming(false);
+    }
+  };
+
+  const debitedByTransaction = new Map(
+    (result?.debitedAccounts || []).map(entry => [entry.transaction.id, entry.accounts])
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/accounts')}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Conciliação Bancária</h1>
+          <p className="text-muted-foreground">
+            Confira os pagamentos registrados contra o extrato do banco (OFX ou CSV)
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label>Extrato bancário</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ofx,.csv,.txt"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <Button variant="outline" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4" />
+                Selecionar arquivo
+              </Button>
+            </div>
+            <div className="space-y-2 w-full sm:w-40">
+              <Label htmlFor="window-days">Tolerância (dias)</Label>
+              <Input
+                id="window-days"
+                type="number"
+                min={0}
+                max={30}
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+              />
+            </div>
+            {fileName && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <FileText className="h-4 w-4" />
+                {fileName} - {transactions.length} lançamento(s)
+                {result && result.alreadyReconciled > 0 && ` (${result.alreadyReconciled} já conciliado(s))`}
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-3">
+            CSV: cabeçalho com as colunas data, histórico e valor (débitos negativos) ou débito/crédito.
+          </p>
+        </CardContent>
+      </Card>
+
+      {!fileName ? (
+        <div className="text-center py-10 text-muted-foreground">
+          <Landmark className="h-10 w-10 mx-auto mb-2 opacity-30" />
+          Importe um extrato para iniciar a conciliação
+        </div>
+      ) : loading || !result ? (
+        <div className="text-center py-10">Carregando...</div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <CheckCircle className="h-5 w-5 text-success" />
+                Conciliações sugeridas ({result.matches.length})
+              </CardTitle>
+              {canReconcile && result.matches.length > 0 && (
+                <Button onClick={handleConfirm} disabled={confirming || selected.size === 0}>
+                  {confirming ? 'Conciliando...' : `Confirmar ${selected.size}`}
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {result.matches.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum pagamento corresponde aos débitos do extrato</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {canReconcile && <TableHead className="w-[40px]" />}
+                      <TableHead>Extrato</TableHead>
+                      <TableHead>Histórico</TableHead>
+                      <TableHead>Pagamento</TableHead>
+                      <TableHead>Conta</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.matches.map((match) => (
+                      <TableRow key={match.payment.id}>
+                        {canReconcile && (
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(match.payment.id)}
+                              onCheckedChange={() => toggleMatch(match.payment.id)}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell>{formatDay(match.transaction.date)}</TableCell>
+                        <TableCell className="max-w-[220px] truncate">{match.transaction.description || '-'}</TableCell>
+                        <TableCell>
+                          {formatDay(match.payment.payment_date)}
+                          {match.dayDiff > 0 && (
+                            <span className="text-xs text-muted-foreground"> ({match.dayDiff}d)</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {match.payment.account?.description || '-'}
+                          {match.payment.account?.supplier && (
+                            <p className="text-xs text-muted-foreground">{match.payment.account.supplier.name}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(Math.abs(match.transaction.amount))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <AlertTriangle className="h-5 w-5 text-warning" />
+                Débitos sem pagamento registrado ({result.unmatchedTransactions.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {result.unmatchedTransactions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Todos os débitos do extrato têm pagamento correspondente</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Histórico</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                      <TableHead>Conta em aberto debitada</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.unmatchedTransactions.map((transaction) => {
+                      const accounts = debitedByTransaction.get(transaction.id) || [];
+                      return (
+                        <TableRow key={transaction.id}>
+                          <TableCell>{formatDay(transaction.date)}</TableCell>
+                          <TableCell className="max-w-[220px] truncate">{transaction.description || '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(Math.abs(transaction.amount))}</TableCell>
+                          <TableCell>
+                            {accounts.length === 0 ? (
+                              <span className="text-muted-foreground">-</span>
+                            ) : (
+                              <div className="space-y-1">
+                                {accounts.map((account) => (
+                                  <div key={account.id} className="flex items-center gap-2">
+                                    <Badge variant="warning">Não baixada</Badge>
+                                    <span className="text-sm">
+                                      {account.description}
+                                      {account.supplier && ` - ${account.supplier.name}`}
+                                      {` (venc. ${formatDay(account.due_date)})`}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Pagamentos sem débito no extrato ({result.unmatchedPayments.length})
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {result.unmatchedPayments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum pagamento pendente no período do extrato</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Conta</TableHead>
+                      <TableHead>Forma</TableHead>
+                      <TableHead className="text-right">Valor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.unmatchedPayments.map((payment) => (
+                      <TableRow key={payment.id}>
+                        <TableCell>{formatDay(payment.payment_date)}</TableCell>
+                        <TableCell>
+                          {payment.account?.description || '-'}
+                          {payment.account?.supplier && (
+                            <p className="text-xs text-muted-foreground">{payment.account.supplier.name}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>{payment.payment_method || '-'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(payment.amount_paid))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BankReconciliation;
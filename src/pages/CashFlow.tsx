@@ -0,0 +1,423 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { addDays, format, subDays } from 'date-fns';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { ArrowDownCircle, ArrowUpCircle, RefreshCw, Wallet } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { OPEN_ACCOUNT_STATUSES, getAccountBalance } from '@/lib/payables';
+import { getReceivableBalance } from '@/lib/receivables';
+import {
+  CASH_FLOW_ENTRY_LABELS,
+  FORECAST_DAYS,
+  buildCardSettlements,
+  buildCashFlow,
+  type CardSalePayment,
+  type CashFlowEntry,
+  type CashFlowGranularity,
+  type CashFlowPeriod
+} from '@/lib/cashFlow';
+
+interface PayableRow {
+  id: string;
+  description: string;
+  amount: number;
+  paid_amount: number | null;
+  status: string | null;
+  due_date: string;
+  suppliers: { name: string } | null;
+}
+
+interface ReceivableRow {
+  id: string;
+  amount: number;
+  paid_amount: number | null;
+  due_date: string;
+  installment_number: number;
+  installment_count: number;
+  customer: { name: string } | null;
+  sale: { sale_number: string } | null;
+}
+
+interface CardPaymentRow {
+  id: string;
+  amount: number;
+  installments: number | null;
+  sales: { sale_number: string; created_at: string } | null;
+  payment_methods: { name: string; settlement_days: number | null; settlement_fee_percent: number } | null;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDay = (date: string) => date.split('-').reverse().join('/');
+
+const ENTRY_VARIANTS: Record<CashFlowEntry['kind'], 'destructive' | 'success' | 'secondary'> = {
+  payable: 'destructive',
+  receivable: 'success',
+  card: 'secondary'
+};
+
+// Longest credit card term we look back for: 24 installments plus the settlement delay
+const CARD_LOOKBACK_DAYS = 24 * 30 + 30;
+
+// PostgREST returns at most this many rows per request; the forecast needs every open account
+const PAGE_SIZE = 1000;
+
+const fetchAllRows = async <T,>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const chartConfig = {
+  inflow: { label: 'Entradas', color: 'hsl(142 71% 45%)' },
+  outflow: { label: 'Saídas', color: 'hsl(0 84% 60%)' },
+  balance: { label: 'Saldo', color: 'hsl(221 83% 53%)' }
+} satisfies ChartConfig;
+
+const CashFlow = () => {
+  const [entries, setEntries] = useState<CashFlowEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openingBalance, setOpeningBalance] = useState('0');
+  const [granularity, setGranularity] = useState<CashFlowGranularity>('week');
+  const [selectedPeriod, setSelectedPeriod] = useState<CashFlowPeriod | null>(null);
+  const { toast } = useToast();
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const until = format(addDays(new Date(), FORECAST_DAYS - 1), 'yyyy-MM-dd');
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Overdue accounts have no lower bound on the due date, only the open statuses; pages are
+      // ordered by id so none is skipped or read twice
+      const [payableRows, receivableRows, cardRows] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('accounts_payable')
+            .select('id, description, amount, paid_amount, status, due_date, suppliers(name)')
+            .in('status', OPEN_ACCOUNT_STATUSES)
+            .lte('due_date', until)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from('accounts_receivable')
+            .select('id, amount, paid_amount, due_date, installment_number, installment_count, customer:customers(name), sale:sales(sale_number)')
+            .eq('status', 'pending')
+            .lte('due_date', until)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from('sale_payments')
+            .select('id, amount, installments, sales!inner(sale_number, created_at, status), payment_methods!inner(name, settlement_days, settlement_fee_percent)')
+            .eq('is_credit', false)
+            .eq('sales.status', 'completed')
+            .gte('sales.created_at', format(subDays(new Date(), CARD_LOOKBACK_DAYS), 'yyyy-MM-dd'))
+            .not('payment_methods.settlement_days', 'is', null)
+            .order('id')
+            .range(from, to)
+        )
+      ]);
+
+      const payables = (payableRows as PayableRow[]).map((account): CashFlowEntry => ({
+        id: account.id,
+        kind: 'payable',
+        date: account.due_date,
+        amount: -getAccountBalance(account),
+        description: account.description,
+        detail: account.suppliers?.name || '-',
+        overdue: account.due_date < today
+      }));
+
+      const receivables = (receivableRows as unknown as ReceivableRow[]).map((receivable): CashFlowEntry => ({
+        id: receivable.id,
+        kind: 'receivable',
+        date: receivable.due_date,
+        amount: getReceivableBalance(receivable),
+        description: `Venda ${receivable.sale?.sale_number || '-'} - ${receivable.customer?.name || '-'}`,
+        detail: `Parcela ${receivable.installment_number}/${receivable.installment_count}`,
+        overdue: receivable.due_date < today
+      }));
+
+      const cardPayments = (cardRows as unknown as CardPaymentRow[]).flatMap((payment): CardSalePayment[] =>
+        payment.sales && payment.payment_methods?.settlement_days != null
+          ? [{
+              id: payment.id,
+              amount: Number(payment.amount),
+              installments: payment.installments,
+              saleNumber: payment.sales.sale_number,
+              saleDate: payment.sales.created_at,
+              methodName: payment.payment_methods.name,
+              settlementDays: payment.payment_methods.settlement_days,
+              feePercent: Number(payment.payment_methods.settlement_fee_percent)
+            }]
+          : []
+      );
+
+      setEntries([
+        ...payables,
+        ...receivables,
+        ...buildCardSettlements(cardPayments, today, until)
+      ].filter(entry => Math.abs(entry.amount) >= 0.01));
+    } catch (error) {
+      console.error('Erro ao carregar fluxo de caixa:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar previsão do fluxo de caixa",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [today, until, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const periods = useMemo(
+    () => buildCashFlow(entries, Number(openingBalance.replace(',', '.')) || 0, today, FORECAST_DAYS, granularity),
+    [entries, openingBalance, today, granularity]
+  );
+
+  const totals = useMemo(() => ({
+    inflow: periods.reduce((sum, period) => sum + period.inflow, 0),
+    outflow: periods.reduce((sum, period) => sum + period.outflow, 0),
+    finalBalance: periods[periods.length - 1]?.balance ?? 0,
+    lowestBalance: periods.reduce((lowest, period) => Math.min(lowest, period.balance), Infinity)
+  }), [periods]);
+
+  const firstNegative = periods.find(period => period.balance < 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Fluxo de Caixa</h1>
+          <p className="text-muted-foreground">
+            Previsão dos próximos {FORECAST_DAYS} dias com contas a pagar, a receber e recebíveis de cartão
+          </p>
+        </div>
+        <Button variant="outline" className="gap-2" onClick={fetchEntries} disabled={loading}>
+          <RefreshCw className="h-4 w-4" />
+          Atualizar
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="opening-balance">Saldo inicial (hoje)</Label>
+            <Input
+              id="opening-balance"
+              inputMode="decimal"
+              value={openingBalance}
+              onChange={(e) => setOpeningBalance(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Agrupar por</Label>
+            <Select value={granularity} onValueChange={(value) => setGranularity(value as CashFlowGranularity)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Dia</SelectItem>
+                <SelectItem value="week">Semana</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Entradas Previstas</CardTitle>
+            <ArrowUpCircle className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{formatCurrency(totals.inflow)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Saídas Previstas</CardTitle>
+            <ArrowDownCircle className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-destructive">{formatCurrency(totals.outflow)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Saldo Final</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totals.finalBalance < 0 ? 'text-destructive' : ''}`}>
+              {formatCurrency(totals.finalBalance)}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Menor Saldo</CardTitle>
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totals.lowestBalance < 0 ? 'text-destructive' : ''}`}>
+              {periods.length > 0 ? formatCurrency(totals.lowestBalance) : '-'}
+            </div>
+            {firstNegative && (
+              <p className="text-xs text-destructive">Saldo negativo a partir de {formatDay(firstNegative.start)}</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Projeção</CardTitle>
+          <CardDescription>Clique em um período para ver os documentos</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-10">Carregando...</div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-[320px] w-full">
+              <ComposedChart
+                data={periods}
+                onClick={(state) => {
+                  const index = state?.activeTooltipIndex;
+                  if (index !== undefined && periods[index]) setSelectedPeriod(periods[index]);
+                }}
+              >
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={80}
+                  tickFormatter={(value: number) => new Intl.NumberFormat('pt-BR', { notation: 'compact' }).format(value)}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="inflow" fill="var(--color-inflow)" radius={2} />
+                <Bar dataKey="outflow" fill="var(--color-outflow)" radius={2} />
+                <Line dataKey="balance" type="monotone" stroke="var(--color-balance)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0 sm:p-6 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Período</TableHead>
+                <TableHead className="text-right">Entradas</TableHead>
+                <TableHead className="text-right">Saídas</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+                <TableHead className="text-right">Documentos</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((period) => (
+                <TableRow key={period.key} className="cursor-pointer" onClick={() => setSelectedPeriod(period)}>
+                  <TableCell>
+                    {period.start === period.end
+                      ? formatDay(period.start)
+                      : `${formatDay(period.start)} a ${formatDay(period.end)}`}
+                  </TableCell>
+                  <TableCell className="text-right text-green-600">{formatCurrency(period.inflow)}</TableCell>
+                  <TableCell className="text-right text-destructive">{formatCurrency(period.outflow)}</TableCell>
+                  <TableCell className={`text-right font-medium ${period.balance < 0 ? 'text-destructive' : ''}`}>
+                    {formatCurrency(period.balance)}
+                  </TableCell>
+                  <TableCell className="text-right">{period.entries.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedPeriod} onOpenChange={(open) => !open && setSelectedPeriod(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedPeriod && (selectedPeriod.start === selectedPeriod.end
+                ? `Documentos de ${formatDay(selectedPeriod.start)}`
+                : `Documentos de ${formatDay(selectedPeriod.start)} a ${formatDay(selectedPeriod.end)}`)}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedPeriod && selectedPeriod.entries.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-6">Nenhuma movimentação prevista</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Documento</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(selectedPeriod?.entries || []).map((entry) => (
+                  <TableRow key={`${entry.kind}-${entry.id}`}>
+                    <TableCell>
+                      <Badge variant={ENTRY_VARIANTS[entry.kind]}>{CASH_FLOW_ENTRY_LABELS[entry.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {entry.description}
+                      <p className="text-xs text-muted-foreground">{entry.detail}</p>
+                    </TableCell>
+                    <TableCell>
+                      {formatDay(entry.date)}
+                      {entry.overdue && <p className="text-xs text-destructive">Vencida</p>}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${entry.amount < 0 ? 'text-destructive' : 'text-green-600'}`}>
+                      {formatCurrency(entry.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CashFlow;
@@ -17,12 +17,15 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { 
   Store, CalendarIcon, DollarSign, CreditCard, Smartphone, 
   Banknote, Clock, CheckCircle, AlertTriangle, FileText,
-  Lock, Unlock, ArrowDownCircle, ArrowUpCircle, Plus, Minus
+  Lock, Unlock, ArrowDownCircle, ArrowUpCircle, Plus, Minus, Printer
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { THERMAL_COLUMNS, getThermalPrinterConfig, printEscPosDocument } from '@/lib/thermalPrinter';
+import { buildCashClosingReport } from '@/lib/thermalReceipts';
+import { WALK_IN_CUSTOMER_NAME } from '@/lib/walkInSale';
 
 interface DailySummary {
   total_sales: number;
@@ -65,7 +68,7 @@ interface Sale {
   total: number;
   created_at: string;
   status: string;
-  customer: { name: string };
+  customer: { name: string } | null;
   sale_payments: Array<{
     amount: number;
     is_credit: boolean;
@@ -373,6 +376,52 @@ const CashRegisterClosing = () => {
     setCloseModalOpen(true);
   };
 
+  // Closed registers print what was recorded at closing; open ones print the running totals
+  const handlePrintReport = async () => {
+    if (!existingClosing) return;
+    const store = stores?.find(s => s.id === selectedStore);
+    const closed = existingClosing.status === 'closed';
+    const printer = getThermalPrinterConfig(store);
+
+    const document = buildCashClosingReport({
+      store,
+      date: existingClosing.closing_date,
+      closed,
+      openedBy: existingClosing.opener?.full_name,
+      openedAt: existingClosing.opened_at,
+      closedBy: existingClosing.closer?.full_name,
+      closedAt: existingClosing.closed_at,
+      salesCount: dailySummary?.sales_count || 0,
+      totalSales: dailySummary?.total_sales || 0,
+      methods: closed
+        ? [
+            { label: 'Dinheiro', expected: existingClosing.cash_expected, counted: existingClosing.cash_counted },
+            { label: 'Cartão', expected: existingClosing.card_expected, counted: existingClosing.card_counted },
+            { label: 'PIX', expected: existingClosing.pix_expected, counted: existingClosing.pix_counted },
+            { label: 'Crediário', expected: existingClosing.credit_expected },
+            { label: 'Outros', expected: existingClosing.other_expected }
+          ]
+        : [
+            { label: 'Dinheiro', expected: dailySummary?.total_cash || 0 },
+            { label: 'Cartão', expected: dailySummary?.total_card || 0 },
+            { label: 'PIX', expected: dailySummary?.total_pix || 0 },
+            { label: 'Crediário', expected: dailySummary?.total_credit || 0 },
+            { label: 'Outros', expected: dailySummary?.total_other || 0 }
+          ],
+      movements: (dailyMovements || []).map(m => ({
+        type: m.movement_type,
+        amount: m.amount,
+        reason: m.reason,
+        createdAt: m.created_at
+      })),
+      difference: closed ? existingClosing.difference : null,
+      notes: existingClosing.notes
+    }, printer ? THERMAL_COLUMNS[printer.format] : THERMAL_COLUMNS.escpos_80);
+
+    const error = await printEscPosDocument(printer, document, 'Fechamento de Caixa');
+    if (error) toast.error(`Impressora térmica indisponível: ${error.message}. Impressão aberta no navegador.`);
+  };
+
   const getPaymentBreakdown = (sale: Sale) => {
     return sale.sale_payments.map(p => {
       if (p.is_credit) return 'Crediário';
@@ -478,8 +527,19 @@ const CashRegisterClosing = () => {
                     </Button>
                   )}
 
+                  {existingClosing?.status === 'closed' && (
+                    <Button variant="outline" onClick={handlePrintReport}>
+                      <Printer className="h-4 w-4 mr-2" />
+                      Imprimir
+                    </Button>
+                  )}
+
                   {existingClosing?.status === 'open' && (
                     <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" onClick={handlePrintReport}>
+                        <Printer className="h-4 w-4 mr-2" />
+                        Imprimir
+                      </Button>
                       <Button 
                         variant="outline" 
                         onClick={() => openMovementModal('suprimento')}
@@ -763,7 +823,7 @@ const CashRegisterClosing = () => {
                         {dailySales?.map((sale) => (
                           <TableRow key={sale.id}>
                             <TableCell className="font-medium">{sale.sale_number}</TableCell>
-                            <TableCell>{sale.customer.name}</TableCell>
+                            <TableCell>{sale.customer?.name || WALK_IN_CUSTOMER_NAME}</TableCell>
                             <TableCell>{format(new Date(sale.created_at), 'HH:mm')}</TableCell>
                             <TableCell>{getPaymentBreakdown(sale)}</TableCell>
                             <TableCell className="text-right">
@@ -4,9 +4,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Plus } from 'lucide-react';
 import { CostCenterForm } from '@/components/cost-centers/CostCenterForm';
 import { CostCentersList } from '@/components/cost-centers/CostCentersList';
+import { BudgetReport } from '@/components/cost-centers/BudgetReport';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { fetchBudgetUsage, rollUpBudgetUsage, toMonthKey, type BudgetUsage } from '@/lib/costCenterBudgets';
 
 interface CostCenter {
   id: string;
@@ -14,12 +16,15 @@ interface CostCenter {
   code: string;
   description: string | null;
   active: boolean;
+  approval_threshold: number | null;
+  parent_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
 const CostCenters = () => {
   const [costCenters, setCostCenters] = useState<CostCenter[]>([]);
+  const [budgetUsage, setBudgetUsage] = useState<Record<string, BudgetUsage>>({});
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const { toast } = useToast();
@@ -33,6 +38,10 @@ const CostCenters = () => {
 
       if (error) throw error;
       setCostCenters(data || []);
+
+      const currentMonth = toMonthKey(new Date());
+      const usage = rollUpBudgetUsage(data || [], await fetchBudgetUsage(currentMonth, currentMonth, 'vencimento'));
+      setBudgetUsage(Object.fromEntries(usage.map(row => [row.costCenterId, row])));
     } catch (error) {
       console.error('Erro ao carregar centros de custo:', error);
       toast({
@@ -92,7 +101,24 @@ const CostCenters = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <CostCentersList costCenters={costCenters} loading={loading} onUpdate={fetchCostCenters} />
+          <CostCentersList
+            costCenters={costCenters}
+            loading={loading}
+            budgetUsage={budgetUsage}
+            onUpdate={fetchCostCenters}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orçado x Realizado</CardTitle>
+          <CardDescription>
+            Compare o orçamento mensal de cada centro de custo com as contas a pagar por vencimento ou por pagamento
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BudgetReport costCenters={costCenters} />
         </CardContent>
       </Card>
     </div>
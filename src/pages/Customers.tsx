@@ -21,9 +21,10 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { Plus, Search, Edit, Trash2, Users, History } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Users, History, FileText } from "lucide-react";
 import CustomerForm from "@/components/customers/CustomerForm";
 import CustomerCreditHistoryModal from "@/components/customers/CustomerCreditHistoryModal";
+import CustomerStatementModal from "@/components/customers/CustomerStatementModal";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 interface Customer {
@@ -56,6 +57,7 @@ export default function Customers() {
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
   const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [statementCustomer, setStatementCustomer] = useState<Customer | null>(null);
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
   const isMobile = useIsMobile();
 
@@ -219,6 +221,14 @@ export default function Customers() {
                           <History className="h-4 w-4 mr-1" />
                           Histórico
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => { e.stopPropagation(); setStatementCustomer(customer); }}
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          Extrato
+                        </Button>
                         {canEdit && (
                           <Button
                             variant="outline"
@@ -309,6 +319,14 @@ export default function Customers() {
                           >
                             <History className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setStatementCustomer(customer)}
+                            title="Extrato de Crediário"
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Button>
                           {canEdit && (
                             <>
                               <Button
@@ -365,6 +383,13 @@ export default function Customers() {
         customerId={historyCustomer?.id || ''}
         customerName={historyCustomer?.name || ''}
       />
+
+      <CustomerStatementModal
+        open={!!statementCustomer}
+        onClose={() => setStatementCustomer(null)}
+        customerId={statementCustomer?.id || ''}
+        customerName={statementCustomer?.name || ''}
+      />
     </div>
   );
 }
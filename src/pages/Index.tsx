@@ -2,7 +2,9 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { PendingApprovalsQueue } from '@/components/accounts-payable/PendingApprovalsQueue';
 import { supabase } from '@/integrations/supabase/client';
+import { OPEN_ACCOUNT_STATUSES, getAccountBalance } from '@/lib/payables';
 import { FileText, Clock, CheckCircle, AlertCircle, Plus, Building2, MapPin, Users } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
@@ -44,14 +46,14 @@ const Index = () => {
       // Contas em aberto
       const { data: openAccounts } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto');
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES);
 
       // Contas vencidas
       const { data: overdueAccounts } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .lt('due_date', today);
 
       // Contas pagas no mês atual
@@ -64,8 +66,8 @@ const Index = () => {
       // Contas a vencer nos próximos 7 dias
       const { data: next7DaysAccounts } = await supabase
         .from('accounts_payable')
-        .select('amount')
-        .eq('status', 'em_aberto')
+        .select('amount, paid_amount, status')
+        .in('status', OPEN_ACCOUNT_STATUSES)
         .gte('due_date', today)
         .lte('due_date', next7Days);
 
@@ -74,10 +76,10 @@ const Index = () => {
         totalOverdue: overdueAccounts?.length || 0,
         totalPaid: paidAccounts?.length || 0,
         totalNext7Days: next7DaysAccounts?.length || 0,
-        totalOpenAmount: openAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        totalOverdueAmount: overdueAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
+        totalOpenAmount: openAccounts?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
+        totalOverdueAmount: overdueAccounts?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
         totalPaidAmount: paidAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
-        totalNext7DaysAmount: next7DaysAccounts?.reduce((sum, acc) => sum + Number(acc.amount), 0) || 0,
+        totalNext7DaysAmount: next7DaysAccounts?.reduce((sum, acc) => sum + getAccountBalance(acc), 0) || 0,
       });
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
@@ -172,6 +174,8 @@ const Index = () => {
         </Card>
       </div>
 
+      {hasRole('admin') && <PendingApprovalsQueue onReviewed={fetchDashboardStats} />}
+
       {/* Quick Actions */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card className="hover:shadow-md transition-shadow">
@@ -1,13 +1,14 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Search, ShoppingCart, Trash2, Percent, DollarSign, User, Store, Plus, Minus, Barcode, Printer, Copy, FileText, CreditCard, FolderSearch } from 'lucide-react';
+import { Search, ShoppingCart, Trash2, Percent, DollarSign, User, Store, Plus, Minus, Barcode, Printer, Copy, FileText, CreditCard, FolderSearch, Wifi, WifiOff, RefreshCw, CloudUpload, Keyboard } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
@@ -17,8 +18,37 @@ import PDVPaymentStep from '@/components/pdv/PDVPaymentStep';
 import PDVItemActions from '@/components/pdv/PDVItemActions';
 import PDVQuoteSearchModal from '@/components/pdv/PDVQuoteSearchModal';
 import PDVCreditPaymentModal from '@/components/pdv/PDVCreditPaymentModal';
+import PDVOfflineSalesModal from '@/components/pdv/PDVOfflineSalesModal';
+import PDVShortcutsHelp from '@/components/pdv/PDVShortcutsHelp';
+import { usePDVOffline } from '@/hooks/usePDVOffline';
+import { usePDVShortcuts } from '@/hooks/usePDVShortcuts';
+import { formatShortcutKey } from '@/lib/pdvShortcuts';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { a4Styles, openPrintWindow, receiptStyles, renderPixQrCode, renderStoreHeader } from '@/lib/printing';
+import { createEscPosDocument, type EscPosDocument } from '@/lib/escpos';
+import {
+  THERMAL_COLUMNS,
+  getThermalPrinterConfig,
+  pairThermalPrinter,
+  printEscPosDocument,
+  type ThermalPrinterConfig
+} from '@/lib/thermalPrinter';
+import { buildQuoteReceipt, buildSaleReceipt, type ThermalSale } from '@/lib/thermalReceipts';
+import { buildPixBrCode, getStorePixReceiver } from '@/lib/pix';
+import { WALK_IN_CUSTOMER_NAME, getSaleCustomer } from '@/lib/walkInSale';
+import { formatCpf, isValidCpf } from '@/lib/documents';
+import { onlyDigits } from '@/lib/boleto';
+import {
+  OFFLINE_KEYS,
+  isNetworkError,
+  nextOfflineNumber,
+  searchCachedCustomers,
+  searchCachedProducts,
+  withOfflineFallback,
+  type OfflineSale,
+  type OfflineSalePayload
+} from '@/lib/pdvOffline';
 
 interface CartItem {
   id: string;
@@ -66,15 +96,59 @@ interface PaymentEntry {
   amount: number;
   installments: number;
   isCredit: boolean;
+  firstDueDate?: string;
+  intervalDays?: number;
+  amountTendered?: number;
+  changeAmount?: number;
+}
+
+// What the receipts read from a sale: a `sales` row with its relations, or a queued offline sale
+interface ReceiptSale {
+  store: Tables<'stores'> | null | undefined;
+  sale_number: string;
+  created_at: string;
+  customer: { name: string; document?: string | null; phone?: string | null } | null;
+  customer_document?: string | null;
+  delivery_address?: Tables<'customer_delivery_addresses'> | null;
+  delivery_date?: string | null;
+  subtotal: number;
+  discount_amount: number | null;
+  total: number;
+  payment_method?: { name: string } | null;
+  amount_paid: number;
+  amount_credit: number | null;
+  payments?: {
+    amount: number;
+    is_credit: boolean;
+    amount_tendered: number | null;
+    change_amount: number | null;
+    payment_method: { code: string; name: string } | null;
+  }[];
+}
+
+// Cart items, sale_items rows joined with the product, or the items kept with an offline sale
+interface ReceiptItem {
+  name?: string;
+  product?: { name: string } | null;
+  quantity: number;
+  unit_price: number;
+  discount_amount?: number | null;
+  total: number;
 }
 
 const PDV = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const customerInputRef = useRef<HTMLInputElement>(null);
+  const quantityInputRef = useRef<HTMLInputElement>(null);
+  const cartListRef = useRef<HTMLDivElement>(null);
   
   const [selectedStoreId, setSelectedStoreId] = useState<string>('');
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  // Sale to "consumidor final": no customer, optionally a CPF for the receipt
+  const [walkInSale, setWalkInSale] = useState(false);
+  const [walkInDocument, setWalkInDocument] = useState('');
   const [customerSearch, setCustomerSearch] = useState('');
   const [showCustomerSearch, setShowCustomerSearch] = useState(false);
   const [productSearch, setProductSearch] = useState('');
@@ -93,11 +167,20 @@ const PDV = () => {
   const [showQuoteSearchModal, setShowQuoteSearchModal] = useState(false);
   const [showCreditPaymentModal, setShowCreditPaymentModal] = useState(false);
   const [editingQuoteId, setEditingQuoteId] = useState<string | null>(null);
+  // Sent with every attempt to finalize the sale and kept if it is queued, so a lost response never
+  // creates it twice; the payment step reserves the sale number under it for the PIX txid
+  const [clientSaleId, setClientSaleId] = useState(() => crypto.randomUUID());
+  const [showOfflineSalesModal, setShowOfflineSalesModal] = useState(false);
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
+  // Cart item selected with the keyboard
+  const [cartCursor, setCartCursor] = useState(-1);
+
+  const pdvOffline = usePDVOffline(selectedStoreId);
 
   // Fetch stores
   const { data: stores = [] } = useQuery({
     queryKey: ['stores-pdv'],
-    queryFn: async () => {
+    queryFn: () => withOfflineFallback(OFFLINE_KEYS.stores, async () => {
       const { data, error } = await supabase
         .from('stores')
         .select('*, pdv_auto_print, pdv_print_format, pdv_max_discount_percent')
@@ -105,7 +188,7 @@ const PDV = () => {
         .order('name');
       if (error) throw error;
       return data;
-    }
+    })
   });
 
   // Auto-select store if user has only one
@@ -117,11 +200,13 @@ const PDV = () => {
 
   const selectedStore = stores.find((s: any) => s.id === selectedStoreId);
   const maxDiscountPercent = selectedStore?.pdv_max_discount_percent ?? 100;
+  const thermalPrinter = useMemo(() => getThermalPrinterConfig(selectedStore), [selectedStore]);
+  const pixReceiver = useMemo(() => getStorePixReceiver(selectedStore), [selectedStore]);
 
   // Fetch payment methods
   const { data: paymentMethods = [] } = useQuery({
     queryKey: ['payment-methods'],
-    queryFn: async () => {
+    queryFn: () => withOfflineFallback(OFFLINE_KEYS.paymentMethods, async () => {
       const { data, error } = await supabase
         .from('payment_methods')
         .select('*')
@@ -129,21 +214,27 @@ const PDV = () => {
         .order('name');
       if (error) throw error;
       return data as PaymentMethod[];
-    }
+    })
   });
 
   // Fetch customers based on search
   const { data: customers = [] } = useQuery({
-    queryKey: ['customers-search', customerSearch],
+    queryKey: ['customers-search', customerSearch, selectedStoreId, pdvOffline.online],
     queryFn: async () => {
       if (!customerSearch || customerSearch.length < 2) return [];
+      // Offline, only the customers of the store's latest sales are available
+      if (!pdvOffline.online) return searchCachedCustomers(selectedStoreId, customerSearch);
       const { data, error } = await supabase
         .from('customers')
         .select('id, name, document, credit_limit, phone')
         .eq('active', true)
         .or(`name.ilike.%${customerSearch}%,document.ilike.%${customerSearch}%`)
         .limit(10);
-      if (error) throw error;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        pdvOffline.reportNetworkError();
+        return searchCachedCustomers(selectedStoreId, customerSearch);
+      }
       return data as Customer[];
     },
     enabled: customerSearch.length >= 2
@@ -172,9 +263,10 @@ const PDV = () => {
 
   // Fetch products based on search (by name, code or EAN)
   const { data: searchResults = [] } = useQuery({
-    queryKey: ['products-search', productSearch, selectedStoreId],
+    queryKey: ['products-search', productSearch, selectedStoreId, pdvOffline.online],
     queryFn: async () => {
       if (!productSearch || productSearch.length < 2 || !selectedStoreId) return [];
+      if (!pdvOffline.online) return searchCachedProducts(selectedStoreId, productSearch);
       
       const { data: products, error } = await supabase
         .from('products')
@@ -189,7 +281,11 @@ const PDV = () => {
         .or(`name.ilike.%${productSearch}%,internal_code.ilike.%${productSearch}%,ean.ilike.%${productSearch}%`)
         .limit(20);
       
-      if (error) throw error;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        pdvOffline.reportNetworkError();
+        return searchCachedProducts(selectedStoreId, productSearch);
+      }
       
       return (products || []).map((p: any) => ({
         id: p.id,
@@ -290,8 +386,12 @@ const PDV = () => {
   };
 
   const handleFinalizeSale = () => {
-    if (!selectedCustomer) {
-      toast.error('Selecione um cliente');
+    if (!selectedCustomer && !walkInSale) {
+      toast.error('Selecione um cliente ou use Consumidor final');
+      return;
+    }
+    if (walkInSale && walkInDocument && !isValidCpf(walkInDocument)) {
+      toast.error('CPF inválido');
       return;
     }
     if (cart.length === 0) {
@@ -392,6 +492,20 @@ const PDV = () => {
       if (itemsError) throw itemsError;
 
       toast.success(`Orçamento ${saleNumber} salvo com sucesso!`);
+
+      // Browser formats have no quote layout; thermal printers get one
+      if (thermalPrinter && selectedStore?.pdv_auto_print) {
+        printThermal(thermalPrinter, buildQuoteReceipt({
+          store: selectedStore,
+          number: saleNumber,
+          date: new Date().toISOString(),
+          customer: selectedCustomer,
+          items: cart,
+          subtotal,
+          discountAmount: globalDiscountAmount,
+          total
+        }, THERMAL_COLUMNS[thermalPrinter.format]), `Orçamento ${saleNumber}`);
+      }
       resetSale();
     } catch (error: any) {
       toast.error('Erro ao salvar orçamento: ' + error.message);
@@ -415,6 +529,7 @@ const PDV = () => {
     setCart(newCart);
     if (quote.customer) {
       setSelectedCustomer(quote.customer);
+      setWalkInSale(false);
     }
     setEditingQuoteId(quote.id);
     toast.success('Orçamento carregado para edição');
@@ -428,80 +543,7 @@ const PDV = () => {
     newAddress?: any;
   }) => {
     try {
-      // Generate sale number
-      const { data: saleNumber } = await supabase.rpc('generate_sale_number', { p_store_id: selectedStoreId });
-
-      // Create delivery address if new
-      let finalDeliveryAddressId = data.deliveryAddressId;
-      if (data.newAddress && selectedCustomer) {
-        const { data: newAddrData, error: addrError } = await supabase
-          .from('customer_delivery_addresses')
-          .insert({
-            customer_id: selectedCustomer.id,
-            name: data.newAddress.name,
-            address_street: data.newAddress.address_street,
-            address_number: data.newAddress.address_number,
-            address_complement: data.newAddress.address_complement,
-            address_neighborhood: data.newAddress.address_neighborhood,
-            address_city: data.newAddress.address_city,
-            address_state: data.newAddress.address_state,
-            address_zip: data.newAddress.address_zip,
-            contact_name: data.newAddress.contact_name,
-            contact_phone: data.newAddress.contact_phone
-          })
-          .select()
-          .single();
-        
-        if (addrError) throw addrError;
-        finalDeliveryAddressId = newAddrData.id;
-      }
-
-      // Calculate totals from payments
-      const amountPaid = data.payments.filter(p => !p.isCredit).reduce((sum, p) => sum + p.amount, 0);
-      const creditAmount = data.payments.filter(p => p.isCredit).reduce((sum, p) => sum + p.amount, 0);
-      const firstPaymentMethod = data.payments.find(p => !p.isCredit);
-
-      // Create sale
-      const { data: sale, error: saleError } = await supabase
-        .from('sales')
-        .insert({
-          sale_number: saleNumber,
-          store_id: selectedStoreId,
-          customer_id: selectedCustomer!.id,
-          delivery_address_id: finalDeliveryAddressId,
-          delivery_date: data.deliveryDate?.toISOString().split('T')[0],
-          delivery_type: data.deliveryType,
-          subtotal,
-          discount_type: globalDiscountValue > 0 ? globalDiscountType : null,
-          discount_value: globalDiscountValue,
-          discount_amount: globalDiscountAmount,
-          total,
-          payment_method_id: firstPaymentMethod?.paymentMethodId || null,
-          payment_status: creditAmount > 0 ? 'credit' : 'paid',
-          amount_paid: amountPaid,
-          amount_credit: creditAmount,
-          installments: firstPaymentMethod?.installments || 1,
-          created_by: user?.id
-        })
-        .select()
-        .single();
-
-      if (saleError) throw saleError;
-
-      // Create sale payments for multiple payment tracking
-      for (const payment of data.payments) {
-        await supabase.from('sale_payments').insert({
-          sale_id: sale.id,
-          payment_method_id: payment.isCredit ? null : payment.paymentMethodId,
-          amount: payment.amount,
-          installments: payment.installments,
-          is_credit: payment.isCredit
-        });
-      }
-
-      // Create sale items
       const saleItems = cart.map(item => ({
-        sale_id: sale.id,
         product_id: item.product_id,
         quantity: item.quantity,
         unit_price: item.unit_price,
@@ -511,65 +553,62 @@ const PDV = () => {
         total: item.total
       }));
 
-      const { error: itemsError } = await supabase
-        .from('sale_items')
-        .insert(saleItems);
-
-      if (itemsError) throw itemsError;
+      const payload: OfflineSalePayload = {
+        p_store_id: selectedStoreId,
+        p_customer_id: selectedCustomer?.id ?? null,
+        p_customer_document: walkInSale ? onlyDigits(walkInDocument) || null : null,
+        p_items: saleItems,
+        p_payments: data.payments.map(p => ({
+          payment_method_id: p.isCredit ? null : p.paymentMethodId,
+          amount: p.amount,
+          installments: p.installments,
+          is_credit: p.isCredit,
+          first_due_date: p.firstDueDate || null,
+          interval_days: p.intervalDays || null,
+          amount_tendered: p.amountTendered ?? null
+        })),
+        p_discount: {
+          type: globalDiscountValue > 0 ? globalDiscountType : null,
+          value: globalDiscountValue
+        },
+        p_delivery: {
+          type: data.deliveryType,
+          address_id: data.deliveryAddressId,
+          date: data.deliveryDate ? format(data.deliveryDate, 'yyyy-MM-dd') : null,
+          new_address: data.newAddress || null
+        },
+        p_quote_id: editingQuoteId
+      };
 
-      // Create stock movements (exits)
-      for (const item of cart) {
-        await (supabase as any).rpc('update_stock_quantity', {
-          p_product_id: item.product_id,
-          p_store_id: selectedStoreId,
-          p_quantity: -item.quantity
-        });
-
-        await supabase.from('stock_movements').insert({
-          product_id: item.product_id,
-          store_id: selectedStoreId,
-          movement_type: 'exit',
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          reference_type: 'sale',
-          reference_id: sale.id,
-          created_by: user?.id
-        });
+      if (!pdvOffline.online) {
+        await queueOfflineSale(clientSaleId, payload, data.payments, data.deliveryType);
+        return;
       }
 
-      // Create account receivable if using credit
-      if (creditAmount > 0) {
-        await supabase.from('accounts_receivable').insert({
-          sale_id: sale.id,
-          customer_id: selectedCustomer!.id,
-          amount: creditAmount,
-          due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          created_by: user?.id
-        });
-
-        // Log purchase in customer credit history
-        await supabase.from('customer_credit_history').insert({
-          customer_id: selectedCustomer!.id,
-          action_type: 'purchase',
-          old_value: customerUsedCredit,
-          new_value: customerUsedCredit + creditAmount,
-          reference_id: sale.id,
-          reference_type: 'sale',
-          notes: `Venda ${saleNumber} - Crediário: R$ ${creditAmount.toFixed(2)}`,
-          created_by: user?.id
-        });
+      // Sale, payments, items, stock, receivable and quote removal run in a single transaction,
+      // through finalize_sale; a sale already created under this id is returned instead
+      const { data: result, error } = await supabase.rpc('sync_offline_sale', {
+        ...payload,
+        p_client_sale_id: clientSaleId,
+        p_offline_number: null,
+        p_sold_at: null
+      });
+
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+        pdvOffline.reportNetworkError();
+        await queueOfflineSale(clientSaleId, payload, data.payments, data.deliveryType);
+        return;
       }
 
-      // If editing a quote, delete it since it's now a completed sale
-      if (editingQuoteId) {
-        setEditingQuoteId(null);
-      }
+      const sale = { id: result[0].sale_id };
+      const saleNumber = result[0].sale_number;
 
       toast.success(`Venda ${saleNumber} finalizada com sucesso!`);
 
       // Generate PDF only if auto-print is enabled
       if (selectedStore?.pdv_auto_print) {
-        generateSalePDF(sale, saleItems, selectedStore?.pdv_print_format || 'a4');
+        generateSalePDF(sale, cart, selectedStore?.pdv_print_format || 'a4', true);
       }
 
       // Reset form
@@ -580,7 +619,61 @@ const PDV = () => {
     }
   };
 
-  const generateSalePDF = async (sale: any, items: any[], printFormat: string = 'a4') => {
+  // Keeps the sale on this computer with a provisional number; usePDVOffline sends it when the
+  // connection is back. Crediário and delivery depend on live data, so they stay online only.
+  const queueOfflineSale = async (
+    clientSaleId: string,
+    payload: OfflineSalePayload,
+    payments: PaymentEntry[],
+    deliveryType: 'pickup' | 'delivery'
+  ) => {
+    if (!selectedStore) return;
+
+    if (deliveryType === 'delivery' || payments.some(p => p.isCredit)) {
+      toast.error('Sem conexão: vendas com crediário ou entrega só podem ser finalizadas online');
+      return;
+    }
+
+    const sale: Omit<OfflineSale, 'status' | 'attempts'> = {
+      id: clientSaleId,
+      offlineNumber: await nextOfflineNumber(selectedStore),
+      storeId: selectedStoreId,
+      soldAt: new Date().toISOString(),
+      payload,
+      receipt: {
+        customer: selectedCustomer,
+        customer_document: walkInSale ? onlyDigits(walkInDocument) || null : null,
+        items: cart.map(item => ({
+          name: item.name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          discount_amount: item.discount_amount,
+          total: item.total
+        })),
+        payments: payments.map(p => ({
+          name: p.paymentMethodName,
+          code: paymentMethods.find(pm => pm.id === p.paymentMethodId)?.code || '',
+          amount: p.amount,
+          amount_tendered: p.amountTendered ?? null,
+          change_amount: p.changeAmount || 0
+        })),
+        subtotal,
+        discount_amount: globalDiscountAmount,
+        total
+      }
+    };
+
+    await pdvOffline.queueSale(sale);
+    toast.success(`Venda ${sale.offlineNumber} registrada offline. Ela será enviada quando a conexão voltar.`);
+
+    if (selectedStore.pdv_auto_print) {
+      printOfflineSale(sale, true);
+    }
+
+    resetSale();
+  };
+
+  const generateSalePDF = async (sale: { id: string }, items: ReceiptItem[], printFormat: string = 'a4', openDrawer = false) => {
     // Fetch complete data for PDF
     const { data: saleData } = await supabase
       .from('sales')
@@ -589,65 +682,166 @@ const PDV = () => {
         customer:customers(*),
         store:stores(*),
         delivery_address:customer_delivery_addresses(*),
-        payment_method:payment_methods(*)
+        payment_method:payment_methods(*),
+        payments:sale_payments(amount, is_credit, amount_tendered, change_amount, payment_method:payment_methods(code, name))
       `)
       .eq('id', sale.id)
       .single();
 
     if (!saleData) return;
 
+    printSale(saleData, items, printFormat, openDrawer);
+  };
+
+  // Receipt from the data kept in the queue, since the sale may not be in the database yet
+  const printOfflineSale = (
+    sale: Pick<OfflineSale, 'storeId' | 'offlineNumber' | 'saleNumber' | 'soldAt' | 'receipt'>,
+    openDrawer = false
+  ) => {
+    const store = stores.find(s => s.id === sale.storeId);
+    const { receipt } = sale;
+
+    printSale({
+      store,
+      customer: receipt.customer,
+      customer_document: receipt.customer_document,
+      sale_number: sale.saleNumber || sale.offlineNumber,
+      created_at: sale.soldAt,
+      subtotal: receipt.subtotal,
+      discount_amount: receipt.discount_amount,
+      total: receipt.total,
+      payment_method: { name: receipt.payments[0]?.name },
+      amount_paid: receipt.total,
+      amount_credit: 0,
+      payments: receipt.payments.map(p => ({
+        amount: p.amount,
+        is_credit: false,
+        amount_tendered: p.amount_tendered ?? null,
+        change_amount: p.change_amount || 0,
+        payment_method: { code: p.code, name: p.name }
+      }))
+    }, receipt.items, store?.pdv_print_format || 'a4', openDrawer);
+  };
+
+  const printSale = (
+    saleData: ReceiptSale,
+    items: ReceiptItem[],
+    printFormat: string,
+    openDrawer = false
+  ) => {
+    saleData = { ...saleData, customer: getSaleCustomer(saleData.customer, saleData.customer_document) };
+
+    // PIX paid at the register gets the store's QR code printed, with the sale number as txid like
+    // the QR code shown at the payment step
+    const pixAmount = (saleData.payments || [])
+      .filter(payment => payment.payment_method?.code === 'pix')
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    const pixReceiver = getStorePixReceiver(saleData.store);
+    const pixPayload = pixReceiver && pixAmount > 0
+      ? buildPixBrCode({ ...pixReceiver, amount: pixAmount, txid: saleData.sale_number })
+      : null;
+
+    // Thermal printers follow the sale's store; the drawer only opens for new sales paid in cash
+    const salePrinter = getThermalPrinterConfig(saleData.store);
+    if (salePrinter) {
+      const paidInCash = (saleData.payments || []).some(payment => payment.payment_method?.code === 'cash');
+      printThermal(salePrinter, buildSaleReceipt(
+        toThermalSale(saleData, items, pixPayload),
+        THERMAL_COLUMNS[salePrinter.format],
+        { openDrawer: openDrawer && salePrinter.cashDrawer && paidInCash }
+      ), `Pedido ${saleData.sale_number}`);
+      return;
+    }
+
     const isReceipt = printFormat === 'bobina';
 
     // Styles for A4 or Receipt (bobina 80mm)
-    const styles = isReceipt ? `
-      body { font-family: 'Courier New', monospace; width: 80mm; padding: 5mm; margin: 0; font-size: 10px; }
-      .header { text-align: center; margin-bottom: 10px; border-bottom: 1px dashed #000; padding-bottom: 5px; }
-      .header h2 { font-size: 14px; margin: 0; }
-      .header p { margin: 2px 0; }
-      .info { margin-bottom: 8px; font-size: 9px; }
-      .info h3 { font-size: 10px; margin: 5px 0 3px 0; border-bottom: 1px dashed #000; }
-      .info p { margin: 2px 0; }
-      .items { width: 100%; margin: 10px 0; }
-      .item { border-bottom: 1px dotted #ccc; padding: 3px 0; }
-      .item-name { font-weight: bold; }
-      .item-details { display: flex; justify-content: space-between; font-size: 9px; }
-      .totals { border-top: 1px dashed #000; padding-top: 5px; margin-top: 10px; }
-      .totals p { display: flex; justify-content: space-between; margin: 2px 0; }
-      .totals .total { font-weight: bold; font-size: 12px; }
-      .footer { text-align: center; margin-top: 15px; font-size: 9px; border-top: 1px dashed #000; padding-top: 5px; }
-      @media print { @page { size: 80mm auto; margin: 0; } }
-    ` : `
-      body { font-family: Arial, sans-serif; padding: 20px; }
-      .header { text-align: center; margin-bottom: 20px; }
-      .info { margin-bottom: 15px; }
-      .info-row { display: flex; justify-content: space-between; margin: 5px 0; }
-      table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-      th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-      th { background-color: #f4f4f4; }
-      .total-row { font-weight: bold; }
-      .footer { margin-top: 30px; text-align: center; font-size: 12px; }
-    `;
+    const styles = isReceipt ? receiptStyles : a4Styles;
+
+    const pixQrCode = renderPixQrCode(pixPayload, pixAmount);
 
     // Create PDF content
-    const pdfContent = isReceipt ? generateReceiptContent(saleData, items, styles) : generateA4Content(saleData, items, styles);
+    const pdfContent = isReceipt
+      ? generateReceiptContent(saleData, items, styles, pixQrCode)
+      : generateA4Content(saleData, items, styles, pixQrCode);
+
+    openPrintWindow(pdfContent);
+  };
+
+  // Cash handed over and change given back, summed over the sale's cash payments
+  const getCashChange = (saleData: ReceiptSale) => {
+    const cashPayments = (saleData.payments || []).filter(payment => Number(payment.change_amount) > 0);
+    return {
+      cashTendered: cashPayments.reduce((sum, payment) => sum + Number(payment.amount_tendered), 0),
+      change: cashPayments.reduce((sum, payment) => sum + Number(payment.change_amount), 0)
+    };
+  };
 
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(pdfContent);
-      printWindow.document.close();
-      printWindow.print();
+  const toThermalSale = (
+    saleData: ReceiptSale,
+    items: ReceiptItem[],
+    pixPayload: string | null
+  ): ThermalSale => {
+    const address = saleData.delivery_address;
+    return {
+      store: saleData.store,
+      number: saleData.sale_number,
+      date: saleData.created_at,
+      customer: saleData.customer,
+      items: items.map(item => ({
+        name: item.name || item.product?.name || 'Produto',
+        quantity: Number(item.quantity),
+        unit_price: Number(item.unit_price),
+        discount_amount: Number(item.discount_amount || 0),
+        total: Number(item.total)
+      })),
+      subtotal: Number(saleData.subtotal),
+      discountAmount: Number(saleData.discount_amount || 0),
+      total: Number(saleData.total),
+      payments: (saleData.payments || []).map(payment => ({
+        name: payment.is_credit ? 'Crediário' : payment.payment_method?.name || 'Pagamento',
+        amount: Number(payment.amount)
+      })),
+      ...getCashChange(saleData),
+      deliveryAddress: address
+        ? [address.address_street, address.address_number, address.address_neighborhood, address.address_city]
+            .filter(Boolean).join(', ')
+        : null,
+      deliveryDate: saleData.delivery_date,
+      pixPayload
+    };
+  };
+
+  // ESC/POS goes straight to the printer; when it can't be reached the same layout opens in the browser
+  const printThermal = async (config: ThermalPrinterConfig, document: EscPosDocument, title: string) => {
+    const error = await printEscPosDocument(config, document, title);
+    if (error) toast.error(`Impressora térmica indisponível: ${error.message}. Impressão aberta no navegador.`);
+  };
+
+  const handlePairPrinter = async () => {
+    if (!thermalPrinter || !selectedStore) return;
+    try {
+      await pairThermalPrinter(thermalPrinter.connection);
+      const testPage = createEscPosDocument(THERMAL_COLUMNS[thermalPrinter.format])
+        .text(selectedStore.name, { align: 'center', bold: true })
+        .text('Impressora configurada', { align: 'center' })
+        .feed()
+        .cut();
+      await printThermal(thermalPrinter, testPage.document, 'Teste de impressão');
+    } catch (error) {
+      // Closing the browser's device picker is not an error worth reporting
+      if ((error as Error).name !== 'NotFoundError') toast.error('Erro ao parear impressora: ' + (error as Error).message);
     }
   };
 
-  const generateReceiptContent = (saleData: any, items: any[], styles: string) => `
+  const generateReceiptContent = (saleData: ReceiptSale, items: ReceiptItem[], styles: string, pixQrCode: string) => `
     <html>
     <head><style>${styles}</style></head>
     <body>
-      <div class="header">
-        <h2>${saleData.store?.name || 'Loja'}</h2>
-        <p>Pedido: ${saleData.sale_number}</p>
-        <p>${new Date(saleData.created_at).toLocaleDateString('pt-BR')} ${new Date(saleData.created_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}</p>
-      </div>
+      ${renderStoreHeader(saleData.store, [
+        `Pedido: ${saleData.sale_number}`,
+        `${new Date(saleData.created_at).toLocaleDateString('pt-BR')} ${new Date(saleData.created_at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`
+      ])}
       
       <div class="info">
         <h3>Cliente</h3>
@@ -669,7 +863,7 @@ const PDV = () => {
       ${saleData.delivery_date ? `<p><strong>Entrega:</strong> ${new Date(saleData.delivery_date).toLocaleDateString('pt-BR')}</p>` : ''}
       
       <div class="items">
-        ${items.map((item: any) => `
+        ${items.map(item => `
           <div class="item">
             <div class="item-name">${item.name || item.product?.name || 'Produto'}</div>
             <div class="item-details">
@@ -687,8 +881,14 @@ const PDV = () => {
         <p class="total"><span>TOTAL:</span><span>R$ ${Number(saleData.total).toFixed(2)}</span></p>
         <p><span>${saleData.payment_method?.name || 'Pagamento'}:</span><span>R$ ${Number(saleData.amount_paid).toFixed(2)}</span></p>
         ${Number(saleData.amount_credit) > 0 ? `<p><span>Crediário:</span><span>R$ ${Number(saleData.amount_credit).toFixed(2)}</span></p>` : ''}
+        ${getCashChange(saleData).change > 0 ? `
+        <p><span>Recebido em dinheiro:</span><span>R$ ${getCashChange(saleData).cashTendered.toFixed(2)}</span></p>
+        <p class="total"><span>TROCO:</span><span>R$ ${getCashChange(saleData).change.toFixed(2)}</span></p>
+        ` : ''}
       </div>
       
+      ${pixQrCode}
+      
       <div class="footer">
         <p>Obrigado pela preferência!</p>
       </div>
@@ -696,15 +896,14 @@ const PDV = () => {
     </html>
   `;
 
-  const generateA4Content = (saleData: any, items: any[], styles: string) => `
+  const generateA4Content = (saleData: ReceiptSale, items: ReceiptItem[], styles: string, pixQrCode: string) => `
     <html>
     <head><style>${styles}</style></head>
       <body>
-        <div class="header">
-          <h2>${saleData.store?.name || 'Loja'}</h2>
-          <p>Pedido: ${saleData.sale_number}</p>
-          <p>Data: ${new Date(saleData.created_at).toLocaleDateString('pt-BR')}</p>
-        </div>
+        ${renderStoreHeader(saleData.store, [
+          `Pedido: ${saleData.sale_number}`,
+          `Data: ${new Date(saleData.created_at).toLocaleDateString('pt-BR')}`
+        ])}
         
         <div class="info">
           <h3>Cliente</h3>
@@ -736,7 +935,7 @@ const PDV = () => {
             </tr>
           </thead>
           <tbody>
-            ${items.map((item: any) => `
+            ${items.map(item => `
               <tr>
                 <td>${item.name || item.product?.name || 'Produto'}</td>
                 <td>${item.quantity}</td>
@@ -769,8 +968,14 @@ const PDV = () => {
           <p><strong>Forma:</strong> ${saleData.payment_method?.name || '-'}</p>
           <p><strong>Valor Pago:</strong> R$ ${Number(saleData.amount_paid).toFixed(2)}</p>
           ${Number(saleData.amount_credit) > 0 ? `<p><strong>Crediário:</strong> R$ ${Number(saleData.amount_credit).toFixed(2)}</p>` : ''}
+          ${getCashChange(saleData).change > 0 ? `
+          <p><strong>Recebido em dinheiro:</strong> R$ ${getCashChange(saleData).cashTendered.toFixed(2)}</p>
+          <p><strong>Troco:</strong> R$ ${getCashChange(saleData).change.toFixed(2)}</p>
+          ` : ''}
         </div>
         
+        ${pixQrCode}
+        
         <div class="footer">
           <p>Obrigado pela preferência!</p>
         </div>
@@ -778,9 +983,65 @@ const PDV = () => {
       </html>
     `;
 
+  const toggleWalkInSale = () => {
+    setWalkInSale(!walkInSale);
+    setWalkInDocument('');
+    setSelectedCustomer(null);
+    setCustomerSearch('');
+    setShowCustomerSearch(false);
+  };
+
+  const moveCartCursor = (delta: number) => {
+    if (cart.length === 0) return;
+    const next = cartCursor < 0
+      ? (delta > 0 ? 0 : cart.length - 1)
+      : Math.min(Math.max(cartCursor + delta, 0), cart.length - 1);
+    setCartCursor(next);
+    cartListRef.current?.children[next]?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const anyDialogOpen = showDiscountModal || showPaymentStep || !!selectedItemForAction || showReprintModal ||
+    showReplicateModal || showQuoteSearchModal || showCreditPaymentModal || showOfflineSalesModal || showShortcutsHelp;
+
+  const { shortcuts, setShortcut, resetShortcuts } = usePDVShortcuts({
+    help: () => setShowShortcutsHelp(true),
+    searchProduct: () => searchInputRef.current?.focus(),
+    // Pressed again on the customer field, switches between a customer and consumidor final
+    customer: () => {
+      if (document.activeElement === customerInputRef.current) {
+        toggleWalkInSale();
+        setTimeout(() => customerInputRef.current?.focus(), 0);
+      } else {
+        customerInputRef.current?.focus();
+      }
+    },
+    quantity: () => {
+      quantityInputRef.current?.focus();
+      quantityInputRef.current?.select();
+    },
+    discount: () => {
+      if (cart.length > 0) setShowDiscountModal(true);
+    },
+    payment: handleFinalizeSale,
+    quotes: () => {
+      if (selectedStoreId && pdvOffline.online) setShowQuoteSearchModal(true);
+    },
+    finalize: handleFinalizeSale,
+    removeItem: () => {
+      if (!cart[cartCursor]) return;
+      removeFromCart(cart[cartCursor].id);
+      setCartCursor(Math.min(cartCursor, cart.length - 2));
+    },
+    previousItem: () => moveCartCursor(-1),
+    nextItem: () => moveCartCursor(1)
+  }, !anyDialogOpen);
+
   const resetSale = () => {
     setCart([]);
+    setCartCursor(-1);
     setSelectedCustomer(null);
+    setWalkInSale(false);
+    setWalkInDocument('');
     setGlobalDiscountValue(0);
     setGlobalDiscountType('fixed');
     setShowPaymentStep(false);
@@ -788,12 +1049,60 @@ const PDV = () => {
     setProductQuantity(1);
     setCustomerSearch('');
     setEditingQuoteId(null);
+    setClientSaleId(crypto.randomUUID());
   };
 
   return (
     <div className="h-[calc(100vh-80px)] flex flex-col lg:flex-row gap-4">
       {/* Left Panel - Products and Search */}
       <div className="flex-1 flex flex-col gap-4">
+        {/* Connection and offline queue */}
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Badge variant={pdvOffline.online ? 'secondary' : 'destructive'} className="gap-1">
+            {pdvOffline.online ? <Wifi className="h-3 w-3" /> : <WifiOff className="h-3 w-3" />}
+            {pdvOffline.online ? 'Online' : 'Offline'}
+          </Badge>
+          {selectedStoreId && (
+            <span className="text-muted-foreground">
+              {pdvOffline.catalogUpdatedAt
+                ? `Catálogo offline de ${format(new Date(pdvOffline.catalogUpdatedAt), 'dd/MM HH:mm')}`
+                : 'Catálogo offline não salvo'}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={() => pdvOffline.refreshCatalog()}
+            disabled={!pdvOffline.online || !selectedStoreId || pdvOffline.refreshingCatalog}
+          >
+            <RefreshCw className={`h-3 w-3 mr-1 ${pdvOffline.refreshingCatalog ? 'animate-spin' : ''}`} />
+            Atualizar catálogo
+          </Button>
+          {thermalPrinter && thermalPrinter.connection !== 'agent' && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handlePairPrinter}>
+              <Printer className="h-3 w-3 mr-1" />
+              Parear impressora
+            </Button>
+          )}
+          <Button
+            variant={pdvOffline.pendingCount > 0 ? 'outline' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 ml-auto"
+            onClick={() => setShowOfflineSalesModal(true)}
+          >
+            <CloudUpload className="h-3 w-3 mr-1" />
+            Vendas offline
+            {pdvOffline.pendingCount > 0 && (
+              <Badge variant="secondary" className="ml-1 h-4 px-1">{pdvOffline.pendingCount}</Badge>
+            )}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setShowShortcutsHelp(true)}>
+            <Keyboard className="h-3 w-3 mr-1" />
+            Atalhos ({formatShortcutKey(shortcuts.help)})
+          </Button>
+        </div>
+
         {/* Store and Customer Selection */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
@@ -812,22 +1121,57 @@ const PDV = () => {
           </div>
 
           <div className="relative">
-            <Label className="text-xs text-muted-foreground">Cliente *</Label>
-            <div className="relative">
-              <Input
-                placeholder="Buscar cliente por nome ou documento..."
-                value={selectedCustomer ? selectedCustomer.name : customerSearch}
-                onChange={(e) => {
-                  setCustomerSearch(e.target.value);
-                  setSelectedCustomer(null);
-                  setShowCustomerSearch(true);
-                }}
-                onFocus={() => setShowCustomerSearch(true)}
-                className="pr-10"
-              />
-              <User className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Cliente *</Label>
+              <Button
+                variant={walkInSale ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-5 px-2 text-xs"
+                onClick={toggleWalkInSale}
+              >
+                {walkInSale ? 'Identificar cliente' : WALK_IN_CUSTOMER_NAME}
+              </Button>
             </div>
-            {showCustomerSearch && customers.length > 0 && (
+            {walkInSale ? (
+              <div className="relative">
+                <Input
+                  ref={customerInputRef}
+                  placeholder="CPF na nota (opcional)"
+                  value={walkInDocument}
+                  onChange={(e) => setWalkInDocument(onlyDigits(e.target.value).slice(0, 11))}
+                  onBlur={() => walkInDocument && setWalkInDocument(formatCpf(walkInDocument))}
+                  onFocus={() => setWalkInDocument(onlyDigits(walkInDocument))}
+                  className="pr-10"
+                />
+                <User className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="relative">
+                <Input
+                  ref={customerInputRef}
+                  placeholder="Buscar cliente por nome ou documento..."
+                  value={selectedCustomer ? selectedCustomer.name : customerSearch}
+                  onChange={(e) => {
+                    setCustomerSearch(e.target.value);
+                    setSelectedCustomer(null);
+                    setShowCustomerSearch(true);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && showCustomerSearch && customers.length > 0) {
+                      e.preventDefault();
+                      setSelectedCustomer(customers[0]);
+                      setShowCustomerSearch(false);
+                      setCustomerSearch('');
+                      searchInputRef.current?.focus();
+                    }
+                  }}
+                  onFocus={() => setShowCustomerSearch(true)}
+                  className="pr-10"
+                />
+                <User className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              </div>
+            )}
+            {!walkInSale && showCustomerSearch && customers.length > 0 && (
               <Card className="absolute z-50 w-full mt-1 max-h-60 overflow-auto">
                 <CardContent className="p-2">
                   {customers.map((customer) => (
@@ -881,10 +1225,17 @@ const PDV = () => {
           <div className="flex gap-2">
             <div className="w-20">
               <Input
+                ref={quantityInputRef}
                 type="number"
                 min="1"
                 value={productQuantity}
                 onChange={(e) => setProductQuantity(Math.max(1, Number(e.target.value) || 1))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    searchInputRef.current?.focus();
+                  }
+                }}
                 className="text-center font-medium"
                 disabled={!selectedStoreId}
               />
@@ -893,6 +1244,7 @@ const PDV = () => {
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 ref={searchInputRef}
+                data-pdv-shortcuts
                 placeholder="Buscar produto por nome, código ou EAN..."
                 value={productSearch}
                 onChange={(e) => setProductSearch(e.target.value)}
@@ -946,11 +1298,11 @@ const PDV = () => {
             </CardTitle>
           </CardHeader>
           <div className="lg:h-[calc(100%-60px)] lg:overflow-auto">
-            <div className="p-2 space-y-2">
-              {cart.map((item) => (
+            <div ref={cartListRef} className="p-2 space-y-2">
+              {cart.map((item, index) => (
                 <div
                   key={item.id}
-                  className="p-3 rounded-lg border bg-card hover:bg-accent/50 cursor-pointer transition-colors"
+                  className={`p-3 rounded-lg border bg-card hover:bg-accent/50 cursor-pointer transition-colors ${index === cartCursor ? 'ring-2 ring-primary' : ''}`}
                   onClick={() => setSelectedItemForAction(item)}
                 >
                   <div className="flex items-center justify-between">
@@ -1019,6 +1371,7 @@ const PDV = () => {
         >
           <Percent className="h-4 w-4 mr-2" />
           Desconto Geral
+          <span className="ml-2 text-xs opacity-70">{formatShortcutKey(shortcuts.discount)}</span>
           {globalDiscountValue > 0 && (
             <Badge variant="secondary" className="ml-2">
               {globalDiscountType === 'percentage' ? `${globalDiscountValue}%` : `R$ ${globalDiscountValue.toFixed(2)}`}
@@ -1058,16 +1411,17 @@ const PDV = () => {
             className="w-full"
             size="lg"
             onClick={handleFinalizeSale}
-            disabled={cart.length === 0 || !selectedCustomer}
+            disabled={cart.length === 0 || (!selectedCustomer && !walkInSale)}
           >
             <DollarSign className="h-5 w-5 mr-2" />
             Pagamento
+            <span className="ml-2 text-xs opacity-70">{formatShortcutKey(shortcuts.payment)}</span>
           </Button>
           <div className="grid grid-cols-2 gap-2">
             <Button
               variant="outline"
               onClick={handleSaveQuote}
-              disabled={cart.length === 0 || !selectedCustomer}
+              disabled={cart.length === 0 || !selectedCustomer || !pdvOffline.online}
             >
               <FileText className="h-4 w-4 mr-2" />
               {editingQuoteId ? 'Atualizar Orçamento' : 'Salvar Orçamento'}
@@ -1075,16 +1429,18 @@ const PDV = () => {
             <Button
               variant="outline"
               onClick={() => setShowQuoteSearchModal(true)}
-              disabled={!selectedStoreId}
+              disabled={!selectedStoreId || !pdvOffline.online}
             >
               <FolderSearch className="h-4 w-4 mr-2" />
               Buscar Orçamento
+              <span className="ml-2 text-xs opacity-70">{formatShortcutKey(shortcuts.quotes)}</span>
             </Button>
           </div>
           <Button
             variant="secondary"
             className="w-full"
             onClick={() => setShowCreditPaymentModal(true)}
+            disabled={!pdvOffline.online}
           >
             <CreditCard className="h-4 w-4 mr-2" />
             Pagamento de Crediário
@@ -1107,6 +1463,7 @@ const PDV = () => {
                 setRecentSales(data || []);
                 setShowReprintModal(true);
               }}
+              disabled={!pdvOffline.online}
             >
               <Printer className="h-4 w-4 mr-2" />
               Reimprimir
@@ -1114,6 +1471,7 @@ const PDV = () => {
             <Button
               variant="outline"
               onClick={() => setShowReplicateModal(true)}
+              disabled={!pdvOffline.online}
             >
               <Copy className="h-4 w-4 mr-2" />
               Replicar
@@ -1162,7 +1520,9 @@ const PDV = () => {
                 step={globalDiscountType === 'percentage' ? '1' : '0.01'}
                 value={globalDiscountValue || ''}
                 onChange={(e) => setGlobalDiscountValue(Number(e.target.value))}
+                onKeyDown={(e) => e.key === 'Enter' && setShowDiscountModal(false)}
                 placeholder="0"
+                autoFocus
               />
             </div>
             {globalDiscountValue > 0 && (
@@ -1198,9 +1558,14 @@ const PDV = () => {
         open={showPaymentStep}
         onClose={() => setShowPaymentStep(false)}
         total={total}
+        storeId={selectedStoreId}
+        pixReceiver={pixReceiver}
+        clientSaleId={clientSaleId}
         customerId={selectedCustomer?.id || ''}
-        customerName={selectedCustomer?.name || ''}
+        customerName={selectedCustomer?.name || WALK_IN_CUSTOMER_NAME}
         availableCredit={availableCredit}
+        offline={!pdvOffline.online}
+        finalizeKey={shortcuts.finalize}
         onConfirm={handleSaleComplete}
       />
 
@@ -1224,11 +1589,11 @@ const PDV = () => {
                 {recentSales.map((sale: any) => (
                   <TableRow key={sale.id}>
                     <TableCell className="font-mono">{sale.sale_number}</TableCell>
-                    <TableCell>{sale.customer?.name}</TableCell>
+                    <TableCell>{sale.customer?.name || WALK_IN_CUSTOMER_NAME}</TableCell>
                     <TableCell>R$ {Number(sale.total).toFixed(2)}</TableCell>
                     <TableCell>
                       <Button size="sm" onClick={async () => {
-                        const { data: items } = await supabase.from('sale_items').select('*').eq('sale_id', sale.id);
+                        const { data: items } = await supabase.from('sale_items').select('*, product:products(name)').eq('sale_id', sale.id);
                         generateSalePDF(sale, items || [], selectedStore?.pdv_print_format || 'a4');
                         setShowReprintModal(false);
                       }}>
@@ -1298,6 +1663,7 @@ const PDV = () => {
                 setCart(newCart);
                 if (sale.customer) {
                   setSelectedCustomer(sale.customer as any);
+                  setWalkInSale(false);
                 }
                 toast.success('Itens do pedido carregados');
               }
@@ -1323,6 +1689,28 @@ const PDV = () => {
         open={showCreditPaymentModal}
         onClose={() => setShowCreditPaymentModal(false)}
       />
+
+      {/* Offline Sales Modal */}
+      <PDVShortcutsHelp
+        open={showShortcutsHelp}
+        onClose={() => setShowShortcutsHelp(false)}
+        shortcuts={shortcuts}
+        onChange={setShortcut}
+        onReset={resetShortcuts}
+      />
+
+      <PDVOfflineSalesModal
+        open={showOfflineSalesModal}
+        onClose={() => setShowOfflineSalesModal(false)}
+        sales={pdvOffline.sales}
+        online={pdvOffline.online}
+        syncing={pdvOffline.syncing}
+        onSync={pdvOffline.syncNow}
+        onRetry={pdvOffline.retrySale}
+        onDiscard={pdvOffline.discardSale}
+        onClearSynced={pdvOffline.clearSynced}
+        onReprint={printOfflineSale}
+      />
     </div>
   );
 };
@@ -22,8 +22,17 @@ interface PaymentMethod {
   active: boolean;
   allow_installments: boolean;
   max_installments: number;
+  settlement_days: number | null;
+  settlement_fee_percent: number;
 }
 
+// Card methods are credited by the acquirer later; the others are received at the register
+const getSettlementLabel = (method: PaymentMethod) => {
+  if (method.settlement_days === null) return 'No caixa';
+  const fee = Number(method.settlement_fee_percent) > 0 ? ` • taxa ${Number(method.settlement_fee_percent)}%` : '';
+  return `D+${method.settlement_days}${fee}`;
+};
+
 const PaymentMethods = () => {
   const { user, hasRole } = useAuth();
   const queryClient = useQueryClient();
@@ -34,7 +43,9 @@ const PaymentMethods = () => {
     code: '',
     active: true,
     allow_installments: false,
-    max_installments: 1
+    max_installments: 1,
+    settlement_days: null as number | null,
+    settlement_fee_percent: 0
   });
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
   const isMobile = useIsMobile();
@@ -112,7 +123,9 @@ const PaymentMethods = () => {
       code: '',
       active: true,
       allow_installments: false,
-      max_installments: 1
+      max_installments: 1,
+      settlement_days: null,
+      settlement_fee_percent: 0
     });
     setEditingMethod(null);
     setShowForm(false);
@@ -125,7 +138,9 @@ const PaymentMethods = () => {
       code: method.code,
       active: method.active,
       allow_installments: method.allow_installments,
-      max_installments: method.max_installments
+      max_installments: method.max_installments,
+      settlement_days: method.settlement_days,
+      settlement_fee_percent: Number(method.settlement_fee_percent)
     });
     setShowForm(true);
   };
@@ -192,6 +207,10 @@ const PaymentMethods = () => {
                       <span className="text-muted-foreground">Parcelas:</span>{' '}
                       {method.allow_installments ? `Até ${method.max_installments}x` : 'Não'}
                     </p>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground">Recebimento:</span>{' '}
+                      {getSettlementLabel(method)}
+                    </p>
                     {selectedCardId === method.id && canManage && (
                       <div className="flex gap-2 mt-3 pt-3 border-t">
                         <Button
@@ -239,6 +258,7 @@ const PaymentMethods = () => {
                   <TableHead>Nome</TableHead>
                   <TableHead>Código</TableHead>
                   <TableHead>Parcelas</TableHead>
+                  <TableHead>Recebimento</TableHead>
                   <TableHead>Status</TableHead>
                   {canManage && <TableHead className="w-[100px]">Ações</TableHead>}
                 </TableRow>
@@ -251,6 +271,7 @@ const PaymentMethods = () => {
                     <TableCell>
                       {method.allow_installments ? `Até ${method.max_installments}x` : 'Não'}
                     </TableCell>
+                    <TableCell>{getSettlementLabel(method)}</TableCell>
                     <TableCell>
                       <Badge variant={method.active ? "default" : "secondary"}>
                         {method.active ? 'Ativo' : 'Inativo'}
@@ -350,6 +371,35 @@ const PaymentMethods = () => {
                 />
               </div>
             )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Prazo de recebimento (dias)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={formData.settlement_days ?? ''}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    settlement_days: e.target.value === '' ? null : Number(e.target.value)
+                  })}
+                  placeholder="Vazio = no caixa"
+                />
+              </div>
+              <div>
+                <Label>Taxa da adquirente (%)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.settlement_fee_percent}
+                  disabled={formData.settlement_days === null}
+                  onChange={(e) => setFormData({ ...formData, settlement_fee_percent: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Usado na previsão do fluxo de caixa. Em vendas parceladas, cada parcela é recebida 30 dias após a anterior.
+            </p>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={resetForm}>
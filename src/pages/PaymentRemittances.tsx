@@ -0,0 +1,309 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Eye, FileText, Landmark, Upload } from 'lucide-react';
+import { BankAccountsDialog } from '@/components/accounts-payable/BankAccountsDialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { REMITTANCE_ITEM_STATUS_LABELS, parseReturnFile } from '@/lib/cnab240';
+import { applyReturnItems, type ReturnResult, type ReturnResultStatus } from '@/lib/paymentRemittances';
+
+type RemittanceRow = Tables<'payment_remittances'> & {
+  bank_account: { name: string; bank_code: string } | null;
+};
+
+type RemittanceItemRow = Tables<'payment_remittance_items'> & {
+  account: { description: string; due_date: string; supplier: { name: string } | null } | null;
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'dd/MM/yyyy', { locale: ptBR });
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'success' | 'warning' | 'outline'> = {
+  enviado: 'secondary',
+  agendado: 'warning',
+  pago: 'success',
+  rejeitado: 'destructive',
+  ignorado: 'outline',
+  erro: 'destructive'
+};
+
+const RESULT_LABELS: Record<ReturnResultStatus, string> = {
+  pago: 'Pago',
+  agendado: 'Agendado',
+  rejeitado: 'Rejeitado',
+  ignorado: 'Ignorado',
+  erro: 'Erro'
+};
+
+const PaymentRemittances = () => {
+  const [remittances, setRemittances] = useState<RemittanceRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [viewing, setViewing] = useState<RemittanceRow | null>(null);
+  const [items, setItems] = useState<RemittanceItemRow[]>([]);
+  const [returnResults, setReturnResults] = useState<ReturnResult[] | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [isBankAccountsOpen, setIsBankAccountsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const fetchRemittances = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_remittances')
+        .select('*, bank_account:bank_accounts(name, bank_code)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRemittances((data || []) as RemittanceRow[]);
+    } catch (error) {
+      console.error('Erro ao carregar remessas:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar remessas",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRemittances();
+  }, [fetchRemittances]);
+
+  const openItems = async (remittance: RemittanceRow) => {
+    setViewing(remittance);
+    setItems([]);
+
+    const { data, error } = await supabase
+      .from('payment_remittance_items')
+      .select('*, account:accounts_payable(description, due_date, supplier:suppliers(name))')
+      .eq('remittance_id', remittance.id)
+      .order('created_at');
+
+    if (error) {
+      console.error('Erro ao carregar itens da remessa:', error);
+      return;
+    }
+    setItems((data || []) as RemittanceItemRow[]);
+  };
+
+  const handleReturnFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    const returnItems = parseReturnFile(await file.text());
+    if (returnItems.length === 0) {
+      toast({
+        title: "Arquivo inválido",
+        description: "Nenhum pagamento encontrado no arquivo de retorno CNAB 240",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProcessing(true);
+    try {
+      const results = await applyReturnItems(returnItems);
+      setReturnResults(results);
+      fetchRemittances();
+    } catch (error) {
+      console.error('Erro ao processar retorno:', error);
+      toast({ title: "Erro", description: "Falha ao processar arquivo de retorno", variant: "destructive" });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/accounts')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Remessas de Pagamento</h1>
+            <p className="text-muted-foreground">
+              Arquivos CNAB 240 enviados ao banco e baixa automática pelo retorno
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {hasRole('admin') && (
+            <Button variant="outline" className="gap-2" onClick={() => setIsBankAccountsOpen(true)}>
+              <Landmark className="h-4 w-4" />
+              Contas Bancárias
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ret,.txt,.RET"
+            onChange={handleReturnFile}
+            className="hidden"
+          />
+          <Button className="gap-2" onClick={() => fileInputRef.current?.click()} disabled={processing}>
+            <Upload className="h-4 w-4" />
+            {processing ? 'Processando...' : 'Importar Retorno'}
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 sm:p-6 overflow-x-auto">
+          {loading ? (
+            <div className="text-center py-10">Carregando...</div>
+          ) : remittances.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              <FileText className="h-10 w-10 mx-auto mb-2 opacity-30" />
+              Nenhuma remessa gerada. Selecione contas em aberto na lista de contas a pagar.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nº</TableHead>
+                  <TableHead>Arquivo</TableHead>
+                  <TableHead>Conta</TableHead>
+                  <TableHead>Pagamento</TableHead>
+                  <TableHead>Itens</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {remittances.map((remittance) => (
+                  <TableRow key={remittance.id}>
+                    <TableCell className="font-medium">{remittance.file_sequence}</TableCell>
+                    <TableCell className="font-mono text-xs">{remittance.file_name}</TableCell>
+                    <TableCell>{remittance.bank_account?.name || '-'}</TableCell>
+                    <TableCell>{formatDay(remittance.payment_date)}</TableCell>
+                    <TableCell>{remittance.item_count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(remittance.total_amount))}</TableCell>
+                    <TableCell>
+                      <Badge variant={remittance.status === 'processada' ? 'success' : 'secondary'}>
+                        {remittance.status === 'processada' ? 'Processada' : 'Aguardando retorno'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" title="Ver itens" onClick={() => openItems(remittance)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Remessa nº {viewing?.file_sequence}</DialogTitle>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Conta</TableHead>
+                <TableHead>Vencimento</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Ocorrências</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    {item.account?.description || '-'}
+                    <p className="text-xs text-muted-foreground">
+                      {item.account?.supplier?.name} • ref. {item.reference}
+                    </p>
+                  </TableCell>
+                  <TableCell>{item.account ? formatDay(item.account.due_date) : '-'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(item.amount))}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[item.status] || 'outline'}>
+                      {REMITTANCE_ITEM_STATUS_LABELS[item.status] || item.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[260px]">
+                    {item.occurrence_message || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!returnResults} onOpenChange={(open) => !open && setReturnResults(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Resultado do Retorno</DialogTitle>
+          </DialogHeader>
+          <div className="flex flex-wrap gap-2 text-sm">
+            {(Object.keys(RESULT_LABELS) as ReturnResultStatus[]).map((status) => {
+              const count = (returnResults || []).filter(result => result.status === status).length;
+              return count > 0 ? (
+                <Badge key={status} variant={STATUS_VARIANTS[status]}>
+                  {RESULT_LABELS[status]}: {count}
+                </Badge>
+              ) : null;
+            })}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Conta</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+                <TableHead>Resultado</TableHead>
+                <TableHead>Ocorrências</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(returnResults || []).map((result, index) => (
+                <TableRow key={`${result.reference}-${index}`}>
+                  <TableCell>
+                    {result.description}
+                    <p className="text-xs text-muted-foreground">ref. {result.reference}</p>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {result.amount !== null ? formatCurrency(result.amount) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[result.status]}>{RESULT_LABELS[result.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[260px]">{result.message || '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      <BankAccountsDialog open={isBankAccountsOpen} onClose={() => setIsBankAccountsOpen(false)} />
+    </div>
+  );
+};
+
+export default PaymentRemittances;
@@ -0,0 +1,342 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { ArrowLeft, CalendarPlus, Pause, Pencil, Play, Plus, Repeat, Trash2 } from 'lucide-react';
+import { RecurringAccountForm } from '@/components/accounts-payable/RecurringAccountForm';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  FREQUENCY_LABELS,
+  generateRecurringAccounts,
+  getUpcomingOccurrences,
+  type RecurrenceFrequency,
+  type RecurringAccount
+} from '@/lib/recurrence';
+
+type RecurringAccountRow = RecurringAccount & {
+  supplier: { name: string } | null;
+  cost_center: { name: string; code: string } | null;
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDay = (date: string) => format(new Date(date + 'T12:00:00'), 'dd/MM/yyyy', { locale: ptBR });
+
+const RecurringAccounts = () => {
+  const [templates, setTemplates] = useState<RecurringAccountRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringAccountRow | null>(null);
+  const [generating, setGenerating] = useState<RecurringAccountRow | null>(null);
+  const [generateCount, setGenerateCount] = useState('1');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { toast } = useToast();
+
+  const canManage = hasRole('admin') || hasRole('operador');
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_accounts')
+        .select('*, supplier:suppliers(name), cost_center:cost_centers(name, code)')
+        .order('description');
+
+      if (error) throw error;
+      setTemplates((data || []) as RecurringAccountRow[]);
+    } catch (error) {
+      console.error('Erro ao carregar contas recorrentes:', error);
+      toast({
+        title: "Erro",
+        description: "Falha ao carregar contas recorrentes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleSaved = () => {
+    toast({
+      title: "Sucesso",
+      description: `Conta recorrente ${editing ? 'atualizada' : 'cadastrada'} com sucesso`,
+    });
+    setIsFormOpen(false);
+    setEditing(null);
+    fetchTemplates();
+  };
+
+  const handleToggleActive = async (template: RecurringAccountRow) => {
+    const { error } = await supabase
+      .from('recurring_accounts')
+      .update({ active: !template.active })
+      .eq('id', template.id);
+
+    if (error) {
+      toast({ title: "Erro", description: "Falha ao atualizar conta recorrente", variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: template.active ? 'Recorrência pausada' : 'Recorrência retomada',
+    });
+    fetchTemplates();
+  };
+
+  const handleDelete = async (template: RecurringAccountRow) => {
+    // Bills already generated are kept; they just lose the link to the template
+    const { error } = await supabase.from('recurring_accounts').delete().eq('id', template.id);
+
+    if (error) {
+      toast({ title: "Erro", description: "Falha ao excluir conta recorrente", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Sucesso", description: "Conta recorrente excluída" });
+    fetchTemplates();
+  };
+
+  const generatePreview = generating
+    ? getUpcomingOccurrences(generating, Math.min(Math.max(1, Number(generateCount) || 1), 60))
+    : [];
+
+  const handleGenerate = async () => {
+    if (!generating) return;
+
+    setIsGenerating(true);
+    try {
+      const created = await generateRecurringAccounts(generating, generatePreview.length);
+      toast({
+        title: "Contas geradas",
+        description: created === 1 ? '1 conta a pagar gerada' : `${created} contas a pagar geradas`,
+      });
+      setGenerating(null);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Erro ao gerar contas:', error);
+      toast({ title: "Erro", description: "Falha ao gerar contas a pagar", variant: "destructive" });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const openGenerate = (template: RecurringAccountRow) => {
+    setGenerateCount('1');
+    setGenerating(template);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/accounts')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Contas Recorrentes</h1>
+            <p className="text-muted-foreground">
+              Modelos que geram contas a pagar automaticamente (aluguel, internet, folha)
+            </p>
+          </div>
+        </div>
+
+        {canManage && (
+          <Button onClick={() => { setEditing(null); setIsFormOpen(true); }}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nova Recorrência
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0 sm:p-6 overflow-x-auto">
+          {loading ? (
+            <div className="text-center py-10">Carregando...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              <Repeat className="h-10 w-10 mx-auto mb-2 opacity-30" />
+              Nenhuma conta recorrente cadastrada
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Fornecedor</TableHead>
+                  <TableHead>Frequência</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Próximo Vencimento</TableHead>
+                  <TableHead>Geradas</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead className="w-[180px]">Ações</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => {
+                  const [next] = getUpcomingOccurrences(template, 1);
+                  return (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">
+                        {template.description}
+                        {template.cost_center && (
+                          <p className="text-xs text-muted-foreground">
+                            {template.cost_center.code} - {template.cost_center.name}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>{template.supplier?.name || '-'}</TableCell>
+                      <TableCell>
+                        {FREQUENCY_LABELS[template.frequency as RecurrenceFrequency]}
+                        {template.frequency !== 'weekly' && template.day_of_month && (
+                          <span className="text-xs text-muted-foreground"> (dia {template.day_of_month})</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(template.amount))}</TableCell>
+                      <TableCell>{next ? formatDay(next.dueDate) : 'Encerrada'}</TableCell>
+                      <TableCell>
+                        {template.generated_count}
+                        {template.max_occurrences ? ` / ${template.max_occurrences}` : ''}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={template.active ? "default" : "secondary"}>
+                          {template.active ? 'Ativa' : 'Pausada'}
+                        </Badge>
+                      </TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Gerar próximas contas"
+                              disabled={!template.active || !next}
+                              onClick={() => openGenerate(template)}
+                            >
+                              <CalendarPlus className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={template.active ? 'Pausar' : 'Retomar'}
+                              onClick={() => handleToggleActive(template)}
+                            >
+                              {template.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Editar"
+                              onClick={() => { setEditing(template); setIsFormOpen(true); }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {hasRole('admin') && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="icon" title="Excluir">
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Confirmar exclusão</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Deseja excluir a recorrência "{template.description}"? As contas já geradas serão mantidas.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handleDelete(template)}>
+                                      Excluir
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => { setIsFormOpen(open); if (!open) setEditing(null); }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto mx-4">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Editar Conta Recorrente' : 'Cadastrar Conta Recorrente'}</DialogTitle>
+          </DialogHeader>
+          <RecurringAccountForm key={editing?.id || 'new'} initialData={editing} onSuccess={handleSaved} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!generating} onOpenChange={(open) => !open && setGenerating(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Gerar Contas - {generating?.description}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="generate-count">Quantidade de contas</Label>
+              <Input
+                id="generate-count"
+                type="number"
+                min={1}
+                max={60}
+                value={generateCount}
+                onChange={(e) => setGenerateCount(e.target.value)}
+              />
+            </div>
+
+            <div className="rounded-md border p-3 space-y-1 max-h-60 overflow-y-auto">
+              <p className="text-sm font-medium">Vencimentos a gerar</p>
+              {generatePreview.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma ocorrência restante</p>
+              ) : (
+                generatePreview.map((occurrence) => (
+                  <div key={occurrence.index} className="flex justify-between text-sm">
+                    <span>{occurrence.index + 1}ª - {formatDay(occurrence.dueDate)}</span>
+                    <span>{formatCurrency(Number(generating?.amount))}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGenerating(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleGenerate} disabled={isGenerating || generatePreview.length === 0}>
+              {isGenerating ? 'Gerando...' : `Gerar ${generatePreview.length}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RecurringAccounts;
@@ -15,6 +15,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { isThermalFormat } from '@/lib/thermalPrinter';
+import { getSaleCustomer } from '@/lib/walkInSale';
 
 interface Sale {
   id: string;
@@ -22,7 +24,9 @@ interface Sale {
   status: string;
   total: number;
   created_at: string;
-  customer: { id: string; name: string; document: string | null };
+  // null for walk-in ("consumidor final") sales
+  customer: { id: string; name: string; document: string | null } | null;
+  customer_document: string | null;
   store: { id: string; name: string; code: string; pdv_print_format: string };
   payment_method: { name: string } | null;
   amount_paid: number;
@@ -47,6 +51,7 @@ const SalesHistory = () => {
   const [selectedStoreId, setSelectedStoreId] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [customerFilter, setCustomerFilter] = useState<'all' | 'identified' | 'walk_in'>('all');
   const [selectedSale, setSelectedSale] = useState<Sale | null>(null);
   const [saleItems, setSaleItems] = useState<SaleItem[]>([]);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
@@ -70,12 +75,12 @@ const SalesHistory = () => {
   });
 
   const { data: sales = [], isLoading } = useQuery({
-    queryKey: ['sales-history', selectedStoreId, searchTerm, statusFilter],
+    queryKey: ['sales-history', selectedStoreId, searchTerm, statusFilter, customerFilter],
     queryFn: async () => {
       let query = supabase
         .from('sales')
         .select(`
-          id, sale_number, status, total, created_at, amount_paid, amount_credit, cancellation_reason,
+          id, sale_number, status, total, created_at, amount_paid, amount_credit, cancellation_reason, customer_document,
           customer:customers(id, name, document),
           store:stores(id, name, code, pdv_print_format),
           payment_method:payment_methods(name)
@@ -91,6 +96,12 @@ const SalesHistory = () => {
         query = query.eq('status', statusFilter);
       }
 
+      if (customerFilter === 'walk_in') {
+        query = query.is('customer_id', null);
+      } else if (customerFilter === 'identified') {
+        query = query.not('customer_id', 'is', null);
+      }
+
       if (searchTerm) {
         query = query.or(`sale_number.ilike.%${searchTerm}%,customers.name.ilike.%${searchTerm}%`);
       }
@@ -123,7 +134,8 @@ const SalesHistory = () => {
 
   const handlePrintClick = (sale: Sale) => {
     setSelectedSale(sale);
-    setPrintFormat(sale.store?.pdv_print_format as 'a4' | 'bobina' || 'a4');
+    // Thermal stores reprint here on the browser's receipt layout
+    setPrintFormat(isThermalFormat(sale.store?.pdv_print_format) ? 'bobina' : sale.store?.pdv_print_format as 'a4' | 'bobina' || 'a4');
     setShowPrintModal(true);
   };
 
@@ -216,8 +228,8 @@ const SalesHistory = () => {
           <p>${formattedDate}</p>
         </div>
         <div class="info">
-          <p><strong>Cliente:</strong> ${sale.customer?.name}</p>
-          <p>${sale.customer?.document || ''}</p>
+          <p><strong>Cliente:</strong> ${getSaleCustomer(sale.customer, sale.customer_document).name}</p>
+          <p>${getSaleCustomer(sale.customer, sale.customer_document).document || ''}</p>
         </div>
         ${items.map(item => `
           <div class="item">
@@ -256,8 +268,8 @@ const SalesHistory = () => {
         </div>
         <div class="info">
           <h3>Cliente</h3>
-          <p><strong>Nome:</strong> ${sale.customer?.name}</p>
-          <p><strong>Documento:</strong> ${sale.customer?.document || '-'}</p>
+          <p><strong>Nome:</strong> ${getSaleCustomer(sale.customer, sale.customer_document).name}</p>
+          <p><strong>Documento:</strong> ${getSaleCustomer(sale.customer, sale.customer_document).document || '-'}</p>
         </div>
         <table>
           <thead>
@@ -336,7 +348,7 @@ const SalesHistory = () => {
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             <div>
               <Label className="text-xs">Loja</Label>
               <Select value={selectedStoreId} onValueChange={setSelectedStoreId}>
@@ -365,6 +377,19 @@ const SalesHistory = () => {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label className="text-xs">Cliente</Label>
+              <Select value={customerFilter} onValueChange={(v) => setCustomerFilter(v as typeof customerFilter)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Todos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  <SelectItem value="identified">Identificados</SelectItem>
+                  <SelectItem value="walk_in">Consumidor final</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
             <div className="md:col-span-2">
               <Label className="text-xs">Buscar</Label>
               <div className="relative">
@@ -408,7 +433,7 @@ const SalesHistory = () => {
                     </div>
                     <div className="text-sm space-y-1 mt-2">
                       <p>
-                        <span className="text-muted-foreground">Cliente:</span> {sale.customer?.name}
+                        <span className="text-muted-foreground">Cliente:</span> {getSaleCustomer(sale.customer, sale.customer_document).name}
                       </p>
                       <p>
                         <span className="text-muted-foreground">Loja:</span> {sale.store?.name}
@@ -464,7 +489,7 @@ const SalesHistory = () => {
                         </div>
                       </TableCell>
                       <TableCell>{sale.store?.name}</TableCell>
-                      <TableCell>{sale.customer?.name}</TableCell>
+                      <TableCell>{getSaleCustomer(sale.customer, sale.customer_document).name}</TableCell>
                       <TableCell className="font-medium">{formatCurrency(sale.total)}</TableCell>
                       <TableCell>{sale.payment_method?.name || '-'}</TableCell>
                       <TableCell>{getStatusBadge(sale.status)}</TableCell>
@@ -511,7 +536,12 @@ const SalesHistory = () => {
                 </div>
                 <div>
                   <Label className="text-muted-foreground">Cliente</Label>
-                  <p>{selectedSale.customer?.name}</p>
+                  <p>{getSaleCustomer(selectedSale.customer, selectedSale.customer_document).name}</p>
+                  {!selectedSale.customer && selectedSale.customer_document && (
+                    <p className="text-xs text-muted-foreground">
+                      {getSaleCustomer(null, selectedSale.customer_document).document}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <Label className="text-muted-foreground">Pagamento</Label>
@@ -11,6 +11,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { normalizePixKey } from '@/lib/pix';
+import { PRINTER_CONNECTION_LABELS, isThermalFormat } from '@/lib/thermalPrinter';
 
 interface StoreType {
   id: string;
@@ -24,7 +26,15 @@ interface StoreType {
   created_at: string;
   pdv_auto_print: boolean;
   pdv_print_format: string;
+  pdv_printer_connection: string;
+  pdv_print_agent_url: string | null;
+  pdv_cash_drawer: boolean;
   pdv_max_discount_percent: number;
+  receivable_fine_percent: number;
+  receivable_daily_interest_percent: number;
+  pix_key: string | null;
+  pix_merchant_name: string | null;
+  pix_merchant_city: string | null;
 }
 
 const Stores = () => {
@@ -41,7 +51,15 @@ const Stores = () => {
     email: '',
     pdv_auto_print: false,
     pdv_print_format: 'a4',
+    pdv_printer_connection: 'serial',
+    pdv_print_agent_url: '',
+    pdv_cash_drawer: false,
     pdv_max_discount_percent: 100,
+    receivable_fine_percent: 0,
+    receivable_daily_interest_percent: 0,
+    pix_key: '',
+    pix_merchant_name: '',
+    pix_merchant_city: '',
   });
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
   const { toast } = useToast();
@@ -86,7 +104,15 @@ const Stores = () => {
         email: store.email || '',
         pdv_auto_print: store.pdv_auto_print ?? false,
         pdv_print_format: store.pdv_print_format || 'a4',
+        pdv_printer_connection: store.pdv_printer_connection || 'serial',
+        pdv_print_agent_url: store.pdv_print_agent_url || '',
+        pdv_cash_drawer: store.pdv_cash_drawer ?? false,
         pdv_max_discount_percent: store.pdv_max_discount_percent ?? 100,
+        receivable_fine_percent: store.receivable_fine_percent ?? 0,
+        receivable_daily_interest_percent: store.receivable_daily_interest_percent ?? 0,
+        pix_key: store.pix_key || '',
+        pix_merchant_name: store.pix_merchant_name || '',
+        pix_merchant_city: store.pix_merchant_city || '',
       });
     } else {
       setEditingStore(null);
@@ -99,7 +125,15 @@ const Stores = () => {
         email: '',
         pdv_auto_print: false,
         pdv_print_format: 'a4',
+        pdv_printer_connection: 'serial',
+        pdv_print_agent_url: '',
+        pdv_cash_drawer: false,
         pdv_max_discount_percent: 100,
+        receivable_fine_percent: 0,
+        receivable_daily_interest_percent: 0,
+        pix_key: '',
+        pix_merchant_name: '',
+        pix_merchant_city: '',
       });
     }
     setIsDialogOpen(true);
@@ -115,6 +149,28 @@ const Stores = () => {
       return;
     }
 
+    if (
+      isThermalFormat(formData.pdv_print_format) &&
+      formData.pdv_printer_connection === 'agent' &&
+      !formData.pdv_print_agent_url.trim()
+    ) {
+      toast({
+        title: "Erro",
+        description: "Informe o endereço do agente de impressão",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.pix_key.trim() && !formData.pix_merchant_city.trim()) {
+      toast({
+        title: "Erro",
+        description: "Informe a cidade do recebedor PIX",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       if (editingStore) {
         const { error } = await (supabase as any)
@@ -128,7 +184,15 @@ const Stores = () => {
             email: formData.email || null,
             pdv_auto_print: formData.pdv_auto_print,
             pdv_print_format: formData.pdv_print_format,
+            pdv_printer_connection: formData.pdv_printer_connection,
+            pdv_print_agent_url: formData.pdv_print_agent_url.trim() || null,
+            pdv_cash_drawer: formData.pdv_cash_drawer,
             pdv_max_discount_percent: formData.pdv_max_discount_percent,
+            receivable_fine_percent: formData.receivable_fine_percent,
+            receivable_daily_interest_percent: formData.receivable_daily_interest_percent,
+            pix_key: normalizePixKey(formData.pix_key) || null,
+            pix_merchant_name: formData.pix_merchant_name.trim() || null,
+            pix_merchant_city: formData.pix_merchant_city.trim() || null,
           })
           .eq('id', editingStore.id);
 
@@ -146,7 +210,15 @@ const Stores = () => {
             email: formData.email || null,
             pdv_auto_print: formData.pdv_auto_print,
             pdv_print_format: formData.pdv_print_format,
+            pdv_printer_connection: formData.pdv_printer_connection,
+            pdv_print_agent_url: formData.pdv_print_agent_url.trim() || null,
+            pdv_cash_drawer: formData.pdv_cash_drawer,
             pdv_max_discount_percent: formData.pdv_max_discount_percent,
+            receivable_fine_percent: formData.receivable_fine_percent,
+            receivable_daily_interest_percent: formData.receivable_daily_interest_percent,
+            pix_key: normalizePixKey(formData.pix_key) || null,
+            pix_merchant_name: formData.pix_merchant_name.trim() || null,
+            pix_merchant_city: formData.pix_merchant_city.trim() || null,
             created_by: user?.id,
           });
 
@@ -419,6 +491,8 @@ const Stores = () => {
                     >
                       <option value="a4">A4</option>
                       <option value="bobina">Bobina 80mm</option>
+                      <option value="escpos_58">Térmica ESC/POS 58mm</option>
+                      <option value="escpos_80">Térmica ESC/POS 80mm</option>
                     </select>
                   </div>
                   <div>
@@ -433,6 +507,115 @@ const Stores = () => {
                     />
                   </div>
                 </div>
+                {isThermalFormat(formData.pdv_print_format) && (
+                  <div className="space-y-3 rounded-md border p-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="pdv_printer_connection">Conexão da Impressora</Label>
+                        <select
+                          id="pdv_printer_connection"
+                          value={formData.pdv_printer_connection}
+                          onChange={(e) => setFormData({ ...formData, pdv_printer_connection: e.target.value })}
+                          className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        >
+                          {Object.entries(PRINTER_CONNECTION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {formData.pdv_printer_connection === 'agent' && (
+                        <div>
+                          <Label htmlFor="pdv_print_agent_url">Endereço do Agente</Label>
+                          <Input
+                            id="pdv_print_agent_url"
+                            value={formData.pdv_print_agent_url}
+                            onChange={(e) => setFormData({ ...formData, pdv_print_agent_url: e.target.value })}
+                            placeholder="http://localhost:9100/print"
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="pdv_cash_drawer"
+                        checked={formData.pdv_cash_drawer}
+                        onChange={(e) => setFormData({ ...formData, pdv_cash_drawer: e.target.checked })}
+                        className="rounded"
+                      />
+                      <Label htmlFor="pdv_cash_drawer" className="text-sm cursor-pointer">
+                        Abrir gaveta de dinheiro em vendas pagas em dinheiro
+                      </Label>
+                    </div>
+                    {formData.pdv_printer_connection !== 'agent' && (
+                      <p className="text-xs text-muted-foreground">
+                        Pareie a impressora em cada computador pelo botão "Parear impressora" no PDV (Chrome ou Edge).
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="border-t pt-4 mt-4">
+              <h4 className="font-medium text-sm mb-3">Encargos do Crediário</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="receivable_fine_percent">Multa por Atraso (%)</Label>
+                  <Input
+                    id="receivable_fine_percent"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.receivable_fine_percent}
+                    onChange={(e) => setFormData({ ...formData, receivable_fine_percent: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="receivable_daily_interest_percent">Juros de Mora ao Dia (%)</Label>
+                  <Input
+                    id="receivable_daily_interest_percent"
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={formData.receivable_daily_interest_percent}
+                    onChange={(e) => setFormData({ ...formData, receivable_daily_interest_percent: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="border-t pt-4 mt-4">
+              <h4 className="font-medium text-sm mb-3">Recebimento PIX</h4>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="pix_key">Chave PIX</Label>
+                  <Input
+                    id="pix_key"
+                    value={formData.pix_key}
+                    onChange={(e) => setFormData({ ...formData, pix_key: e.target.value })}
+                    placeholder="CNPJ, e-mail, telefone ou chave aleatória"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="pix_merchant_name">Nome do Recebedor</Label>
+                    <Input
+                      id="pix_merchant_name"
+                      maxLength={25}
+                      value={formData.pix_merchant_name}
+                      onChange={(e) => setFormData({ ...formData, pix_merchant_name: e.target.value })}
+                      placeholder={formData.name}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="pix_merchant_city">Cidade do Recebedor</Label>
+                    <Input
+                      id="pix_merchant_city"
+                      maxLength={15}
+                      value={formData.pix_merchant_city}
+                      onChange={(e) => setFormData({ ...formData, pix_merchant_city: e.target.value })}
+                    />
+                  </div>
+                </div>
               </div>
             </div>
             <div className="flex justify-end gap-2 pt-4">
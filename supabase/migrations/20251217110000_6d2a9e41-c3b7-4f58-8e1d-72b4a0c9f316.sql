@@ -0,0 +1,21 @@
+-- Late fees (multa) and daily interest (juros de mora) for overdue crediário
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS receivable_fine_percent numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS receivable_daily_interest_percent numeric NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.stores.receivable_fine_percent IS 'Multa (%) cobrada uma vez sobre parcelas de crediário pagas após o vencimento';
+COMMENT ON COLUMN public.stores.receivable_daily_interest_percent IS 'Juros de mora (%) por dia de atraso sobre parcelas de crediário';
+
+-- Split each credit payment into principal and charges; amount stays the total received
+ALTER TABLE public.customer_credit_payments
+ADD COLUMN IF NOT EXISTS principal_amount numeric,
+ADD COLUMN IF NOT EXISTS fine_amount numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS interest_amount numeric NOT NULL DEFAULT 0;
+
+UPDATE public.customer_credit_payments
+SET principal_amount = amount
+WHERE principal_amount IS NULL;
+
+ALTER TABLE public.customer_credit_payments
+ALTER COLUMN principal_amount SET DEFAULT 0,
+ALTER COLUMN principal_amount SET NOT NULL;
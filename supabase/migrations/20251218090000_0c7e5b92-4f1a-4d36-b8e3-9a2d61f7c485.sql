@@ -0,0 +1,76 @@
+-- Recurring accounts payable: a template account plus its recurrence rule
+CREATE TABLE public.recurring_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  cost_center_id UUID NOT NULL REFERENCES public.cost_centers(id),
+  payment_type payment_type NOT NULL,
+  description TEXT NOT NULL,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  observations TEXT,
+  pix_key TEXT,
+  pix_receiver_name TEXT,
+  transfer_bank TEXT,
+  transfer_agency TEXT,
+  transfer_account TEXT,
+  transfer_account_type TEXT,
+  transfer_holder_name TEXT,
+  transfer_holder_document TEXT,
+  -- Recurrence rule
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'yearly')),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences > 0),
+  -- Generation state
+  generated_count INTEGER NOT NULL DEFAULT 0,
+  last_generated_date DATE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.accounts_payable
+ADD COLUMN IF NOT EXISTS recurring_account_id UUID REFERENCES public.recurring_accounts(id) ON DELETE SET NULL;
+
+-- One generated bill per template and due date, so generating twice is harmless
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_payable_recurring_due
+ON public.accounts_payable (recurring_account_id, due_date)
+WHERE recurring_account_id IS NOT NULL;
+
+CREATE TRIGGER update_recurring_accounts_updated_at
+  BEFORE UPDATE ON public.recurring_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.recurring_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authorized users can view recurring accounts"
+ON public.recurring_accounts
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role) OR
+  public.has_role(auth.uid(), 'operador'::app_role)
+);
+
+CREATE POLICY "Authorized users can create recurring accounts"
+ON public.recurring_accounts
+FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'admin'::app_role) OR
+   public.has_role(auth.uid(), 'operador'::app_role)) AND
+  auth.uid() IS NOT NULL
+);
+
+CREATE POLICY "Authorized users can update recurring accounts"
+ON public.recurring_accounts
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'operador'::app_role)
+);
+
+CREATE POLICY "Only admins can delete recurring accounts"
+ON public.recurring_accounts
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'::app_role));
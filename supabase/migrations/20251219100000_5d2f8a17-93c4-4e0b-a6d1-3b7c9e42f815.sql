@@ -0,0 +1,17 @@
+-- Installment invoices: one accounts_payable row per installment, linked by a group id
+ALTER TABLE public.accounts_payable
+ADD COLUMN IF NOT EXISTS invoice_number TEXT,
+ADD COLUMN IF NOT EXISTS installment_group_id UUID,
+ADD COLUMN IF NOT EXISTS installment_number INTEGER,
+ADD COLUMN IF NOT EXISTS installment_count INTEGER;
+
+ALTER TABLE public.accounts_payable
+ADD CONSTRAINT accounts_payable_installment_check
+CHECK (
+  installment_group_id IS NULL OR
+  (installment_number >= 1 AND installment_count >= installment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_payable_installment_group
+ON public.accounts_payable (installment_group_id)
+WHERE installment_group_id IS NOT NULL;
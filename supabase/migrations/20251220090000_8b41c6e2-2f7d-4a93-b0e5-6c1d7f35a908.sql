@@ -0,0 +1,118 @@
+-- Partial payments on accounts payable
+
+ALTER TYPE public.account_status ADD VALUE IF NOT EXISTS 'parcialmente_pago';
+
+-- Discount lowers and interest/fine raises what was paid for the same principal:
+-- settled principal = amount_paid + discount_amount - interest_amount
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS discount_amount NUMERIC NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+ADD COLUMN IF NOT EXISTS interest_amount NUMERIC NOT NULL DEFAULT 0 CHECK (interest_amount >= 0);
+
+ALTER TABLE public.accounts_payable
+ADD COLUMN IF NOT EXISTS paid_amount NUMERIC NOT NULL DEFAULT 0;
+
+-- Every payment so far settled the whole account
+UPDATE public.accounts_payable
+SET paid_amount = amount
+WHERE status = 'pago';
+
+-- Recomputes the settled principal and derives the status from it, instead of
+-- flagging the account as paid on any payment
+CREATE OR REPLACE FUNCTION public.update_account_status_on_payment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_account_id UUID;
+  v_paid NUMERIC;
+BEGIN
+  v_account_id := COALESCE(NEW.account_id, OLD.account_id);
+
+  SELECT COALESCE(SUM(amount_paid + discount_amount - interest_amount), 0)
+  INTO v_paid
+  FROM public.payments
+  WHERE account_id = v_account_id;
+
+  UPDATE public.accounts_payable
+  SET paid_amount = v_paid,
+      status = CASE
+        WHEN v_paid >= amount - 0.005 THEN 'pago'::account_status
+        WHEN v_paid > 0 THEN 'parcialmente_pago'::account_status
+        ELSE 'em_aberto'::account_status
+      END,
+      updated_at = now()
+  WHERE id = v_account_id
+    AND status <> 'cancelado';
+
+  IF TG_OP = 'UPDATE' AND OLD.account_id IS DISTINCT FROM NEW.account_id AND OLD.account_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(amount_paid + discount_amount - interest_amount), 0)
+    INTO v_paid
+    FROM public.payments
+    WHERE account_id = OLD.account_id;
+
+    UPDATE public.accounts_payable
+    SET paid_amount = v_paid,
+        status = CASE
+          WHEN v_paid >= amount - 0.005 THEN 'pago'::account_status
+          WHEN v_paid > 0 THEN 'parcialmente_pago'::account_status
+          ELSE 'em_aberto'::account_status
+        END,
+        updated_at = now()
+    WHERE id = OLD.account_id
+      AND status <> 'cancelado';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_account_status_on_payment ON public.payments;
+
+CREATE TRIGGER trigger_update_account_status_on_payment
+  AFTER INSERT OR UPDATE OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_account_status_on_payment();
+
+-- A payment can't settle more than the outstanding balance
+CREATE OR REPLACE FUNCTION public.validate_payment_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_amount NUMERIC;
+  v_status account_status;
+  v_paid NUMERIC;
+  v_principal NUMERIC;
+BEGIN
+  IF NEW.account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount, status INTO v_amount, v_status
+  FROM public.accounts_payable
+  WHERE id = NEW.account_id;
+
+  IF v_status = 'cancelado' THEN
+    RAISE EXCEPTION 'Conta cancelada não pode receber pagamentos';
+  END IF;
+
+  SELECT COALESCE(SUM(amount_paid + discount_amount - interest_amount), 0)
+  INTO v_paid
+  FROM public.payments
+  WHERE account_id = NEW.account_id
+    AND id <> NEW.id;
+
+  v_principal := NEW.amount_paid + NEW.discount_amount - NEW.interest_amount;
+
+  IF v_principal <= 0 THEN
+    RAISE EXCEPTION 'O pagamento deve abater um valor maior que zero';
+  END IF;
+
+  IF v_paid + v_principal > v_amount + 0.005 THEN
+    RAISE EXCEPTION 'Pagamento excede o saldo em aberto (saldo: %)', round(v_amount - v_paid, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_validate_payment_balance
+  BEFORE INSERT OR UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payment_balance();
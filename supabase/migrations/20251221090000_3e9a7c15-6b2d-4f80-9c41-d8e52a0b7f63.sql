@@ -0,0 +1,34 @@
+-- Bank statement reconciliation for payments
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS reconciliation_status TEXT NOT NULL DEFAULT 'pendente'
+  CHECK (reconciliation_status IN ('pendente', 'conciliado')),
+ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS reconciled_by UUID REFERENCES public.profiles(id),
+ADD COLUMN IF NOT EXISTS bank_transaction_id TEXT,
+ADD COLUMN IF NOT EXISTS bank_transaction_date DATE,
+ADD COLUMN IF NOT EXISTS bank_transaction_amount NUMERIC;
+
+-- A statement line (OFX FITID or CSV line hash) settles at most one payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_bank_transaction
+  ON public.payments(bank_transaction_id)
+  WHERE bank_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payments_reconciliation
+  ON public.payments(reconciliation_status, payment_date);
+
+-- Marking a payment as reconciled must not re-run the balance checks, which would
+-- fail for payments of accounts cancelled afterwards
+DROP TRIGGER IF EXISTS trigger_validate_payment_balance ON public.payments;
+
+CREATE TRIGGER trigger_validate_payment_balance
+  BEFORE INSERT OR UPDATE OF account_id, amount_paid, discount_amount, interest_amount ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payment_balance();
+
+DROP TRIGGER IF EXISTS trigger_update_account_status_on_payment ON public.payments;
+
+CREATE TRIGGER trigger_update_account_status_on_payment
+  AFTER INSERT OR UPDATE OF account_id, amount_paid, discount_amount, interest_amount OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_account_status_on_payment();
@@ -0,0 +1,153 @@
+-- CNAB 240 payment remittances and return processing
+
+-- Company bank accounts that pay suppliers through CNAB files
+CREATE TABLE public.bank_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  bank_code TEXT NOT NULL CHECK (bank_code ~ '^[0-9]{3}$'),
+  bank_name TEXT NOT NULL,
+  agency TEXT NOT NULL,
+  account TEXT NOT NULL,
+  company_name TEXT NOT NULL,
+  company_document TEXT NOT NULL,
+  agreement_code TEXT,
+  -- NSA: sequential file number the bank expects on every remittance
+  next_file_sequence INTEGER NOT NULL DEFAULT 1 CHECK (next_file_sequence > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.payment_remittances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  bank_account_id UUID NOT NULL REFERENCES public.bank_accounts(id),
+  file_sequence INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  payment_date DATE NOT NULL,
+  total_amount NUMERIC NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'gerada' CHECK (status IN ('gerada', 'processada')),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (bank_account_id, file_sequence)
+);
+
+CREATE TABLE public.payment_remittance_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  remittance_id UUID NOT NULL REFERENCES public.payment_remittances(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.accounts_payable(id),
+  -- "Seu número" written in the file and echoed back by the bank
+  reference TEXT NOT NULL UNIQUE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'enviado' CHECK (status IN ('enviado', 'agendado', 'pago', 'rejeitado')),
+  occurrence_codes TEXT,
+  occurrence_message TEXT,
+  payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_remittance_items_remittance ON public.payment_remittance_items(remittance_id);
+CREATE INDEX IF NOT EXISTS idx_payment_remittance_items_account ON public.payment_remittance_items(account_id);
+
+CREATE TRIGGER update_bank_accounts_updated_at
+  BEFORE UPDATE ON public.bank_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Hands out the next NSA atomically so two remittances never share a number
+CREATE OR REPLACE FUNCTION public.reserve_remittance_sequence(p_bank_account_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_sequence INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin'::app_role) OR public.has_role(auth.uid(), 'pagador'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para gerar remessas';
+  END IF;
+
+  UPDATE public.bank_accounts
+  SET next_file_sequence = next_file_sequence + 1
+  WHERE id = p_bank_account_id
+    AND active
+  RETURNING next_file_sequence - 1 INTO v_sequence;
+
+  IF v_sequence IS NULL THEN
+    RAISE EXCEPTION 'Conta bancária não encontrada ou inativa';
+  END IF;
+
+  RETURN v_sequence;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_remittances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_remittance_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authorized users can view bank accounts"
+ON public.bank_accounts
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Only admins can manage bank accounts"
+ON public.bank_accounts
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authorized users can view remittances"
+ON public.payment_remittances
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Authorized users can create remittances"
+ON public.payment_remittances
+FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'admin'::app_role) OR
+   public.has_role(auth.uid(), 'pagador'::app_role)) AND
+  auth.uid() IS NOT NULL
+);
+
+CREATE POLICY "Authorized users can update remittances"
+ON public.payment_remittances
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Only admins can delete remittances"
+ON public.payment_remittances
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Authorized users can view remittance items"
+ON public.payment_remittance_items
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Authorized users can create remittance items"
+ON public.payment_remittance_items
+FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Authorized users can update remittance items"
+ON public.payment_remittance_items
+FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
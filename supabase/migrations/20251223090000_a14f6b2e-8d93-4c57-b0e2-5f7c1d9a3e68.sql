@@ -0,0 +1,170 @@
+-- Approval workflow for accounts payable above a per cost center threshold
+
+-- NULL means accounts of this cost center never need approval
+ALTER TABLE public.cost_centers
+ADD COLUMN IF NOT EXISTS approval_threshold NUMERIC CHECK (approval_threshold >= 0);
+
+ALTER TABLE public.accounts_payable
+ADD COLUMN IF NOT EXISTS approval_status TEXT NOT NULL DEFAULT 'nao_requerida'
+  CHECK (approval_status IN ('nao_requerida', 'pendente', 'aprovada', 'rejeitada')),
+ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.profiles(id),
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_payable_approval_status
+ON public.accounts_payable (approval_status)
+WHERE approval_status = 'pendente';
+
+-- New accounts, and accounts whose amount or cost center changed, go back to review
+-- when they exceed the cost center's threshold
+CREATE OR REPLACE FUNCTION public.set_account_approval_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_threshold NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.amount = OLD.amount
+     AND NEW.cost_center_id = OLD.cost_center_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT approval_threshold INTO v_threshold
+  FROM public.cost_centers
+  WHERE id = NEW.cost_center_id;
+
+  NEW.approval_status := CASE
+    WHEN v_threshold IS NOT NULL AND NEW.amount > v_threshold THEN 'pendente'
+    ELSE 'nao_requerida'
+  END;
+  NEW.approved_by := NULL;
+  NEW.approved_at := NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_set_account_approval_status
+  BEFORE INSERT OR UPDATE OF amount, cost_center_id ON public.accounts_payable
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_account_approval_status();
+
+-- Changing a threshold re-evaluates the open accounts nobody has reviewed yet
+CREATE OR REPLACE FUNCTION public.reevaluate_cost_center_approvals()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.accounts_payable
+  SET approval_status = CASE
+        WHEN NEW.approval_threshold IS NOT NULL AND amount > NEW.approval_threshold THEN 'pendente'
+        ELSE 'nao_requerida'
+      END
+  WHERE cost_center_id = NEW.id
+    AND status = 'em_aberto'
+    AND approval_status IN ('nao_requerida', 'pendente');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_reevaluate_cost_center_approvals
+  AFTER UPDATE OF approval_threshold ON public.cost_centers
+  FOR EACH ROW
+  WHEN (OLD.approval_threshold IS DISTINCT FROM NEW.approval_threshold)
+  EXECUTE FUNCTION public.reevaluate_cost_center_approvals();
+
+-- Admin decision; the reason goes to audit_logs next to the regular change log
+CREATE OR REPLACE FUNCTION public.review_account_approval(
+  p_account_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_account public.accounts_payable%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Apenas administradores podem aprovar contas';
+  END IF;
+
+  SELECT * INTO v_account
+  FROM public.accounts_payable
+  WHERE id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF v_account.approval_status NOT IN ('pendente', 'rejeitada') THEN
+    RAISE EXCEPTION 'Esta conta não está aguardando aprovação';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da rejeição';
+  END IF;
+
+  v_status := CASE WHEN p_approve THEN 'aprovada' ELSE 'rejeitada' END;
+
+  UPDATE public.accounts_payable
+  SET approval_status = v_status,
+      approved_by = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_account_id;
+
+  INSERT INTO public.audit_logs (table_name, record_id, action, old_values, new_values, user_id)
+  VALUES (
+    'accounts_payable',
+    p_account_id,
+    CASE WHEN p_approve THEN 'APPROVE' ELSE 'REJECT' END,
+    jsonb_build_object('approval_status', v_account.approval_status),
+    jsonb_build_object('approval_status', v_status, 'reason', NULLIF(trim(p_reason), ''), 'amount', v_account.amount),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same checks as before plus the approval gate
+CREATE OR REPLACE FUNCTION public.validate_payment_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_amount NUMERIC;
+  v_status account_status;
+  v_approval TEXT;
+  v_paid NUMERIC;
+  v_principal NUMERIC;
+BEGIN
+  IF NEW.account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount, status, approval_status INTO v_amount, v_status, v_approval
+  FROM public.accounts_payable
+  WHERE id = NEW.account_id;
+
+  IF v_status = 'cancelado' THEN
+    RAISE EXCEPTION 'Conta cancelada não pode receber pagamentos';
+  END IF;
+
+  IF v_approval IN ('pendente', 'rejeitada') THEN
+    RAISE EXCEPTION 'Conta aguardando aprovação não pode receber pagamentos';
+  END IF;
+
+  SELECT COALESCE(SUM(amount_paid + discount_amount - interest_amount), 0)
+  INTO v_paid
+  FROM public.payments
+  WHERE account_id = NEW.account_id
+    AND id <> NEW.id;
+
+  v_principal := NEW.amount_paid + NEW.discount_amount - NEW.interest_amount;
+
+  IF v_principal <= 0 THEN
+    RAISE EXCEPTION 'O pagamento deve abater um valor maior que zero';
+  END IF;
+
+  IF v_paid + v_principal > v_amount + 0.005 THEN
+    RAISE EXCEPTION 'Pagamento excede o saldo em aberto (saldo: %)', round(v_amount - v_paid, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
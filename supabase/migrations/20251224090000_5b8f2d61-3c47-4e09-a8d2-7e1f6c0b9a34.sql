@@ -0,0 +1,11 @@
+-- Card settlement terms used by the cash flow forecast
+
+-- NULL settlement_days means the method is received at the register (cash, PIX, crediário)
+ALTER TABLE public.payment_methods
+ADD COLUMN IF NOT EXISTS settlement_days INTEGER CHECK (settlement_days >= 0),
+ADD COLUMN IF NOT EXISTS settlement_fee_percent NUMERIC NOT NULL DEFAULT 0
+  CHECK (settlement_fee_percent >= 0 AND settlement_fee_percent < 100);
+
+-- Usual acquirer terms: debit on D+1, credit on D+30 for each installment
+UPDATE public.payment_methods SET settlement_days = 1 WHERE code = 'debit' AND settlement_days IS NULL;
+UPDATE public.payment_methods SET settlement_days = 30 WHERE code = 'credit' AND settlement_days IS NULL;
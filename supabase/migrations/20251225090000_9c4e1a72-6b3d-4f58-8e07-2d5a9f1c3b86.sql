@@ -0,0 +1,6 @@
+-- PIX BR Code ("copia e cola") data on accounts payable
+
+ALTER TABLE public.accounts_payable
+ADD COLUMN IF NOT EXISTS pix_payload TEXT,
+ADD COLUMN IF NOT EXISTS pix_city TEXT,
+ADD COLUMN IF NOT EXISTS pix_txid TEXT;
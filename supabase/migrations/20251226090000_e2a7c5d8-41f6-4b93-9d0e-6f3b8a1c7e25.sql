@@ -0,0 +1,6 @@
+-- Store PIX receiving account, used to generate static BR Code QR codes at the PDV
+
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS pix_key TEXT,
+ADD COLUMN IF NOT EXISTS pix_merchant_name TEXT,
+ADD COLUMN IF NOT EXISTS pix_merchant_city TEXT;
@@ -0,0 +1,99 @@
+-- Monthly budgets per cost center and budget vs. actual from accounts payable
+
+CREATE TABLE public.cost_center_budgets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cost_center_id UUID NOT NULL REFERENCES public.cost_centers(id) ON DELETE CASCADE,
+  -- Always the first day of the month
+  month DATE NOT NULL CHECK (month = date_trunc('month', month)::date),
+  amount NUMERIC NOT NULL CHECK (amount >= 0),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (cost_center_id, month)
+);
+
+CREATE TRIGGER update_cost_center_budgets_updated_at
+  BEFORE UPDATE ON public.cost_center_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+ALTER TABLE public.cost_center_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authorized users can view cost center budgets"
+ON public.cost_center_budgets
+FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'admin'::app_role) OR
+  public.has_role(auth.uid(), 'operador'::app_role) OR
+  public.has_role(auth.uid(), 'pagador'::app_role)
+);
+
+CREATE POLICY "Only admins can manage cost center budgets"
+ON public.cost_center_budgets
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Budget and actual per cost center and month. The actual is either what is due in the month
+-- (p_basis = 'vencimento', canceled accounts excluded) or what was paid in it (p_basis = 'pagamento').
+CREATE OR REPLACE FUNCTION public.get_cost_center_budget_usage(
+  p_from DATE,
+  p_to DATE,
+  p_basis TEXT DEFAULT 'vencimento',
+  p_cost_center_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  cost_center_id UUID,
+  month DATE,
+  budget NUMERIC,
+  actual NUMERIC
+) AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'operador'::app_role) OR
+    public.has_role(auth.uid(), 'pagador'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para consultar orçamentos';
+  END IF;
+
+  IF p_basis NOT IN ('vencimento', 'pagamento') THEN
+    RAISE EXCEPTION 'Base de apuração inválida: %', p_basis;
+  END IF;
+
+  RETURN QUERY
+  WITH actuals AS (
+    SELECT ap.cost_center_id, date_trunc('month', ap.due_date)::date AS month, SUM(ap.amount) AS total
+    FROM public.accounts_payable ap
+    WHERE p_basis = 'vencimento'
+      AND ap.status <> 'cancelado'
+      AND ap.due_date >= date_trunc('month', p_from)::date
+      AND ap.due_date < (date_trunc('month', p_to) + INTERVAL '1 month')::date
+      AND (p_cost_center_id IS NULL OR ap.cost_center_id = p_cost_center_id)
+    GROUP BY 1, 2
+    UNION ALL
+    SELECT ap.cost_center_id, date_trunc('month', p.payment_date)::date AS month, SUM(p.amount_paid) AS total
+    FROM public.payments p
+    JOIN public.accounts_payable ap ON ap.id = p.account_id
+    WHERE p_basis = 'pagamento'
+      AND p.payment_date >= date_trunc('month', p_from)::date
+      AND p.payment_date < (date_trunc('month', p_to) + INTERVAL '1 month')::date
+      AND (p_cost_center_id IS NULL OR ap.cost_center_id = p_cost_center_id)
+    GROUP BY 1, 2
+  ),
+  budgets AS (
+    SELECT b.cost_center_id, b.month, b.amount
+    FROM public.cost_center_budgets b
+    WHERE b.month >= date_trunc('month', p_from)::date
+      AND b.month <= date_trunc('month', p_to)::date
+      AND (p_cost_center_id IS NULL OR b.cost_center_id = p_cost_center_id)
+  )
+  SELECT
+    COALESCE(b.cost_center_id, a.cost_center_id),
+    COALESCE(b.month, a.month),
+    b.amount,
+    COALESCE(a.total, 0)
+  FROM budgets b
+  FULL JOIN actuals a ON a.cost_center_id = b.cost_center_id AND a.month = b.month
+  ORDER BY 2, 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,34 @@
+-- Parent/child cost centers (e.g. "Loja 1 > Manutenção") so reports can roll children up into parents
+
+ALTER TABLE public.cost_centers
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.cost_centers(id) ON DELETE RESTRICT,
+ADD CONSTRAINT cost_centers_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_cost_centers_parent_id ON public.cost_centers(parent_id);
+
+-- A cost center can't be moved under one of its own descendants
+CREATE OR REPLACE FUNCTION public.prevent_cost_center_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT c.id, c.parent_id FROM public.cost_centers c WHERE c.id = NEW.parent_id
+      UNION ALL
+      SELECT c.id, c.parent_id FROM public.cost_centers c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE ancestors.id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Um centro de custo não pode ficar abaixo de si mesmo ou de um de seus subcentros';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_cost_center_cycle
+  BEFORE INSERT OR UPDATE OF parent_id ON public.cost_centers
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_cost_center_cycle();
@@ -0,0 +1,225 @@
+-- Server-side filtering, sorting, pagination and totals for the accounts payable list
+--
+-- Filters travel as a JSONB object so the list and its totals always share the same rules.
+-- Every key is optional:
+--   view            dashboard card: open, overdue, due_today, due_tomorrow, due_next_week,
+--                   pending_approval, paid_today, paid_last_30_days
+--   due_from        due date range (inclusive, yyyy-mm-dd)
+--   due_until
+--   description     case-insensitive "contains" on the description
+--   supplier        case-insensitive "contains" on the supplier name
+--   supplier_id     exact supplier
+--   cost_center     case-insensitive "contains" on "code - name" or on any ancestor's name
+--   payment_types   array of payment types; an empty array matches nothing
+--   amount          "contains" on the amount formatted as 1.234,56
+--   due_date        "contains" on the due date formatted as DD/MM/YYYY
+--   status          account status, or aguardando_aprovacao for open accounts pending approval
+--   display_statuses array of the statuses shown on screen: vencida, vence_hoje, em_aberto,
+--                   parcialmente_pago, pago, cancelado, plus the approval badges pendente and rejeitada
+
+CREATE OR REPLACE FUNCTION public.filter_accounts_payable(p_filters JSONB)
+RETURNS SETOF public.accounts_payable
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE today AS (
+    SELECT (now() AT TIME ZONE 'America/Sao_Paulo')::date AS day
+  ),
+  tree AS (
+    SELECT c.id, c.code, c.name, c.name::text AS path
+    FROM public.cost_centers c
+    WHERE c.parent_id IS NULL AND p_filters ? 'cost_center'
+    UNION ALL
+    SELECT c.id, c.code, c.name, tree.path || ' > ' || c.name
+    FROM public.cost_centers c
+    JOIN tree ON c.parent_id = tree.id
+  ),
+  matched_cost_centers AS (
+    SELECT tree.id
+    FROM tree
+    WHERE position(lower(p_filters->>'cost_center') IN lower(tree.code || ' - ' || tree.name || ' ' || tree.path)) > 0
+  )
+  SELECT ap.*
+  FROM public.accounts_payable ap
+  CROSS JOIN today
+  CROSS JOIN LATERAL (SELECT ap.status::text IN ('em_aberto', 'parcialmente_pago') AS is_open) AS account
+  LEFT JOIN public.suppliers s ON s.id = ap.supplier_id
+  WHERE
+    CASE p_filters->>'view'
+      WHEN 'open' THEN account.is_open
+      WHEN 'overdue' THEN account.is_open AND ap.due_date < today.day
+      WHEN 'due_today' THEN account.is_open AND ap.due_date = today.day
+      WHEN 'due_tomorrow' THEN account.is_open AND ap.due_date = today.day + 1
+      WHEN 'due_next_week' THEN account.is_open AND ap.due_date BETWEEN today.day AND today.day + 7
+      WHEN 'pending_approval' THEN account.is_open AND ap.approval_status = 'pendente'
+      WHEN 'paid_today' THEN EXISTS (
+        SELECT 1 FROM public.payments p WHERE p.account_id = ap.id AND p.payment_date = today.day
+      )
+      WHEN 'paid_last_30_days' THEN EXISTS (
+        SELECT 1 FROM public.payments p WHERE p.account_id = ap.id AND p.payment_date >= today.day - 30
+      )
+      ELSE true
+    END
+    AND (p_filters->>'due_from' IS NULL OR ap.due_date >= (p_filters->>'due_from')::date)
+    AND (p_filters->>'due_until' IS NULL OR ap.due_date <= (p_filters->>'due_until')::date)
+    AND (p_filters->>'description' IS NULL
+      OR position(lower(p_filters->>'description') IN lower(ap.description)) > 0)
+    AND (p_filters->>'supplier' IS NULL
+      OR position(lower(p_filters->>'supplier') IN lower(COALESCE(s.name, ''))) > 0)
+    AND (p_filters->>'supplier_id' IS NULL OR ap.supplier_id = (p_filters->>'supplier_id')::uuid)
+    AND (p_filters->>'cost_center' IS NULL
+      OR ap.cost_center_id IN (SELECT matched_cost_centers.id FROM matched_cost_centers))
+    AND (NOT p_filters ? 'payment_types'
+      OR ap.payment_type::text IN (SELECT jsonb_array_elements_text(p_filters->'payment_types')))
+    AND (p_filters->>'amount' IS NULL
+      OR position(p_filters->>'amount' IN
+        translate(to_char(ap.amount, 'FM999,999,999,990.00'), ',.', '.,')) > 0)
+    AND (p_filters->>'due_date' IS NULL
+      OR position(p_filters->>'due_date' IN to_char(ap.due_date, 'DD/MM/YYYY')) > 0)
+    AND (p_filters->>'status' IS NULL
+      OR CASE p_filters->>'status'
+        WHEN 'aguardando_aprovacao' THEN account.is_open AND ap.approval_status = 'pendente'
+        ELSE ap.status::text = p_filters->>'status'
+      END)
+    AND (NOT p_filters ? 'display_statuses'
+      OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements_text(p_filters->'display_statuses') AS wanted(status)
+        WHERE wanted.status = CASE
+            WHEN account.is_open AND ap.due_date = today.day THEN 'vence_hoje'
+            WHEN account.is_open AND ap.due_date < today.day THEN 'vencida'
+            ELSE ap.status::text
+          END
+          OR (account.is_open AND wanted.status = ap.approval_status
+            AND ap.approval_status IN ('pendente', 'rejeitada'))
+      ));
+$$;
+
+-- One page of the list. Sorting follows the labels shown on screen; without a sort field the
+-- latest due dates come first, as the list always did.
+CREATE OR REPLACE FUNCTION public.search_accounts_payable(
+  p_filters JSONB DEFAULT '{}'::jsonb,
+  p_sort_field TEXT DEFAULT NULL,
+  p_sort_desc BOOLEAN DEFAULT false,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF public.accounts_payable AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'operador'::app_role) OR
+    public.has_role(auth.uid(), 'pagador'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para consultar contas a pagar';
+  END IF;
+
+  IF p_sort_field IS NOT NULL AND p_sort_field NOT IN (
+    'description', 'supplier', 'cost_center', 'payment_type', 'amount', 'due_date', 'status'
+  ) THEN
+    RAISE EXCEPTION 'Campo de ordenação inválido: %', p_sort_field;
+  END IF;
+
+  RETURN QUERY
+  WITH sorted AS (
+    SELECT
+      ap AS account,
+      ap.amount,
+      ap.due_date,
+      ap.id,
+      CASE p_sort_field
+        WHEN 'description' THEN lower(ap.description)
+        WHEN 'supplier' THEN lower(COALESCE(s.name, ''))
+        WHEN 'cost_center' THEN lower(COALESCE(cc.code || ' - ' || cc.name, ''))
+        WHEN 'payment_type' THEN CASE ap.payment_type::text
+          WHEN 'boleto' THEN 'Boleto'
+          WHEN 'cartao' THEN 'Cartão'
+          WHEN 'transferencia' THEN 'Transferência'
+          WHEN 'pix' THEN 'PIX'
+        END
+        WHEN 'status' THEN CASE
+          WHEN ap.status::text IN ('em_aberto', 'parcialmente_pago')
+            AND ap.due_date = (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN 'Vence Hoje'
+          WHEN ap.status::text IN ('em_aberto', 'parcialmente_pago')
+            AND ap.due_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN 'Vencida'
+          WHEN ap.status::text = 'em_aberto' THEN 'Em Aberto'
+          WHEN ap.status::text = 'parcialmente_pago' THEN 'Parcialmente Pago'
+          WHEN ap.status::text = 'pago' THEN 'Pago'
+          ELSE 'Cancelado'
+        END
+      END AS sort_text
+    FROM public.filter_accounts_payable(p_filters) ap
+    LEFT JOIN public.suppliers s ON s.id = ap.supplier_id
+    LEFT JOIN public.cost_centers cc ON cc.id = ap.cost_center_id
+  )
+  SELECT (sorted.account).*
+  FROM sorted
+  ORDER BY
+    CASE WHEN NOT p_sort_desc THEN sorted.sort_text END ASC,
+    CASE WHEN p_sort_desc THEN sorted.sort_text END DESC,
+    CASE WHEN p_sort_field = 'amount' AND NOT p_sort_desc THEN sorted.amount END ASC,
+    CASE WHEN p_sort_field = 'amount' AND p_sort_desc THEN sorted.amount END DESC,
+    CASE WHEN p_sort_field = 'due_date' AND NOT p_sort_desc THEN sorted.due_date END ASC,
+    CASE WHEN p_sort_field = 'due_date' AND p_sort_desc THEN sorted.due_date END DESC,
+    CASE WHEN p_sort_field IS NULL THEN sorted.due_date END DESC,
+    sorted.due_date,
+    sorted.id
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Totals of everything the filters match (not just the page), per payment type and cost center.
+-- Paid counts the whole amount of paid accounts and what was already paid of open ones; open and
+-- overdue are remaining balances. Canceled accounts only count towards account_count.
+CREATE OR REPLACE FUNCTION public.get_accounts_payable_totals(p_filters JSONB DEFAULT '{}'::jsonb)
+RETURNS TABLE (
+  payment_type TEXT,
+  cost_center_id UUID,
+  account_count BIGINT,
+  paid_count BIGINT,
+  open_count BIGINT,
+  overdue_count BIGINT,
+  paid_total NUMERIC,
+  open_total NUMERIC,
+  overdue_total NUMERIC
+) AS $$
+BEGIN
+  IF NOT (
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    public.has_role(auth.uid(), 'operador'::app_role) OR
+    public.has_role(auth.uid(), 'pagador'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para consultar contas a pagar';
+  END IF;
+
+  RETURN QUERY
+  WITH accounts AS (
+    SELECT
+      ap.payment_type::text AS type,
+      ap.cost_center_id AS center_id,
+      ap.status::text AS status,
+      ap.status::text IN ('em_aberto', 'parcialmente_pago') AS is_open,
+      ap.due_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date AS is_past_due,
+      ap.amount,
+      COALESCE(ap.paid_amount, 0) AS paid_amount,
+      GREATEST(ap.amount - COALESCE(ap.paid_amount, 0), 0) AS balance
+    FROM public.filter_accounts_payable(p_filters) ap
+  )
+  SELECT
+    a.type,
+    a.center_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE a.status = 'pago'),
+    COUNT(*) FILTER (WHERE a.is_open),
+    COUNT(*) FILTER (WHERE a.is_open AND a.is_past_due),
+    COALESCE(SUM(CASE WHEN a.status = 'pago' THEN a.amount WHEN a.is_open THEN a.paid_amount END), 0),
+    COALESCE(SUM(a.balance) FILTER (WHERE a.is_open), 0),
+    COALESCE(SUM(a.balance) FILTER (WHERE a.is_open AND a.is_past_due), 0)
+  FROM accounts a
+  GROUP BY a.type, a.center_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_payable_due_date ON public.accounts_payable (due_date);
@@ -0,0 +1,121 @@
+-- Sales made by the PDV while the store was offline
+--
+-- The register keeps finalized sales in a local queue with a provisional number and sends them
+-- through sync_offline_sale once the connection is back. client_sale_id is generated on the
+-- register, so resending a sale whose response was lost returns the sale already created.
+-- Crediário and delivery need the live credit limit and addresses, so the register only queues
+-- sales paid at the counter; finalize_sale still validates everything when the sale arrives.
+ALTER TABLE public.sales
+ADD COLUMN IF NOT EXISTS client_sale_id UUID UNIQUE,
+ADD COLUMN IF NOT EXISTS offline_number TEXT,
+ADD COLUMN IF NOT EXISTS synced_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.sales.client_sale_id IS 'Identificador gerado pelo PDV para vendas feitas offline';
+COMMENT ON COLUMN public.sales.offline_number IS 'Número provisório impresso no cupom da venda offline';
+
+-- Finalizes a queued sale with finalize_sale and reports what changed while the register was offline.
+-- Conflicts don't block the sale, which already happened at the counter; they are returned so the
+-- operator can review them:
+--   {"type": "stock", "product_id", "product_name", "quantity"}   stock of the store went negative
+--   {"type": "price", "product_id", "product_name", "sold_price", "current_price"}
+--                                                                 sold at a price that is no longer current
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+  p_client_sale_id UUID,
+  p_offline_number TEXT,
+  p_sold_at TIMESTAMPTZ,
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT, already_synced BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_price_conflicts JSONB;
+  v_stock_conflicts JSONB;
+BEGIN
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda offline é obrigatório';
+  END IF;
+
+  -- Sent again after a lost response: nothing to do
+  SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END IF;
+
+  -- Prices are compared before finalize_sale so the check sees the pricing the register didn't have
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'price',
+    'product_id', item.product_id,
+    'product_name', p.name,
+    'sold_price', item.unit_price,
+    'current_price', pp.sale_price
+  )), '[]'::JSONB)
+  INTO v_price_conflicts
+  FROM (
+    SELECT DISTINCT (i->>'product_id')::UUID AS product_id, (i->>'unit_price')::NUMERIC AS unit_price
+    FROM jsonb_array_elements(p_items) i
+  ) item
+  JOIN public.products p ON p.id = item.product_id
+  JOIN public.product_pricing pp
+    ON pp.product_id = item.product_id AND pp.store_id = p_store_id AND pp.is_current
+  WHERE pp.sale_price <> item.unit_price;
+
+  BEGIN
+    SELECT f.sale_id, f.sale_number INTO v_sale_id, v_sale_number
+    FROM public.finalize_sale(
+      p_store_id, p_customer_id, p_items, p_payments, p_discount, p_delivery, p_quote_id
+    ) f;
+
+    -- The sale keeps the time it happened at the counter
+    UPDATE public.sales
+    SET client_sale_id = p_client_sale_id,
+        offline_number = p_offline_number,
+        synced_at = now(),
+        created_at = LEAST(COALESCE(p_sold_at, now()), now())
+    WHERE id = v_sale_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Sent at the same time by another tab: this attempt is undone and the other one's sale returned
+    SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+    FROM public.sales s
+    WHERE s.client_sale_id = p_client_sale_id;
+
+    IF v_sale_id IS NULL THEN
+      RAISE;
+    END IF;
+
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'stock',
+    'product_id', ps.product_id,
+    'product_name', p.name,
+    'quantity', ps.quantity
+  )), '[]'::JSONB)
+  INTO v_stock_conflicts
+  FROM public.product_stock ps
+  JOIN public.products p ON p.id = ps.product_id
+  WHERE ps.store_id = p_store_id
+    AND ps.quantity < 0
+    AND ps.product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) i);
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number, false, v_stock_conflicts || v_price_conflicts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID) IS 'Sincroniza uma venda feita com o PDV offline, sem duplicar reenvios, e informa estoques negativos e preços alterados';
@@ -0,0 +1,19 @@
+-- Thermal (ESC/POS) printers for the PDV
+--
+-- pdv_print_format gains escpos_58 and escpos_80 (paper width) next to a4 and bobina, which still
+-- print through the browser. ESC/POS commands reach the printer through the browser's Web Serial
+-- or WebUSB support, or through a print agent on the register's computer that accepts the raw bytes.
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS pdv_printer_connection TEXT NOT NULL DEFAULT 'serial',
+ADD COLUMN IF NOT EXISTS pdv_print_agent_url TEXT,
+ADD COLUMN IF NOT EXISTS pdv_cash_drawer BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.stores
+ADD CONSTRAINT stores_pdv_print_format_check
+  CHECK (pdv_print_format IN ('a4', 'bobina', 'escpos_58', 'escpos_80')),
+ADD CONSTRAINT stores_pdv_printer_connection_check
+  CHECK (pdv_printer_connection IN ('serial', 'usb', 'agent'));
+
+COMMENT ON COLUMN public.stores.pdv_printer_connection IS 'Conexão da impressora térmica: serial (Web Serial), usb (WebUSB) ou agent (agente de impressão local)';
+COMMENT ON COLUMN public.stores.pdv_print_agent_url IS 'Endereço do agente de impressão local que recebe os comandos ESC/POS';
+COMMENT ON COLUMN public.stores.pdv_cash_drawer IS 'Abre a gaveta de dinheiro ligada à impressora térmica ao imprimir vendas pagas em dinheiro';
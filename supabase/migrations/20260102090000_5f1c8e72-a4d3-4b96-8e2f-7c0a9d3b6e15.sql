@@ -0,0 +1,405 @@
+-- Walk-in ("consumidor final") sales in the PDV
+--
+-- Counter sales no longer need a customer record: sales.customer_id is NULL and the receipt may
+-- carry just the CPF the customer gave, kept in sales.customer_document. Crediário and delivery
+-- depend on a customer and are refused for these sales.
+ALTER TABLE public.sales
+ALTER COLUMN customer_id DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS customer_document TEXT;
+
+COMMENT ON COLUMN public.sales.customer_document IS 'CPF informado na venda para consumidor final, sem cadastro de cliente';
+
+-- finalize_sale and sync_offline_sale take the CPF as a new last argument. The old signatures are
+-- dropped so calls without it don't become ambiguous.
+DROP FUNCTION IF EXISTS public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID);
+DROP FUNCTION IF EXISTS public.finalize_sale(UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID);
+
+CREATE OR REPLACE FUNCTION public.finalize_sale(
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL,
+  p_customer_document TEXT DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_item JSONB;
+  v_payment JSONB;
+  v_quantity NUMERIC;
+  v_unit_price NUMERIC;
+  v_item_discount NUMERIC;
+  v_subtotal NUMERIC := 0;
+  v_discount_type TEXT;
+  v_discount_value NUMERIC := 0;
+  v_discount_amount NUMERIC := 0;
+  v_total NUMERIC;
+  v_amount_paid NUMERIC := 0;
+  v_amount_credit NUMERIC := 0;
+  v_first_payment JSONB;
+  v_credit_payment JSONB;
+  v_installment_count INTEGER;
+  v_first_due_date DATE;
+  v_interval_days INTEGER;
+  v_installment_amount NUMERIC;
+  v_allocated NUMERIC := 0;
+  v_i INTEGER;
+  v_used_credit NUMERIC;
+  v_available_credit NUMERIC;
+  v_delivery_type TEXT := COALESCE(p_delivery->>'type', 'pickup');
+  v_delivery_address_id UUID := NULLIF(p_delivery->>'address_id', '')::UUID;
+  v_delivery_date DATE := NULLIF(p_delivery->>'date', '')::DATE;
+  v_new_address JSONB := p_delivery->'new_address';
+  v_amount_tendered NUMERIC;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF NOT (has_role(v_user_id, 'admin'::app_role) OR
+          has_role(v_user_id, 'operador'::app_role) OR
+          user_has_store_access(v_user_id, p_store_id)) THEN
+    RAISE EXCEPTION 'Usuário sem acesso à loja';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Venda sem itens';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Venda sem pagamentos';
+  END IF;
+
+  -- Totals are recomputed here instead of trusting the client
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    v_item_discount := COALESCE((v_item->>'discount_amount')::NUMERIC, 0);
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantidade inválida para o produto %', v_item->>'product_id';
+    END IF;
+
+    v_subtotal := v_subtotal + (v_quantity * v_unit_price - v_item_discount);
+  END LOOP;
+
+  v_discount_type := NULLIF(p_discount->>'type', '');
+  v_discount_value := COALESCE((p_discount->>'value')::NUMERIC, 0);
+  IF v_discount_value > 0 THEN
+    v_discount_amount := CASE
+      WHEN v_discount_type = 'percentage' THEN v_subtotal * v_discount_value / 100
+      ELSE v_discount_value
+    END;
+  ELSE
+    v_discount_type := NULL;
+  END IF;
+  v_total := GREATEST(0, v_subtotal - v_discount_amount);
+
+  SELECT
+    COALESCE(SUM(CASE WHEN COALESCE((p->>'is_credit')::BOOLEAN, false) THEN 0 ELSE (p->>'amount')::NUMERIC END), 0),
+    COALESCE(SUM(CASE WHEN COALESCE((p->>'is_credit')::BOOLEAN, false) THEN (p->>'amount')::NUMERIC ELSE 0 END), 0)
+  INTO v_amount_paid, v_amount_credit
+  FROM jsonb_array_elements(p_payments) p;
+
+  IF v_amount_paid + v_amount_credit < v_total - 0.01 THEN
+    RAISE EXCEPTION 'O valor total ainda não foi coberto';
+  END IF;
+
+  -- Walk-in sales have no customer to charge or deliver to
+  IF p_customer_id IS NULL THEN
+    IF v_amount_credit > 0 THEN
+      RAISE EXCEPTION 'Crediário exige um cliente identificado';
+    END IF;
+    IF v_delivery_type = 'delivery' THEN
+      RAISE EXCEPTION 'Entrega exige um cliente identificado';
+    END IF;
+  END IF;
+
+  -- Serialize credit usage per customer so two concurrent sales can't both pass the limit check
+  IF v_amount_credit > 0 THEN
+    PERFORM 1 FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+
+    v_used_credit := public.get_customer_used_credit(p_customer_id);
+    v_available_credit := public.get_customer_available_credit(p_customer_id);
+
+    IF v_amount_credit > v_available_credit + 0.01 THEN
+      RAISE EXCEPTION 'Limite de crédito insuficiente';
+    END IF;
+  END IF;
+
+  -- Create delivery address if new
+  IF v_delivery_type = 'delivery' AND v_new_address IS NOT NULL AND jsonb_typeof(v_new_address) = 'object' THEN
+    INSERT INTO public.customer_delivery_addresses (
+      customer_id, name, address_street, address_number, address_complement,
+      address_neighborhood, address_city, address_state, address_zip,
+      contact_name, contact_phone
+    ) VALUES (
+      p_customer_id,
+      v_new_address->>'name',
+      v_new_address->>'address_street',
+      v_new_address->>'address_number',
+      v_new_address->>'address_complement',
+      v_new_address->>'address_neighborhood',
+      v_new_address->>'address_city',
+      v_new_address->>'address_state',
+      v_new_address->>'address_zip',
+      v_new_address->>'contact_name',
+      v_new_address->>'contact_phone'
+    )
+    RETURNING id INTO v_delivery_address_id;
+  END IF;
+
+  IF v_delivery_type <> 'delivery' THEN
+    v_delivery_address_id := NULL;
+  END IF;
+
+  -- Lock sale numbering for this store until commit
+  PERFORM pg_advisory_xact_lock(hashtext('sale_number:' || p_store_id::TEXT));
+  v_sale_number := public.generate_sale_number(p_store_id);
+
+  SELECT p INTO v_first_payment
+  FROM jsonb_array_elements(p_payments) p
+  WHERE NOT COALESCE((p->>'is_credit')::BOOLEAN, false)
+  LIMIT 1;
+
+  INSERT INTO public.sales (
+    sale_number, store_id, customer_id, customer_document, delivery_address_id, delivery_date, delivery_type,
+    subtotal, discount_type, discount_value, discount_amount, total,
+    payment_method_id, payment_status, amount_paid, amount_credit, installments,
+    created_by
+  ) VALUES (
+    v_sale_number, p_store_id, p_customer_id,
+    CASE WHEN p_customer_id IS NULL THEN NULLIF(regexp_replace(COALESCE(p_customer_document, ''), '\D', '', 'g'), '') END,
+    v_delivery_address_id, v_delivery_date, v_delivery_type,
+    v_subtotal, v_discount_type, v_discount_value, v_discount_amount, v_total,
+    NULLIF(v_first_payment->>'payment_method_id', '')::UUID,
+    CASE WHEN v_amount_credit > 0 THEN 'credit' ELSE 'paid' END,
+    v_amount_paid, v_amount_credit,
+    COALESCE((v_first_payment->>'installments')::INTEGER, 1),
+    v_user_id
+  )
+  RETURNING id INTO v_sale_id;
+
+  -- Sale payments; amount is what the payment covers, change is recomputed from what was tendered
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    v_amount_tendered := NULLIF(v_payment->>'amount_tendered', '')::NUMERIC;
+
+    IF v_amount_tendered IS NOT NULL AND v_amount_tendered < (v_payment->>'amount')::NUMERIC THEN
+      RAISE EXCEPTION 'Valor recebido menor que o valor do pagamento';
+    END IF;
+
+    INSERT INTO public.sale_payments (
+      sale_id, payment_method_id, amount, installments, is_credit, amount_tendered, change_amount
+    )
+    VALUES (
+      v_sale_id,
+      CASE WHEN COALESCE((v_payment->>'is_credit')::BOOLEAN, false) THEN NULL
+           ELSE NULLIF(v_payment->>'payment_method_id', '')::UUID END,
+      (v_payment->>'amount')::NUMERIC,
+      COALESCE((v_payment->>'installments')::INTEGER, 1),
+      COALESCE((v_payment->>'is_credit')::BOOLEAN, false),
+      v_amount_tendered,
+      CASE WHEN v_amount_tendered IS NULL THEN 0
+           ELSE v_amount_tendered - (v_payment->>'amount')::NUMERIC END
+    );
+  END LOOP;
+
+  -- Sale items, stock exits and movements
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::NUMERIC;
+    v_unit_price := (v_item->>'unit_price')::NUMERIC;
+    v_item_discount := COALESCE((v_item->>'discount_amount')::NUMERIC, 0);
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, quantity, unit_price,
+      discount_type, discount_value, discount_amount, total
+    ) VALUES (
+      v_sale_id,
+      (v_item->>'product_id')::UUID,
+      v_quantity,
+      v_unit_price,
+      NULLIF(v_item->>'discount_type', ''),
+      COALESCE((v_item->>'discount_value')::NUMERIC, 0),
+      v_item_discount,
+      v_quantity * v_unit_price - v_item_discount
+    );
+
+    PERFORM public.update_stock_quantity((v_item->>'product_id')::UUID, p_store_id, -v_quantity);
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity,
+      unit_price, reference_type, reference_id, created_by
+    ) VALUES (
+      (v_item->>'product_id')::UUID, p_store_id, 'exit', v_quantity,
+      v_unit_price, 'sale', v_sale_id, v_user_id
+    );
+  END LOOP;
+
+  -- Receivable and credit history for crediário
+  IF v_amount_credit > 0 THEN
+    SELECT p INTO v_credit_payment
+    FROM jsonb_array_elements(p_payments) p
+    WHERE COALESCE((p->>'is_credit')::BOOLEAN, false)
+    LIMIT 1;
+
+    v_installment_count := GREATEST(COALESCE((v_credit_payment->>'installments')::INTEGER, 1), 1);
+    v_first_due_date := COALESCE(NULLIF(v_credit_payment->>'first_due_date', '')::DATE, CURRENT_DATE + 30);
+    v_interval_days := GREATEST(COALESCE((v_credit_payment->>'interval_days')::INTEGER, 30), 1);
+
+    -- Equal installments rounded to cents; the last one absorbs the rounding difference
+    FOR v_i IN 1..v_installment_count
+    LOOP
+      IF v_i < v_installment_count THEN
+        v_installment_amount := ROUND(v_amount_credit / v_installment_count, 2);
+      ELSE
+        v_installment_amount := v_amount_credit - v_allocated;
+      END IF;
+      v_allocated := v_allocated + v_installment_amount;
+
+      INSERT INTO public.accounts_receivable (
+        sale_id, customer_id, amount, due_date,
+        installment_number, installment_count, created_by
+      ) VALUES (
+        v_sale_id, p_customer_id, v_installment_amount,
+        v_first_due_date + (v_i - 1) * v_interval_days,
+        v_i, v_installment_count, v_user_id
+      );
+    END LOOP;
+
+    INSERT INTO public.customer_credit_history (
+      customer_id, action_type, old_value, new_value,
+      reference_id, reference_type, notes, created_by
+    ) VALUES (
+      p_customer_id, 'purchase', v_used_credit, v_used_credit + v_amount_credit,
+      v_sale_id, 'sale',
+      'Venda ' || v_sale_number || ' - Crediário: R$ ' || to_char(v_amount_credit, 'FM999999990.00')
+        || CASE WHEN v_installment_count > 1 THEN ' em ' || v_installment_count || 'x' ELSE '' END,
+      v_user_id
+    );
+  END IF;
+
+  -- The quote became a completed sale
+  IF p_quote_id IS NOT NULL THEN
+    DELETE FROM public.sales
+    WHERE id = p_quote_id AND status = 'quote' AND store_id = p_store_id;
+  END IF;
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number;
+END;
+$$;
+
+COMMENT ON FUNCTION public.finalize_sale(UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID, TEXT) IS 'Finaliza uma venda do PDV em uma única transação: venda, pagamentos, itens, baixa de estoque, crediário e remoção do orçamento. Sem cliente, a venda é para consumidor final';
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+  p_client_sale_id UUID,
+  p_offline_number TEXT,
+  p_sold_at TIMESTAMPTZ,
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL,
+  p_customer_document TEXT DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT, already_synced BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_price_conflicts JSONB;
+  v_stock_conflicts JSONB;
+BEGIN
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda offline é obrigatório';
+  END IF;
+
+  -- Sent again after a lost response: nothing to do
+  SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END IF;
+
+  -- Prices are compared before finalize_sale so the check sees the pricing the register didn't have
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'price',
+    'product_id', item.product_id,
+    'product_name', p.name,
+    'sold_price', item.unit_price,
+    'current_price', pp.sale_price
+  )), '[]'::JSONB)
+  INTO v_price_conflicts
+  FROM (
+    SELECT DISTINCT (i->>'product_id')::UUID AS product_id, (i->>'unit_price')::NUMERIC AS unit_price
+    FROM jsonb_array_elements(p_items) i
+  ) item
+  JOIN public.products p ON p.id = item.product_id
+  JOIN public.product_pricing pp
+    ON pp.product_id = item.product_id AND pp.store_id = p_store_id AND pp.is_current
+  WHERE pp.sale_price <> item.unit_price;
+
+  BEGIN
+    SELECT f.sale_id, f.sale_number INTO v_sale_id, v_sale_number
+    FROM public.finalize_sale(
+      p_store_id, p_customer_id, p_items, p_payments, p_discount, p_delivery, p_quote_id, p_customer_document
+    ) f;
+
+    -- The sale keeps the time it happened at the counter
+    UPDATE public.sales
+    SET client_sale_id = p_client_sale_id,
+        offline_number = p_offline_number,
+        synced_at = now(),
+        created_at = LEAST(COALESCE(p_sold_at, now()), now())
+    WHERE id = v_sale_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Sent at the same time by another tab: this attempt is undone and the other one's sale returned
+    SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+    FROM public.sales s
+    WHERE s.client_sale_id = p_client_sale_id;
+
+    IF v_sale_id IS NULL THEN
+      RAISE;
+    END IF;
+
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'stock',
+    'product_id', ps.product_id,
+    'product_name', p.name,
+    'quantity', ps.quantity
+  )), '[]'::JSONB)
+  INTO v_stock_conflicts
+  FROM public.product_stock ps
+  JOIN public.products p ON p.id = ps.product_id
+  WHERE ps.store_id = p_store_id
+    AND ps.quantity < 0
+    AND ps.product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) i);
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number, false, v_stock_conflicts || v_price_conflicts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID, TEXT) IS 'Sincroniza uma venda feita com o PDV offline, sem duplicar reenvios, e informa estoques negativos e preços alterados';
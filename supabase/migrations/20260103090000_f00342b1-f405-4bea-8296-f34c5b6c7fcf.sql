@@ -0,0 +1,103 @@
+-- Approval columns of accounts_payable can only change through review_account_approval
+--
+-- The approval trigger only ran on amount and cost center changes, so a plain UPDATE of
+-- approval_status / approved_by / approved_at went through for any user allowed to edit the
+-- account. The functions that may change them set app.reviewing_approval for their transaction;
+-- any other change is refused.
+CREATE OR REPLACE FUNCTION public.guard_account_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.approval_status IS DISTINCT FROM OLD.approval_status
+      OR NEW.approved_by IS DISTINCT FROM OLD.approved_by
+      OR NEW.approved_at IS DISTINCT FROM OLD.approved_at)
+     AND COALESCE(current_setting('app.reviewing_approval', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'A aprovação da conta só pode ser alterada pela revisão de um administrador';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Named to run ahead of trigger_set_account_approval_status (BEFORE triggers fire by name), so it
+-- sees the values sent by the client and not the ones that trigger resets on amount changes
+CREATE TRIGGER trigger_guard_account_approval
+  BEFORE UPDATE ON public.accounts_payable
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_account_approval();
+
+-- Same as before, flagging the transaction for the guard
+CREATE OR REPLACE FUNCTION public.reevaluate_cost_center_approvals()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM set_config('app.reviewing_approval', 'on', true);
+
+  UPDATE public.accounts_payable
+  SET approval_status = CASE
+        WHEN NEW.approval_threshold IS NOT NULL AND amount > NEW.approval_threshold THEN 'pendente'
+        ELSE 'nao_requerida'
+      END
+  WHERE cost_center_id = NEW.id
+    AND status = 'em_aberto'
+    AND approval_status IN ('nao_requerida', 'pendente');
+
+  PERFORM set_config('app.reviewing_approval', 'off', true);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.review_account_approval(
+  p_account_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_account public.accounts_payable%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Apenas administradores podem aprovar contas';
+  END IF;
+
+  SELECT * INTO v_account
+  FROM public.accounts_payable
+  WHERE id = p_account_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conta não encontrada';
+  END IF;
+
+  IF v_account.approval_status NOT IN ('pendente', 'rejeitada') THEN
+    RAISE EXCEPTION 'Esta conta não está aguardando aprovação';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da rejeição';
+  END IF;
+
+  v_status := CASE WHEN p_approve THEN 'aprovada' ELSE 'rejeitada' END;
+
+  PERFORM set_config('app.reviewing_approval', 'on', true);
+
+  UPDATE public.accounts_payable
+  SET approval_status = v_status,
+      approved_by = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  WHERE id = p_account_id;
+
+  PERFORM set_config('app.reviewing_approval', 'off', true);
+
+  INSERT INTO public.audit_logs (table_name, record_id, action, old_values, new_values, user_id)
+  VALUES (
+    'accounts_payable',
+    p_account_id,
+    CASE WHEN p_approve THEN 'APPROVE' ELSE 'REJECT' END,
+    jsonb_build_object('approval_status', v_account.approval_status),
+    jsonb_build_object('approval_status', v_status, 'reason', NULLIF(trim(p_reason), ''), 'amount', v_account.amount),
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
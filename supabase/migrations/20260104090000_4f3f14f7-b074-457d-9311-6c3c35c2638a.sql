@@ -0,0 +1,112 @@
+-- Online PDV sales also go through sync_offline_sale
+--
+-- finalize_sale has no idempotency key: when its response was lost, the PDV queued the sale under
+-- a new id and a second sale was created once the queue was sent. The PDV now generates
+-- client_sale_id before the first attempt and sends online sales through sync_offline_sale,
+-- without an offline number or sale time, so a retry or the queued copy returns the same sale.
+COMMENT ON COLUMN public.sales.client_sale_id IS 'Identificador gerado pelo PDV antes do envio, para que reenvios não dupliquem a venda';
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+  p_client_sale_id UUID,
+  p_offline_number TEXT,
+  p_sold_at TIMESTAMPTZ,
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL,
+  p_customer_document TEXT DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT, already_synced BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_price_conflicts JSONB;
+  v_stock_conflicts JSONB;
+BEGIN
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda é obrigatório';
+  END IF;
+
+  -- Sent again after a lost response: nothing to do
+  SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END IF;
+
+  -- Prices are compared before finalize_sale so the check sees the pricing the register didn't have
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'price',
+    'product_id', item.product_id,
+    'product_name', p.name,
+    'sold_price', item.unit_price,
+    'current_price', pp.sale_price
+  )), '[]'::JSONB)
+  INTO v_price_conflicts
+  FROM (
+    SELECT DISTINCT (i->>'product_id')::UUID AS product_id, (i->>'unit_price')::NUMERIC AS unit_price
+    FROM jsonb_array_elements(p_items) i
+  ) item
+  JOIN public.products p ON p.id = item.product_id
+  JOIN public.product_pricing pp
+    ON pp.product_id = item.product_id AND pp.store_id = p_store_id AND pp.is_current
+  WHERE pp.sale_price <> item.unit_price;
+
+  BEGIN
+    SELECT f.sale_id, f.sale_number INTO v_sale_id, v_sale_number
+    FROM public.finalize_sale(
+      p_store_id, p_customer_id, p_items, p_payments, p_discount, p_delivery, p_quote_id, p_customer_document
+    ) f;
+
+    -- An offline sale keeps the time it happened at the counter; an online one only takes the id
+    UPDATE public.sales
+    SET client_sale_id = p_client_sale_id,
+        offline_number = p_offline_number,
+        synced_at = CASE WHEN p_offline_number IS NOT NULL THEN now() END,
+        created_at = CASE
+          WHEN p_offline_number IS NOT NULL THEN LEAST(COALESCE(p_sold_at, now()), now())
+          ELSE created_at
+        END
+    WHERE id = v_sale_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Sent at the same time by another tab: this attempt is undone and the other one's sale returned
+    SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+    FROM public.sales s
+    WHERE s.client_sale_id = p_client_sale_id;
+
+    IF v_sale_id IS NULL THEN
+      RAISE;
+    END IF;
+
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'stock',
+    'product_id', ps.product_id,
+    'product_name', p.name,
+    'quantity', ps.quantity
+  )), '[]'::JSONB)
+  INTO v_stock_conflicts
+  FROM public.product_stock ps
+  JOIN public.products p ON p.id = ps.product_id
+  WHERE ps.store_id = p_store_id
+    AND ps.quantity < 0
+    AND ps.product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) i);
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number, false, v_stock_conflicts || v_price_conflicts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID, TEXT) IS 'Finaliza uma venda do PDV, online ou feita offline, sem duplicar reenvios, e informa estoques negativos e preços alterados';
@@ -0,0 +1,69 @@
+-- Remittances are recorded in a single transaction
+--
+-- The NSA was reserved, the remittance inserted and its items inserted by three separate requests,
+-- so a failure in between burned a sequence number or left a remittance without items. The whole
+-- record is now created by create_payment_remittance; the file itself is still built by the client
+-- from the sequence it returns.
+DROP FUNCTION IF EXISTS public.reserve_remittance_sequence(UUID);
+
+-- p_items: [{ id, account_id, reference, amount }], ids and references generated by the client
+-- because they are written in the file
+CREATE OR REPLACE FUNCTION public.create_payment_remittance(
+  p_bank_account_id UUID,
+  p_payment_date DATE,
+  p_items JSONB
+)
+RETURNS TABLE (remittance_id UUID, file_sequence INTEGER, file_name TEXT) AS $$
+DECLARE
+  v_sequence INTEGER;
+  v_bank_code TEXT;
+  v_file_name TEXT;
+  v_total NUMERIC;
+  v_count INTEGER;
+  v_remittance_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin'::app_role) OR public.has_role(auth.uid(), 'pagador'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para gerar remessas';
+  END IF;
+
+  SELECT COALESCE(SUM((i->>'amount')::NUMERIC), 0), COUNT(*)
+  INTO v_total, v_count
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) i;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nenhuma conta válida para a remessa';
+  END IF;
+
+  -- Hands out the next NSA atomically so two remittances never share a number
+  UPDATE public.bank_accounts
+  SET next_file_sequence = next_file_sequence + 1
+  WHERE id = p_bank_account_id
+    AND active
+  RETURNING next_file_sequence - 1, bank_code INTO v_sequence, v_bank_code;
+
+  IF v_sequence IS NULL THEN
+    RAISE EXCEPTION 'Conta bancária não encontrada ou inativa';
+  END IF;
+
+  v_file_name := 'CNAB240_' || v_bank_code || '_' || lpad(v_sequence::TEXT, 6, '0') || '.REM';
+
+  INSERT INTO public.payment_remittances (
+    bank_account_id, file_sequence, file_name, payment_date, total_amount, item_count, created_by
+  )
+  VALUES (p_bank_account_id, v_sequence, v_file_name, p_payment_date, v_total, v_count, auth.uid())
+  RETURNING id INTO v_remittance_id;
+
+  INSERT INTO public.payment_remittance_items (id, remittance_id, account_id, reference, amount)
+  SELECT
+    (i->>'id')::UUID,
+    v_remittance_id,
+    (i->>'account_id')::UUID,
+    i->>'reference',
+    (i->>'amount')::NUMERIC
+  FROM jsonb_array_elements(p_items) i;
+
+  RETURN QUERY SELECT v_remittance_id, v_sequence, v_file_name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.create_payment_remittance(UUID, DATE, JSONB) IS 'Reserva o NSA e registra a remessa CNAB 240 com seus itens em uma única transação';
@@ -0,0 +1,124 @@
+-- Offline sales can't be dated into a closed cash register day
+--
+-- sync_offline_sale kept the sale time sent by the register with no lower bound, so a sale synced
+-- late (or a register with a wrong clock) landed in a day whose cash was already counted and
+-- closed. The time now goes back at most 7 days, and a sale whose day is closed for the store
+-- takes the sync time instead, entering the cash of the open day. Days follow DATE(created_at),
+-- as in get_daily_sales_summary.
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+  p_client_sale_id UUID,
+  p_offline_number TEXT,
+  p_sold_at TIMESTAMPTZ,
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL,
+  p_customer_document TEXT DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT, already_synced BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_price_conflicts JSONB;
+  v_stock_conflicts JSONB;
+  v_sold_at TIMESTAMPTZ;
+BEGIN
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda é obrigatório';
+  END IF;
+
+  -- Sent again after a lost response: nothing to do
+  SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END IF;
+
+  -- Prices are compared before finalize_sale so the check sees the pricing the register didn't have
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'price',
+    'product_id', item.product_id,
+    'product_name', p.name,
+    'sold_price', item.unit_price,
+    'current_price', pp.sale_price
+  )), '[]'::JSONB)
+  INTO v_price_conflicts
+  FROM (
+    SELECT DISTINCT (i->>'product_id')::UUID AS product_id, (i->>'unit_price')::NUMERIC AS unit_price
+    FROM jsonb_array_elements(p_items) i
+  ) item
+  JOIN public.products p ON p.id = item.product_id
+  JOIN public.product_pricing pp
+    ON pp.product_id = item.product_id AND pp.store_id = p_store_id AND pp.is_current
+  WHERE pp.sale_price <> item.unit_price;
+
+  IF p_offline_number IS NOT NULL THEN
+    v_sold_at := GREATEST(LEAST(COALESCE(p_sold_at, now()), now()), now() - INTERVAL '7 days');
+
+    IF EXISTS (
+      SELECT 1
+      FROM public.cash_register_closings crc
+      WHERE crc.store_id = p_store_id
+        AND crc.closing_date = DATE(v_sold_at)
+        AND crc.status = 'closed'
+    ) THEN
+      v_sold_at := now();
+    END IF;
+  END IF;
+
+  BEGIN
+    SELECT f.sale_id, f.sale_number INTO v_sale_id, v_sale_number
+    FROM public.finalize_sale(
+      p_store_id, p_customer_id, p_items, p_payments, p_discount, p_delivery, p_quote_id, p_customer_document
+    ) f;
+
+    -- An offline sale keeps the time it happened at the counter, unless that day is already
+    -- closed; an online one only takes the id
+    UPDATE public.sales
+    SET client_sale_id = p_client_sale_id,
+        offline_number = p_offline_number,
+        synced_at = CASE WHEN p_offline_number IS NOT NULL THEN now() END,
+        created_at = COALESCE(v_sold_at, created_at)
+    WHERE id = v_sale_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Sent at the same time by another tab: this attempt is undone and the other one's sale returned
+    SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+    FROM public.sales s
+    WHERE s.client_sale_id = p_client_sale_id;
+
+    IF v_sale_id IS NULL THEN
+      RAISE;
+    END IF;
+
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'stock',
+    'product_id', ps.product_id,
+    'product_name', p.name,
+    'quantity', ps.quantity
+  )), '[]'::JSONB)
+  INTO v_stock_conflicts
+  FROM public.product_stock ps
+  JOIN public.products p ON p.id = ps.product_id
+  WHERE ps.store_id = p_store_id
+    AND ps.quantity < 0
+    AND ps.product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) i);
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number, false, v_stock_conflicts || v_price_conflicts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID, TEXT) IS 'Finaliza uma venda do PDV, online ou feita offline, sem duplicar reenvios, e informa estoques negativos e preços alterados';
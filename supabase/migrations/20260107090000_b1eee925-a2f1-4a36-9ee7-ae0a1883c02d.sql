@@ -0,0 +1,4 @@
+-- OFX FITIDs are only unique within a bank account, so the reconciliation stores them prefixed
+-- with the statement's bank and account ("0341-56789-0:000123"). The unique index on
+-- bank_transaction_id then holds per account.
+COMMENT ON COLUMN public.payments.bank_transaction_id IS 'Lançamento do extrato que concilia o pagamento: banco-conta:FITID no OFX, ou identificador da linha no CSV';
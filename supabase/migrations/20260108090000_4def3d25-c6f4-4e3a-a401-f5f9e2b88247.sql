@@ -0,0 +1,223 @@
+-- Sale number reserved before the PIX QR code is shown
+--
+-- The PIX txid is the sale number, as in the crediário payment, but a PDV sale only got its number
+-- when finalized, after the QR code was paid. The payment step now reserves the next number for the
+-- sale's client_sale_id and finalize_sale takes it, through generate_sale_number, when
+-- sync_offline_sale finalizes that sale. Reservations count when numbering, so a number shown in a
+-- QR code is never given to another sale; an abandoned sale leaves its number unused.
+CREATE TABLE public.sale_number_reservations (
+  client_sale_id UUID NOT NULL PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  sale_number TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only used through the functions below
+ALTER TABLE public.sale_number_reservations ENABLE ROW LEVEL SECURITY;
+
+-- A number reserved in this transaction (set by sync_offline_sale) is used once; otherwise the
+-- next number after both sales and reservations
+CREATE OR REPLACE FUNCTION public.generate_sale_number(p_store_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_store_code TEXT;
+  v_next_number INTEGER;
+  v_reserved_number TEXT := NULLIF(current_setting('app.reserved_sale_number', true), '');
+BEGIN
+  IF v_reserved_number IS NOT NULL THEN
+    PERFORM set_config('app.reserved_sale_number', '', true);
+    RETURN v_reserved_number;
+  END IF;
+
+  SELECT code INTO v_store_code FROM public.stores WHERE id = p_store_id;
+
+  SELECT COALESCE(MAX(CAST(SPLIT_PART(numbers.sale_number, '-', 2) AS INTEGER)), 0) + 1 INTO v_next_number
+  FROM (
+    SELECT s.sale_number FROM public.sales s WHERE s.store_id = p_store_id
+    UNION ALL
+    SELECT r.sale_number FROM public.sale_number_reservations r WHERE r.store_id = p_store_id
+  ) numbers;
+
+  RETURN v_store_code || '-' || LPAD(v_next_number::TEXT, 6, '0');
+END;
+$$;
+
+-- Called again for the same sale (payment step reopened, page reloaded) it returns the same number
+CREATE OR REPLACE FUNCTION public.reserve_sale_number(p_store_id UUID, p_client_sale_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Usuário não autenticado';
+  END IF;
+
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda é obrigatório';
+  END IF;
+
+  SELECT s.sale_number INTO v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_number IS NOT NULL THEN
+    RETURN v_sale_number;
+  END IF;
+
+  -- Same lock as finalize_sale, so a reservation and a sale never take the same number
+  PERFORM pg_advisory_xact_lock(hashtext('sale_number:' || p_store_id::TEXT));
+
+  SELECT r.sale_number INTO v_sale_number
+  FROM public.sale_number_reservations r
+  WHERE r.client_sale_id = p_client_sale_id AND r.store_id = p_store_id;
+
+  IF v_sale_number IS NULL THEN
+    v_sale_number := public.generate_sale_number(p_store_id);
+
+    INSERT INTO public.sale_number_reservations (client_sale_id, store_id, sale_number)
+    VALUES (p_client_sale_id, p_store_id, v_sale_number);
+  END IF;
+
+  RETURN v_sale_number;
+END;
+$$;
+
+COMMENT ON FUNCTION public.reserve_sale_number(UUID, UUID) IS 'Reserva o número da próxima venda do PDV, usado como txid do QR code PIX antes da finalização';
+
+CREATE OR REPLACE FUNCTION public.sync_offline_sale(
+  p_client_sale_id UUID,
+  p_offline_number TEXT,
+  p_sold_at TIMESTAMPTZ,
+  p_store_id UUID,
+  p_customer_id UUID,
+  p_items JSONB,
+  p_payments JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_delivery JSONB DEFAULT NULL,
+  p_quote_id UUID DEFAULT NULL,
+  p_customer_document TEXT DEFAULT NULL
+)
+RETURNS TABLE (sale_id UUID, sale_number TEXT, already_synced BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_price_conflicts JSONB;
+  v_stock_conflicts JSONB;
+  v_sold_at TIMESTAMPTZ;
+  v_reserved_number TEXT;
+BEGIN
+  IF p_client_sale_id IS NULL THEN
+    RAISE EXCEPTION 'Identificador da venda é obrigatório';
+  END IF;
+
+  -- Sent again after a lost response: nothing to do
+  SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+  FROM public.sales s
+  WHERE s.client_sale_id = p_client_sale_id;
+
+  IF v_sale_id IS NOT NULL THEN
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END IF;
+
+  -- Prices are compared before finalize_sale so the check sees the pricing the register didn't have
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'price',
+    'product_id', item.product_id,
+    'product_name', p.name,
+    'sold_price', item.unit_price,
+    'current_price', pp.sale_price
+  )), '[]'::JSONB)
+  INTO v_price_conflicts
+  FROM (
+    SELECT DISTINCT (i->>'product_id')::UUID AS product_id, (i->>'unit_price')::NUMERIC AS unit_price
+    FROM jsonb_array_elements(p_items) i
+  ) item
+  JOIN public.products p ON p.id = item.product_id
+  JOIN public.product_pricing pp
+    ON pp.product_id = item.product_id AND pp.store_id = p_store_id AND pp.is_current
+  WHERE pp.sale_price <> item.unit_price;
+
+  IF p_offline_number IS NOT NULL THEN
+    v_sold_at := GREATEST(LEAST(COALESCE(p_sold_at, now()), now()), now() - INTERVAL '7 days');
+
+    IF EXISTS (
+      SELECT 1
+      FROM public.cash_register_closings crc
+      WHERE crc.store_id = p_store_id
+        AND crc.closing_date = DATE(v_sold_at)
+        AND crc.status = 'closed'
+    ) THEN
+      v_sold_at := now();
+    END IF;
+  END IF;
+
+  BEGIN
+    -- The number shown in the PIX QR code at the payment step becomes the sale's number
+    SELECT r.sale_number INTO v_reserved_number
+    FROM public.sale_number_reservations r
+    WHERE r.client_sale_id = p_client_sale_id AND r.store_id = p_store_id;
+
+    IF v_reserved_number IS NOT NULL THEN
+      PERFORM set_config('app.reserved_sale_number', v_reserved_number, true);
+    END IF;
+
+    SELECT f.sale_id, f.sale_number INTO v_sale_id, v_sale_number
+    FROM public.finalize_sale(
+      p_store_id, p_customer_id, p_items, p_payments, p_discount, p_delivery, p_quote_id, p_customer_document
+    ) f;
+
+    -- An offline sale keeps the time it happened at the counter, unless that day is already
+    -- closed; an online one only takes the id
+    UPDATE public.sales
+    SET client_sale_id = p_client_sale_id,
+        offline_number = p_offline_number,
+        synced_at = CASE WHEN p_offline_number IS NOT NULL THEN now() END,
+        created_at = COALESCE(v_sold_at, created_at)
+    WHERE id = v_sale_id;
+
+    DELETE FROM public.sale_number_reservations WHERE client_sale_id = p_client_sale_id;
+  EXCEPTION WHEN unique_violation THEN
+    -- Sent at the same time by another tab: this attempt is undone and the other one's sale returned
+    SELECT s.id, s.sale_number INTO v_sale_id, v_sale_number
+    FROM public.sales s
+    WHERE s.client_sale_id = p_client_sale_id;
+
+    IF v_sale_id IS NULL THEN
+      RAISE;
+    END IF;
+
+    RETURN QUERY SELECT v_sale_id, v_sale_number, true, '[]'::JSONB;
+    RETURN;
+  END;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'type', 'stock',
+    'product_id', ps.product_id,
+    'product_name', p.name,
+    'quantity', ps.quantity
+  )), '[]'::JSONB)
+  INTO v_stock_conflicts
+  FROM public.product_stock ps
+  JOIN public.products p ON p.id = ps.product_id
+  WHERE ps.store_id = p_store_id
+    AND ps.quantity < 0
+    AND ps.product_id IN (SELECT (i->>'product_id')::UUID FROM jsonb_array_elements(p_items) i);
+
+  RETURN QUERY SELECT v_sale_id, v_sale_number, false, v_stock_conflicts || v_price_conflicts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_offline_sale(UUID, TEXT, TIMESTAMPTZ, UUID, UUID, JSONB, JSONB, JSONB, JSONB, UUID, TEXT) IS 'Finaliza uma venda do PDV, online ou feita offline, sem duplicar reenvios, e informa estoques negativos e preços alterados';
@@ -0,0 +1,63 @@
+-- Expected cash summed from sale_payments.amount
+--
+-- get_daily_sales_summary took amount_tendered - change_amount for each payment, which is always
+-- sale_payments.amount: the amount is already what the payment applied to the sale after the
+-- change was given back, and change_amount is amount_tendered - amount. The summary now sums the
+-- amount directly.
+CREATE OR REPLACE FUNCTION public.get_daily_sales_summary(
+  p_store_id UUID,
+  p_date DATE
+)
+RETURNS TABLE (
+  total_sales NUMERIC,
+  total_cash NUMERIC,
+  total_card NUMERIC,
+  total_pix NUMERIC,
+  total_credit NUMERIC,
+  total_other NUMERIC,
+  sales_count BIGINT,
+  credit_sales_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH day_sales AS (
+    SELECT s.id, s.total
+    FROM public.sales s
+    WHERE s.store_id = p_store_id
+      AND DATE(s.created_at) = p_date
+      AND s.status = 'completed'
+  ),
+  day_payments AS (
+    SELECT
+      sp.sale_id,
+      sp.is_credit,
+      sp.amount,
+      CASE
+        WHEN sp.is_credit THEN 'credit'
+        WHEN lower(pm.code) IN ('cash', 'dinheiro') THEN 'cash'
+        WHEN lower(pm.code) IN ('debit', 'credit', 'cartao', 'cartao_credito', 'cartao_debito') THEN 'card'
+        WHEN lower(pm.code) = 'pix' THEN 'pix'
+        ELSE 'other'
+      END AS kind
+    FROM public.sale_payments sp
+    JOIN day_sales ds ON ds.id = sp.sale_id
+    LEFT JOIN public.payment_methods pm ON pm.id = sp.payment_method_id
+  )
+  SELECT
+    (SELECT COALESCE(SUM(ds.total), 0) FROM day_sales ds) AS total_sales,
+    COALESCE(SUM(CASE WHEN dp.kind = 'cash' THEN dp.amount ELSE 0 END), 0) AS total_cash,
+    COALESCE(SUM(CASE WHEN dp.kind = 'card' THEN dp.amount ELSE 0 END), 0) AS total_card,
+    COALESCE(SUM(CASE WHEN dp.kind = 'pix' THEN dp.amount ELSE 0 END), 0) AS total_pix,
+    COALESCE(SUM(CASE WHEN dp.kind = 'credit' THEN dp.amount ELSE 0 END), 0) AS total_credit,
+    COALESCE(SUM(CASE WHEN dp.kind = 'other' THEN dp.amount ELSE 0 END), 0) AS total_other,
+    (SELECT COUNT(*) FROM day_sales) AS sales_count,
+    COUNT(DISTINCT CASE WHEN dp.kind = 'credit' THEN dp.sale_id END) AS credit_sales_count
+  FROM day_payments dp;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_daily_sales_summary(UUID, DATE) IS 'Resumo de vendas do dia por forma de pagamento; o dinheiro esperado é o valor aplicado na venda, já sem o troco';